@@ -0,0 +1,402 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Badge,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Center,
+  Container,
+  Flex,
+  HStack,
+  Heading,
+  Icon,
+  Input,
+  Select,
+  Spinner,
+  Tab,
+  TabList,
+  Table,
+  TableContainer,
+  Tabs,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  VStack,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { FiClipboard } from 'react-icons/fi';
+import MainLayout from '@/app/components/layout/main-layout';
+import { getPropertyUrl } from '@/lib/utils/data-helpers';
+import { useUrlFilters } from '@/lib/hooks/use-url-filters';
+import { DEFAULT_LOG_PAGE_SIZE, EXPORT_DATASETS } from '@/lib/utils/audit-log';
+import { TAuditEntry, TAuditSource, TExportLogEntry, TLogPage } from '@/types/property';
+
+const TABS = ['changes', 'exports'] as const;
+
+const DEFAULT_FILTERS = {
+  tab: 'changes',
+  locationCode: '',
+  actor: '',
+  source: '',
+  user: '',
+  dataset: '',
+  from: '',
+  to: '',
+  page: 1,
+};
+
+const SOURCES: { value: TAuditSource; label: string; color: string }[] = [
+  { value: 'import', label: 'Import', color: 'purple' },
+  { value: 'ui', label: 'App', color: 'blue' },
+  { value: 'api', label: 'API', color: 'cyan' },
+  { value: 'sql', label: 'SQL', color: 'gray' },
+];
+
+// Wait for typing to pause before querying
+const FILTER_DELAY_MS = 300;
+
+function formatTimestamp(value: string): string {
+  return new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// Changed columns as "field: before → after"; inserts and deletes show what was added or removed
+const ChangeSummary = ({ entry }: { entry: TAuditEntry }) => {
+  if (entry.operation !== 'UPDATE') {
+    const row = entry.after || entry.before || {};
+    return (
+      <Text fontSize="sm" color="gray.600">
+        {formatValue(row.real_property_asset_name)}
+        {row.city ? ` · ${row.city}, ${row.state}` : ''}
+      </Text>
+    );
+  }
+
+  return (
+    <VStack align="start" spacing={0}>
+      {entry.changedFields.map(field => (
+        <Text key={field} fontSize="sm">
+          <Text as="span" fontFamily="mono" color="gray.600">{field}</Text>
+          {': '}
+          <Text as="span" color="red.600">{formatValue(entry.before?.[field])}</Text>
+          {' → '}
+          <Text as="span" color="green.700" fontWeight="medium">{formatValue(entry.after?.[field])}</Text>
+        </Text>
+      ))}
+    </VStack>
+  );
+};
+
+const ChangesTable = ({ entries }: { entries: TAuditEntry[] }) => (
+  <TableContainer>
+    <Table variant="simple" size="sm">
+      <Thead bg="gray.50">
+        <Tr>
+          <Th>When</Th>
+          <Th>Who</Th>
+          <Th>Source</Th>
+          <Th>Change</Th>
+          <Th>Location</Th>
+          <Th>Fields</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {entries.map(entry => {
+          const source = SOURCES.find(option => option.value === entry.source);
+          return (
+            <Tr key={entry.id} verticalAlign="top">
+              <Td whiteSpace="nowrap">{formatTimestamp(entry.occurredAt)}</Td>
+              <Td>{entry.actor}</Td>
+              <Td><Badge colorScheme={source?.color}>{source?.label || entry.source}</Badge></Td>
+              <Td whiteSpace="nowrap">
+                {entry.operation.toLowerCase()} {entry.tableName === 'buildings' ? 'building' : 'lease'}
+              </Td>
+              <Td fontFamily="mono">
+                {entry.locationCode ? (
+                  <Button as={NextLink} href={getPropertyUrl(entry.locationCode)} variant="link" size="sm" fontFamily="mono">
+                    {entry.locationCode}
+                  </Button>
+                ) : '—'}
+                {entry.leaseNumber && <Text fontSize="xs" color="gray.500">{entry.leaseNumber}</Text>}
+              </Td>
+              <Td whiteSpace="normal" minW="320px"><ChangeSummary entry={entry} /></Td>
+            </Tr>
+          );
+        })}
+      </Tbody>
+    </Table>
+  </TableContainer>
+);
+
+const ExportsTable = ({ entries }: { entries: TExportLogEntry[] }) => (
+  <TableContainer>
+    <Table variant="simple" size="sm">
+      <Thead bg="gray.50">
+        <Tr>
+          <Th>When</Th>
+          <Th>Who</Th>
+          <Th>Dataset</Th>
+          <Th>Format</Th>
+          <Th isNumeric>Rows</Th>
+          <Th>Filters</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {entries.map(entry => (
+          <Tr key={entry.id}>
+            <Td whiteSpace="nowrap">{formatTimestamp(entry.createdAt)}</Td>
+            <Td>{entry.userEmail}</Td>
+            <Td>{entry.dataset}</Td>
+            <Td><Badge>{entry.format.toUpperCase()}</Badge></Td>
+            <Td isNumeric>{entry.rowCount === null ? '—' : entry.rowCount.toLocaleString()}</Td>
+            <Td fontFamily="mono" fontSize="xs" maxW="360px" overflow="hidden" textOverflow="ellipsis" title={entry.query}>
+              {entry.query ? decodeURIComponent(entry.query.replace(/\+/g, ' ')) : 'None'}
+            </Td>
+          </Tr>
+        ))}
+      </Tbody>
+    </Table>
+  </TableContainer>
+);
+
+function AuditLogContent() {
+  const { values: filters, update: updateFilters } = useUrlFilters(DEFAULT_FILTERS);
+  const [result, setResult] = useState<TLogPage<TAuditEntry | TExportLogEntry> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isExports = filters.tab === 'exports';
+  const currentPage = filters.page;
+
+  // Each tab sends only the filters its API understands
+  const params = new URLSearchParams();
+  const sent = isExports
+    ? { user: filters.user, dataset: filters.dataset }
+    : { locationCode: filters.locationCode, actor: filters.actor, source: filters.source };
+  Object.entries({ ...sent, from: filters.from, to: filters.to }).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  params.set('page', String(currentPage));
+  params.set('limit', String(DEFAULT_LOG_PAGE_SIZE));
+  const url = `/api/admin/${isExports ? 'exports' : 'audit'}?${params.toString()}`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        setError(null);
+        const response = await fetch(url);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load the log');
+        if (!cancelled) setResult(data);
+      } catch (error) {
+        console.error('❌ Error loading audit log:', error);
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Unknown error');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, FILTER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [url]);
+
+  const total = result?.total || 0;
+  const totalPages = Math.max(1, Math.ceil(total / DEFAULT_LOG_PAGE_SIZE));
+  const startIndex = (currentPage - 1) * DEFAULT_LOG_PAGE_SIZE;
+
+  return (
+    <MainLayout title="Audit Log">
+      <Container maxW="7xl" py={8}>
+        <VStack spacing={8} align="stretch">
+
+          {/* Header Section */}
+          <Box>
+            <HStack spacing={3} align="center">
+              <Icon as={FiClipboard} boxSize={8} color="blue.600" />
+              <VStack align="start" spacing={0}>
+                <Heading size="xl" color="gray.900" fontWeight="bold">
+                  Audit Log
+                </Heading>
+                <Text color="gray.600" fontSize="lg">
+                  Who changed which property record, and who downloaded what
+                </Text>
+              </VStack>
+            </HStack>
+          </Box>
+
+          <Card border="1px" borderColor="gray.100" shadow="sm">
+            <CardBody p={6}>
+              <VStack spacing={5} align="stretch">
+                <Tabs
+                  colorScheme="blue"
+                  index={Math.max(0, TABS.indexOf(filters.tab as (typeof TABS)[number]))}
+                  onChange={(index) => {
+                    setResult(null);
+                    updateFilters({ tab: TABS[index], page: 1 });
+                  }}
+                >
+                  <TabList>
+                    <Tab>Data changes</Tab>
+                    <Tab>Exports</Tab>
+                  </TabList>
+                </Tabs>
+
+                {/* Filters */}
+                <Flex gap={3} wrap="wrap" align="center">
+                  {isExports ? (
+                    <>
+                      <Input
+                        placeholder="User email"
+                        value={filters.user}
+                        onChange={(e) => updateFilters({ user: e.target.value, page: 1 })}
+                        maxW="220px"
+                        size="sm"
+                      />
+                      <Select
+                        value={filters.dataset}
+                        onChange={(e) => updateFilters({ dataset: e.target.value, page: 1 })}
+                        maxW="180px"
+                        size="sm"
+                      >
+                        <option value="">All datasets</option>
+                        {EXPORT_DATASETS.map(dataset => (
+                          <option key={dataset} value={dataset}>{dataset}</option>
+                        ))}
+                      </Select>
+                    </>
+                  ) : (
+                    <>
+                      <Input
+                        placeholder="Location code"
+                        value={filters.locationCode}
+                        onChange={(e) => updateFilters({ locationCode: e.target.value, page: 1 })}
+                        maxW="160px"
+                        size="sm"
+                        fontFamily="mono"
+                      />
+                      <Input
+                        placeholder="Changed by"
+                        value={filters.actor}
+                        onChange={(e) => updateFilters({ actor: e.target.value, page: 1 })}
+                        maxW="220px"
+                        size="sm"
+                      />
+                      <Select
+                        value={filters.source}
+                        onChange={(e) => updateFilters({ source: e.target.value, page: 1 })}
+                        maxW="160px"
+                        size="sm"
+                      >
+                        <option value="">All sources</option>
+                        {SOURCES.map(source => (
+                          <option key={source.value} value={source.value}>{source.label}</option>
+                        ))}
+                      </Select>
+                    </>
+                  )}
+                  <HStack spacing={2}>
+                    <Input
+                      type="date"
+                      value={filters.from}
+                      onChange={(e) => updateFilters({ from: e.target.value, page: 1 })}
+                      size="sm"
+                      maxW="160px"
+                    />
+                    <Text fontSize="sm" color="gray.600">to</Text>
+                    <Input
+                      type="date"
+                      value={filters.to}
+                      onChange={(e) => updateFilters({ to: e.target.value, page: 1 })}
+                      size="sm"
+                      maxW="160px"
+                    />
+                  </HStack>
+                  {loading && <Spinner size="sm" color="blue.500" />}
+                </Flex>
+
+                {error ? (
+                  <Alert status="error">
+                    <AlertIcon />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                ) : !result ? (
+                  <Center h="200px">
+                    <Spinner size="lg" color="blue.500" />
+                  </Center>
+                ) : result.entries.length === 0 ? (
+                  <Center py={8}>
+                    <Text color="gray.500">
+                      {isExports ? 'No exports match these filters' : 'No data changes match these filters'}
+                    </Text>
+                  </Center>
+                ) : isExports ? (
+                  <ExportsTable entries={result.entries as TExportLogEntry[]} />
+                ) : (
+                  <ChangesTable entries={result.entries as TAuditEntry[]} />
+                )}
+
+                {/* Pagination */}
+                <Flex justify="space-between" align="center">
+                  <Text fontSize="sm" color="gray.600">
+                    Showing {total === 0 ? 0 : startIndex + 1}-{Math.min(startIndex + DEFAULT_LOG_PAGE_SIZE, total)} of {total.toLocaleString()} {isExports ? 'exports' : 'changes'}
+                  </Text>
+
+                  <HStack spacing={2}>
+                    <Button
+                      size="sm"
+                      onClick={() => updateFilters({ page: Math.max(1, currentPage - 1) })}
+                      isDisabled={currentPage === 1}
+                      variant="outline"
+                    >
+                      Previous
+                    </Button>
+
+                    <Text fontSize="sm" color="gray.600">
+                      Page {currentPage} of {totalPages}
+                    </Text>
+
+                    <Button
+                      size="sm"
+                      onClick={() => updateFilters({ page: Math.min(totalPages, currentPage + 1) })}
+                      isDisabled={currentPage >= totalPages}
+                      variant="outline"
+                    >
+                      Next
+                    </Button>
+                  </HStack>
+                </Flex>
+              </VStack>
+            </CardBody>
+          </Card>
+        </VStack>
+      </Container>
+    </MainLayout>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function AuditLogPage() {
+  return (
+    <Suspense fallback={<MainLayout title="Audit Log"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <AuditLogContent />
+    </Suspense>
+  );
+}
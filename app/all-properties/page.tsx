@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { Suspense, useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   Box,
   Table,
@@ -27,166 +27,171 @@ import {
   AlertDescription,
   Progress,
   VStack,
+  Link,
 } from '@chakra-ui/react';
+import NextLink from 'next/link';
 import { DownloadIcon, SearchIcon } from '@chakra-ui/icons';
 import MainLayout from '@/app/components/layout/main-layout';
 import LoadingProgress from '@/app/components/ui/loading-progress';
-import { getAllBuildings, getUniqueFilterValues, getDataSourceInfo } from '@/lib/services/unified-data-service';
-import { filterPropertiesBySearch, formatNumber } from '@/lib/utils/data-helpers';
-import { TBuilding } from '@/types/property';
+import SavedViewsMenu from '@/app/components/ui/saved-views-menu';
+import CompareButton from '@/app/components/ui/compare-button';
+import WatchButton from '@/app/components/ui/watch-button';
+import { getAllBuildings, getUniqueFilterValues, getDataSourceInfo, TBuildingFilters } from '@/lib/services/unified-data-service';
+import { TBuilding, TBuildingFilterValues } from '@/types/property';
+import { getPropertyUrl } from '@/lib/utils/data-helpers';
+import { useUrlFilters } from '@/lib/hooks/use-url-filters';
+import { usePageAction } from '@/lib/hooks/use-page-actions';
+import { reportExport } from '@/lib/utils/audit-log';
+import { getRegionLabel } from '@/lib/utils/gsa-regions';
 
 const ITEMS_PER_PAGE_OPTIONS = [10, 25, 50, 100];
 
-export default function AllPropertiesPage() {
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Filter, sort and paging state kept in the URL; only values differing from these are written
+const DEFAULT_FILTERS = {
+  search: '',
+  type: 'all',
+  city: 'all',
+  state: 'all',
+  gsaRegion: 'all',
+  zipCode: 'all',
+  constructionDecade: 'all',
+  sortBy: 'realPropertyAssetName',
+  sortOrder: 'asc',
+  page: 1,
+  limit: 25,
+};
+
+function AllPropertiesContent() {
   const [properties, setProperties] = useState<TBuilding[]>([]);
-  const [filteredProperties, setFilteredProperties] = useState<TBuilding[]>([]);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [propertyTypeFilter, setPropertyTypeFilter] = useState<'all' | 'owned' | 'leased'>('all');
-  const [cityFilter, setCityFilter] = useState<string>('all');
-  const [stateFilter, setStateFilter] = useState<string>('all');
-  const [zipCodeFilter, setZipCodeFilter] = useState<string>('all');
-  const [constructionDateFilter, setConstructionDateFilter] = useState<string>('all');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(25);
-  const [sortField, setSortField] = useState<keyof TBuilding>('realPropertyAssetName');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [totalCount, setTotalCount] = useState(0);
+  const { values: urlFilters, update: updateFilters, applyQuery, query } = useUrlFilters(DEFAULT_FILTERS);
+  const {
+    search: debouncedSearchTerm,
+    type: propertyTypeFilter,
+    city: cityFilter,
+    state: stateFilter,
+    gsaRegion: regionFilter,
+    zipCode: zipCodeFilter,
+    constructionDecade: constructionDateFilter,
+    page: currentPage,
+    limit: itemsPerPage,
+  } = urlFilters;
+  const sortField = urlFilters.sortBy as keyof TBuilding;
+  const sortDirection = urlFilters.sortOrder === 'desc' ? 'desc' : 'asc';
+  const [searchTerm, setSearchTerm] = useState(debouncedSearchTerm);
   const [loading, setLoading] = useState(true);
+  const [pageLoading, setPageLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState('Initializing...');
-  const [uniqueFilterValues, setUniqueFilterValues] = useState<{
-    cities: string[];
-    states: string[];
-    zipCodes: string[];
-    constructionDecades: string[];
-  }>({ cities: [], states: [], zipCodes: [], constructionDecades: [] });
-
-  const handleProgressUpdate = (progress: number, message: string) => {
-    setLoadingProgress(progress);
-    setLoadingMessage(message);
-  };
-
-  const loadProperties = useCallback(async () => {
+  const [uniqueFilterValues, setUniqueFilterValues] = useState<TBuildingFilterValues>({
+    cities: [],
+    states: [],
+    zipCodes: [],
+    constructionDecades: [],
+    gsaRegions: [],
+    assetTypes: [],
+    statuses: [],
+  });
+  const latestRequestRef = useRef(0);
+
+  // Current filters in the shape expected by the buildings API
+  const filters = useMemo<TBuildingFilters>(() => ({
+    type: propertyTypeFilter as TBuildingFilters['type'],
+    search: debouncedSearchTerm,
+    city: cityFilter,
+    state: stateFilter,
+    gsaRegion: regionFilter === 'all' ? undefined : Number(regionFilter),
+    zipCode: zipCodeFilter,
+    constructionDecade: constructionDateFilter,
+    sortBy: sortField,
+    sortOrder: sortDirection,
+  }), [propertyTypeFilter, debouncedSearchTerm, cityFilter, stateFilter, regionFilter, zipCodeFilter, constructionDateFilter, sortField, sortDirection]);
+
+  const loadFilterValues = useCallback(async () => {
     try {
-      setLoading(true);
-      setError(null);
-      setLoadingProgress(0);
-      setLoadingMessage('Initializing...');
-      
-      const dataSourceInfo = getDataSourceInfo();
-      
       setLoadingProgress(20);
-      setLoadingMessage(`Loading from ${dataSourceInfo.description}...`);
-      
-      // Get all data without pagination for client-side filtering
-      const result = await getAllBuildings(1, 999999); // Get all records
-      const data = result.buildings;
-      
-      setLoadingProgress(60);
       setLoadingMessage('Loading filter options...');
       
-      // Get unique filter values
       const filterValues = await getUniqueFilterValues();
       setUniqueFilterValues(filterValues);
+    } catch (error) {
+      console.error('❌ Error loading filter values:', error);
+    }
+  }, []);
+
+  const loadPage = useCallback(async () => {
+    // Ignore responses from requests superseded by a later filter/page change
+    const requestId = ++latestRequestRef.current;
+
+    try {
+      setPageLoading(true);
+      setError(null);
       
-      setLoadingProgress(90);
-      setLoadingMessage('Finalizing...');
+      const dataSourceInfo = getDataSourceInfo();
+      setLoadingProgress(60);
+      setLoadingMessage(`Loading from ${dataSourceInfo.description}...`);
       
+      // Only the page being rendered is requested; filtering and sorting happen server-side
+      const result = await getAllBuildings(currentPage, itemsPerPage, filters);
+      if (requestId !== latestRequestRef.current) return;
       
-      setProperties(data);
-      setFilteredProperties(data);
+      setProperties(result.buildings);
+      setTotalCount(result.total);
       
       setLoadingProgress(100);
       setLoadingMessage('Complete!');
-      
-      if (data.length === 0) {
-        setError('No properties found. Please check your data source configuration.');
-      }
     } catch (error) {
       console.error('❌ Error loading properties:', error);
       setError(`Failed to load properties: ${error instanceof Error ? error.message : 'Unknown error'}`);
       setLoadingProgress(0);
       setLoadingMessage('Error occurred');
     } finally {
-      setLoading(false);
+      if (requestId === latestRequestRef.current) {
+        setPageLoading(false);
+        setLoading(false);
+      }
     }
-  }, []);
+  }, [currentPage, itemsPerPage, filters]);
 
   useEffect(() => {
-    loadProperties();
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+    loadFilterValues();
+  }, [loadFilterValues]);
 
   useEffect(() => {
-    let filtered = filterPropertiesBySearch(properties, searchTerm);
-    
-    // Apply property type filter
-    if (propertyTypeFilter === 'owned') {
-      filtered = filtered.filter(prop => prop.ownedOrLeased === 'F');
-    } else if (propertyTypeFilter === 'leased') {
-      filtered = filtered.filter(prop => prop.ownedOrLeased === 'L');
-    }
+    loadPage();
+  }, [loadPage]);
 
-    // Apply city filter
-    if (cityFilter !== 'all') {
-      filtered = filtered.filter(prop => prop.city === cityFilter);
-    }
-
-    // Apply state filter
-    if (stateFilter !== 'all') {
-      filtered = filtered.filter(prop => prop.state === stateFilter);
-    }
-
-    // Apply zip code filter
-    if (zipCodeFilter !== 'all') {
-      filtered = filtered.filter(prop => prop.zipCode.toString() === zipCodeFilter);
-    }
-
-    // Apply construction date filter (by decade)
-    if (constructionDateFilter !== 'all') {
-      if (constructionDateFilter === 'unknown') {
-        filtered = filtered.filter(prop => !prop.constructionDate || prop.constructionDate === 0);
-      } else {
-        const decade = parseInt(constructionDateFilter);
-        filtered = filtered.filter(prop => {
-          if (!prop.constructionDate || prop.constructionDate === 0) return false;
-          return prop.constructionDate >= decade && prop.constructionDate < decade + 10;
-        });
-      }
-    }
-    
-    setFilteredProperties(filtered);
-    setCurrentPage(1);
-  }, [properties, searchTerm, propertyTypeFilter, cityFilter, stateFilter, zipCodeFilter, constructionDateFilter]);
+  // Debounce search input so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    if (searchTerm === debouncedSearchTerm) return;
+    const timeoutId = setTimeout(() => updateFilters({ search: searchTerm, page: 1 }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [searchTerm, debouncedSearchTerm, updateFilters]);
 
-  // Reset to page 1 when items per page changes
+  // Show the search of a saved view or URL that was just applied, e.g. a palette link to this page
   useEffect(() => {
-    setCurrentPage(1);
-  }, [itemsPerPage]);
+    setSearchTerm(debouncedSearchTerm);
+  }, [debouncedSearchTerm]);
+
+  // Filter, sort and page size changes reset the page themselves; paging keeps everything else
+  const setCurrentPage = (page: number) => updateFilters({ page });
 
   const handleSort = (field: keyof TBuilding) => {
     const direction = sortField === field && sortDirection === 'asc' ? 'desc' : 'asc';
-    setSortField(field);
-    setSortDirection(direction);
-
-    const sorted = [...filteredProperties].sort((a, b) => {
-      const aValue = a[field] || '';
-      const bValue = b[field] || '';
-      
-      if (direction === 'asc') {
-        return aValue.toString().localeCompare(bValue.toString());
-      } else {
-        return bValue.toString().localeCompare(aValue.toString());
-      }
-    });
-
-    setFilteredProperties(sorted);
+    updateFilters({ sortBy: field, sortOrder: direction, page: 1 });
   };
 
-  const exportToCSV = () => {
+  const exportToCSV = async () => {
+    // Export every row matching the current filters, not just the visible page
+    const { buildings: rows } = await getAllBuildings(1, Math.max(totalCount, 1), filters);
+
     const headers = ['Property Name', 'Address', 'City', 'State', 'Zip Code', 'Construction Date', 'Type'];
     const csvContent = [
       headers.join(','),
-      ...filteredProperties.map(prop => [
+      ...rows.map(prop => [
         `"${prop.realPropertyAssetName}"`,
         `"${prop.streetAddress}"`,
         `"${prop.city}"`,
@@ -206,25 +211,32 @@ export default function AllPropertiesPage() {
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
+    reportExport('buildings', 'csv', rows.length, window.location.search.slice(1));
   };
 
   const clearAllFilters = () => {
     setSearchTerm('');
-    setPropertyTypeFilter('all');
-    setCityFilter('all');
-    setStateFilter('all');
-    setZipCodeFilter('all');
-    setConstructionDateFilter('all');
+    updateFilters({
+      search: '',
+      type: 'all',
+      city: 'all',
+      state: 'all',
+      gsaRegion: 'all',
+      zipCode: 'all',
+      constructionDecade: 'all',
+      page: 1,
+    });
   };
 
+  usePageAction('export', 'Export current view as CSV', exportToCSV);
+
   const hasActiveFilters = searchTerm || propertyTypeFilter !== 'all' || cityFilter !== 'all' || 
-    stateFilter !== 'all' || zipCodeFilter !== 'all' || constructionDateFilter !== 'all';
+    stateFilter !== 'all' || regionFilter !== 'all' || zipCodeFilter !== 'all' || constructionDateFilter !== 'all';
 
   // Pagination logic
-  const totalPages = Math.ceil(filteredProperties.length / itemsPerPage);
+  const totalPages = Math.max(1, Math.ceil(totalCount / itemsPerPage));
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const currentProperties = filteredProperties.slice(startIndex, endIndex);
+  const endIndex = startIndex + properties.length;
 
   if (loading) {
     return (
@@ -268,18 +280,22 @@ export default function AllPropertiesPage() {
               All Properties
             </Text>
             <Text fontSize="xs" color="gray.600" mt={1}>
-              {filteredProperties.length.toLocaleString()} properties found • Data source: {dataSourceInfo.description}
+              {totalCount.toLocaleString()} properties found • Data source: {dataSourceInfo.description}
+              {pageLoading && <Spinner size="xs" ml={2} />}
             </Text>
           </Box>
-          <Button
-            leftIcon={<DownloadIcon />}
-            colorScheme="blue"
-            variant="outline"
-            onClick={exportToCSV}
-            size="sm"
-          >
-            Export CSV
-          </Button>
+          <HStack spacing={2}>
+            <SavedViewsMenu page="all-properties" query={query} onApply={applyQuery} />
+            <Button
+              leftIcon={<DownloadIcon />}
+              colorScheme="blue"
+              variant="outline"
+              onClick={exportToCSV}
+              size="sm"
+            >
+              Export CSV
+            </Button>
+          </HStack>
         </Flex>
 
         {/* Filters */}
@@ -300,7 +316,7 @@ export default function AllPropertiesPage() {
 
           <Select
             value={propertyTypeFilter}
-            onChange={(e) => setPropertyTypeFilter(e.target.value as 'all' | 'owned' | 'leased')}
+            onChange={(e) => updateFilters({ type: e.target.value, page: 1 })}
             flex="1"
             size="sm"
             fontSize="sm"
@@ -314,7 +330,7 @@ export default function AllPropertiesPage() {
 
           <Select
             value={cityFilter}
-            onChange={(e) => setCityFilter(e.target.value)}
+            onChange={(e) => updateFilters({ city: e.target.value, page: 1 })}
             flex="1"
             size="sm"
             fontSize="sm"
@@ -329,7 +345,7 @@ export default function AllPropertiesPage() {
 
           <Select
             value={stateFilter}
-            onChange={(e) => setStateFilter(e.target.value)}
+            onChange={(e) => updateFilters({ state: e.target.value, page: 1 })}
             flex="1"
             size="sm"
             fontSize="sm"
@@ -342,9 +358,24 @@ export default function AllPropertiesPage() {
             ))}
           </Select>
 
+          <Select
+            value={regionFilter}
+            onChange={(e) => updateFilters({ gsaRegion: e.target.value, page: 1 })}
+            flex="1"
+            size="sm"
+            fontSize="sm"
+            bg="white"
+            borderColor="gray.300"
+          >
+            <option value="all">All Regions</option>
+            {uniqueFilterValues.gsaRegions.map(region => (
+              <option key={region} value={region}>{getRegionLabel(region)}</option>
+            ))}
+          </Select>
+
           <Select
             value={zipCodeFilter}
-            onChange={(e) => setZipCodeFilter(e.target.value)}
+            onChange={(e) => updateFilters({ zipCode: e.target.value, page: 1 })}
             flex="1"
             size="sm"
             fontSize="sm"
@@ -359,7 +390,7 @@ export default function AllPropertiesPage() {
 
           <Select
             value={constructionDateFilter}
-            onChange={(e) => setConstructionDateFilter(e.target.value)}
+            onChange={(e) => updateFilters({ constructionDecade: e.target.value, page: 1 })}
             flex="1"
             size="sm"
             fontSize="sm"
@@ -492,21 +523,35 @@ export default function AllPropertiesPage() {
               </Tr>
             </Thead>
             <Tbody>
-              {currentProperties.map((property, index) => (
+              {properties.map((property, index) => (
                 <Tr
                   key={`${property.locationCode}-${index}`}
                   _hover={{ bg: 'gray.50' }}
                   transition="background-color 0.2s"
                 >
                   <Td py={4}>
-                    <Text fontWeight="medium" fontSize="sm" noOfLines={2}>
+                    <Link
+                      as={NextLink}
+                      href={getPropertyUrl(property.locationCode)}
+                      fontWeight="medium"
+                      fontSize="sm"
+                      color="blue.600"
+                      noOfLines={2}
+                    >
                       {property.realPropertyAssetName}
-                    </Text>
+                    </Link>
                     {property.installationName && (
                       <Text fontSize="xs" color="gray.600" noOfLines={1}>
                         {property.installationName}
                       </Text>
                     )}
+                    <HStack spacing={1} mt={2}>
+                      <CompareButton
+                        locationCode={property.locationCode}
+                        name={property.realPropertyAssetName}
+                      />
+                      <WatchButton locationCode={property.locationCode} size="xs" />
+                    </HStack>
                   </Td>
                   <Td py={4}>
                     <Text fontSize="sm" noOfLines={2}>
@@ -547,13 +592,13 @@ export default function AllPropertiesPage() {
         <Flex justify="space-between" align="center" mt={6}>
           <HStack spacing={4}>
             <Text fontSize="sm" color="gray.600">
-              Showing {startIndex + 1}-{Math.min(endIndex, filteredProperties.length)} of {filteredProperties.length.toLocaleString()} results
+              Showing {totalCount === 0 ? 0 : startIndex + 1}-{endIndex} of {totalCount.toLocaleString()} results
             </Text>
             <HStack spacing={2}>
               <Text fontSize="sm" color="gray.600">Items per page:</Text>
               <Select
                 value={itemsPerPage}
-                onChange={(e) => setItemsPerPage(Number(e.target.value))}
+                onChange={(e) => updateFilters({ limit: Number(e.target.value), page: 1 })}
                 size="sm"
                 w="20"
                 bg="white"
@@ -659,4 +704,13 @@ export default function AllPropertiesPage() {
       </Box>
     </MainLayout>
   );
-} 
\ No newline at end of file
+} 
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function AllPropertiesPage() {
+  return (
+    <Suspense fallback={<MainLayout title="All Properties"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <AllPropertiesContent />
+    </Suspense>
+  );
+}
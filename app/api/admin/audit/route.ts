@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { parseAuditQuery } from '@/lib/utils/query-params';
+
+// Changes to buildings and leases, newest first, filtered by locationCode, actor, source, from and to
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseAuditQuery(searchParams);
+    const dataSource = await getDataSource();
+
+    const { entries, total } = await dataSource.listAuditEntries(query);
+    return NextResponse.json({ entries, total, page: query.page || 1 });
+
+  } catch (error) {
+    console.error('Error in audit log API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserDataStore } from '@/lib/user-data';
+import { parseExportLogQuery } from '@/lib/utils/query-params';
+
+// Downloads by every user, newest first, filtered by user, dataset, from and to
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseExportLogQuery(searchParams);
+    const store = await getUserDataStore();
+
+    const { entries, total } = await store.listExports(query);
+    return NextResponse.json({ entries, total, page: query.page || 1 });
+
+  } catch (error) {
+    console.error('Error in export log API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load export log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { recordExport } from '@/lib/services/export-log-service';
+import { buildCoLocationReport, findCoLocationMatches, toCoLocationCsv } from '@/lib/utils/co-location';
+import { exportFilename } from '@/lib/utils/geo-export';
+import { parseCoLocationQuery } from '@/lib/utils/query-params';
+
+// Active leases that nearby owned buildings could absorb; format=csv downloads every match
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseCoLocationQuery(searchParams);
+    const dataSource = await getDataSource();
+
+    const [{ buildings }, { leases }] = await Promise.all([
+      dataSource.listBuildings(),
+      dataSource.listLeases(),
+    ]);
+
+    if (searchParams.get('format') === 'csv') {
+      const { matches } = findCoLocationMatches(buildings, leases, query);
+      await recordExport(request, 'co-location', 'csv', matches.length);
+      return new NextResponse(toCoLocationCsv(matches), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${exportFilename('co-location', 'csv')}"`,
+        },
+      });
+    }
+
+    return NextResponse.json(buildCoLocationReport(buildings, leases, query));
+
+  } catch (error) {
+    console.error('Error in co-location API:', error);
+    return NextResponse.json(
+      { error: 'Failed to find co-location candidates' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { buildUtilizationReport } from '@/lib/utils/space-utilization';
+import { parseUtilizationQuery } from '@/lib/utils/query-params';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseUtilizationQuery(searchParams);
+    const dataSource = await getDataSource();
+
+    const { buildings } = await dataSource.listBuildings();
+    return NextResponse.json(buildUtilizationReport(buildings, query));
+
+  } catch (error) {
+    console.error('Error in utilization API:', error);
+    return NextResponse.json(
+      { error: 'Failed to build space utilization report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider } from '@/lib/auth';
+import { clearSessionCookie, getSession, setSessionCookie } from '@/lib/auth/session';
+
+// The signed-in user, or null
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSession(request);
+    return NextResponse.json({ user });
+
+  } catch (error) {
+    console.error('Error in session API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load session' },
+      { status: 500 }
+    );
+  }
+}
+
+// Sign in with { email, password }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const email = typeof body?.email === 'string' ? body.email.trim() : '';
+    const password = typeof body?.password === 'string' ? body.password : '';
+    if (!email || !password) {
+      return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+    }
+
+    const provider = await getAuthProvider();
+    const user = await provider.signIn(email, password);
+    if (!user) {
+      return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+    }
+
+    return setSessionCookie(NextResponse.json({ user }), user);
+
+  } catch (error) {
+    console.error('Error in session API:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
+
+// Sign out
+export async function DELETE() {
+  return clearSessionCookie(NextResponse.json({ user: null }));
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { recordExport } from '@/lib/services/export-log-service';
+import { parseBuildingQuery } from '@/lib/utils/query-params';
+import { GEOJSON_CONTENT_TYPE, exportFilename, geoExportHeaders, toFeatureCollection } from '@/lib/utils/geo-export';
+
+// Buildings matching the GET /api/buildings filters as a GeoJSON FeatureCollection
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const dataSource = await getDataSource();
+    const { buildings } = await dataSource.listBuildings(parseBuildingQuery(searchParams));
+
+    const { content, skipped } = toFeatureCollection(buildings);
+
+    await recordExport(request, 'buildings', 'geojson', buildings.length - skipped);
+
+    return new NextResponse(JSON.stringify(content), {
+      headers: geoExportHeaders(GEOJSON_CONTENT_TYPE, exportFilename('buildings', 'geojson'), skipped),
+    });
+
+  } catch (error) {
+    console.error('Error in buildings GeoJSON API:', error);
+    return NextResponse.json(
+      { error: 'Failed to export building data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { recordExport } from '@/lib/services/export-log-service';
+import { parseBuildingQuery } from '@/lib/utils/query-params';
+import { KML_CONTENT_TYPE, exportFilename, geoExportHeaders, toKml } from '@/lib/utils/geo-export';
+
+// Buildings matching the GET /api/buildings filters as KML placemarks
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const dataSource = await getDataSource();
+    const { buildings } = await dataSource.listBuildings(parseBuildingQuery(searchParams));
+
+    const { content, skipped } = toKml(buildings, 'Government Buildings');
+
+    await recordExport(request, 'buildings', 'kml', buildings.length - skipped);
+
+    return new NextResponse(content, {
+      headers: geoExportHeaders(KML_CONTENT_TYPE, exportFilename('buildings', 'kml'), skipped),
+    });
+
+  } catch (error) {
+    console.error('Error in buildings KML API:', error);
+    return NextResponse.json(
+      { error: 'Failed to export building data' },
+      { status: 500 }
+    );
+  }
+}
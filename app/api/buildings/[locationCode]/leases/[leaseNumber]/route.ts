@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { getCurrentUser, signInRequired } from '@/lib/user-data/current-user';
+import { editProperty } from '@/lib/services/property-edit-service';
+import { formatValidationError, validateLeaseEdit } from '@/lib/validation/property-schema';
+import { normalizeRevert } from '@/lib/utils/property-overrides';
+
+type TParams = { params: { locationCode: string; leaseNumber: string } };
+
+// Correct a lease, on every row it is listed on: { changes?: { leaseExpirationDate: '2031-06-30' }, revert?: [...] }
+export async function PATCH(request: NextRequest, { params }: TParams) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Expected a JSON object' }, { status: 400 });
+    }
+
+    const changes = validateLeaseEdit(body.changes ?? {});
+    if (!changes.success) {
+      return NextResponse.json({ error: formatValidationError(changes.error) }, { status: 400 });
+    }
+    const leaseNumber = params.leaseNumber.trim();
+    const revert = normalizeRevert(body.revert, leaseNumber);
+    if (!revert) {
+      return NextResponse.json({ error: 'revert must list editable lease fields' }, { status: 400 });
+    }
+
+    const locationCode = params.locationCode.trim().toUpperCase();
+    const dataSource = await getDataSource();
+    const lease = (await dataSource.getLeasesForBuilding(locationCode)).find(item => item.leaseNumber === leaseNumber);
+    if (!lease) {
+      return NextResponse.json(
+        { error: `Lease ${leaseNumber} not found at ${locationCode}` },
+        { status: 404 }
+      );
+    }
+
+    const effective = changes.data.leaseEffectiveDate ?? lease.leaseEffectiveDate;
+    const expiration = changes.data.leaseExpirationDate ?? lease.leaseExpirationDate;
+    if (effective && expiration && effective > expiration) {
+      return NextResponse.json({ error: 'A lease cannot expire before it takes effect' }, { status: 400 });
+    }
+
+    const overrides = await editProperty(locationCode, leaseNumber, changes.data, revert, user.email);
+    const leases = await dataSource.getLeasesForBuilding(locationCode);
+    return NextResponse.json({ leases, overrides });
+
+  } catch (error) {
+    console.error('Error in lease edit API:', error);
+    return NextResponse.json(
+      { error: 'Failed to update lease' },
+      { status: 500 }
+    );
+  }
+}
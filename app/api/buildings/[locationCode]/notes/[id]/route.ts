@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hasRole } from '@/lib/auth/roles';
+import { getUserDataStore } from '@/lib/user-data';
+import { getCurrentUser, signInRequired } from '@/lib/user-data/current-user';
+
+type TParams = { params: { locationCode: string; id: string } };
+
+// Delete a note. Authors delete their own notes; data admins may delete any.
+export async function DELETE(request: NextRequest, { params }: TParams) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const locationCode = params.locationCode.trim().toUpperCase();
+    const store = await getUserDataStore();
+
+    const note = (await store.listNotes(locationCode)).find(item => item.id === params.id);
+    if (!note) {
+      return NextResponse.json(
+        { error: `Note ${params.id} not found` },
+        { status: 404 }
+      );
+    }
+    if (note.authorId !== user.id && !hasRole(user.role, 'data-admin')) {
+      return NextResponse.json({ error: 'Only the author or a data admin can delete this note' }, { status: 403 });
+    }
+
+    await store.deleteNote(locationCode, params.id);
+    return NextResponse.json({ ok: true });
+
+  } catch (error) {
+    console.error('Error in property note API:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete note' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserDataStore } from '@/lib/user-data';
+import { getCurrentUser, signInRequired } from '@/lib/user-data/current-user';
+import { MAX_NOTE_LENGTH, normalizeNote } from '@/lib/utils/property-overrides';
+
+type TParams = { params: { locationCode: string } };
+
+// Notes on a property, newest first
+export async function GET(request: NextRequest, { params }: TParams) {
+  try {
+    const store = await getUserDataStore();
+    const notes = await store.listNotes(params.locationCode.trim().toUpperCase());
+    return NextResponse.json({ notes });
+
+  } catch (error) {
+    console.error('Error in property notes API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load notes' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add a note: { body }
+export async function POST(request: NextRequest, { params }: TParams) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const body = await request.json().catch(() => null);
+
+    const text = normalizeNote(body?.body);
+    if (!text) {
+      return NextResponse.json({ error: `A note needs text of up to ${MAX_NOTE_LENGTH} characters` }, { status: 400 });
+    }
+
+    const store = await getUserDataStore();
+    const note = await store.addNote({
+      locationCode: params.locationCode.trim().toUpperCase(),
+      body: text,
+      authorId: user.id,
+      authorEmail: user.email,
+    });
+    return NextResponse.json({ note }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error in property notes API:', error);
+    return NextResponse.json(
+      { error: 'Failed to add note' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { getUserDataStore } from '@/lib/user-data';
+import { getCurrentUser, signInRequired } from '@/lib/user-data/current-user';
+import { editProperty } from '@/lib/services/property-edit-service';
+import { formatValidationError, validateBuildingEdit } from '@/lib/validation/property-schema';
+import { normalizeRevert } from '@/lib/utils/property-overrides';
+
+type TParams = { params: { locationCode: string } };
+
+export async function GET(
+  request: NextRequest,
+  { params }: TParams
+) {
+  try {
+    const locationCode = params.locationCode.trim().toUpperCase();
+    const [dataSource, store] = await Promise.all([getDataSource(), getUserDataStore()]);
+
+    const [building, leases, overrides, tags] = await Promise.all([
+      dataSource.getBuilding(locationCode),
+      dataSource.getLeasesForBuilding(locationCode),
+      store.listOverrides(locationCode),
+      store.listTags(locationCode),
+    ]);
+
+    if (!building) {
+      return NextResponse.json(
+        { error: `Building ${locationCode} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ building, leases, overrides, tags });
+
+  } catch (error) {
+    console.error('Error in building detail API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load building data' },
+      { status: 500 }
+    );
+  }
+}
+
+// Correct building fields: { changes?: { latitude: 38.9, ... }, revert?: ['latitude'] }.
+// The corrections are kept as overrides and survive later imports.
+export async function PATCH(request: NextRequest, { params }: TParams) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Expected a JSON object' }, { status: 400 });
+    }
+
+    const changes = validateBuildingEdit(body.changes ?? {});
+    if (!changes.success) {
+      return NextResponse.json({ error: formatValidationError(changes.error) }, { status: 400 });
+    }
+    const revert = normalizeRevert(body.revert, null);
+    if (!revert) {
+      return NextResponse.json({ error: 'revert must list editable building fields' }, { status: 400 });
+    }
+
+    const locationCode = params.locationCode.trim().toUpperCase();
+    const dataSource = await getDataSource();
+    if (!await dataSource.getBuilding(locationCode)) {
+      return NextResponse.json(
+        { error: `Building ${locationCode} not found` },
+        { status: 404 }
+      );
+    }
+
+    const overrides = await editProperty(locationCode, null, changes.data, revert, user.email);
+    const building = await dataSource.getBuilding(locationCode);
+    return NextResponse.json({ building, overrides });
+
+  } catch (error) {
+    console.error('Error in building edit API:', error);
+    return NextResponse.json(
+      { error: 'Failed to update building' },
+      { status: 500 }
+    );
+  }
+}
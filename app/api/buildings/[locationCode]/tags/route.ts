@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserDataStore } from '@/lib/user-data';
+import { MAX_TAGS, MAX_TAG_LENGTH, normalizeTags } from '@/lib/utils/property-overrides';
+
+type TParams = { params: { locationCode: string } };
+
+// Replace a property's tags: { tags: ['needs survey', 'consolidation'] }
+export async function PUT(request: NextRequest, { params }: TParams) {
+  try {
+    const body = await request.json().catch(() => null);
+    const tags = normalizeTags(body?.tags);
+    if (!tags) {
+      return NextResponse.json(
+        { error: `tags must be a list of up to ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const locationCode = params.locationCode.trim().toUpperCase();
+    const store = await getUserDataStore();
+    await store.setTags(locationCode, tags);
+    return NextResponse.json({ tags });
+
+  } catch (error) {
+    console.error('Error in property tags API:', error);
+    return NextResponse.json(
+      { error: 'Failed to save tags' },
+      { status: 500 }
+    );
+  }
+}
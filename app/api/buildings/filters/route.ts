@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+
+export async function GET() {
+  try {
+    const dataSource = await getDataSource();
+    const filters = await dataSource.getFilterValues();
+    return NextResponse.json(filters);
+
+  } catch (error) {
+    console.error('Error in building filters API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load building filter values' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,28 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllBuildings, getLeasedBuildings, getOwnedBuildings, getBuildingStatistics } from '@/lib/services/supabase-data-service';
+import { getDataSource } from '@/lib/data-sources';
+import { parseBuildingQuery } from '@/lib/utils/query-params';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const type = searchParams.get('type') || 'all';
     const includeStats = searchParams.get('includeStats') === 'true';
+    const query = parseBuildingQuery(searchParams);
+    const dataSource = await getDataSource();
 
-    let buildings;
-    switch (type) {
-      case 'leased':
-        buildings = await getLeasedBuildings();
-        break;
-      case 'owned':
-        buildings = await getOwnedBuildings();
-        break;
-      default:
-        buildings = await getAllBuildings();
-    }
+    const { buildings, total } = await dataSource.listBuildings(query);
+    const page = query.page || 1;
+    const hasMore = query.limit ? page * query.limit < total : false;
 
-    const response: any = { buildings };
+    const response: any = { buildings, total, page, hasMore };
 
     if (includeStats) {
-      response.stats = await getBuildingStatistics();
+      response.stats = await dataSource.getBuildingStats();
     }
 
     return NextResponse.json(response);
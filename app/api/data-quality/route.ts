@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { buildDataQualityReport } from '@/lib/validation/data-quality';
+import { parseDataQualityQuery } from '@/lib/utils/query-params';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseDataQualityQuery(searchParams);
+    const dataSource = await getDataSource();
+
+    const [{ buildings }, { leases }] = await Promise.all([
+      dataSource.listBuildings(),
+      dataSource.listLeases(),
+    ]);
+    return NextResponse.json(buildDataQualityReport(buildings, leases, query));
+
+  } catch (error) {
+    console.error('Error in data quality API:', error);
+    return NextResponse.json(
+      { error: 'Failed to build data quality report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { buildDistrictDetail } from '@/lib/utils/congressional-districts';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  try {
+    const dataSource = await getDataSource();
+
+    const [{ buildings }, { leases }] = await Promise.all([
+      dataSource.listBuildings(),
+      dataSource.listLeases(),
+    ]);
+
+    const detail = buildDistrictDetail(params.code.trim(), buildings, leases);
+    if (!detail) {
+      return NextResponse.json(
+        { error: `District ${params.code} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(detail);
+
+  } catch (error) {
+    console.error('Error in district detail API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load district data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { buildDistrictSummaries } from '@/lib/utils/congressional-districts';
+
+export async function GET() {
+  try {
+    const dataSource = await getDataSource();
+
+    const [{ buildings }, { leases }] = await Promise.all([
+      dataSource.listBuildings(),
+      dataSource.listLeases(),
+    ]);
+    return NextResponse.json({ districts: buildDistrictSummaries(buildings, leases) });
+
+  } catch (error) {
+    console.error('Error in districts API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load congressional districts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserDataStore } from '@/lib/user-data';
+import { getCurrentUser, signInRequired } from '@/lib/user-data/current-user';
+import { EXPORT_DATASETS, EXPORT_FORMATS } from '@/lib/utils/audit-log';
+
+// Longer filter strings are cut off; page URLs are far shorter
+const MAX_QUERY_LENGTH = 2000;
+
+// Log a download built in the browser: { dataset, format, rowCount, query? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const body = await request.json().catch(() => null);
+
+    const dataset = body?.dataset;
+    const format = body?.format;
+    const rowCount = body?.rowCount;
+    if (!EXPORT_DATASETS.includes(dataset) || !EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `dataset must be one of ${EXPORT_DATASETS.join(', ')} and format one of ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(rowCount) || rowCount < 0) {
+      return NextResponse.json({ error: 'rowCount must be a whole number' }, { status: 400 });
+    }
+
+    const store = await getUserDataStore();
+    await store.logExport({
+      userId: user.id,
+      userEmail: user.email,
+      dataset,
+      format,
+      rowCount,
+      query: typeof body.query === 'string' ? body.query.slice(0, MAX_QUERY_LENGTH) : '',
+    });
+    return NextResponse.json({ ok: true }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error in exports API:', error);
+    return NextResponse.json(
+      { error: 'Failed to log export' },
+      { status: 500 }
+    );
+  }
+}
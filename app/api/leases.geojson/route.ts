@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { recordExport } from '@/lib/services/export-log-service';
+import { parseLeaseQuery } from '@/lib/utils/query-params';
+import { GEOJSON_CONTENT_TYPE, exportFilename, geoExportHeaders, toFeatureCollection } from '@/lib/utils/geo-export';
+
+// Leases matching the GET /api/leases?format=raw filters as a GeoJSON FeatureCollection
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const dataSource = await getDataSource();
+    const { leases } = await dataSource.listLeases(parseLeaseQuery(searchParams));
+
+    const { content, skipped } = toFeatureCollection(leases);
+
+    await recordExport(request, 'leases', 'geojson', leases.length - skipped);
+
+    return new NextResponse(JSON.stringify(content), {
+      headers: geoExportHeaders(GEOJSON_CONTENT_TYPE, exportFilename('leases', 'geojson'), skipped),
+    });
+
+  } catch (error) {
+    console.error('Error in leases GeoJSON API:', error);
+    return NextResponse.json(
+      { error: 'Failed to export lease data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { recordExport } from '@/lib/services/export-log-service';
+import { parseLeaseQuery } from '@/lib/utils/query-params';
+import { KML_CONTENT_TYPE, exportFilename, geoExportHeaders, toKml } from '@/lib/utils/geo-export';
+
+// Leases matching the GET /api/leases?format=raw filters as KML placemarks
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const dataSource = await getDataSource();
+    const { leases } = await dataSource.listLeases(parseLeaseQuery(searchParams));
+
+    const { content, skipped } = toKml(leases, 'Government Leases');
+
+    await recordExport(request, 'leases', 'kml', leases.length - skipped);
+
+    return new NextResponse(content, {
+      headers: geoExportHeaders(KML_CONTENT_TYPE, exportFilename('leases', 'kml'), skipped),
+    });
+
+  } catch (error) {
+    console.error('Error in leases KML API:', error);
+    return NextResponse.json(
+      { error: 'Failed to export lease data' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { buildContinuityReport } from '@/lib/utils/lease-continuity';
+import { parseLeaseContinuityQuery } from '@/lib/utils/query-params';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseLeaseContinuityQuery(searchParams);
+    const dataSource = await getDataSource();
+
+    // A single location only needs its own leases
+    const leases = query.locationCode
+      ? await dataSource.getLeasesForBuilding(query.locationCode)
+      : (await dataSource.listLeases()).leases;
+    return NextResponse.json(buildContinuityReport(leases, query));
+
+  } catch (error) {
+    console.error('Error in lease continuity API:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze lease continuity' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { buildLeaseForecast } from '@/lib/utils/lease-forecast';
+import { parseLeaseForecastQuery } from '@/lib/utils/query-params';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = parseLeaseForecastQuery(searchParams);
+    const dataSource = await getDataSource();
+
+    const { leases } = await dataSource.listLeases();
+    return NextResponse.json(buildLeaseForecast(leases, query));
+
+  } catch (error) {
+    console.error('Error in lease forecast API:', error);
+    return NextResponse.json(
+      { error: 'Failed to build lease expiration forecast' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,31 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllLeaseData, getLeasedBuildings, getLeaseStatistics } from '@/lib/services/supabase-data-service';
+import { getDataSource } from '@/lib/data-sources';
 import { enhanceLeasedBuildingsWithMultipleLeases } from '@/lib/services/lease-data-service';
+import { parseLeaseQuery } from '@/lib/utils/query-params';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const format = searchParams.get('format') || 'enhanced';
     const includeStats = searchParams.get('includeStats') === 'true';
+    const dataSource = await getDataSource();
 
     if (format === 'raw') {
-      // Return raw lease records for table display
-      const leaseRecords = await getAllLeaseData();
+      // Return a filtered, sorted page of raw lease records for table display
+      const query = parseLeaseQuery(searchParams);
+      const { leases, total } = await dataSource.listLeases(query);
+      const page = query.page || 1;
+      const hasMore = query.limit ? page * query.limit < total : false;
       
-      const response: any = { buildings: leaseRecords };
+      const response: any = { buildings: leases, total, page, hasMore };
       
       if (includeStats) {
-        response.stats = await getLeaseStatistics();
+        response.stats = await dataSource.getLeaseStats();
       }
       
       return NextResponse.json(response);
       
     } else {
       // Return enhanced buildings with multiple leases for Gantt chart
-      const leasedBuildings = await getLeasedBuildings();
+      const { buildings: leasedBuildings } = await dataSource.listBuildings({ type: 'leased' });
       
       // Get all lease data for enhancement
-      const allLeaseData = await getAllLeaseData();
+      const { leases: allLeaseData } = await dataSource.listLeases();
       
       // Enhance buildings with multiple lease data
       const enhancedBuildings = enhanceLeasedBuildingsWithMultipleLeases(leasedBuildings, allLeaseData);
@@ -40,7 +45,7 @@ export async function GET(request: NextRequest) {
       
       if (includeStats) {
         // Get base lease statistics
-        stats = await getLeaseStatistics();
+        stats = await dataSource.getLeaseStats();
         
         // Add multiple lease specific stats
         (stats as any).buildingsWithMultipleLeases = multiLeaseBuildings.length;
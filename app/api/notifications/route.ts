@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserDataStore } from '@/lib/user-data';
+import { getCurrentUser, signInRequired } from '@/lib/user-data/current-user';
+import { evaluateWatchlists } from '@/lib/services/watchlist-service';
+
+// The current user's watchlist alerts, newest first. Alerts that have come due since the last call are raised first.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const store = await getUserDataStore();
+
+    const watchlists = await store.listWatchlists(user.id);
+    await evaluateWatchlists(user.id, watchlists, store);
+
+    const notifications = await store.listNotifications(user.id);
+    const unread = notifications.filter(notification => !notification.readAt).length;
+    return NextResponse.json({ notifications, unread });
+
+  } catch (error) {
+    console.error('Error in notifications API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load notifications' },
+      { status: 500 }
+    );
+  }
+}
+
+// Mark { ids } as read, or every notification when no ids are given
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const body = await request.json().catch(() => null);
+    const ids = body?.ids;
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+      return NextResponse.json({ error: 'ids must be a list of notification ids' }, { status: 400 });
+    }
+
+    const store = await getUserDataStore();
+    await store.markNotificationsRead(user.id, ids || 'all');
+    return NextResponse.json({ ok: true });
+
+  } catch (error) {
+    console.error('Error in notifications API:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notifications' },
+      { status: 500 }
+    );
+  }
+}
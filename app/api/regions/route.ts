@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { buildRegionSummaries } from '@/lib/utils/gsa-regions';
+
+export async function GET() {
+  try {
+    const dataSource = await getDataSource();
+
+    const [{ buildings }, { leases }] = await Promise.all([
+      dataSource.listBuildings(),
+      dataSource.listLeases(),
+    ]);
+    return NextResponse.json({ regions: buildRegionSummaries(buildings, leases) });
+
+  } catch (error) {
+    console.error('Error in regions API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load GSA regions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserDataStore } from '@/lib/user-data';
+import { getCurrentUser, signInRequired } from '@/lib/user-data/current-user';
+
+type TParams = { params: { id: string } };
+
+export async function DELETE(request: NextRequest, { params }: TParams) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const store = await getUserDataStore();
+
+    if (!(await store.deleteSavedView(user.id, params.id))) {
+      return NextResponse.json(
+        { error: `Saved view ${params.id} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: params.id });
+
+  } catch (error) {
+    console.error('Error in saved view API:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete saved view' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserDataStore } from '@/lib/user-data';
+import { getCurrentUser, signInRequired } from '@/lib/user-data/current-user';
+import { MAX_VIEW_NAME_LENGTH, normalizeViewName, normalizeViewPage, normalizeViewQuery } from '@/lib/utils/saved-views';
+
+// The current user's saved views on one page: ?page=all-properties
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+
+    const page = normalizeViewPage(request.nextUrl.searchParams.get('page'));
+    if (!page) {
+      return NextResponse.json({ error: 'page must name a dashboard, e.g. all-properties' }, { status: 400 });
+    }
+
+    const store = await getUserDataStore();
+    const views = await store.listSavedViews(user.id, page);
+    return NextResponse.json({ views });
+
+  } catch (error) {
+    console.error('Error in saved views API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load saved views' },
+      { status: 500 }
+    );
+  }
+}
+
+// Save a view from { page, name, query }, replacing the user's view of the same name on that page
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const body = await request.json().catch(() => null);
+
+    const page = normalizeViewPage(body?.page);
+    const name = normalizeViewName(body?.name);
+    const query = normalizeViewQuery(body?.query ?? '');
+    if (!page || !name || query === null) {
+      return NextResponse.json(
+        { error: `A saved view needs a page, a name of up to ${MAX_VIEW_NAME_LENGTH} characters and a query string` },
+        { status: 400 }
+      );
+    }
+
+    const store = await getUserDataStore();
+    const view = await store.saveView(user.id, page, name, query);
+    return NextResponse.json({ view }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error in saved views API:', error);
+    return NextResponse.json(
+      { error: 'Failed to save view' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { parseSearchQuery } from '@/lib/utils/query-params';
+
+// Buildings and leases matching ?q=, best first. Typos and abbreviations like AVE or BLDG are tolerated.
+export async function GET(request: NextRequest) {
+  try {
+    const query = parseSearchQuery(request.nextUrl.searchParams);
+    if (!query.q) {
+      return NextResponse.json({ query: '', results: [] });
+    }
+
+    const dataSource = await getDataSource();
+    const results = await dataSource.search(query);
+    return NextResponse.json({ query: query.q, results });
+
+  } catch (error) {
+    console.error('Error in search API:', error);
+    return NextResponse.json(
+      { error: 'Failed to search properties' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { diffSnapshots } from '@/lib/utils/snapshot-diff';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { a: string; b: string } }
+) {
+  try {
+    const dataSource = await getDataSource();
+
+    const [from, to] = await Promise.all([
+      dataSource.getSnapshot(params.a),
+      dataSource.getSnapshot(params.b),
+    ]);
+
+    if (!from || !to) {
+      return NextResponse.json(
+        { error: `Snapshot ${from ? params.b : params.a} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(diffSnapshots(from, to));
+
+  } catch (error) {
+    console.error('Error in snapshot diff API:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare snapshots' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+
+export async function GET() {
+  try {
+    const dataSource = await getDataSource();
+    const snapshots = await dataSource.listSnapshots();
+    return NextResponse.json({ snapshots });
+
+  } catch (error) {
+    console.error('Error in snapshots API:', error);
+    return NextResponse.json(
+      { error: 'Failed to list snapshots' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getDataSource } from '@/lib/data-sources';
+import { calculateStateMetrics } from '@/lib/utils/data-helpers';
+
+export async function GET() {
+  try {
+    const dataSource = await getDataSource();
+
+    const [{ buildings }, { leases }] = await Promise.all([
+      dataSource.listBuildings(),
+      dataSource.listLeases(),
+    ]);
+    return NextResponse.json({ states: calculateStateMetrics(buildings, leases) });
+
+  } catch (error) {
+    console.error('Error in states API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load state metrics' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserDataStore, TWatchlistChanges } from '@/lib/user-data';
+import { getCurrentUser, signInRequired } from '@/lib/user-data/current-user';
+import { evaluateWatchlists } from '@/lib/services/watchlist-service';
+import { normalizeThresholds, normalizeWatchlistName } from '@/lib/utils/watchlists';
+
+type TParams = { params: { id: string } };
+
+// Location codes from a request body, trimmed and upper-cased; null when it is not a list of strings
+function readLocationCodes(value: unknown): string[] | null | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some(code => typeof code !== 'string' || !code.trim())) return null;
+  return value.map(code => code.trim().toUpperCase());
+}
+
+// One watchlist with each property's primary lease and days to expiration
+export async function GET(request: NextRequest, { params }: TParams) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const store = await getUserDataStore();
+
+    const watchlist = await store.getWatchlist(user.id, params.id);
+    if (!watchlist) {
+      return NextResponse.json(
+        { error: `Watchlist ${params.id} not found` },
+        { status: 404 }
+      );
+    }
+
+    const entries = await evaluateWatchlists(user.id, [watchlist], store);
+    return NextResponse.json({ watchlist, entries: entries.get(watchlist.id) || [] });
+
+  } catch (error) {
+    console.error('Error in watchlist API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename, change thresholds or star and unstar properties: { name?, alertThresholds?, add?, remove? }
+export async function PATCH(request: NextRequest, { params }: TParams) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Expected a JSON object' }, { status: 400 });
+    }
+
+    const changes: TWatchlistChanges = {};
+    if (body.name !== undefined) {
+      const name = normalizeWatchlistName(body.name);
+      if (!name) return NextResponse.json({ error: 'A watchlist needs a name of up to 100 characters' }, { status: 400 });
+      changes.name = name;
+    }
+    if (body.alertThresholds !== undefined) {
+      const alertThresholds = normalizeThresholds(body.alertThresholds);
+      if (!alertThresholds) return NextResponse.json({ error: 'Alert thresholds must be whole days between 1 and 3650' }, { status: 400 });
+      changes.alertThresholds = alertThresholds;
+    }
+    const add = readLocationCodes(body.add);
+    const remove = readLocationCodes(body.remove);
+    if (add === null || remove === null) {
+      return NextResponse.json({ error: 'add and remove must be lists of location codes' }, { status: 400 });
+    }
+    changes.add = add;
+    changes.remove = remove;
+
+    const store = await getUserDataStore();
+    const watchlist = await store.updateWatchlist(user.id, params.id, changes);
+    if (!watchlist) {
+      return NextResponse.json(
+        { error: `Watchlist ${params.id} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ watchlist });
+
+  } catch (error) {
+    console.error('Error in watchlist API:', error);
+    return NextResponse.json(
+      { error: 'Failed to update watchlist' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: TParams) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const store = await getUserDataStore();
+
+    if (!(await store.deleteWatchlist(user.id, params.id))) {
+      return NextResponse.json(
+        { error: `Watchlist ${params.id} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: params.id });
+
+  } catch (error) {
+    console.error('Error in watchlist API:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete watchlist' },
+      { status: 500 }
+    );
+  }
+}
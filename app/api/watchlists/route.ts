@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserDataStore } from '@/lib/user-data';
+import { getCurrentUser, signInRequired } from '@/lib/user-data/current-user';
+import { DEFAULT_ALERT_THRESHOLDS, normalizeThresholds, normalizeWatchlistName } from '@/lib/utils/watchlists';
+
+// The current user's watchlists
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const store = await getUserDataStore();
+
+    const watchlists = await store.listWatchlists(user.id);
+    return NextResponse.json({ watchlists });
+
+  } catch (error) {
+    console.error('Error in watchlists API:', error);
+    return NextResponse.json(
+      { error: 'Failed to load watchlists' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a watchlist from { name, alertThresholds? }
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user) return signInRequired();
+    const body = await request.json().catch(() => null);
+
+    const name = normalizeWatchlistName(body?.name);
+    const alertThresholds = body?.alertThresholds === undefined
+      ? DEFAULT_ALERT_THRESHOLDS
+      : normalizeThresholds(body.alertThresholds);
+    if (!name || !alertThresholds) {
+      return NextResponse.json(
+        { error: name ? 'Alert thresholds must be whole days between 1 and 3650' : 'A watchlist needs a name of up to 100 characters' },
+        { status: 400 }
+      );
+    }
+
+    const store = await getUserDataStore();
+    const watchlist = await store.createWatchlist(user.id, name, alertThresholds);
+    return NextResponse.json({ watchlist }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error in watchlists API:', error);
+    return NextResponse.json(
+      { error: 'Failed to create watchlist' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,510 @@
+'use client';
+
+import { Suspense, useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Box,
+  Container,
+  Text,
+  Spinner,
+  Center,
+  VStack,
+  Heading,
+  Badge,
+  Card,
+  CardBody,
+  HStack,
+  Icon,
+  Link,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Button,
+  Flex,
+  Select,
+  TableContainer,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { DownloadIcon } from '@chakra-ui/icons';
+import { FiShuffle } from 'react-icons/fi';
+import MainLayout from '@/app/components/layout/main-layout';
+import SavedViewsMenu from '@/app/components/ui/saved-views-menu';
+import { formatNumber, formatSquareFootage, getPropertyUrl } from '@/lib/utils/data-helpers';
+import { createMarkerIcon, loadGoogleMaps } from '@/lib/utils/google-maps';
+import { getRegionLabel } from '@/lib/utils/gsa-regions';
+import { DEFAULT_RADIUS_MILES } from '@/lib/utils/query-params';
+import { useUrlFilters } from '@/lib/hooks/use-url-filters';
+import { usePageAction } from '@/lib/hooks/use-page-actions';
+import { TBuildingFilterValues, TCoLocationMatch, TCoLocationReport } from '@/types/property';
+
+const ITEMS_PER_PAGE = 25;
+
+const RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+
+// Filters, sort and page kept in the URL; only values differing from these are written
+const DEFAULT_FILTERS = {
+  radiusMiles: DEFAULT_RADIUS_MILES,
+  state: 'all',
+  gsaRegion: 'all',
+  sortBy: 'expiration',
+  page: 1,
+};
+
+const LINE_COLOR = '#7c3aed';
+
+// Leases on the current page linked by lines to the owned buildings that could absorb them
+const CoLocationMap = ({
+  matches,
+  selected,
+  onSelect,
+}: {
+  matches: TCoLocationMatch[];
+  selected: string | null;
+  onSelect: (leaseNumber: string) => void;
+}) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const mapInstanceRef = useRef<google.maps.Map | null>(null);
+  const overlaysRef = useRef<(google.maps.Marker | google.maps.Polyline)[]>([]);
+  const [mapReady, setMapReady] = useState(false);
+  const [mapError, setMapError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const initializeMap = async () => {
+      try {
+        const google = await loadGoogleMaps();
+        if (cancelled || !mapRef.current) return;
+
+        mapInstanceRef.current = new google.maps.Map(mapRef.current, {
+          center: { lat: 39.8283, lng: -98.5795 },
+          zoom: 4,
+          mapTypeControl: false,
+          streetViewControl: false,
+        });
+        setMapReady(true);
+      } catch (error) {
+        console.error('Error initializing co-location map:', error);
+        if (!cancelled) {
+          setMapError(error instanceof Error ? error.message : 'Failed to initialize map');
+        }
+      }
+    };
+
+    initializeMap();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Redraw the markers and lines whenever the page of matches or the selected lease changes
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!mapReady || !map) return;
+
+    overlaysRef.current.forEach(overlay => overlay.setMap(null));
+    overlaysRef.current = [];
+
+    const bounds = new google.maps.LatLngBounds();
+    const ownedMarkers = new Set<string>();
+    const focused = matches.filter(match => !selected || match.leaseNumber === selected);
+
+    matches.forEach(match => {
+      const isFocused = !selected || match.leaseNumber === selected;
+      const leasePosition = { lat: match.latitude, lng: match.longitude };
+
+      const leaseMarker = new google.maps.Marker({
+        position: leasePosition,
+        map,
+        title: `${match.realPropertyAssetName} (${match.leaseNumber})`,
+        icon: createMarkerIcon('leased', match.leaseNumber === selected),
+        opacity: isFocused ? 1 : 0.4,
+      });
+      leaseMarker.addListener('click', () => onSelect(match.leaseNumber));
+      overlaysRef.current.push(leaseMarker);
+
+      match.candidates.forEach(candidate => {
+        const ownedPosition = { lat: candidate.latitude, lng: candidate.longitude };
+
+        overlaysRef.current.push(new google.maps.Polyline({
+          path: [leasePosition, ownedPosition],
+          map,
+          strokeColor: LINE_COLOR,
+          strokeOpacity: isFocused ? 0.8 : 0.15,
+          strokeWeight: match.leaseNumber === selected ? 3 : 2,
+        }));
+
+        if (!ownedMarkers.has(candidate.locationCode)) {
+          ownedMarkers.add(candidate.locationCode);
+          overlaysRef.current.push(new google.maps.Marker({
+            position: ownedPosition,
+            map,
+            title: candidate.realPropertyAssetName,
+            icon: createMarkerIcon('owned'),
+          }));
+        }
+        if (isFocused) bounds.extend(ownedPosition);
+      });
+      if (isFocused) bounds.extend(leasePosition);
+    });
+
+    if (focused.length > 0) {
+      map.fitBounds(bounds);
+    }
+  }, [matches, selected, mapReady, onSelect]);
+
+  if (mapError) {
+    return (
+      <Center h="100%" bg="gray.100">
+        <Text color="red.500" fontSize="sm" textAlign="center" px={4}>
+          {mapError}
+        </Text>
+      </Center>
+    );
+  }
+
+  return <Box ref={mapRef} h="100%" w="100%" bg="gray.100" />;
+};
+
+function CoLocationContent() {
+  const [report, setReport] = useState<TCoLocationReport | null>(null);
+  const [filterValues, setFilterValues] = useState<TBuildingFilterValues | null>(null);
+  const [selectedLease, setSelectedLease] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { values: urlFilters, update: updateFilters, applyQuery, query } = useUrlFilters(DEFAULT_FILTERS);
+  const { radiusMiles, state, gsaRegion, sortBy, page: currentPage } = urlFilters;
+
+  // Same filters for the JSON page and the CSV download
+  const filterParams = useCallback(() => {
+    const params = new URLSearchParams({ radiusMiles: String(radiusMiles), sortBy });
+    if (state !== 'all') params.set('state', state);
+    if (gsaRegion !== 'all') params.set('gsaRegion', gsaRegion);
+    return params;
+  }, [radiusMiles, state, gsaRegion, sortBy]);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = filterParams();
+      params.set('page', String(currentPage));
+      params.set('limit', String(ITEMS_PER_PAGE));
+
+      const response = await fetch(`/api/analytics/co-location?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch co-location candidates');
+      }
+      setReport(await response.json());
+      setSelectedLease(null);
+    } catch (error) {
+      console.error('❌ Error loading co-location candidates:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [filterParams, currentPage]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // Filter options only need loading once
+  useEffect(() => {
+    fetch('/api/buildings/filters')
+      .then(response => (response.ok ? response.json() : null))
+      .then(setFilterValues)
+      .catch(error => console.error('Error loading co-location filters:', error));
+  }, []);
+
+  usePageAction(
+    'export',
+    'Export current view as CSV',
+    () => window.location.assign(`/api/analytics/co-location?${filterParams()}&format=csv`),
+    Boolean(report?.total)
+  );
+
+  const toggleLease = useCallback((leaseNumber: string) => {
+    setSelectedLease(previous => (previous === leaseNumber ? null : leaseNumber));
+  }, []);
+
+  if (error) {
+    return (
+      <MainLayout title="Co-location Finder">
+        <Container maxW="7xl" py={8}>
+          <VStack spacing={6}>
+            <Alert status="error">
+              <AlertIcon />
+              <Box>
+                <AlertTitle>Error Loading Co-location Candidates</AlertTitle>
+                <AlertDescription>
+                  <Text mb={2}>{error}</Text>
+                </AlertDescription>
+              </Box>
+            </Alert>
+            <Button onClick={loadReport} colorScheme="blue">
+              Retry Loading
+            </Button>
+          </VStack>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  const total = report?.total || 0;
+  const totalPages = Math.max(1, Math.ceil(total / ITEMS_PER_PAGE));
+  const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
+
+  return (
+    <MainLayout title="Co-location Finder">
+      <Container maxW="7xl" py={8}>
+        <VStack spacing={8} align="stretch">
+
+          {/* Header Section */}
+          <Box>
+            <VStack spacing={3} align="stretch">
+              <HStack spacing={3} align="center">
+                <Icon as={FiShuffle} boxSize={8} color="blue.600" />
+                <VStack align="start" spacing={0}>
+                  <Heading size="xl" color="gray.900" fontWeight="bold">
+                    Co-location Finder
+                  </Heading>
+                  <Text color="gray.600" fontSize="lg">
+                    Active leases that nearby federally owned space could absorb
+                  </Text>
+                </VStack>
+              </HStack>
+
+              {report && (
+                <HStack spacing={3}>
+                  <Badge colorScheme="purple" px={3} py={1} borderRadius="full" fontSize="sm">
+                    {formatNumber(report.total)} of {formatNumber(report.activeLeases)} active leases
+                  </Badge>
+                  {loading && <Spinner size="sm" color="blue.500" />}
+                </HStack>
+              )}
+            </VStack>
+          </Box>
+
+          {/* Filters */}
+          <Flex gap={3} wrap="wrap" align="center">
+            <Select
+              value={radiusMiles}
+              onChange={(e) => updateFilters({ radiusMiles: Number(e.target.value), page: 1 })}
+              maxW="160px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              {(RADIUS_OPTIONS.includes(radiusMiles) ? RADIUS_OPTIONS : [...RADIUS_OPTIONS, radiusMiles].sort((a, b) => a - b))
+                .map(miles => (
+                  <option key={miles} value={miles}>Within {miles} miles</option>
+                ))}
+            </Select>
+
+            <Select
+              value={state}
+              onChange={(e) => updateFilters({ state: e.target.value, page: 1 })}
+              maxW="200px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              <option value="all">All States</option>
+              {filterValues?.states.map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </Select>
+
+            <Select
+              value={gsaRegion}
+              onChange={(e) => updateFilters({ gsaRegion: e.target.value, page: 1 })}
+              maxW="260px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              <option value="all">All GSA Regions</option>
+              {filterValues?.gsaRegions.map(region => (
+                <option key={region} value={region}>{getRegionLabel(region)}</option>
+              ))}
+            </Select>
+
+            <Select
+              value={sortBy}
+              onChange={(e) => updateFilters({ sortBy: e.target.value, page: 1 })}
+              maxW="220px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              <option value="expiration">Soonest expiration first</option>
+              <option value="fit">Best fit first</option>
+            </Select>
+
+            <Button
+              as="a"
+              href={`/api/analytics/co-location?${filterParams()}&format=csv`}
+              size="sm"
+              colorScheme="green"
+              leftIcon={<DownloadIcon />}
+              isDisabled={total === 0}
+            >
+              Export CSV
+            </Button>
+
+            <Box ml="auto">
+              <SavedViewsMenu page="co-location" query={query} onApply={applyQuery} />
+            </Box>
+          </Flex>
+
+          {!report ? (
+            <Center h="300px">
+              <VStack spacing={4}>
+                <Spinner size="lg" color="blue.500" />
+                <Text fontSize="sm" color="gray.500">Matching leases to owned space...</Text>
+              </VStack>
+            </Center>
+          ) : (
+            <>
+              <Card border="1px" borderColor="gray.100" shadow="sm" overflow="hidden">
+                <Box h="420px">
+                  <CoLocationMap matches={report.matches} selected={selectedLease} onSelect={toggleLease} />
+                </Box>
+                <HStack spacing={4} px={4} py={2} fontSize="xs" color="gray.600">
+                  <Text>Leased (blue) and owned (green) buildings on this page, linked when the owned building has room for the lease.</Text>
+                  <Text>Click a lease to focus it.</Text>
+                </HStack>
+              </Card>
+
+              <Card border="1px" borderColor="gray.100" shadow="sm">
+                <CardBody p={6}>
+                  <VStack spacing={4} align="stretch">
+                    {report.matches.length > 0 ? (
+                      <TableContainer whiteSpace="normal">
+                        <Table variant="simple" size="sm">
+                          <Thead bg="gray.50">
+                            <Tr>
+                              <Th>Lease</Th>
+                              <Th>Location</Th>
+                              <Th isNumeric>Rentable Sq Ft</Th>
+                              <Th>Expires</Th>
+                              <Th>Owned Buildings with Room</Th>
+                            </Tr>
+                          </Thead>
+                          <Tbody>
+                            {report.matches.map(match => (
+                              <Tr
+                                key={`${match.locationCode}-${match.leaseNumber}`}
+                                verticalAlign="top"
+                                bg={match.leaseNumber === selectedLease ? 'purple.50' : undefined}
+                                cursor="pointer"
+                                onClick={() => toggleLease(match.leaseNumber)}
+                              >
+                                <Td>
+                                  <VStack align="start" spacing={0}>
+                                    <Link
+                                      as={NextLink}
+                                      href={getPropertyUrl(match.locationCode)}
+                                      color="blue.600"
+                                      fontWeight="medium"
+                                      onClick={(e) => e.stopPropagation()}
+                                    >
+                                      {match.realPropertyAssetName || match.locationCode}
+                                    </Link>
+                                    <Text fontSize="xs" color="gray.500">{match.leaseNumber}</Text>
+                                  </VStack>
+                                </Td>
+                                <Td>{match.city}, {match.state}</Td>
+                                <Td isNumeric>{formatSquareFootage(match.rentableSquareFeet)}</Td>
+                                <Td>{new Date(match.leaseExpirationDate).toLocaleDateString()}</Td>
+                                <Td>
+                                  <VStack align="start" spacing={1}>
+                                    {match.candidates.map(candidate => (
+                                      <HStack key={candidate.locationCode} spacing={2}>
+                                        <Link
+                                          as={NextLink}
+                                          href={getPropertyUrl(candidate.locationCode)}
+                                          color="blue.600"
+                                          fontSize="sm"
+                                          onClick={(e) => e.stopPropagation()}
+                                        >
+                                          {candidate.realPropertyAssetName || candidate.locationCode}
+                                        </Link>
+                                        <Badge colorScheme="purple">{candidate.fitPercent.toFixed(0)}% fit</Badge>
+                                        <Text fontSize="xs" color="gray.500">
+                                          {candidate.distanceMiles.toFixed(1)} mi · {formatSquareFootage(candidate.availableSquareFeet)} available
+                                        </Text>
+                                      </HStack>
+                                    ))}
+                                  </VStack>
+                                </Td>
+                              </Tr>
+                            ))}
+                          </Tbody>
+                        </Table>
+                      </TableContainer>
+                    ) : (
+                      <Center py={8}>
+                        <Text color="gray.500">No owned building within {radiusMiles} miles has room for a lease matching these filters</Text>
+                      </Center>
+                    )}
+
+                    {/* Pagination */}
+                    <Flex justify="space-between" align="center">
+                      <Text fontSize="sm" color="gray.600">
+                        Showing {total === 0 ? 0 : startIndex + 1}-{Math.min(startIndex + ITEMS_PER_PAGE, total)} of {total.toLocaleString()} leases
+                      </Text>
+
+                      <HStack spacing={2}>
+                        <Button
+                          size="sm"
+                          onClick={() => updateFilters({ page: Math.max(1, currentPage - 1) })}
+                          isDisabled={currentPage === 1}
+                          variant="outline"
+                        >
+                          Previous
+                        </Button>
+
+                        <Text fontSize="sm" color="gray.600">
+                          Page {currentPage} of {totalPages}
+                        </Text>
+
+                        <Button
+                          size="sm"
+                          onClick={() => updateFilters({ page: Math.min(totalPages, currentPage + 1) })}
+                          isDisabled={currentPage >= totalPages}
+                          variant="outline"
+                        >
+                          Next
+                        </Button>
+                      </HStack>
+                    </Flex>
+                  </VStack>
+                </CardBody>
+              </Card>
+            </>
+          )}
+        </VStack>
+      </Container>
+    </MainLayout>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function CoLocationPage() {
+  return (
+    <Suspense fallback={<MainLayout title="Co-location Finder"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <CoLocationContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,477 @@
+'use client';
+
+import { Suspense, useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Box,
+  Container,
+  Text,
+  Spinner,
+  Center,
+  VStack,
+  Heading,
+  Badge,
+  Card,
+  CardBody,
+  HStack,
+  Icon,
+  IconButton,
+  Link,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Button,
+  FormControl,
+  FormLabel,
+  Switch,
+  TableContainer,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { CloseIcon, DownloadIcon } from '@chakra-ui/icons';
+import { FiColumns, FiPrinter } from 'react-icons/fi';
+import MainLayout from '@/app/components/layout/main-layout';
+import { TBuilding, TPropertyDetail } from '@/types/property';
+import { formatDate, formatNumber, formatSquareFootage, getPropertyUrl } from '@/lib/utils/data-helpers';
+import { decodeDistrict } from '@/lib/utils/congressional-districts';
+import { getRegionLabel, LEASED_PLACEHOLDER_YEAR } from '@/lib/utils/gsa-regions';
+import { KM_PER_MILE, calculateDistance } from '@/lib/utils/google-maps';
+import { MAX_COMPARE, MIN_COMPARE, getCompareUrl } from '@/lib/utils/compare-tray';
+import { downloadExport } from '@/lib/utils/geo-export';
+import { usePageAction } from '@/lib/hooks/use-page-actions';
+import { reportExport } from '@/lib/utils/audit-log';
+
+interface TCompareRow {
+  label: string;
+  values: string[];
+}
+
+const PRINT_CARD = { '@media print': { boxShadow: 'none', breakInside: 'avoid' } };
+const SCREEN_ONLY = { '@media print': { display: 'none' } };
+
+// Every TBuilding field, in the order the IOLP export lists them
+const BUILDING_FIELDS: { key: keyof TBuilding; label: string; format?: (building: TBuilding) => string }[] = [
+  { key: 'locationCode', label: 'Location Code' },
+  { key: 'realPropertyAssetName', label: 'Name' },
+  { key: 'installationName', label: 'Installation' },
+  { key: 'ownedOrLeased', label: 'Ownership', format: building => (building.ownedOrLeased === 'F' ? 'Owned' : 'Leased') },
+  { key: 'gsaRegion', label: 'GSA Region', format: building => getRegionLabel(building.gsaRegion) },
+  { key: 'streetAddress', label: 'Street Address' },
+  { key: 'city', label: 'City' },
+  { key: 'state', label: 'State' },
+  { key: 'zipCode', label: 'ZIP Code' },
+  { key: 'latitude', label: 'Latitude' },
+  { key: 'longitude', label: 'Longitude' },
+  { key: 'buildingRentableSquareFeet', label: 'Rentable Sq Ft', format: building => formatNumber(building.buildingRentableSquareFeet || 0) },
+  { key: 'availableSquareFeet', label: 'Available Sq Ft', format: building => formatNumber(building.availableSquareFeet || 0) },
+  { key: 'constructionDate', label: 'Construction Year' },
+  {
+    key: 'congressionalDistrict',
+    label: 'Congressional District',
+    format: building => decodeDistrict(building.congressionalDistrict)?.label || String(building.congressionalDistrict || ''),
+  },
+  { key: 'congressionalDistrictRepresentativeName', label: 'Representative' },
+  { key: 'buildingStatus', label: 'Status' },
+  { key: 'realPropertyAssetType', label: 'Asset Type' },
+];
+
+function formatField(building: TBuilding, field: (typeof BUILDING_FIELDS)[number]): string {
+  if (field.format) return field.format(building);
+  const value = building[field.key];
+  return value === undefined || value === null ? '' : String(value);
+}
+
+function getVacancy(building: TBuilding): string {
+  const rentable = building.buildingRentableSquareFeet || 0;
+  if (rentable <= 0) return 'N/A';
+  return `${((Math.min(building.availableSquareFeet || 0, rentable) / rentable) * 100).toFixed(1)}%`;
+}
+
+function getAge(building: TBuilding, currentYear: number): string {
+  if (!building.constructionDate) return 'Unknown';
+  const age = `${currentYear - building.constructionDate} years`;
+  // Most leased buildings list 2000 as a stand-in for an unknown year
+  return building.ownedOrLeased === 'L' && building.constructionDate === LEASED_PLACEHOLDER_YEAR
+    ? `${age} (${LEASED_PLACEHOLDER_YEAR} may be a placeholder)`
+    : age;
+}
+
+// Vacancy, age and lease rows derived from each building and its lease history
+function buildSummaryRows(details: TPropertyDetail[]): TCompareRow[] {
+  const currentYear = new Date().getFullYear();
+  const activeLease = (detail: TPropertyDetail) => detail.leases.find(lease => lease.leaseStatus === 'active');
+
+  return [
+    { label: 'Vacancy Rate', values: details.map(({ building }) => getVacancy(building)) },
+    { label: 'Age', values: details.map(({ building }) => getAge(building, currentYear)) },
+    { label: 'Leases Recorded', values: details.map(({ leases }) => String(leases.length)) },
+    { label: 'Active Lease', values: details.map(detail => activeLease(detail)?.leaseNumber || 'None') },
+    {
+      label: 'Active Lease Expires',
+      values: details.map(detail => {
+        const lease = activeLease(detail);
+        return lease ? formatDate(lease.leaseExpirationDate) : 'N/A';
+      }),
+    },
+  ];
+}
+
+// Straight-line miles between every pair, blank on the diagonal and where coordinates are missing
+function buildDistanceRows(details: TPropertyDetail[]): TCompareRow[] {
+  return details.map(({ building: from }) => ({
+    label: `Miles from ${from.locationCode}`,
+    values: details.map(({ building: to }) => {
+      if (from.locationCode === to.locationCode) return '';
+      if (!from.latitude || !from.longitude || !to.latitude || !to.longitude) return 'N/A';
+      return (calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude) / KM_PER_MILE).toFixed(1);
+    }),
+  }));
+}
+
+const differs = (row: TCompareRow) => new Set(row.values).size > 1;
+
+function toCompareCsv(details: TPropertyDetail[], rows: TCompareRow[]): string {
+  const cell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  return [
+    ['Field', ...details.map(({ building }) => building.locationCode)],
+    ...rows.map(row => [row.label, ...row.values]),
+  ].map(line => line.map(cell).join(',')).join('\n');
+}
+
+// Label column followed by one column per building; rows whose values differ are highlighted
+const CompareTable = ({
+  details,
+  rows,
+  highlight,
+}: {
+  details: TPropertyDetail[];
+  rows: TCompareRow[];
+  highlight: boolean;
+}) => (
+  <TableContainer whiteSpace="normal">
+    <Table variant="simple" size="sm" sx={{ tableLayout: 'fixed' }}>
+      <Thead bg="gray.50">
+        <Tr>
+          <Th w="200px">Field</Th>
+          {details.map(({ building }) => (
+            <Th key={building.locationCode}>{building.locationCode}</Th>
+          ))}
+        </Tr>
+      </Thead>
+      <Tbody>
+        {rows.map(row => {
+          const isDifferent = highlight && differs(row);
+          return (
+            <Tr key={row.label} bg={isDifferent ? 'yellow.50' : undefined}>
+              <Td fontWeight="medium" color="gray.700">{row.label}</Td>
+              {row.values.map((value, index) => (
+                <Td key={index} fontWeight={isDifferent ? 'semibold' : undefined} wordBreak="break-word">
+                  {value || '—'}
+                </Td>
+              ))}
+            </Tr>
+          );
+        })}
+      </Tbody>
+    </Table>
+  </TableContainer>
+);
+
+function CompareContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [details, setDetails] = useState<TPropertyDetail[]>([]);
+  const [missing, setMissing] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [highlight, setHighlight] = useState(true);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  const idsParam = searchParams.get('ids') || '';
+  const ids = useMemo(
+    () => Array.from(new Set(idsParam.split(',').map(id => id.trim().toUpperCase()).filter(Boolean))).slice(0, MAX_COMPARE),
+    [idsParam]
+  );
+
+  const loadDetails = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const responses = await Promise.all(ids.map(id => fetch(`/api/buildings/${encodeURIComponent(id)}`)));
+      if (responses.some(response => !response.ok && response.status !== 404)) {
+        throw new Error('Failed to fetch property data');
+      }
+
+      const found = await Promise.all(responses.map(response => (response.ok ? response.json() : null)));
+      setDetails(found.filter((detail): detail is TPropertyDetail => detail !== null));
+      setMissing(ids.filter((_, index) => !found[index]));
+    } catch (error) {
+      console.error('❌ Error loading properties to compare:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [ids]);
+
+  useEffect(() => {
+    loadDetails();
+  }, [loadDetails]);
+
+  const fieldRows = useMemo<TCompareRow[]>(
+    () => BUILDING_FIELDS.map(field => ({
+      label: field.label,
+      values: details.map(({ building }) => formatField(building, field)),
+    })),
+    [details]
+  );
+  const summaryRows = useMemo(() => buildSummaryRows(details), [details]);
+  const distanceRows = useMemo(() => buildDistanceRows(details), [details]);
+
+  const visible = (rows: TCompareRow[]) => (onlyDifferences ? rows.filter(differs) : rows);
+
+  const removeProperty = (locationCode: string) => {
+    router.replace(getCompareUrl(ids.filter(id => id !== locationCode)));
+  };
+
+  const exportCsv = () => {
+    const content = toCompareCsv(details, [...summaryRows, ...fieldRows, ...distanceRows]);
+    downloadExport(content, `compare-${new Date().toISOString().split('T')[0]}.csv`, 'text/csv');
+    reportExport('compare', 'csv', details.length, window.location.search.slice(1));
+  };
+
+  usePageAction('export', 'Export current view as CSV', exportCsv, details.length > 0);
+
+  if (error) {
+    return (
+      <MainLayout title="Compare Properties">
+        <Container maxW="7xl" py={8}>
+          <VStack spacing={6}>
+            <Alert status="error">
+              <AlertIcon />
+              <Box>
+                <AlertTitle>Error Loading Properties</AlertTitle>
+                <AlertDescription>
+                  <Text mb={2}>{error}</Text>
+                </AlertDescription>
+              </Box>
+            </Alert>
+            <Button onClick={loadDetails} colorScheme="blue">
+              Retry Loading
+            </Button>
+          </VStack>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout title="Compare Properties">
+      <Container maxW="7xl" py={8}>
+        <VStack spacing={8} align="stretch">
+
+          {/* Header Section */}
+          <HStack justify="space-between" align="start" flexWrap="wrap" spacing={4}>
+            <HStack spacing={3} align="center">
+              <Icon as={FiColumns} boxSize={8} color="purple.600" sx={SCREEN_ONLY} />
+              <VStack align="start" spacing={0}>
+                <Heading size="xl" color="gray.900" fontWeight="bold">
+                  Compare Properties
+                </Heading>
+                <Text color="gray.600" fontSize="lg">
+                  {details.length} properties side by side
+                </Text>
+              </VStack>
+            </HStack>
+
+            <HStack spacing={4} sx={SCREEN_ONLY} flexWrap="wrap">
+              <FormControl display="flex" alignItems="center" w="auto">
+                <FormLabel htmlFor="highlight-differences" mb={0} fontSize="sm">
+                  Highlight differences
+                </FormLabel>
+                <Switch id="highlight-differences" isChecked={highlight} onChange={(e) => setHighlight(e.target.checked)} />
+              </FormControl>
+              <FormControl display="flex" alignItems="center" w="auto">
+                <FormLabel htmlFor="only-differences" mb={0} fontSize="sm">
+                  Only differences
+                </FormLabel>
+                <Switch id="only-differences" isChecked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />
+              </FormControl>
+              <Button size="sm" colorScheme="green" leftIcon={<DownloadIcon />} onClick={exportCsv} isDisabled={details.length === 0}>
+                Export CSV
+              </Button>
+              <Button size="sm" colorScheme="blue" leftIcon={<FiPrinter />} onClick={() => window.print()}>
+                Print
+              </Button>
+            </HStack>
+          </HStack>
+
+          {missing.length > 0 && (
+            <Alert status="warning" sx={SCREEN_ONLY}>
+              <AlertIcon />
+              <AlertDescription>No property found for {missing.join(', ')}</AlertDescription>
+            </Alert>
+          )}
+
+          {loading ? (
+            <Center h="300px">
+              <VStack spacing={4}>
+                <Spinner size="lg" color="blue.500" />
+                <Text fontSize="sm" color="gray.500">Loading properties...</Text>
+              </VStack>
+            </Center>
+          ) : details.length < MIN_COMPARE ? (
+            <Center h="300px">
+              <VStack spacing={3}>
+                <Text color="gray.600">Pick at least {MIN_COMPARE} properties to compare.</Text>
+                <Text fontSize="sm" color="gray.500">
+                  Use the Compare buttons on All Properties, the map&apos;s property card or a lease timeline&apos;s details.
+                </Text>
+                <Button as={NextLink} href="/all-properties" size="sm" colorScheme="purple" variant="outline">
+                  Browse Properties
+                </Button>
+              </VStack>
+            </Center>
+          ) : (
+            <>
+              {/* One column per building */}
+              <Card shadow="sm" sx={PRINT_CARD}>
+                <CardBody p={6}>
+                  <TableContainer whiteSpace="normal">
+                    <Table variant="unstyled" size="sm" sx={{ tableLayout: 'fixed' }}>
+                      <Tbody>
+                        <Tr>
+                          <Td w="200px" />
+                          {details.map(({ building }) => (
+                            <Td key={building.locationCode} verticalAlign="top">
+                              <HStack align="start" justify="space-between">
+                                <VStack align="start" spacing={1}>
+                                  <Link as={NextLink} href={getPropertyUrl(building.locationCode)} color="blue.600" fontWeight="semibold">
+                                    {building.realPropertyAssetName || building.locationCode}
+                                  </Link>
+                                  <Text fontSize="xs" color="gray.500">{building.city}, {building.state}</Text>
+                                  <Badge colorScheme={building.ownedOrLeased === 'F' ? 'green' : 'blue'}>
+                                    {building.ownedOrLeased === 'F' ? 'Owned' : 'Leased'}
+                                  </Badge>
+                                </VStack>
+                                <IconButton
+                                  aria-label={`Remove ${building.locationCode} from the comparison`}
+                                  icon={<CloseIcon boxSize={2} />}
+                                  size="xs"
+                                  variant="ghost"
+                                  onClick={() => removeProperty(building.locationCode)}
+                                  sx={SCREEN_ONLY}
+                                />
+                              </HStack>
+                            </Td>
+                          ))}
+                        </Tr>
+                      </Tbody>
+                    </Table>
+                  </TableContainer>
+                </CardBody>
+              </Card>
+
+              <Card shadow="sm" sx={PRINT_CARD}>
+                <CardBody p={6}>
+                  <VStack spacing={4} align="stretch">
+                    <Heading size="md" color="gray.900">Summary</Heading>
+                    <CompareTable details={details} rows={visible(summaryRows)} highlight={highlight} />
+                  </VStack>
+                </CardBody>
+              </Card>
+
+              <Card shadow="sm" sx={PRINT_CARD}>
+                <CardBody p={6}>
+                  <VStack spacing={4} align="stretch">
+                    <Heading size="md" color="gray.900">Building Fields</Heading>
+                    <CompareTable details={details} rows={visible(fieldRows)} highlight={highlight} />
+                  </VStack>
+                </CardBody>
+              </Card>
+
+              <Card shadow="sm" sx={PRINT_CARD}>
+                <CardBody p={6}>
+                  <VStack spacing={4} align="stretch">
+                    <Heading size="md" color="gray.900">Distance Between Properties</Heading>
+                    <CompareTable details={details} rows={distanceRows} highlight={false} />
+                  </VStack>
+                </CardBody>
+              </Card>
+
+              {/* Lease history, newest first in each column */}
+              <Card shadow="sm" sx={PRINT_CARD}>
+                <CardBody p={6}>
+                  <VStack spacing={4} align="stretch">
+                    <Heading size="md" color="gray.900">Lease History</Heading>
+                    <TableContainer whiteSpace="normal">
+                      <Table variant="simple" size="sm" sx={{ tableLayout: 'fixed' }}>
+                        <Thead bg="gray.50">
+                          <Tr>
+                            <Th w="200px" />
+                            {details.map(({ building }) => (
+                              <Th key={building.locationCode}>{building.locationCode}</Th>
+                            ))}
+                          </Tr>
+                        </Thead>
+                        <Tbody>
+                          <Tr>
+                            <Td fontWeight="medium" color="gray.700" verticalAlign="top">Leases</Td>
+                            {details.map(({ building, leases }) => (
+                              <Td key={building.locationCode} verticalAlign="top">
+                                {leases.length === 0 ? (
+                                  <Text fontSize="sm" color="gray.500">No leases recorded</Text>
+                                ) : (
+                                  <VStack align="start" spacing={2}>
+                                    {[...leases].reverse().map(lease => (
+                                      <Box key={`${lease.leaseNumber}-${lease.leaseEffectiveDate}`}>
+                                        <HStack spacing={2}>
+                                          <Text fontSize="sm" fontWeight="medium">{lease.leaseNumber}</Text>
+                                          <Badge
+                                            colorScheme={lease.leaseStatus === 'active' ? 'green' : lease.leaseStatus === 'upcoming' ? 'blue' : 'gray'}
+                                            fontSize="2xs"
+                                          >
+                                            {lease.leaseStatus}
+                                          </Badge>
+                                        </HStack>
+                                        <Text fontSize="xs" color="gray.600">
+                                          {formatDate(lease.leaseEffectiveDate)} – {formatDate(lease.leaseExpirationDate)}
+                                        </Text>
+                                        <Text fontSize="xs" color="gray.500">
+                                          {formatSquareFootage(lease.buildingRentableSquareFeet || 0)}
+                                        </Text>
+                                      </Box>
+                                    ))}
+                                  </VStack>
+                                )}
+                              </Td>
+                            ))}
+                          </Tr>
+                        </Tbody>
+                      </Table>
+                    </TableContainer>
+                  </VStack>
+                </CardBody>
+              </Card>
+            </>
+          )}
+        </VStack>
+      </Container>
+    </MainLayout>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function ComparePage() {
+  return (
+    <Suspense fallback={<MainLayout title="Compare Properties"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <CompareContent />
+    </Suspense>
+  );
+}
@@ -29,7 +29,10 @@ import {
   StatHelpText,
   SimpleGrid
 } from '@chakra-ui/react';
+import NextLink from 'next/link';
 import { EnhancedLeasedBuildingWithMultipleLeases } from '@/lib/services/lease-data-service';
+import CompareButton from '@/app/components/ui/compare-button';
+import { getPropertyUrl } from '@/lib/utils/data-helpers';
 
 interface LeaseDetailModalProps {
   building: EnhancedLeasedBuildingWithMultipleLeases | null;
@@ -240,6 +243,15 @@ const LeaseDetailModal: React.FC<LeaseDetailModalProps> = ({ building, isOpen, o
         </ModalBody>
 
         <ModalFooter>
+          <Button as={NextLink} href={getPropertyUrl(building.locationCode)} variant="outline" mr={3}>
+            View Property Page
+          </Button>
+          <CompareButton
+            locationCode={building.locationCode}
+            name={building.realPropertyAssetName}
+            size="md"
+            mr={3}
+          />
           <Button colorScheme="blue" onClick={onClose}>
             Close
           </Button>
@@ -0,0 +1,83 @@
+'use client';
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Box, Center, Text } from '@chakra-ui/react';
+import { Timeline } from 'vis-timeline/standalone';
+import { DataSet } from 'vis-data';
+import { TLeaseRecord } from '@/types/property';
+
+interface LeaseHistoryTimelineProps {
+  leases: TLeaseRecord[];
+}
+
+// Bar colors per lease status, matching the badge colors used elsewhere
+const STATUS_STYLES: Record<TLeaseRecord['leaseStatus'], string> = {
+  active: 'background-color: #C6F6D5; border-color: #38A169;',
+  expired: 'background-color: #FED7D7; border-color: #E53E3E;',
+  upcoming: 'background-color: #BEE3F8; border-color: #3182CE;',
+};
+
+// Timeline of every lease recorded for a single property
+const LeaseHistoryTimeline: React.FC<LeaseHistoryTimelineProps> = ({ leases }) => {
+  const timelineRef = useRef<HTMLDivElement>(null);
+
+  // Leases without both dates cannot be drawn as a bar
+  const items = useMemo(() => {
+    return leases
+      .filter(lease => lease.leaseEffectiveDate && lease.leaseExpirationDate)
+      .map((lease, index) => ({
+        id: index,
+        content: lease.leaseNumber || 'Unknown lease',
+        start: new Date(lease.leaseEffectiveDate),
+        end: new Date(lease.leaseExpirationDate),
+        title: `<strong>${lease.leaseNumber || 'Unknown lease'}</strong><br/>
+                ${lease.leaseEffectiveDate} → ${lease.leaseExpirationDate}<br/>
+                Status: ${lease.leaseStatus}`,
+        style: STATUS_STYLES[lease.leaseStatus],
+      }))
+      .filter(item => !isNaN(item.start.getTime()) && !isNaN(item.end.getTime()));
+  }, [leases]);
+
+  useEffect(() => {
+    if (!timelineRef.current || items.length === 0) return;
+
+    const timeline = new Timeline(timelineRef.current, new DataSet(items), {
+      width: '100%',
+      margin: { item: 10, axis: 20 },
+      orientation: 'top',
+      stack: true,
+      showCurrentTime: true,
+      zoomable: true,
+      moveable: true,
+      selectable: false,
+      tooltip: {
+        followMouse: false,
+        overflowMethod: 'cap' as const,
+        delay: 300
+      }
+    });
+
+    return () => timeline.destroy();
+  }, [items]);
+
+  if (items.length === 0) {
+    return (
+      <Center h="120px" border="1px solid" borderColor="gray.200" borderRadius="md" bg="gray.50">
+        <Text fontSize="sm" color="gray.500">No dated leases to display</Text>
+      </Center>
+    );
+  }
+
+  return (
+    <Box
+      ref={timelineRef}
+      width="100%"
+      border="1px solid"
+      borderColor="gray.200"
+      borderRadius="md"
+      bg="white"
+    />
+  );
+};
+
+export default LeaseHistoryTimeline;
@@ -6,6 +6,7 @@ import { Timeline } from 'vis-timeline/standalone';
 import { DataSet } from 'vis-data';
 import { TBuilding } from '../../types/property';
 import { EnhancedLeasedBuilding, EnhancedLeasedBuildingWithMultipleLeases } from '@/lib/services/lease-data-service';
+import { getPropertyUrl } from '@/lib/utils/data-helpers';
 import LeaseDetailModal from './LeaseDetailModal';
 
 // Enhanced building interface with lease data (imported from service)
@@ -229,13 +230,33 @@ const VisTimelineGantt: React.FC<VisTimelineGanttProps> = ({
               };
             });
 
+            // Red bands for gaps between leases (holdover risk), amber for overlaps (double payment risk)
+            const continuity = useRealLeaseData ? (prop as EnhancedLeasedBuildingWithMultipleLeases).continuity : undefined;
+            const continuityBands = continuity
+              ? [...continuity.gaps, ...continuity.overlaps].map((issue, issueIndex) => ({
+                  id: `${buildingIndex}-${issue.type}-${issueIndex}`,
+                  content: '',
+                  type: 'background',
+                  start: new Date(issue.start),
+                  // Issue end dates are inclusive, background items end exclusively
+                  end: new Date(new Date(issue.end).getTime() + 24 * 60 * 60 * 1000),
+                  group: buildingIndex,
+                  buildingIndex,
+                  title: `<strong>${issue.type === 'gap' ? 'Gap between leases' : 'Overlapping leases'}</strong><br/>
+                          ${formatDate(issue.start)} – ${formatDate(issue.end)} (${issue.days} days)<br/>
+                          Leases: ${issue.leaseNumbers.join(', ')}`,
+                  className: issue.type === 'gap' ? 'lease-continuity-gap' : 'lease-continuity-overlap'
+                }))
+              : [];
+
             console.log('🏗️ Created timeline items for building:', {
               locationCode: prop.locationCode,
               itemsCount: timelineItems.length,
+              continuityBands: continuityBands.length,
               items: timelineItems
             });
 
-            return timelineItems;
+            return [...timelineItems, ...continuityBands];
           } catch (error) {
             console.warn(`❌ Error processing building at index ${buildingIndex}:`, error);
             return [];
@@ -266,7 +287,7 @@ const VisTimelineGantt: React.FC<VisTimelineGanttProps> = ({
         .map((prop, index) => ({
           id: index,
           content: `<div style="font-size: 11px; padding: 2px 4px;">
-                      <strong>${prop.realPropertyAssetName || 'Unknown'}</strong><br/>
+                      <a href="${getPropertyUrl(prop.locationCode)}" style="color: inherit;"><strong>${prop.realPropertyAssetName || 'Unknown'}</strong></a><br/>
                       <span style="color: #666;">${prop.city || 'N/A'}, ${prop.state || 'N/A'}</span>
                       ${useRealLeaseData && (prop as EnhancedLeasedBuildingWithMultipleLeases).leases && (prop as EnhancedLeasedBuildingWithMultipleLeases).leases.length > 1 
                         ? `<br/><span style="color: #0066cc; font-size: 10px;">(${(prop as EnhancedLeasedBuildingWithMultipleLeases).leases.length} leases)</span>` 
@@ -677,9 +698,23 @@ const VisTimelineGantt: React.FC<VisTimelineGanttProps> = ({
     <Box position="relative" width="100%" minHeight="400px">
       {/* Control Header */}
       <HStack justify="space-between" align="center" mb={4} px={2}>
-        <Text fontSize="sm" color="gray.600">
-          {useRealLeaseData ? 'Real lease data timeline (click buildings with multiple leases for details)' : 'Estimated lease timeline'}
-        </Text>
+        <VStack align="start" spacing={1}>
+          <Text fontSize="sm" color="gray.600">
+            {useRealLeaseData ? 'Real lease data timeline (click buildings with multiple leases for details)' : 'Estimated lease timeline'}
+          </Text>
+          {useRealLeaseData && (
+            <HStack spacing={4} fontSize="xs" color="gray.500">
+              <HStack spacing={1}>
+                <Box w="12px" h="12px" borderRadius="sm" bg="rgba(239, 68, 68, 0.4)" />
+                <Text>Gap between leases</Text>
+              </HStack>
+              <HStack spacing={1}>
+                <Box w="12px" h="12px" borderRadius="sm" bg="rgba(245, 158, 11, 0.4)" />
+                <Text>Overlapping leases</Text>
+              </HStack>
+            </HStack>
+          )}
+        </VStack>
         <HStack spacing={2}>
           <Text fontSize="sm" color="gray.600">Show:</Text>
           <Select
@@ -764,6 +799,12 @@ const VisTimelineGantt: React.FC<VisTimelineGanttProps> = ({
                 backgroundColor: '#94a3b8',
                 border: '1px solid #64748b'
               },
+              '.vis-item.vis-background.lease-continuity-gap': {
+                backgroundColor: 'rgba(239, 68, 68, 0.25)'
+              },
+              '.vis-item.vis-background.lease-continuity-overlap': {
+                backgroundColor: 'rgba(245, 158, 11, 0.25)'
+              },
               // Position tooltips above timeline items to prevent click blocking
               '.vis-tooltip': {
                 transform: 'translateY(-50px) !important',
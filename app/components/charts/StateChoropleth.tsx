@@ -0,0 +1,127 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { AlbersUsa } from '@visx/geo';
+import { useTooltip, useTooltipInPortal, defaultStyles } from '@visx/tooltip';
+import { localPoint } from '@visx/event';
+import { Box } from '@chakra-ui/react';
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import statesTopology from 'us-atlas/states-10m.json';
+import { STATE_FIPS } from '@/lib/utils/congressional-districts';
+
+interface StateFeature {
+  state: string; // Postal code
+  name: string;
+}
+
+interface StateChoroplethProps {
+  width: number;
+  height: number;
+  // Fill color per postal code; states without one are drawn in `emptyColor`
+  fills: Record<string, string>;
+  emptyColor?: string;
+  // States drawn with a heavier outline, e.g. the states of a hovered region
+  highlightedStates?: string[];
+  renderTooltip?: (state: StateFeature) => React.ReactNode;
+  onStateClick?: (state: string) => void;
+}
+
+const tooltipStyles = {
+  ...defaultStyles,
+  minWidth: 60,
+  backgroundColor: 'rgba(0,0,0,0.9)',
+  color: 'white',
+  border: 'none',
+  borderRadius: '8px',
+  padding: '12px 16px',
+  fontSize: '14px',
+  boxShadow: '0 10px 25px rgba(0,0,0,0.2)',
+};
+
+// State boundaries from us-atlas (Census cartographic boundaries, 1:10m), bundled so the map
+// needs no tile service. The Albers USA projection insets Alaska and Hawaii; the other
+// territories have no place in it and are not drawn.
+const topology = statesTopology as unknown as Topology<{ states: GeometryCollection<{ name: string }> }>;
+const stateFeatures = feature(topology, topology.objects.states).features;
+
+// Territories in the boundary data that the projection leaves out
+export const UNMAPPED_TERRITORIES = ['AS', 'GU', 'MP', 'PR', 'VI'];
+
+// Size of the projection at scale 1070, the d3 default for a 960x600 map
+const BASE_WIDTH = 960;
+const BASE_HEIGHT = 600;
+const BASE_SCALE = 1070;
+
+export default function StateChoropleth({
+  width,
+  height,
+  fills,
+  emptyColor = '#e2e8f0',
+  highlightedStates = [],
+  renderTooltip,
+  onStateClick,
+}: StateChoroplethProps) {
+  const {
+    tooltipOpen,
+    tooltipLeft,
+    tooltipTop,
+    tooltipData,
+    hideTooltip,
+    showTooltip,
+  } = useTooltip<StateFeature>();
+
+  const { containerRef, TooltipInPortal } = useTooltipInPortal({
+    scroll: true,
+  });
+
+  const highlighted = useMemo(() => new Set(highlightedStates), [highlightedStates]);
+  const scale = Math.min(width / BASE_WIDTH, height / BASE_HEIGHT) * BASE_SCALE;
+
+  if (width <= 0 || height <= 0) return null;
+
+  return (
+    <Box position="relative">
+      <svg ref={containerRef} width={width} height={height}>
+        <AlbersUsa data={stateFeatures} scale={scale} translate={[width / 2, height / 2]}>
+          {({ features }) => features.map(({ feature: stateFeature, path }) => {
+            const state = STATE_FIPS[String(stateFeature.id)];
+            if (!path || !state) return null;
+            const isHighlighted = highlighted.has(state);
+
+            return (
+              <path
+                key={state}
+                d={path}
+                fill={fills[state] || emptyColor}
+                stroke={isHighlighted ? '#1a202c' : '#ffffff'}
+                strokeWidth={isHighlighted ? 1.5 : 0.5}
+                onMouseMove={(event) => {
+                  const point = localPoint(event);
+                  showTooltip({
+                    tooltipData: { state, name: stateFeature.properties?.name || state },
+                    tooltipLeft: point?.x,
+                    tooltipTop: point?.y,
+                  });
+                }}
+                onMouseLeave={() => hideTooltip()}
+                onClick={() => onStateClick?.(state)}
+                style={{ cursor: onStateClick ? 'pointer' : 'default' }}
+              />
+            );
+          })}
+        </AlbersUsa>
+      </svg>
+
+      {tooltipOpen && tooltipData && renderTooltip && (
+        <TooltipInPortal
+          top={tooltipTop}
+          left={tooltipLeft}
+          style={tooltipStyles}
+        >
+          {renderTooltip(tooltipData)}
+        </TooltipInPortal>
+      )}
+    </Box>
+  );
+}
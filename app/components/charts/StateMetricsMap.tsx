@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { scaleLinear } from '@visx/scale';
+import { Box, HStack, Text, VStack } from '@chakra-ui/react';
+import StateChoropleth, { UNMAPPED_TERRITORIES } from '@/app/components/charts/StateChoropleth';
+import ResponsiveChart from '@/app/components/charts/ResponsiveChart';
+import { formatNumber, formatSquareFootage } from '@/lib/utils/data-helpers';
+import { TStateMetrics } from '@/types/property';
+
+export type TStateMetric = 'buildings' | 'rentableSquareFeet' | 'leasedShare' | 'vacancyRate' | 'expiringLeaseShare';
+
+// Metrics the state layer can shade by, in menu order
+export const STATE_METRICS: Record<TStateMetric, { label: string; format: (value: number) => string }> = {
+  buildings: { label: 'Property count', format: formatNumber },
+  rentableSquareFeet: { label: 'Rentable square feet', format: formatSquareFootage },
+  leasedShare: { label: 'Leased share', format: value => `${value.toFixed(1)}%` },
+  vacancyRate: { label: 'Vacancy rate', format: value => `${value.toFixed(1)}%` },
+  expiringLeaseShare: { label: 'Leases expiring within 2 years', format: value => `${value.toFixed(1)}%` },
+};
+
+const LOW_COLOR = '#dbeafe';
+const HIGH_COLOR = '#1e3a8a';
+
+interface StateMetricsMapProps {
+  states: TStateMetrics[];
+  metric: TStateMetric;
+  height?: number;
+}
+
+// States shaded from light to dark blue by one metric, with a legend and per-state tooltip
+export default function StateMetricsMap({ states, metric, height = 500 }: StateMetricsMapProps) {
+  const byState = useMemo(
+    () => Object.fromEntries(states.map(metrics => [metrics.state, metrics])),
+    [states]
+  );
+
+  // The color scale only spans the states on the map
+  const [min, max] = useMemo(() => {
+    const values = states
+      .filter(metrics => !UNMAPPED_TERRITORIES.includes(metrics.state))
+      .map(metrics => metrics[metric]);
+    return values.length ? [Math.min(...values), Math.max(...values)] : [0, 0];
+  }, [states, metric]);
+
+  const fills = useMemo(() => {
+    const colorScale = scaleLinear<string>({ domain: [min, max === min ? min + 1 : max], range: [LOW_COLOR, HIGH_COLOR] });
+    return Object.fromEntries(states.map(metrics => [metrics.state, colorScale(metrics[metric])]));
+  }, [states, metric, min, max]);
+
+  const { label, format } = STATE_METRICS[metric];
+
+  return (
+    <VStack spacing={3} align="stretch" h="100%">
+      <ResponsiveChart height={height}>
+        {({ width, height: chartHeight }) => (
+          <StateChoropleth
+            width={width}
+            height={chartHeight}
+            fills={fills}
+            renderTooltip={({ state, name }) => {
+              const metrics = byState[state];
+              if (!metrics) {
+                return <Text fontSize="sm" fontWeight="600">{name}: no properties</Text>;
+              }
+              return (
+                <Box>
+                  <Text fontSize="sm" fontWeight="600" mb={1}>{name}</Text>
+                  <Text fontSize="lg" fontWeight="bold">{format(metrics[metric])}</Text>
+                  <Text fontSize="xs">{label}</Text>
+                  <Text fontSize="xs" mt={1} opacity={0.8}>
+                    {formatNumber(metrics.buildings)} properties · {formatNumber(metrics.activeLeases)} active leases
+                  </Text>
+                </Box>
+              );
+            }}
+          />
+        )}
+      </ResponsiveChart>
+
+      {/* Legend */}
+      <HStack spacing={3} justify="center">
+        <Text fontSize="xs" color="gray.600">{format(min)}</Text>
+        <Box w="240px" h={3} borderRadius="full" bgGradient={`linear(to-r, ${LOW_COLOR}, ${HIGH_COLOR})`} />
+        <Text fontSize="xs" color="gray.600">{format(max)}</Text>
+        <Text fontSize="xs" color="gray.500">{label}</Text>
+      </HStack>
+      <Text fontSize="xs" color="gray.500" textAlign="center">
+        {UNMAPPED_TERRITORIES.join(', ')} are not drawn and not part of the color scale
+      </Text>
+    </VStack>
+  );
+}
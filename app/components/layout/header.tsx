@@ -1,21 +1,26 @@
 'use client';
 
 import {
+  Button,
   IconButton,
   Flex,
   HStack,
+  Kbd,
   Text,
   useColorModeValue,
   useDisclosure,
 } from '@chakra-ui/react';
-import { FiMenu } from 'react-icons/fi';
+import { FiMenu, FiSearch } from 'react-icons/fi';
+import NotificationsMenu from '@/app/components/ui/notifications-menu';
+import UserMenu from '@/app/components/ui/user-menu';
 
 interface HeaderProps {
   onMenuClick: () => void;
+  onSearchClick: () => void;
   title: string;
 }
 
-export default function Header({ onMenuClick, title }: HeaderProps) {
+export default function Header({ onMenuClick, onSearchClick, title }: HeaderProps) {
   return (
     <Flex
       ml={{ base: 0, md: 60 }}
@@ -49,6 +54,30 @@ export default function Header({ onMenuClick, title }: HeaderProps) {
           {title}
         </Text>
       </HStack>
+
+      <HStack ml={{ base: 0, md: 'auto' }} spacing={2}>
+        <Button
+          display={{ base: 'none', md: 'inline-flex' }}
+          variant="outline"
+          size="sm"
+          leftIcon={<FiSearch />}
+          color="gray.500"
+          fontWeight="normal"
+          onClick={onSearchClick}
+        >
+          Search
+          <Kbd ml={3}>Ctrl K</Kbd>
+        </Button>
+        <IconButton
+          display={{ base: 'flex', md: 'none' }}
+          aria-label="Search"
+          icon={<FiSearch />}
+          variant="ghost"
+          onClick={onSearchClick}
+        />
+        <NotificationsMenu />
+        <UserMenu />
+      </HStack>
     </Flex>
   );
 } 
\ No newline at end of file
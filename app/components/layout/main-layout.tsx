@@ -9,6 +9,8 @@ import {
 } from '@chakra-ui/react';
 import Sidebar from './sidebar';
 import Header from './header';
+import CompareTray from '@/app/components/ui/compare-tray';
+import CommandPalette from '@/app/components/ui/command-palette';
 
 interface MainLayoutProps {
   children: React.ReactNode;
@@ -17,10 +19,14 @@ interface MainLayoutProps {
 
 export default function MainLayout({ children, title }: MainLayoutProps) {
   const { isOpen, onOpen, onClose } = useDisclosure();
+  const palette = useDisclosure();
 
   return (
-    <Box minH="100vh" bg={useColorModeValue('gray.100', 'gray.900')}>
-      <Sidebar onClose={onClose} />
+    <Box minH="100vh" bg={useColorModeValue('gray.100', 'gray.900')} sx={{ '@media print': { bg: 'white' } }}>
+      {/* Navigation is left out of printed pages */}
+      <Box sx={{ '@media print': { display: 'none' } }}>
+        <Sidebar onClose={onClose} />
+      </Box>
       <Drawer
         autoFocus={false}
         isOpen={isOpen}
@@ -35,11 +41,16 @@ export default function MainLayout({ children, title }: MainLayoutProps) {
         </DrawerContent>
       </Drawer>
       
-      <Header onMenuClick={onOpen} title={title} />
+      <Box sx={{ '@media print': { display: 'none' } }}>
+        <Header onMenuClick={onOpen} onSearchClick={palette.onOpen} title={title} />
+      </Box>
       
-      <Box ml={{ base: 0, md: 60 }} p="4">
+      <Box ml={{ base: 0, md: 60 }} p="4" sx={{ '@media print': { ml: 0, p: 0 } }}>
         {children}
       </Box>
+
+      <CompareTray />
+      <CommandPalette isOpen={palette.isOpen} onOpen={palette.onOpen} onClose={palette.onClose} />
     </Box>
   );
 } 
\ No newline at end of file
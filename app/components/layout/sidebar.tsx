@@ -16,13 +16,41 @@ import {
   FiMap, 
   FiBarChart, 
   FiCalendar,
-  FiDatabase 
+  FiDatabase,
+  FiTrendingUp,
+  FiGitCommit,
+  FiCheckCircle,
+  FiFlag,
+  FiGrid,
+  FiPieChart,
+  FiShuffle,
+  FiStar,
+  FiClipboard
 } from 'react-icons/fi';
+import { hasRole, requiredRole } from '@/lib/auth/roles';
+import { useSession } from '@/lib/hooks/use-session';
 
 interface SidebarProps {
   onClose?: () => void;
 }
 
+// Sidebar pages, also offered in the command palette
+export const NAV_ITEMS = [
+  { name: 'All Properties', icon: FiDatabase, href: '/all-properties' },
+  { name: 'Map View', icon: FiMap, href: '/map' },
+  { name: 'Federal Owned', icon: FiBarChart, href: '/owned-dashboard' },
+  { name: 'Leased Properties', icon: FiCalendar, href: '/leased-dashboard' },
+  { name: 'Lease Forecast', icon: FiTrendingUp, href: '/lease-forecast' },
+  { name: 'What Changed', icon: FiGitCommit, href: '/snapshots' },
+  { name: 'Data Quality', icon: FiCheckCircle, href: '/data-quality' },
+  { name: 'Districts', icon: FiFlag, href: '/districts' },
+  { name: 'GSA Regions', icon: FiGrid, href: '/regions' },
+  { name: 'Space Utilization', icon: FiPieChart, href: '/utilization' },
+  { name: 'Co-location', icon: FiShuffle, href: '/co-location' },
+  { name: 'Watchlists', icon: FiStar, href: '/watchlists' },
+  { name: 'Audit Log', icon: FiClipboard, href: '/admin/audit' },
+];
+
 const NavItem = ({ 
   icon, 
   children, 
@@ -79,14 +107,9 @@ const NavItem = ({
 
 export default function Sidebar({ onClose }: SidebarProps) {
   const pathname = usePathname();
+  // Viewer links show while the session loads; pages the role cannot open are left out
+  const role = useSession()?.role ?? 'viewer';
   
-  const linkItems = [
-    { name: 'All Properties', icon: FiDatabase, href: '/all-properties' },
-    { name: 'Map View', icon: FiMap, href: '/map' },
-    { name: 'Federal Owned', icon: FiBarChart, href: '/owned-dashboard' },
-    { name: 'Leased Properties', icon: FiCalendar, href: '/leased-dashboard' },
-  ];
-
   return (
     <Box
       bg={useColorModeValue('white', 'gray.900')}
@@ -103,7 +126,7 @@ export default function Sidebar({ onClose }: SidebarProps) {
         </Text>
       </Flex>
       <VStack align="stretch" spacing={0}>
-        {linkItems.map((link) => (
+        {NAV_ITEMS.filter(link => hasRole(role, requiredRole(link.href))).map((link) => (
           <NavItem
             key={link.name}
             icon={link.icon}
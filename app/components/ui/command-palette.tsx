@@ -0,0 +1,336 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Flex,
+  Icon,
+  Input,
+  InputGroup,
+  InputLeftElement,
+  Kbd,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalOverlay,
+  Spinner,
+  Text,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { useRouter } from 'next/navigation';
+import { FiSearch } from 'react-icons/fi';
+import { NAV_ITEMS } from '@/app/components/layout/sidebar';
+import { usePageActions } from '@/lib/hooks/use-page-actions';
+import { useSession } from '@/lib/hooks/use-session';
+import { hasRole, requiredRole } from '@/lib/auth/roles';
+import { getPropertyUrl } from '@/lib/utils/data-helpers';
+import { TBuildingFilterValues, TDistrictSummary, TSearchResult } from '@/types/property';
+
+const SEARCH_DEBOUNCE_MS = 200;
+const MAX_PROPERTIES = 8;
+const MAX_PLACES = 5;
+
+interface TPaletteItem {
+  id: string;
+  group: 'Actions' | 'Properties' | 'Places' | 'Pages';
+  label: string;
+  detail?: string;
+  href?: string;
+  mapHref?: string; // Where Shift+Enter goes, for results that can be shown on the map
+  run?: () => void;
+}
+
+interface TPlaces {
+  states: string[];
+  cities: string[];
+  districts: TDistrictSummary[];
+}
+
+// Filter values and districts rarely change, so they are fetched once per page load
+let placesPromise: Promise<TPlaces> | null = null;
+
+function loadPlaces(): Promise<TPlaces> {
+  if (!placesPromise) {
+    placesPromise = Promise.all([
+      fetch('/api/buildings/filters').then(response => {
+        if (!response.ok) throw new Error(`Failed to fetch filters: ${response.statusText}`);
+        return response.json() as Promise<TBuildingFilterValues>;
+      }),
+      fetch('/api/districts').then(response => {
+        if (!response.ok) throw new Error(`Failed to fetch districts: ${response.statusText}`);
+        return response.json() as Promise<{ districts: TDistrictSummary[] }>;
+      }),
+    ]).then(([filters, { districts }]) => ({ states: filters.states, cities: filters.cities, districts }));
+    placesPromise.catch(() => {
+      placesPromise = null;
+    });
+  }
+  return placesPromise;
+}
+
+// Cities, states and districts whose names start with (or, for longer queries, contain) the query
+function matchPlaces(places: TPlaces, query: string): TPaletteItem[] {
+  const needle = query.toUpperCase();
+  const matches = (value: string) =>
+    needle.length >= 3 ? value.toUpperCase().includes(needle) : value.toUpperCase().startsWith(needle);
+
+  const states = places.states.filter(state => state.toUpperCase() === needle).map(state => ({
+    id: `state:${state}`,
+    group: 'Places' as const,
+    label: state,
+    detail: 'State · properties table',
+    href: `/all-properties?state=${encodeURIComponent(state)}`,
+  }));
+  const cities = places.cities.filter(matches).slice(0, MAX_PLACES).map(city => ({
+    id: `city:${city}`,
+    group: 'Places' as const,
+    label: city,
+    detail: 'City · properties table',
+    href: `/all-properties?city=${encodeURIComponent(city)}`,
+  }));
+  const districts = places.districts
+    .filter(district => matches(district.label) || (needle.length >= 3 && matches(district.representative)))
+    .slice(0, MAX_PLACES)
+    .map(district => ({
+      id: `district:${district.code}`,
+      group: 'Places' as const,
+      label: district.label,
+      detail: district.representative ? `District · ${district.representative}` : 'District',
+      href: `/districts/${district.code}`,
+    }));
+
+  return [...states, ...cities, ...districts];
+}
+
+function toPropertyItem(result: TSearchResult): TPaletteItem {
+  const place = [result.city, result.state].filter(Boolean).join(', ');
+  return {
+    id: `${result.kind}:${result.leaseNumber ?? result.locationCode}`,
+    group: 'Properties',
+    label: result.realPropertyAssetName || result.locationCode,
+    detail: [result.leaseNumber ? `Lease ${result.leaseNumber}` : result.locationCode, result.streetAddress, place]
+      .filter(Boolean)
+      .join(' · '),
+    href: getPropertyUrl(result.locationCode),
+    mapHref: `/map?focus=${encodeURIComponent(result.locationCode)}`,
+  };
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onOpen: () => void;
+  onClose: () => void;
+}
+
+// Ctrl/Cmd+K jump menu for properties, leases, places, pages and actions of the current page
+export default function CommandPalette({ isOpen, onOpen, onClose }: CommandPaletteProps) {
+  const router = useRouter();
+  const pageActions = usePageActions();
+  const role = useSession()?.role ?? 'viewer';
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<TSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [places, setPlaces] = useState<TPlaces | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+  const activeBg = useColorModeValue('blue.50', 'blue.900');
+  const groupColor = useColorModeValue('gray.500', 'gray.400');
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        if (isOpen) {
+          onClose();
+        } else {
+          onOpen();
+        }
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onOpen, onClose]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setResults([]);
+    loadPlaces().then(setPlaces).catch(error => console.error('Error loading palette places:', error));
+  }, [isOpen]);
+
+  // Ask the search API once typing pauses; a newer query discards older responses
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timeoutId = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(q)}&limit=${MAX_PROPERTIES}`);
+        if (!response.ok) throw new Error(`Failed to search: ${response.statusText}`);
+        const data = await response.json();
+        if (!cancelled) setResults(data.results);
+      } catch (error) {
+        console.error('Error searching properties:', error);
+        if (!cancelled) setResults([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [query]);
+
+  const items = useMemo(() => {
+    const q = query.trim();
+    const needle = q.toUpperCase();
+    const year = new Date().getFullYear();
+
+    const actions: TPaletteItem[] = [
+      ...pageActions.map(action => ({ id: `action:${action.id}`, group: 'Actions' as const, label: action.label, run: action.run })),
+      {
+        id: 'action:expiring-this-year',
+        group: 'Actions',
+        label: `Show leases expiring in ${year}`,
+        href: `/leased-dashboard?status=active&expiresBy=${year}-12-31`,
+      },
+    ];
+    const pages: TPaletteItem[] = NAV_ITEMS.filter(item => hasRole(role, requiredRole(item.href))).map(item => ({
+      id: `page:${item.href}`,
+      group: 'Pages',
+      label: item.name,
+      href: item.href,
+    }));
+
+    if (!q) return [...actions, ...pages];
+
+    return [
+      ...actions.filter(item => item.label.toUpperCase().includes(needle)),
+      ...results.map(toPropertyItem),
+      ...(places ? matchPlaces(places, q) : []),
+      ...pages.filter(item => item.label.toUpperCase().includes(needle)),
+    ];
+  }, [query, results, places, pageActions, role]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [items]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const select = (item: TPaletteItem, onMap: boolean = false) => {
+    onClose();
+    if (item.run) {
+      item.run();
+      return;
+    }
+    const href = onMap && item.mapHref ? item.mapHref : item.href;
+    if (href) router.push(href);
+  };
+
+  const handleInputKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, items.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter' && items[activeIndex]) {
+      event.preventDefault();
+      select(items[activeIndex], event.shiftKey);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent mt="10vh">
+        <Box p={3} borderBottomWidth="1px">
+          <InputGroup>
+            <InputLeftElement pointerEvents="none">
+              {searching ? <Spinner size="sm" /> : <Icon as={FiSearch} color="gray.400" />}
+            </InputLeftElement>
+            <Input
+              autoFocus
+              variant="unstyled"
+              pl={10}
+              h={10}
+              placeholder="Location code, building, lease, city, state, district..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleInputKeyDown}
+            />
+          </InputGroup>
+        </Box>
+        <ModalBody p={2} maxH="60vh" ref={listRef}>
+          {items.length === 0 ? (
+            <Text p={4} color="gray.500" fontSize="sm">
+              {searching ? 'Searching...' : 'No matches'}
+            </Text>
+          ) : (
+            items.map((item, index) => (
+              <Box key={item.id}>
+                {(index === 0 || items[index - 1].group !== item.group) && (
+                  <Text px={3} pt={index === 0 ? 1 : 3} pb={1} fontSize="xs" fontWeight="bold" color={groupColor}>
+                    {item.group}
+                  </Text>
+                )}
+                <Flex
+                  data-index={index}
+                  align="center"
+                  justify="space-between"
+                  gap={3}
+                  px={3}
+                  py={2}
+                  borderRadius="md"
+                  cursor="pointer"
+                  bg={index === activeIndex ? activeBg : 'transparent'}
+                  onMouseMove={() => setActiveIndex(index)}
+                  onClick={() => select(item)}
+                >
+                  <Box minW={0}>
+                    <Text fontSize="sm" fontWeight="medium" noOfLines={1}>{item.label}</Text>
+                    {item.detail && (
+                      <Text fontSize="xs" color="gray.500" noOfLines={1}>{item.detail}</Text>
+                    )}
+                  </Box>
+                  {item.mapHref && (
+                    <Button
+                      size="xs"
+                      variant="ghost"
+                      flexShrink={0}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        select(item, true);
+                      }}
+                    >
+                      Map
+                    </Button>
+                  )}
+                </Flex>
+              </Box>
+            ))
+          )}
+        </ModalBody>
+        <Flex px={4} py={2} borderTopWidth="1px" gap={4} fontSize="xs" color="gray.500" wrap="wrap">
+          <Text><Kbd>↑</Kbd> <Kbd>↓</Kbd> to move</Text>
+          <Text><Kbd>Enter</Kbd> to open</Text>
+          <Text><Kbd>Shift</Kbd>+<Kbd>Enter</Kbd> to show on map</Text>
+          <Badge ml="auto" variant="subtle">Esc to close</Badge>
+        </Flex>
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { Button, ButtonProps, Tooltip } from '@chakra-ui/react';
+import { FiCheck, FiColumns } from 'react-icons/fi';
+import { useCompareTray } from '@/lib/hooks/use-compare-tray';
+import { MAX_COMPARE } from '@/lib/utils/compare-tray';
+
+interface CompareButtonProps extends Omit<ButtonProps, 'onClick'> {
+  locationCode: string;
+  name: string;
+}
+
+// Adds a building to the compare tray, or takes it out again
+export default function CompareButton({ locationCode, name, ...buttonProps }: CompareButtonProps) {
+  const { has, isFull, add, remove } = useCompareTray();
+  const inTray = has(locationCode);
+
+  return (
+    <Tooltip label={`The compare tray holds up to ${MAX_COMPARE} properties`} isDisabled={inTray || !isFull}>
+      <Button
+        size="xs"
+        variant={inTray ? 'solid' : 'outline'}
+        colorScheme="purple"
+        leftIcon={inTray ? <FiCheck /> : <FiColumns />}
+        isDisabled={!inTray && isFull}
+        onClick={(e) => {
+          e.stopPropagation();
+          if (inTray) {
+            remove(locationCode);
+          } else {
+            add({ locationCode, name });
+          }
+        }}
+        {...buttonProps}
+      >
+        {inTray ? 'Comparing' : 'Compare'}
+      </Button>
+    </Tooltip>
+  );
+}
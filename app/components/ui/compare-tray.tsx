@@ -0,0 +1,62 @@
+'use client';
+
+import { Box, Button, HStack, Tag, TagCloseButton, TagLabel, Text } from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { usePathname } from 'next/navigation';
+import { useCompareTray } from '@/lib/hooks/use-compare-tray';
+import { MAX_COMPARE, MIN_COMPARE, getCompareUrl } from '@/lib/utils/compare-tray';
+
+// Bar along the bottom of every page listing the buildings picked for comparison
+export default function CompareTray() {
+  const { items, remove, clear } = useCompareTray();
+  const pathname = usePathname();
+
+  if (items.length === 0 || pathname === '/compare') return null;
+
+  return (
+    <Box
+      position="fixed"
+      bottom={4}
+      left={{ base: 4, md: 64 }}
+      right={4}
+      zIndex={1000}
+      bg="white"
+      border="1px"
+      borderColor="purple.200"
+      borderRadius="lg"
+      shadow="lg"
+      px={4}
+      py={3}
+      sx={{ '@media print': { display: 'none' } }}
+    >
+      <HStack spacing={3} justify="space-between" flexWrap="wrap">
+        <HStack spacing={2} flexWrap="wrap">
+          <Text fontSize="sm" fontWeight="semibold" color="gray.700">
+            Compare ({items.length}/{MAX_COMPARE})
+          </Text>
+          {items.map(item => (
+            <Tag key={item.locationCode} size="md" colorScheme="purple" borderRadius="full">
+              <TagLabel maxW="200px">{item.name || item.locationCode}</TagLabel>
+              <TagCloseButton onClick={() => remove(item.locationCode)} />
+            </Tag>
+          ))}
+        </HStack>
+        <HStack spacing={2}>
+          <Button size="sm" variant="ghost" onClick={clear}>
+            Clear
+          </Button>
+          <Button
+            as={NextLink}
+            href={getCompareUrl(items.map(item => item.locationCode))}
+            size="sm"
+            colorScheme="purple"
+            isDisabled={items.length < MIN_COMPARE}
+            onClick={(e) => items.length < MIN_COMPARE && e.preventDefault()}
+          >
+            {items.length < MIN_COMPARE ? `Add ${MIN_COMPARE - items.length} more to compare` : 'Compare'}
+          </Button>
+        </HStack>
+      </HStack>
+    </Box>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Flex,
+  IconButton,
+  Link,
+  Popover,
+  PopoverBody,
+  PopoverContent,
+  PopoverHeader,
+  PopoverTrigger,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { FiBell } from 'react-icons/fi';
+import { TWatchlistNotification } from '@/types/property';
+
+// Bell in the header with the user's watchlist expiration alerts
+export default function NotificationsMenu() {
+  const [notifications, setNotifications] = useState<TWatchlistNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      if (!response.ok) throw new Error(`Failed to fetch notifications: ${response.statusText}`);
+      const data = await response.json();
+      setNotifications(data.notifications);
+      setUnread(data.unread);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const markAllRead = async () => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!response.ok) throw new Error(`Failed to update notifications: ${response.statusText}`);
+      await load();
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  return (
+    <Popover placement="bottom-end" onOpen={load} isLazy>
+      <PopoverTrigger>
+        <Box position="relative">
+          <IconButton aria-label="Notifications" icon={<FiBell />} variant="ghost" />
+          {unread > 0 && (
+            <Badge
+              position="absolute"
+              top="0"
+              right="0"
+              colorScheme="red"
+              variant="solid"
+              borderRadius="full"
+              fontSize="0.65em"
+              pointerEvents="none"
+            >
+              {unread > 99 ? '99+' : unread}
+            </Badge>
+          )}
+        </Box>
+      </PopoverTrigger>
+      <PopoverContent w="360px">
+        <PopoverHeader>
+          <Flex align="center">
+            <Text fontWeight="semibold">Expiration alerts</Text>
+            <Button size="xs" variant="ghost" ml="auto" onClick={markAllRead} isDisabled={unread === 0}>
+              Mark all read
+            </Button>
+          </Flex>
+        </PopoverHeader>
+        <PopoverBody maxH="400px" overflowY="auto" p={0}>
+          {notifications.length === 0 ? (
+            <Text p={4} fontSize="sm" color="gray.500">
+              No alerts. Add properties to a{' '}
+              <Link as={NextLink} href="/watchlists" color="blue.500">watchlist</Link>
+              {' '}to be told when their leases near expiration.
+            </Text>
+          ) : (
+            <VStack align="stretch" spacing={0}>
+              {notifications.map(notification => (
+                <Box
+                  key={notification.id}
+                  px={4}
+                  py={3}
+                  borderBottomWidth="1px"
+                  bg={notification.readAt ? undefined : 'blue.50'}
+                >
+                  <Link
+                    as={NextLink}
+                    href={`/property/${encodeURIComponent(notification.locationCode)}`}
+                    fontWeight="medium"
+                    fontSize="sm"
+                  >
+                    {notification.realPropertyAssetName || notification.locationCode}
+                  </Link>
+                  <Text fontSize="sm">
+                    Lease {notification.leaseNumber} expires {notification.leaseExpirationDate}
+                    {' '}({notification.daysToExpiration} days, within {notification.thresholdDays})
+                  </Text>
+                  <Text fontSize="xs" color="gray.500">
+                    {notification.watchlistName} · {new Date(notification.createdAt).toLocaleDateString()}
+                  </Text>
+                </Box>
+              ))}
+            </VStack>
+          )}
+        </PopoverBody>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { Badge, Tooltip } from '@chakra-ui/react';
+import { TPropertyOverride } from '@/types/property';
+import { formatDate } from '@/lib/utils/data-helpers';
+import { formatFieldValue } from '@/lib/utils/property-overrides';
+
+// Marks a value corrected in the app; the tooltip shows what the IOLP export says
+export default function OverrideBadge({ override }: { override?: TPropertyOverride }) {
+  if (!override) return null;
+
+  return (
+    <Tooltip
+      hasArrow
+      label={`Overridden by ${override.updatedBy} on ${formatDate(override.updatedAt)}. Source value: ${formatFieldValue(override.sourceValue)}`}
+    >
+      <Badge colorScheme="orange" variant="subtle" fontSize="2xs" ml={2} verticalAlign="middle" cursor="help">
+        Overridden
+      </Badge>
+    </Tooltip>
+  );
+}
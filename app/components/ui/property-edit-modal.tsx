@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Button,
+  FormControl,
+  FormErrorMessage,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  SimpleGrid,
+  Text,
+  useToast,
+} from '@chakra-ui/react';
+import { TBuilding, TFieldValue, TLeaseRecord, TPropertyDetail, TPropertyOverride } from '@/types/property';
+import { validateBuildingEdit, validateLeaseEdit } from '@/lib/validation/property-schema';
+import {
+  EDITABLE_BUILDING_FIELDS,
+  EDITABLE_LEASE_FIELDS,
+  TEditableField,
+  findOverride,
+  formatFieldValue,
+  sameFieldValue,
+} from '@/lib/utils/property-overrides';
+
+interface PropertyEditModalProps {
+  building: TBuilding;
+  lease?: TLeaseRecord; // Edit this lease instead of the building
+  overrides: TPropertyOverride[];
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: (update: Partial<TPropertyDetail>) => void;
+}
+
+const toInput = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+const fromInput = (field: TEditableField, input: string): TFieldValue => {
+  if (field.type !== 'number') return input;
+  return input.trim() === '' ? null : Number(input);
+};
+
+// Form correcting the editable fields of a building or one of its leases. Only changed fields are
+// sent; overridden fields can be reverted to the value from the last import.
+export default function PropertyEditModal({ building, lease, overrides, isOpen, onClose, onSaved }: PropertyEditModalProps) {
+  const leaseNumber = lease ? lease.leaseNumber : null;
+  const fields: readonly TEditableField[] = lease ? EDITABLE_LEASE_FIELDS : EDITABLE_BUILDING_FIELDS;
+  const record = (lease ?? building) as unknown as Record<string, unknown>;
+
+  // Mounted while open, so the form starts from the current values each time
+  const [inputs, setInputs] = useState<Record<string, string>>(() =>
+    Object.fromEntries(fields.map(({ field }) => [field, toInput(record[field])]))
+  );
+  const [revert, setRevert] = useState<string[]>([]);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const toast = useToast();
+
+  const toggleRevert = (field: string) => {
+    setRevert(current => (current.includes(field) ? current.filter(item => item !== field) : [...current, field]));
+  };
+
+  const save = async () => {
+    const edited = fields.filter(item =>
+      !revert.includes(item.field) &&
+      !sameFieldValue(fromInput(item, inputs[item.field] ?? ''), record[item.field] as TFieldValue)
+    );
+    const changes = Object.fromEntries(edited.map(item => [item.field, fromInput(item, inputs[item.field] ?? '')]));
+    if (edited.length === 0 && revert.length === 0) {
+      onClose();
+      return;
+    }
+
+    const result = lease ? validateLeaseEdit(changes) : validateBuildingEdit(changes);
+    if (!result.success) {
+      setFieldErrors(Object.fromEntries(result.error.issues.map(issue => [String(issue.path[0]), issue.message])));
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      setFieldErrors({});
+      const url = lease
+        ? `/api/buildings/${encodeURIComponent(building.locationCode)}/leases/${encodeURIComponent(lease.leaseNumber)}`
+        : `/api/buildings/${encodeURIComponent(building.locationCode)}`;
+      const response = await fetch(url, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes: result.data, revert }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || `API call failed: ${response.statusText}`);
+      }
+
+      onSaved(body);
+      toast({ title: lease ? `Lease ${lease.leaseNumber} updated` : 'Property updated', status: 'success', duration: 2000 });
+      onClose();
+    } catch (error) {
+      console.error('Error saving property edits:', error);
+      setError(error instanceof Error ? error.message : 'Could not save the changes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="2xl">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>
+          {lease ? `Edit Lease ${lease.leaseNumber}` : `Edit ${building.realPropertyAssetName || building.locationCode}`}
+        </ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <Text fontSize="sm" color="gray.600" mb={4}>
+            Corrections are kept when the inventory is re-imported and are recorded in the audit log.
+            {lease ? ' They apply to every row of this lease.' : ''}
+          </Text>
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            {fields.map(item => {
+              const override = findOverride(overrides, item.field, leaseNumber);
+              const isReverted = revert.includes(item.field);
+              return (
+                <FormControl key={item.field} isInvalid={Boolean(fieldErrors[item.field])}>
+                  <HStack justify="space-between" mb={1}>
+                    <FormLabel fontSize="sm" mb={0}>{item.label}</FormLabel>
+                    {override && (
+                      <Button size="xs" variant="link" colorScheme="orange" onClick={() => toggleRevert(item.field)}>
+                        {isReverted ? 'Keep override' : 'Revert to source'}
+                      </Button>
+                    )}
+                  </HStack>
+                  <Input
+                    size="sm"
+                    type={item.type}
+                    step={item.type === 'number' ? 'any' : undefined}
+                    value={isReverted && override ? toInput(override.sourceValue) : inputs[item.field] ?? ''}
+                    isDisabled={isReverted}
+                    onChange={(e) => setInputs(current => ({ ...current, [item.field]: e.target.value }))}
+                  />
+                  {fieldErrors[item.field] ? (
+                    <FormErrorMessage>{fieldErrors[item.field]}</FormErrorMessage>
+                  ) : override ? (
+                    <FormHelperText fontSize="xs">Source: {formatFieldValue(override.sourceValue)}</FormHelperText>
+                  ) : null}
+                </FormControl>
+              );
+            })}
+          </SimpleGrid>
+          {error && (
+            <Alert status="error" mt={4} fontSize="sm">
+              <AlertIcon />
+              {error}
+            </Alert>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            Cancel
+          </Button>
+          <Button colorScheme="blue" onClick={save} isLoading={saving}>
+            Save Changes
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+}
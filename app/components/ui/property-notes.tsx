@@ -0,0 +1,215 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Divider,
+  HStack,
+  Heading,
+  IconButton,
+  Input,
+  Tag,
+  TagCloseButton,
+  TagLabel,
+  Text,
+  Textarea,
+  VStack,
+  Wrap,
+  WrapItem,
+  useToast,
+} from '@chakra-ui/react';
+import { FiTrash2 } from 'react-icons/fi';
+import { TPropertyNote } from '@/types/property';
+import { useSession } from '@/lib/hooks/use-session';
+import { hasRole } from '@/lib/auth/roles';
+import { MAX_NOTE_LENGTH, MAX_TAGS } from '@/lib/utils/property-overrides';
+
+interface PropertyNotesProps {
+  locationCode: string;
+  tags: string[];
+  onTagsChange: (tags: string[]) => void;
+}
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+// Tags and notes on a property. Everyone can read them; analysts add them, and a note can be
+// deleted by its author or a data admin.
+export default function PropertyNotes({ locationCode, tags, onTagsChange }: PropertyNotesProps) {
+  const user = useSession();
+  const canAnnotate = hasRole(user?.role, 'analyst');
+  const [notes, setNotes] = useState<TPropertyNote[] | null>(null);
+  const [draft, setDraft] = useState('');
+  const [newTag, setNewTag] = useState('');
+  const [saving, setSaving] = useState(false);
+  const toast = useToast();
+  const notesUrl = `/api/buildings/${encodeURIComponent(locationCode)}/notes`;
+
+  const loadNotes = useCallback(async () => {
+    try {
+      const response = await fetch(notesUrl);
+      if (!response.ok) {
+        throw new Error(`API call failed: ${response.statusText}`);
+      }
+      setNotes((await response.json()).notes);
+    } catch (error) {
+      console.error('Error loading notes:', error);
+      setNotes([]);
+    }
+  }, [notesUrl]);
+
+  useEffect(() => {
+    loadNotes();
+  }, [loadNotes]);
+
+  // Calls the API and reports failures; returns the response body, or null when it failed
+  const send = async (url: string, method: string, body?: object) => {
+    try {
+      setSaving(true);
+      const response = await fetch(url, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `API call failed: ${response.statusText}`);
+      }
+      return data;
+    } catch (error) {
+      console.error('Error updating annotations:', error);
+      toast({ title: error instanceof Error ? error.message : 'Could not save', status: 'error', duration: 3000 });
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveTags = async (next: string[]) => {
+    const data = await send(`/api/buildings/${encodeURIComponent(locationCode)}/tags`, 'PUT', { tags: next });
+    if (data) onTagsChange(data.tags);
+  };
+
+  const addTag = () => {
+    const tag = newTag.trim();
+    if (!tag) return;
+    setNewTag('');
+    saveTags([...tags, tag]);
+  };
+
+  const addNote = async () => {
+    const data = await send(notesUrl, 'POST', { body: draft });
+    if (!data) return;
+    setDraft('');
+    setNotes(current => [data.note, ...(current || [])]);
+  };
+
+  const deleteNote = async (id: string) => {
+    const data = await send(`${notesUrl}/${encodeURIComponent(id)}`, 'DELETE');
+    if (data) setNotes(current => (current || []).filter(note => note.id !== id));
+  };
+
+  return (
+    <Card shadow="sm">
+      <CardBody p={6}>
+        <VStack spacing={5} align="stretch">
+          <HStack justify="space-between">
+            <Heading size="md" color="gray.900">
+              Notes & Tags
+            </Heading>
+            {!canAnnotate && (
+              <Text fontSize="sm" color="gray.500">
+                Analysts can add notes and tags
+              </Text>
+            )}
+          </HStack>
+
+          <Wrap spacing={2} align="center">
+            {tags.length === 0 && !canAnnotate && (
+              <Text fontSize="sm" color="gray.500">No tags</Text>
+            )}
+            {tags.map(tag => (
+              <WrapItem key={tag}>
+                <Tag size="md" colorScheme="teal" borderRadius="full">
+                  <TagLabel>{tag}</TagLabel>
+                  {canAnnotate && (
+                    <TagCloseButton isDisabled={saving} onClick={() => saveTags(tags.filter(item => item !== tag))} />
+                  )}
+                </Tag>
+              </WrapItem>
+            ))}
+            {canAnnotate && tags.length < MAX_TAGS && (
+              <WrapItem>
+                <Input
+                  size="sm"
+                  w="180px"
+                  borderRadius="full"
+                  placeholder="Add a tag"
+                  value={newTag}
+                  onChange={(e) => setNewTag(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') addTag();
+                  }}
+                />
+              </WrapItem>
+            )}
+          </Wrap>
+
+          <Divider />
+
+          {canAnnotate && (
+            <VStack align="stretch" spacing={2}>
+              <Textarea
+                size="sm"
+                placeholder="Add a note for other users of this property"
+                value={draft}
+                maxLength={MAX_NOTE_LENGTH}
+                onChange={(e) => setDraft(e.target.value)}
+              />
+              <HStack justify="flex-end">
+                <Button size="sm" colorScheme="blue" onClick={addNote} isLoading={saving} isDisabled={!draft.trim()}>
+                  Add Note
+                </Button>
+              </HStack>
+            </VStack>
+          )}
+
+          {notes === null ? (
+            <Text fontSize="sm" color="gray.500">Loading notes...</Text>
+          ) : notes.length === 0 ? (
+            <Text fontSize="sm" color="gray.500">No notes on this property yet.</Text>
+          ) : (
+            <VStack align="stretch" spacing={3}>
+              {notes.map(note => (
+                <Box key={note.id} borderWidth="1px" borderColor="gray.200" borderRadius="md" p={3}>
+                  <HStack justify="space-between" align="start">
+                    <Text fontSize="xs" color="gray.500">
+                      {note.authorEmail} · {formatTimestamp(note.createdAt)}
+                    </Text>
+                    {user && (user.id === note.authorId || hasRole(user.role, 'data-admin')) && (
+                      <IconButton
+                        aria-label="Delete note"
+                        icon={<FiTrash2 />}
+                        size="xs"
+                        variant="ghost"
+                        colorScheme="red"
+                        isDisabled={saving}
+                        onClick={() => deleteNote(note.id)}
+                      />
+                    )}
+                  </HStack>
+                  <Text fontSize="sm" color="gray.800" whiteSpace="pre-wrap" mt={1}>
+                    {note.body}
+                  </Text>
+                </Box>
+              ))}
+            </VStack>
+          )}
+        </VStack>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,171 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Button,
+  HStack,
+  IconButton,
+  Input,
+  Menu,
+  MenuButton,
+  MenuDivider,
+  MenuGroup,
+  MenuItem,
+  MenuList,
+  Popover,
+  PopoverArrow,
+  PopoverBody,
+  PopoverContent,
+  PopoverTrigger,
+  Text,
+  useDisclosure,
+  useToast,
+} from '@chakra-ui/react';
+import { ChevronDownIcon, CloseIcon, LinkIcon, StarIcon } from '@chakra-ui/icons';
+import { TSavedView, clearLegacySavedViews, readLegacySavedViews } from '@/lib/utils/saved-views';
+
+interface SavedViewsMenuProps {
+  page: string; // Views are listed per page
+  query: string; // Current filter query string
+  onApply: (query: string) => void;
+}
+
+async function sendJson(url: string, method: string, body?: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Request failed: ${response.statusText}`);
+  return data;
+}
+
+const saveViewRequest = (page: string, name: string, query: string) =>
+  sendJson('/api/saved-views', 'POST', { page, name, query });
+
+// Named filter combinations for one page, stored per user on the server
+export default function SavedViewsMenu({ page, query, onApply }: SavedViewsMenuProps) {
+  const [views, setViews] = useState<TSavedView[]>([]);
+  const [name, setName] = useState('');
+  const savePopover = useDisclosure();
+  const toast = useToast();
+
+  const loadViews = useCallback(async () => {
+    try {
+      // Views this browser kept locally before they were stored per user move to the server first
+      const legacy = readLegacySavedViews(page);
+      if (legacy.length > 0) {
+        await Promise.all(legacy.map(view => saveViewRequest(page, view.name, view.query)));
+        clearLegacySavedViews(page);
+      }
+
+      const data = await sendJson(`/api/saved-views?page=${encodeURIComponent(page)}`, 'GET');
+      setViews(data.views);
+    } catch (error) {
+      console.error('Error loading saved views:', error);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    loadViews();
+  }, [loadViews]);
+
+  // Calls the API, reloads the list and reports the outcome
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    try {
+      await action();
+      await loadViews();
+      if (success) toast({ title: success, status: 'success', duration: 2000 });
+    } catch (error) {
+      console.error('Error updating saved views:', error);
+      toast({ title: error instanceof Error ? error.message : 'Could not update saved views', status: 'error', duration: 3000 });
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setName('');
+    savePopover.onClose();
+    run(() => saveViewRequest(page, trimmed, query), `Saved view "${trimmed}"`);
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: 'Link copied', status: 'success', duration: 2000 });
+    } catch (error) {
+      console.error('Error copying link:', error);
+      toast({ title: 'Could not copy the link', status: 'error', duration: 3000 });
+    }
+  };
+
+  return (
+    <HStack spacing={2}>
+      <Menu placement="bottom-end">
+        <MenuButton as={Button} size="sm" variant="outline" rightIcon={<ChevronDownIcon />}>
+          Saved views
+        </MenuButton>
+        <MenuList fontSize="sm" zIndex={20}>
+          <MenuGroup title="Saved views">
+            {views.length === 0 && (
+              <Text px={3} py={2} color="gray.500">No saved views yet</Text>
+            )}
+            {views.map(view => (
+              <MenuItem
+                key={view.id}
+                onClick={() => onApply(view.query)}
+                fontWeight={view.query === query ? 'semibold' : 'normal'}
+              >
+                <HStack justify="space-between" w="full">
+                  <Text noOfLines={1}>{view.name}</Text>
+                  <IconButton
+                    aria-label={`Delete saved view ${view.name}`}
+                    icon={<CloseIcon boxSize={2} />}
+                    size="xs"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      run(() => sendJson(`/api/saved-views/${encodeURIComponent(view.id)}`, 'DELETE'));
+                    }}
+                  />
+                </HStack>
+              </MenuItem>
+            ))}
+          </MenuGroup>
+          <MenuDivider />
+          <MenuItem icon={<LinkIcon />} onClick={copyLink}>
+            Copy link to this view
+          </MenuItem>
+        </MenuList>
+      </Menu>
+
+      <Popover isOpen={savePopover.isOpen} onOpen={savePopover.onOpen} onClose={savePopover.onClose} placement="bottom-end">
+        <PopoverTrigger>
+          <Button size="sm" variant="outline" leftIcon={<StarIcon />}>
+            Save view
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent w="280px">
+          <PopoverArrow />
+          <PopoverBody>
+            <HStack>
+              <Input
+                size="sm"
+                placeholder="View name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                autoFocus
+              />
+              <Button size="sm" colorScheme="blue" onClick={handleSave} isDisabled={!name.trim()}>
+                Save
+              </Button>
+            </HStack>
+          </PopoverBody>
+        </PopoverContent>
+      </Popover>
+    </HStack>
+  );
+}
@@ -0,0 +1,45 @@
+'use client';
+
+import {
+  Avatar,
+  Badge,
+  Box,
+  Menu,
+  MenuButton,
+  MenuDivider,
+  MenuItem,
+  MenuList,
+  Text,
+} from '@chakra-ui/react';
+import { FiLogOut } from 'react-icons/fi';
+import { ROLE_LABELS } from '@/lib/auth/roles';
+import { signOut, useSession } from '@/lib/hooks/use-session';
+
+// Signed-in user with their role, and sign out
+export default function UserMenu() {
+  const user = useSession();
+  if (!user) return null;
+
+  return (
+    <Menu placement="bottom-end">
+      <MenuButton aria-label="Account">
+        <Avatar size="sm" name={user.name} />
+      </MenuButton>
+      <MenuList>
+        <Box px={3} py={2}>
+          <Text fontWeight="semibold" noOfLines={1}>{user.name}</Text>
+          {user.name !== user.email && (
+            <Text fontSize="sm" color="gray.500" noOfLines={1}>{user.email}</Text>
+          )}
+          <Badge mt={1} colorScheme={user.role === 'data-admin' ? 'purple' : user.role === 'analyst' ? 'blue' : 'gray'}>
+            {ROLE_LABELS[user.role]}
+          </Badge>
+        </Box>
+        <MenuDivider />
+        <MenuItem icon={<FiLogOut />} onClick={signOut}>
+          Sign out
+        </MenuItem>
+      </MenuList>
+    </Menu>
+  );
+}
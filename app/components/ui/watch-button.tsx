@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Button,
+  HStack,
+  IconButton,
+  Input,
+  Menu,
+  MenuButton,
+  MenuDivider,
+  MenuItemOption,
+  MenuList,
+  MenuOptionGroup,
+  Text,
+  Tooltip,
+  useToast,
+} from '@chakra-ui/react';
+import { FiStar } from 'react-icons/fi';
+import { useWatchlists } from '@/lib/hooks/use-watchlists';
+
+interface WatchButtonProps {
+  locationCode: string;
+  size?: 'xs' | 'sm' | 'md';
+}
+
+// Star menu listing the user's watchlists; checking one adds the property to it
+export default function WatchButton({ locationCode, size = 'sm' }: WatchButtonProps) {
+  const { watchlists, create, update } = useWatchlists();
+  const [newName, setNewName] = useState('');
+  const toast = useToast();
+
+  const watchedIn = (watchlists || [])
+    .filter(watchlist => watchlist.locationCodes.includes(locationCode))
+    .map(watchlist => watchlist.id);
+  const isWatched = watchedIn.length > 0;
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast({ title: success, status: 'success', duration: 2000 });
+    } catch (error) {
+      console.error('Error updating watchlist:', error);
+      toast({ title: error instanceof Error ? error.message : 'Could not update the watchlist', status: 'error', duration: 3000 });
+    }
+  };
+
+  const toggle = (selected: string[]) => {
+    const added = selected.find(id => !watchedIn.includes(id));
+    const removed = watchedIn.find(id => !selected.includes(id));
+    const watchlist = watchlists?.find(item => item.id === (added || removed));
+    if (!watchlist) return;
+
+    run(
+      () => update(watchlist.id, added ? { add: [locationCode] } : { remove: [locationCode] }),
+      added ? `Added to ${watchlist.name}` : `Removed from ${watchlist.name}`
+    );
+  };
+
+  const createAndAdd = () => {
+    const name = newName.trim();
+    if (!name) return;
+    setNewName('');
+    run(async () => {
+      const { watchlist } = await create(name);
+      await update(watchlist.id, { add: [locationCode] });
+    }, `Added to ${name}`);
+  };
+
+  return (
+    <Menu closeOnSelect={false} isLazy>
+      <Tooltip label={isWatched ? 'On a watchlist' : 'Add to a watchlist'}>
+        <MenuButton
+          as={IconButton}
+          aria-label="Watchlists"
+          icon={<FiStar fill={isWatched ? 'currentColor' : 'none'} />}
+          size={size}
+          variant="ghost"
+          color={isWatched ? 'yellow.500' : 'gray.500'}
+          onClick={(e) => e.stopPropagation()}
+        />
+      </Tooltip>
+      <MenuList onClick={(e) => e.stopPropagation()} minW="260px">
+        {watchlists && watchlists.length > 0 ? (
+          <MenuOptionGroup title="Watchlists" type="checkbox" value={watchedIn} onChange={(value) => toggle(value as string[])}>
+            {watchlists.map(watchlist => (
+              <MenuItemOption key={watchlist.id} value={watchlist.id}>
+                {watchlist.name}
+                <Text as="span" fontSize="xs" color="gray.500" ml={2}>
+                  {watchlist.locationCodes.length}
+                </Text>
+              </MenuItemOption>
+            ))}
+          </MenuOptionGroup>
+        ) : (
+          <Text px={3} py={2} fontSize="sm" color="gray.500">
+            {watchlists ? 'No watchlists yet' : 'Loading watchlists...'}
+          </Text>
+        )}
+        <MenuDivider />
+        <HStack px={3} spacing={2}>
+          <Input
+            size="sm"
+            placeholder="New watchlist"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === 'Enter') createAndAdd();
+            }}
+          />
+          <Button size="sm" colorScheme="yellow" onClick={createAndAdd} isDisabled={!newName.trim()}>
+            Add
+          </Button>
+        </HStack>
+      </MenuList>
+    </Menu>
+  );
+}
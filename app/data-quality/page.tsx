@@ -0,0 +1,378 @@
+'use client';
+
+import { Suspense, useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Container,
+  Text,
+  Spinner,
+  Center,
+  VStack,
+  SimpleGrid,
+  Heading,
+  Badge,
+  Card,
+  CardBody,
+  Divider,
+  HStack,
+  Icon,
+  Link,
+  useColorModeValue,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Button,
+  Flex,
+  Select,
+  TableContainer,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { FiCheckCircle } from 'react-icons/fi';
+import MainLayout from '@/app/components/layout/main-layout';
+import SavedViewsMenu from '@/app/components/ui/saved-views-menu';
+import { formatNumber, getPropertyUrl } from '@/lib/utils/data-helpers';
+import { useUrlFilters } from '@/lib/hooks/use-url-filters';
+import { TBuildingFilterValues, TDataQualityReport, TQualityCategorySummary } from '@/types/property';
+
+const ITEMS_PER_PAGE = 50;
+
+// Drill-down filters kept in the URL; only values differing from these are written
+const DEFAULT_FILTERS = {
+  category: 'all',
+  recordType: 'all',
+  state: 'all',
+  page: 1,
+};
+
+// Issue count card for one category; click to list its rows
+const CategoryCard = ({
+  summary,
+  isSelected,
+  onSelect,
+}: {
+  summary: TQualityCategorySummary;
+  isSelected: boolean;
+  onSelect: () => void;
+}) => {
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.100', 'gray.700');
+  const count = summary.buildings + summary.leases;
+
+  return (
+    <Card
+      bg={bgColor}
+      border="2px"
+      borderColor={isSelected ? 'blue.400' : borderColor}
+      shadow="sm"
+      _hover={{ shadow: 'md' }}
+      transition="all 0.2s"
+      cursor="pointer"
+      onClick={onSelect}
+    >
+      <CardBody p={5}>
+        <VStack align="stretch" spacing={1}>
+          <Text fontSize="sm" fontWeight="medium" color="gray.600">
+            {summary.label}
+          </Text>
+          <Text fontSize="2xl" fontWeight="bold" color={count > 0 ? 'orange.600' : 'green.600'}>
+            {formatNumber(count)}
+          </Text>
+          <Text fontSize="xs" color="gray.500">
+            {formatNumber(summary.buildings)} buildings · {formatNumber(summary.leases)} leases
+          </Text>
+        </VStack>
+      </CardBody>
+    </Card>
+  );
+};
+
+function DataQualityContent() {
+  const [report, setReport] = useState<TDataQualityReport | null>(null);
+  const [states, setStates] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { values: urlFilters, update: updateFilters, applyQuery, query } = useUrlFilters(DEFAULT_FILTERS);
+  const { category, recordType, state, page: currentPage } = urlFilters;
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ page: String(currentPage), limit: String(ITEMS_PER_PAGE) });
+      if (category !== 'all') params.set('category', category);
+      if (recordType !== 'all') params.set('recordType', recordType);
+      if (state !== 'all') params.set('state', state);
+
+      const response = await fetch(`/api/data-quality?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch data quality report');
+      }
+      setReport(await response.json());
+    } catch (error) {
+      console.error('❌ Error loading data quality report:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [category, recordType, state, currentPage]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // State options only need loading once
+  useEffect(() => {
+    fetch('/api/buildings/filters')
+      .then(response => (response.ok ? response.json() : null))
+      .then((values: TBuildingFilterValues | null) => setStates(values?.states || []))
+      .catch(error => console.error('Error loading data quality filters:', error));
+  }, []);
+
+  if (error) {
+    return (
+      <MainLayout title="Data Quality">
+        <Container maxW="7xl" py={8}>
+          <VStack spacing={6}>
+            <Alert status="error">
+              <AlertIcon />
+              <Box>
+                <AlertTitle>Error Loading Data Quality Report</AlertTitle>
+                <AlertDescription>
+                  <Text mb={2}>{error}</Text>
+                </AlertDescription>
+              </Box>
+            </Alert>
+            <Button onClick={loadReport} colorScheme="blue">
+              Retry Loading
+            </Button>
+          </VStack>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  const total = report?.total || 0;
+  const totalPages = Math.max(1, Math.ceil(total / ITEMS_PER_PAGE));
+  const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
+
+  return (
+    <MainLayout title="Data Quality">
+      <Container maxW="7xl" py={8}>
+        <VStack spacing={8} align="stretch">
+
+          {/* Header Section */}
+          <Box>
+            <VStack spacing={3} align="stretch">
+              <HStack spacing={3} align="center">
+                <Icon as={FiCheckCircle} boxSize={8} color="blue.600" />
+                <VStack align="start" spacing={0}>
+                  <Heading size="xl" color="gray.900" fontWeight="bold">
+                    Data Quality
+                  </Heading>
+                  <Text color="gray.600" fontSize="lg">
+                    Building and lease rows that fail validation
+                  </Text>
+                </VStack>
+              </HStack>
+
+              {report && (
+                <HStack spacing={3}>
+                  <Badge colorScheme="orange" px={3} py={1} borderRadius="full" fontSize="sm">
+                    {formatNumber(report.summary.buildingsWithIssues)} of {formatNumber(report.summary.buildings)} buildings
+                  </Badge>
+                  <Badge colorScheme="orange" px={3} py={1} borderRadius="full" fontSize="sm">
+                    {formatNumber(report.summary.leasesWithIssues)} of {formatNumber(report.summary.leases)} leases
+                  </Badge>
+                  {loading && <Spinner size="sm" color="blue.500" />}
+                </HStack>
+              )}
+            </VStack>
+          </Box>
+
+          {!report ? (
+            <Center h="300px">
+              <VStack spacing={4}>
+                <Spinner size="lg" color="blue.500" />
+                <Text fontSize="sm" color="gray.500">Validating properties and leases...</Text>
+              </VStack>
+            </Center>
+          ) : (
+            <>
+              {/* Issues by category - click one to drill down */}
+              <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={6}>
+                {report.summary.categories.map(summary => (
+                  <CategoryCard
+                    key={summary.category}
+                    summary={summary}
+                    isSelected={summary.category === category}
+                    onSelect={() => updateFilters({
+                      category: summary.category === category ? 'all' : summary.category,
+                      page: 1,
+                    })}
+                  />
+                ))}
+              </SimpleGrid>
+
+              <Divider />
+
+              {/* Filters */}
+              <Flex gap={3} wrap="wrap">
+                <Select
+                  value={category}
+                  onChange={(e) => updateFilters({ category: e.target.value, page: 1 })}
+                  maxW="260px"
+                  size="sm"
+                  bg="white"
+                  borderColor="gray.300"
+                >
+                  <option value="all">All Categories</option>
+                  {report.summary.categories.map(summary => (
+                    <option key={summary.category} value={summary.category}>{summary.label}</option>
+                  ))}
+                </Select>
+
+                <Select
+                  value={recordType}
+                  onChange={(e) => updateFilters({ recordType: e.target.value, page: 1 })}
+                  maxW="180px"
+                  size="sm"
+                  bg="white"
+                  borderColor="gray.300"
+                >
+                  <option value="all">Buildings & Leases</option>
+                  <option value="building">Buildings</option>
+                  <option value="lease">Leases</option>
+                </Select>
+
+                <Select
+                  value={state}
+                  onChange={(e) => updateFilters({ state: e.target.value, page: 1 })}
+                  maxW="180px"
+                  size="sm"
+                  bg="white"
+                  borderColor="gray.300"
+                >
+                  <option value="all">All States</option>
+                  {states.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </Select>
+
+                <Button
+                  size="sm"
+                  variant="outline"
+                  colorScheme="gray"
+                  onClick={() => updateFilters(DEFAULT_FILTERS)}
+                >
+                  Clear All
+                </Button>
+
+                <Box ml="auto">
+                  <SavedViewsMenu page="data-quality" query={query} onApply={applyQuery} />
+                </Box>
+              </Flex>
+
+              <Card border="1px" borderColor="gray.100" shadow="sm">
+                <CardBody p={6}>
+                  <VStack spacing={4} align="stretch">
+                    <TableContainer>
+                      <Table variant="simple" size="sm">
+                        <Thead bg="gray.50">
+                          <Tr>
+                            <Th>Issue</Th>
+                            <Th>Record</Th>
+                            <Th>Location</Th>
+                            <Th>Name</Th>
+                            <Th>City</Th>
+                            <Th>Details</Th>
+                          </Tr>
+                        </Thead>
+                        <Tbody>
+                          {report.issues.map((issue, index) => (
+                            <Tr key={`${issue.category}-${issue.locationCode}-${issue.leaseNumber || ''}-${index}`}>
+                              <Td>
+                                <Badge colorScheme="orange" variant="subtle">
+                                  {report.summary.categories.find(summary => summary.category === issue.category)?.label}
+                                </Badge>
+                              </Td>
+                              <Td>
+                                {issue.recordType === 'lease' ? `Lease ${issue.leaseNumber}` : 'Building'}
+                              </Td>
+                              <Td fontFamily="mono">
+                                <Link as={NextLink} href={getPropertyUrl(issue.locationCode)} color="blue.600">
+                                  {issue.locationCode}
+                                </Link>
+                              </Td>
+                              <Td maxW="260px" overflow="hidden" textOverflow="ellipsis">{issue.name}</Td>
+                              <Td>{issue.city}{issue.state ? `, ${issue.state}` : ''}</Td>
+                              <Td whiteSpace="normal" fontSize="xs" color="gray.600">{issue.message}</Td>
+                            </Tr>
+                          ))}
+                        </Tbody>
+                      </Table>
+                    </TableContainer>
+
+                    {total === 0 && !loading && (
+                      <Center py={8}>
+                        <Text color="gray.500">No issues match these filters</Text>
+                      </Center>
+                    )}
+
+                    {/* Pagination */}
+                    <Flex justify="space-between" align="center">
+                      <Text fontSize="sm" color="gray.600">
+                        Showing {total === 0 ? 0 : startIndex + 1}-{Math.min(startIndex + ITEMS_PER_PAGE, total)} of {total.toLocaleString()} issues
+                      </Text>
+
+                      <HStack spacing={2}>
+                        <Button
+                          size="sm"
+                          onClick={() => updateFilters({ page: Math.max(1, currentPage - 1) })}
+                          isDisabled={currentPage === 1}
+                          variant="outline"
+                        >
+                          Previous
+                        </Button>
+
+                        <Text fontSize="sm" color="gray.600">
+                          Page {currentPage} of {totalPages}
+                        </Text>
+
+                        <Button
+                          size="sm"
+                          onClick={() => updateFilters({ page: Math.min(totalPages, currentPage + 1) })}
+                          isDisabled={currentPage >= totalPages}
+                          variant="outline"
+                        >
+                          Next
+                        </Button>
+                      </HStack>
+                    </Flex>
+                  </VStack>
+                </CardBody>
+              </Card>
+            </>
+          )}
+        </VStack>
+      </Container>
+    </MainLayout>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function DataQualityPage() {
+  return (
+    <Suspense fallback={<MainLayout title="Data Quality"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <DataQualityContent />
+    </Suspense>
+  );
+}
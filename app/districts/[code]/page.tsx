@@ -0,0 +1,305 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  VStack,
+  HStack,
+  Card,
+  CardBody,
+  SimpleGrid,
+  Badge,
+  Button,
+  Divider,
+  Link,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { FiPrinter } from 'react-icons/fi';
+import MainLayout from '@/app/components/layout/main-layout';
+import LoadingProgress from '@/app/components/ui/loading-progress';
+import { TDistrictDetail } from '@/types/property';
+import { formatDate, formatNumber, formatSquareFootage, getPropertyUrl } from '@/lib/utils/data-helpers';
+
+interface DistrictDetailPageProps {
+  params: { code: string };
+}
+
+// Get status color
+const getStatusColor = (status: string): string => {
+  switch (status) {
+    case 'active': return 'green';
+    case 'expired': return 'red';
+    case 'upcoming': return 'blue';
+    default: return 'gray';
+  }
+};
+
+// Single labelled value in the district summary grid
+const DetailItem = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <VStack align="start" spacing={0}>
+    <Text fontSize="sm" fontWeight="medium" color="gray.600">
+      {label}
+    </Text>
+    <Text fontSize="xl" fontWeight="bold" color="gray.900">
+      {value}
+    </Text>
+  </VStack>
+);
+
+// Cards are kept whole across printed pages where they fit
+const PRINT_CARD = { '@media print': { boxShadow: 'none', breakInside: 'avoid' } };
+const SCREEN_ONLY = { '@media print': { display: 'none' } };
+
+export default function DistrictDetailPage({ params }: DistrictDetailPageProps) {
+  const code = decodeURIComponent(params.code);
+  const [detail, setDetail] = useState<TDistrictDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDistrict = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setNotFound(false);
+
+      const response = await fetch(`/api/districts/${encodeURIComponent(code)}`);
+      if (response.status === 404) {
+        setNotFound(true);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`API call failed: ${response.statusText}`);
+      }
+
+      setDetail(await response.json());
+    } catch (error) {
+      console.error('Error loading district:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [code]);
+
+  useEffect(() => {
+    loadDistrict();
+  }, [loadDistrict]);
+
+  if (loading) {
+    return (
+      <MainLayout title="Congressional District">
+        <LoadingProgress
+          progress={50}
+          message={`Loading district ${code}...`}
+          title="Loading District"
+          subtitle="Collecting buildings and leases..."
+        />
+      </MainLayout>
+    );
+  }
+
+  if (notFound || error || !detail) {
+    return (
+      <MainLayout title="Congressional District">
+        <Container maxW="7xl" py={8}>
+          <VStack spacing={6}>
+            <Alert status={notFound ? 'warning' : 'error'}>
+              <AlertIcon />
+              <Box>
+                <AlertTitle>
+                  {notFound ? 'District Not Found' : 'Error Loading District'}
+                </AlertTitle>
+                <AlertDescription>
+                  {notFound
+                    ? `No buildings or leases are recorded for district ${code}.`
+                    : error}
+                </AlertDescription>
+              </Box>
+            </Alert>
+            <HStack spacing={3}>
+              {!notFound && (
+                <Button onClick={loadDistrict} colorScheme="blue">
+                  Retry Loading
+                </Button>
+              )}
+              <Button as={NextLink} href="/districts" variant="outline">
+                Back to Districts
+              </Button>
+            </HStack>
+          </VStack>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  const { summary, buildings, leases } = detail;
+
+  return (
+    <MainLayout title="Congressional District">
+      <Container maxW="7xl" py={8}>
+        <VStack spacing={8} align="stretch">
+
+          {/* Header */}
+          <HStack justify="space-between" align="start" flexWrap="wrap" spacing={4}>
+            <VStack align="start" spacing={2}>
+              <Heading size="xl" color="gray.900">
+                {summary.label}
+              </Heading>
+              <Text color="gray.600" fontSize="lg">
+                {summary.representative ? `Represented by ${summary.representative}` : 'Representative not recorded'}
+              </Text>
+              {summary.otherRepresentativeNames.length > 0 && (
+                <Text color="gray.500" fontSize="sm">
+                  Also listed as {summary.otherRepresentativeNames.join(', ')}
+                </Text>
+              )}
+              <Text color="gray.500" fontSize="sm">
+                Federal property portfolio as of {formatDate(new Date())}
+              </Text>
+            </VStack>
+            <HStack spacing={3} sx={SCREEN_ONLY}>
+              <Button as={NextLink} href="/districts" size="sm" variant="outline">
+                All Districts
+              </Button>
+              <Button size="sm" colorScheme="blue" leftIcon={<FiPrinter />} onClick={() => window.print()}>
+                Print
+              </Button>
+            </HStack>
+          </HStack>
+
+          <Divider />
+
+          <Card shadow="sm" sx={PRINT_CARD}>
+            <CardBody p={6}>
+              <SimpleGrid columns={{ base: 2, md: 3, lg: 6 }} spacing={5}>
+                <DetailItem label="Owned Buildings" value={formatNumber(summary.ownedBuildings)} />
+                <DetailItem label="Leased Buildings" value={formatNumber(summary.leasedBuildings)} />
+                <DetailItem label="Owned Sq Ft" value={formatSquareFootage(summary.ownedSquareFeet)} />
+                <DetailItem label="Leased Sq Ft" value={formatSquareFootage(summary.leasedSquareFeet)} />
+                <DetailItem label="Leases" value={formatNumber(summary.leases)} />
+                <DetailItem label="Expiring in 12 Months" value={formatNumber(summary.expiringLeases)} />
+              </SimpleGrid>
+            </CardBody>
+          </Card>
+
+          {/* Buildings */}
+          <Card shadow="sm" sx={PRINT_CARD}>
+            <CardBody p={6}>
+              <VStack spacing={4} align="stretch">
+                <HStack justify="space-between">
+                  <Heading size="md" color="gray.900">
+                    Buildings
+                  </Heading>
+                  <Text fontSize="sm" color="gray.600">
+                    {buildings.length} {buildings.length === 1 ? 'building' : 'buildings'}, largest first
+                  </Text>
+                </HStack>
+                <TableContainer whiteSpace="normal">
+                  <Table variant="simple" size="sm">
+                    <Thead>
+                      <Tr>
+                        <Th>Location</Th>
+                        <Th>Name</Th>
+                        <Th>Address</Th>
+                        <Th>Type</Th>
+                        <Th isNumeric>Rentable Sq Ft</Th>
+                      </Tr>
+                    </Thead>
+                    <Tbody>
+                      {buildings.map(building => (
+                        <Tr key={building.locationCode}>
+                          <Td fontFamily="mono">
+                            <Link as={NextLink} href={getPropertyUrl(building.locationCode)} color="blue.600">
+                              {building.locationCode}
+                            </Link>
+                          </Td>
+                          <Td>{building.realPropertyAssetName}</Td>
+                          <Td>{building.streetAddress}, {building.city}</Td>
+                          <Td>
+                            <Badge colorScheme={building.ownedOrLeased === 'F' ? 'green' : 'blue'}>
+                              {building.ownedOrLeased === 'F' ? 'Owned' : 'Leased'}
+                            </Badge>
+                          </Td>
+                          <Td isNumeric>{formatSquareFootage(building.buildingRentableSquareFeet)}</Td>
+                        </Tr>
+                      ))}
+                    </Tbody>
+                  </Table>
+                </TableContainer>
+              </VStack>
+            </CardBody>
+          </Card>
+
+          {/* Leases */}
+          <Card shadow="sm" sx={PRINT_CARD}>
+            <CardBody p={6}>
+              <VStack spacing={4} align="stretch">
+                <HStack justify="space-between">
+                  <Heading size="md" color="gray.900">
+                    Leases
+                  </Heading>
+                  <Text fontSize="sm" color="gray.600">
+                    {leases.length} {leases.length === 1 ? 'lease' : 'leases'}, soonest expiration first
+                  </Text>
+                </HStack>
+                {leases.length === 0 ? (
+                  <Text fontSize="sm" color="gray.500">No leases are recorded for this district.</Text>
+                ) : (
+                  <TableContainer whiteSpace="normal">
+                    <Table variant="simple" size="sm">
+                      <Thead>
+                        <Tr>
+                          <Th>Lease Number</Th>
+                          <Th>Property</Th>
+                          <Th>Status</Th>
+                          <Th>Effective</Th>
+                          <Th>Expiration</Th>
+                          <Th isNumeric>Rentable Sq Ft</Th>
+                        </Tr>
+                      </Thead>
+                      <Tbody>
+                        {leases.map((lease, index) => (
+                          <Tr key={`${lease.locationCode}-${lease.leaseNumber}-${index}`}>
+                            <Td fontWeight="medium">{lease.leaseNumber || 'N/A'}</Td>
+                            <Td>
+                              <Link as={NextLink} href={getPropertyUrl(lease.locationCode)} color="blue.600">
+                                {lease.realPropertyAssetName || lease.locationCode}
+                              </Link>
+                              <Text fontSize="xs" color="gray.500">{lease.city}</Text>
+                            </Td>
+                            <Td>
+                              <Badge colorScheme={getStatusColor(lease.leaseStatus)} size="sm">
+                                {lease.leaseStatus.toUpperCase()}
+                              </Badge>
+                            </Td>
+                            <Td>{formatDate(lease.leaseEffectiveDate)}</Td>
+                            <Td>{formatDate(lease.leaseExpirationDate)}</Td>
+                            <Td isNumeric>{formatSquareFootage(lease.buildingRentableSquareFeet || 0)}</Td>
+                          </Tr>
+                        ))}
+                      </Tbody>
+                    </Table>
+                  </TableContainer>
+                )}
+              </VStack>
+            </CardBody>
+          </Card>
+        </VStack>
+      </Container>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,314 @@
+'use client';
+
+import { Suspense, useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Box,
+  Container,
+  Text,
+  Spinner,
+  Center,
+  VStack,
+  SimpleGrid,
+  Heading,
+  Badge,
+  Card,
+  CardBody,
+  HStack,
+  Icon,
+  Input,
+  InputGroup,
+  InputLeftElement,
+  Link,
+  useColorModeValue,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Button,
+  Flex,
+  Select,
+  TableContainer,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react';
+import { SearchIcon } from '@chakra-ui/icons';
+import NextLink from 'next/link';
+import { FiFlag } from 'react-icons/fi';
+import MainLayout from '@/app/components/layout/main-layout';
+import SavedViewsMenu from '@/app/components/ui/saved-views-menu';
+import { formatNumber, formatSquareFootage } from '@/lib/utils/data-helpers';
+import { useUrlFilters } from '@/lib/hooks/use-url-filters';
+import { TDistrictSummary } from '@/types/property';
+
+// Filters and sort order kept in the URL; only values differing from these are written
+const DEFAULT_FILTERS = {
+  search: '',
+  state: 'all',
+  sortBy: 'district',
+};
+
+const SORT_OPTIONS: { value: string; label: string; compare: (a: TDistrictSummary, b: TDistrictSummary) => number }[] = [
+  { value: 'district', label: 'District', compare: (a, b) => a.state.localeCompare(b.state) || a.district - b.district },
+  { value: 'buildings', label: 'Most buildings', compare: (a, b) => b.buildings - a.buildings },
+  {
+    value: 'squareFeet',
+    label: 'Most square feet',
+    compare: (a, b) => (b.ownedSquareFeet + b.leasedSquareFeet) - (a.ownedSquareFeet + a.leasedSquareFeet),
+  },
+  { value: 'expiring', label: 'Most expiring leases', compare: (a, b) => b.expiringLeases - a.expiringLeases },
+];
+
+// Totals card for the filtered districts
+const StatCard = ({ label, value, helpText }: { label: string; value: string; helpText?: string }) => {
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.100', 'gray.700');
+
+  return (
+    <Card bg={bgColor} border="1px" borderColor={borderColor} shadow="sm">
+      <CardBody p={5}>
+        <VStack align="stretch" spacing={1}>
+          <Text fontSize="sm" fontWeight="medium" color="gray.600">
+            {label}
+          </Text>
+          <Text fontSize="2xl" fontWeight="bold" color="gray.900">
+            {value}
+          </Text>
+          {helpText && (
+            <Text fontSize="xs" color="gray.500">
+              {helpText}
+            </Text>
+          )}
+        </VStack>
+      </CardBody>
+    </Card>
+  );
+};
+
+function DistrictsContent() {
+  const [districts, setDistricts] = useState<TDistrictSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { values: urlFilters, update: updateFilters, applyQuery, query } = useUrlFilters(DEFAULT_FILTERS);
+  const { search, state: stateFilter, sortBy } = urlFilters;
+
+  const loadDistricts = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/districts');
+      if (!response.ok) {
+        throw new Error('Failed to fetch congressional districts');
+      }
+      const data = await response.json();
+      setDistricts(data.districts);
+    } catch (error) {
+      console.error('❌ Error loading districts:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDistricts();
+  }, [loadDistricts]);
+
+  const states = useMemo(
+    () => Array.from(new Set((districts || []).map(district => district.state))).sort(),
+    [districts]
+  );
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const compare = (SORT_OPTIONS.find(option => option.value === sortBy) || SORT_OPTIONS[0]).compare;
+
+    return (districts || [])
+      .filter(district => stateFilter === 'all' || district.state === stateFilter)
+      .filter(district => !term
+        || district.label.toLowerCase().includes(term)
+        || district.representative.toLowerCase().includes(term)
+        || district.otherRepresentativeNames.some(name => name.toLowerCase().includes(term)))
+      .sort(compare);
+  }, [districts, search, stateFilter, sortBy]);
+
+  const totals = useMemo(() => filtered.reduce(
+    (sum, district) => ({
+      buildings: sum.buildings + district.buildings,
+      squareFeet: sum.squareFeet + district.ownedSquareFeet + district.leasedSquareFeet,
+      leases: sum.leases + district.leases,
+      expiringLeases: sum.expiringLeases + district.expiringLeases,
+    }),
+    { buildings: 0, squareFeet: 0, leases: 0, expiringLeases: 0 }
+  ), [filtered]);
+
+  if (error) {
+    return (
+      <MainLayout title="Congressional Districts">
+        <Container maxW="7xl" py={8}>
+          <VStack spacing={6}>
+            <Alert status="error">
+              <AlertIcon />
+              <Box>
+                <AlertTitle>Error Loading Districts</AlertTitle>
+                <AlertDescription>
+                  <Text mb={2}>{error}</Text>
+                </AlertDescription>
+              </Box>
+            </Alert>
+            <Button onClick={loadDistricts} colorScheme="blue">
+              Retry Loading
+            </Button>
+          </VStack>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout title="Congressional Districts">
+      <Container maxW="7xl" py={8}>
+        <VStack spacing={8} align="stretch">
+
+          {/* Header Section */}
+          <Box>
+            <HStack spacing={3} align="center">
+              <Icon as={FiFlag} boxSize={8} color="blue.600" />
+              <VStack align="start" spacing={0}>
+                <Heading size="xl" color="gray.900" fontWeight="bold">
+                  Congressional Districts
+                </Heading>
+                <Text color="gray.600" fontSize="lg">
+                  Federal buildings and leases by congressional district
+                </Text>
+              </VStack>
+            </HStack>
+          </Box>
+
+          {!districts ? (
+            <Center h="300px">
+              <VStack spacing={4}>
+                <Spinner size="lg" color="blue.500" />
+                <Text fontSize="sm" color="gray.500">Loading districts...</Text>
+              </VStack>
+            </Center>
+          ) : (
+            <>
+              <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={6}>
+                <StatCard label="Districts" value={formatNumber(filtered.length)} helpText={`of ${formatNumber(districts.length)}`} />
+                <StatCard label="Buildings" value={formatNumber(totals.buildings)} helpText={`${formatSquareFootage(totals.squareFeet)} rentable`} />
+                <StatCard label="Leases" value={formatNumber(totals.leases)} />
+                <StatCard label="Expiring Leases" value={formatNumber(totals.expiringLeases)} helpText="Within 12 months" />
+              </SimpleGrid>
+
+              {/* Filters */}
+              <Flex gap={3} wrap="wrap">
+                <InputGroup maxW="320px" size="sm">
+                  <InputLeftElement pointerEvents="none">
+                    <SearchIcon color="gray.400" />
+                  </InputLeftElement>
+                  <Input
+                    placeholder="Search district or representative..."
+                    value={search}
+                    onChange={(e) => updateFilters({ search: e.target.value })}
+                    bg="white"
+                    borderColor="gray.300"
+                  />
+                </InputGroup>
+
+                <Select
+                  value={stateFilter}
+                  onChange={(e) => updateFilters({ state: e.target.value })}
+                  maxW="180px"
+                  size="sm"
+                  bg="white"
+                  borderColor="gray.300"
+                >
+                  <option value="all">All States</option>
+                  {states.map(state => (
+                    <option key={state} value={state}>{state}</option>
+                  ))}
+                </Select>
+
+                <Select
+                  value={sortBy}
+                  onChange={(e) => updateFilters({ sortBy: e.target.value })}
+                  maxW="220px"
+                  size="sm"
+                  bg="white"
+                  borderColor="gray.300"
+                >
+                  {SORT_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>Sort: {option.label}</option>
+                  ))}
+                </Select>
+
+                <Box ml="auto">
+                  <SavedViewsMenu page="districts" query={query} onApply={applyQuery} />
+                </Box>
+              </Flex>
+
+              <Card border="1px" borderColor="gray.100" shadow="sm">
+                <CardBody p={6}>
+                  <TableContainer maxH="600px" overflowY="auto">
+                    <Table variant="simple" size="sm">
+                      <Thead bg="gray.50" position="sticky" top={0} zIndex={1}>
+                        <Tr>
+                          <Th>District</Th>
+                          <Th>Representative</Th>
+                          <Th isNumeric>Owned</Th>
+                          <Th isNumeric>Leased</Th>
+                          <Th isNumeric>Owned Sq Ft</Th>
+                          <Th isNumeric>Leased Sq Ft</Th>
+                          <Th isNumeric>Leases</Th>
+                          <Th isNumeric>Expiring</Th>
+                        </Tr>
+                      </Thead>
+                      <Tbody>
+                        {filtered.map(district => (
+                          <Tr key={district.code}>
+                            <Td fontWeight="medium">
+                              <Link as={NextLink} href={`/districts/${district.code}`} color="blue.600">
+                                {district.label}
+                              </Link>
+                            </Td>
+                            <Td>{district.representative || '—'}</Td>
+                            <Td isNumeric>{formatNumber(district.ownedBuildings)}</Td>
+                            <Td isNumeric>{formatNumber(district.leasedBuildings)}</Td>
+                            <Td isNumeric>{formatSquareFootage(district.ownedSquareFeet)}</Td>
+                            <Td isNumeric>{formatSquareFootage(district.leasedSquareFeet)}</Td>
+                            <Td isNumeric>{formatNumber(district.leases)}</Td>
+                            <Td isNumeric>
+                              {district.expiringLeases > 0
+                                ? <Badge colorScheme="orange">{district.expiringLeases}</Badge>
+                                : 0}
+                            </Td>
+                          </Tr>
+                        ))}
+                      </Tbody>
+                    </Table>
+                  </TableContainer>
+
+                  {filtered.length === 0 && (
+                    <Center py={8}>
+                      <Text color="gray.500">No districts match these filters</Text>
+                    </Center>
+                  )}
+                </CardBody>
+              </Card>
+            </>
+          )}
+        </VStack>
+      </Container>
+    </MainLayout>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function DistrictsPage() {
+  return (
+    <Suspense fallback={<MainLayout title="Congressional Districts"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <DistrictsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { Alert, AlertDescription, AlertIcon, AlertTitle, Box, Button } from '@chakra-ui/react';
+import NextLink from 'next/link';
+import MainLayout from '@/app/components/layout/main-layout';
+import { ROLE_LABELS } from '@/lib/auth/roles';
+import { useSession } from '@/lib/hooks/use-session';
+
+// Shown by the middleware in place of pages the signed-in user's role cannot open
+export default function ForbiddenPage() {
+  const user = useSession();
+
+  return (
+    <MainLayout title="Access Denied">
+      <Alert status="warning" borderRadius="md" alignItems="flex-start">
+        <AlertIcon />
+        <Box>
+          <AlertTitle>You do not have access to this page</AlertTitle>
+          <AlertDescription>
+            {user ? `Your role is ${ROLE_LABELS[user.role]}. ` : ''}
+            Ask a data admin for a role with access if you need it.
+          </AlertDescription>
+        </Box>
+      </Alert>
+      <Button as={NextLink} href="/" mt={4} size="sm">
+        Back to the overview
+      </Button>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,454 @@
+'use client';
+
+import { Suspense, useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Box,
+  Container,
+  Text,
+  Spinner,
+  Center,
+  VStack,
+  SimpleGrid,
+  Heading,
+  Badge,
+  Card,
+  CardBody,
+  Divider,
+  HStack,
+  Icon,
+  useColorModeValue,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Button,
+  ButtonGroup,
+  Flex,
+  Select,
+  Tabs,
+  TabList,
+  Tab,
+  TabPanels,
+  TabPanel,
+  TableContainer,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react';
+import ModernBarChart from '@/app/components/charts/ModernBarChart';
+import ResponsiveChart from '@/app/components/charts/ResponsiveChart';
+import { FiTrendingUp, FiCalendar } from 'react-icons/fi';
+import MainLayout from '@/app/components/layout/main-layout';
+import SavedViewsMenu from '@/app/components/ui/saved-views-menu';
+import { formatNumber, formatSquareFootage } from '@/lib/utils/data-helpers';
+import { FORECAST_HORIZONS } from '@/lib/utils/lease-forecast';
+import { useUrlFilters } from '@/lib/hooks/use-url-filters';
+import {
+  TBuildingFilterValues,
+  TForecastGroup,
+  TForecastPeriod,
+  TLeaseForecast,
+} from '@/types/property';
+
+type TForecastMetric = 'leases' | 'rentableSquareFeet';
+
+const HORIZON_COLORS = ['red', 'orange', 'blue', 'green'];
+
+// Filters, selected horizon and chart metric kept in the URL; only values differing from these are written
+const DEFAULT_FILTERS = {
+  state: 'all',
+  gsaRegion: 'all',
+  assetType: 'all',
+  horizon: FORECAST_HORIZONS[FORECAST_HORIZONS.length - 1],
+  metric: 'leases',
+};
+
+// Horizon summary card: leases and square feet expiring within N years
+const HorizonCard = ({
+  years,
+  leases,
+  rentableSquareFeet,
+  end,
+  color,
+  isSelected,
+  onSelect,
+}: {
+  years: number;
+  leases: number;
+  rentableSquareFeet: number;
+  end: string;
+  color: string;
+  isSelected: boolean;
+  onSelect: () => void;
+}) => {
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.100', 'gray.700');
+
+  return (
+    <Card
+      bg={bgColor}
+      border="2px"
+      borderColor={isSelected ? `${color}.400` : borderColor}
+      shadow="sm"
+      _hover={{ shadow: 'md' }}
+      transition="all 0.2s"
+      cursor="pointer"
+      onClick={onSelect}
+    >
+      <CardBody p={6}>
+        <Flex align="center" justify="space-between" mb={3}>
+          <Box p={3} bg={`${color}.50`} borderRadius="xl" color={`${color}.600`}>
+            <Icon as={FiCalendar} boxSize={6} />
+          </Box>
+          <Badge colorScheme={color}>{years} {years === 1 ? 'year' : 'years'}</Badge>
+        </Flex>
+
+        <VStack align="stretch" spacing={1}>
+          <Text fontSize="sm" fontWeight="medium" color="gray.600">
+            Expiring within {years} {years === 1 ? 'year' : 'years'}
+          </Text>
+          <Text fontSize="2xl" fontWeight="bold" color="gray.900">
+            {formatNumber(leases)} leases
+          </Text>
+          <Text fontSize="xs" color="gray.500">
+            {formatSquareFootage(rentableSquareFeet)} through {end}
+          </Text>
+        </VStack>
+      </CardBody>
+    </Card>
+  );
+};
+
+// Chart card with the same styling as the other dashboards
+const ChartContainer = ({ title, children }: { title: string; children: React.ReactNode }) => {
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.100', 'gray.700');
+
+  return (
+    <Card bg={bgColor} border="1px" borderColor={borderColor} shadow="sm">
+      <CardBody p={6}>
+        <VStack spacing={6} align="stretch">
+          <Heading size="md" color="gray.900">
+            {title}
+          </Heading>
+          <Box h="300px">
+            {children}
+          </Box>
+        </VStack>
+      </CardBody>
+    </Card>
+  );
+};
+
+// Breakdown table with one leases/square feet column pair per horizon
+const ForecastGroupTable = ({ label, groups }: { label: string; groups: TForecastGroup[] }) => (
+  <TableContainer maxH="500px" overflowY="auto">
+    <Table variant="simple" size="sm">
+      <Thead bg="gray.50" position="sticky" top={0} zIndex={1}>
+        <Tr>
+          <Th>{label}</Th>
+          {FORECAST_HORIZONS.map(years => (
+            <Th key={years} isNumeric>{years}y leases / sq ft</Th>
+          ))}
+        </Tr>
+      </Thead>
+      <Tbody>
+        {groups.map(group => (
+          <Tr key={group.key}>
+            <Td fontWeight="medium">{group.key}</Td>
+            {group.horizons.map(horizon => (
+              <Td key={horizon.years} isNumeric>
+                {formatNumber(horizon.leases)} / {formatSquareFootage(horizon.rentableSquareFeet)}
+              </Td>
+            ))}
+          </Tr>
+        ))}
+      </Tbody>
+    </Table>
+  </TableContainer>
+);
+
+// Chart data for the periods that start within the selected horizon
+function toChartData(periods: TForecastPeriod[], end: string, metric: TForecastMetric) {
+  return periods
+    .filter(period => period.start <= end)
+    .map(period => ({ name: period.label, value: period[metric] }));
+}
+
+function LeaseForecastContent() {
+  const [forecast, setForecast] = useState<TLeaseForecast | null>(null);
+  const [filterValues, setFilterValues] = useState<TBuildingFilterValues | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { values: urlFilters, update: updateFilters, applyQuery, query } = useUrlFilters(DEFAULT_FILTERS);
+  const { state: stateFilter, gsaRegion: regionFilter, assetType: assetTypeFilter } = urlFilters;
+  const metric: TForecastMetric = urlFilters.metric === 'rentableSquareFeet' ? 'rentableSquareFeet' : 'leases';
+  const horizonIndex = Math.max(0, FORECAST_HORIZONS.indexOf(urlFilters.horizon));
+
+  const loadForecast = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams();
+      if (stateFilter !== 'all') params.set('state', stateFilter);
+      if (regionFilter !== 'all') params.set('gsaRegion', regionFilter);
+      if (assetTypeFilter !== 'all') params.set('assetType', assetTypeFilter);
+
+      const response = await fetch(`/api/leases/forecast?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch lease forecast');
+      }
+      setForecast(await response.json());
+    } catch (error) {
+      console.error('❌ Error loading lease forecast:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [stateFilter, regionFilter, assetTypeFilter]);
+
+  useEffect(() => {
+    loadForecast();
+  }, [loadForecast]);
+
+  // Filter options only need loading once
+  useEffect(() => {
+    fetch('/api/buildings/filters')
+      .then(response => (response.ok ? response.json() : null))
+      .then(setFilterValues)
+      .catch(error => console.error('Error loading forecast filters:', error));
+  }, []);
+
+  const selectedHorizon = forecast?.horizons[horizonIndex];
+  const yearData = useMemo(
+    () => (forecast && selectedHorizon ? toChartData(forecast.years, selectedHorizon.end, metric) : []),
+    [forecast, selectedHorizon, metric]
+  );
+  const quarterData = useMemo(
+    () => (forecast && selectedHorizon ? toChartData(forecast.quarters, selectedHorizon.end, metric) : []),
+    [forecast, selectedHorizon, metric]
+  );
+
+  if (error) {
+    return (
+      <MainLayout title="Lease Expiration Forecast">
+        <Container maxW="7xl" py={8}>
+          <VStack spacing={6}>
+            <Alert status="error">
+              <AlertIcon />
+              <Box>
+                <AlertTitle>Error Loading Lease Forecast</AlertTitle>
+                <AlertDescription>
+                  <Text mb={2}>{error}</Text>
+                </AlertDescription>
+              </Box>
+            </Alert>
+            <Button onClick={loadForecast} colorScheme="blue">
+              Retry Loading
+            </Button>
+          </VStack>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  const metricLabel = metric === 'leases' ? 'Leases' : 'Rentable Sq Ft';
+
+  return (
+    <MainLayout title="Lease Expiration Forecast">
+      <Container maxW="7xl" py={8}>
+        <VStack spacing={8} align="stretch">
+
+          {/* Header Section */}
+          <Box>
+            <VStack spacing={3} align="stretch">
+              <HStack spacing={3} align="center">
+                <Icon as={FiTrendingUp} boxSize={8} color="blue.600" />
+                <VStack align="start" spacing={0}>
+                  <Heading size="xl" color="gray.900" fontWeight="bold">
+                    Lease Expiration Forecast
+                  </Heading>
+                  <Text color="gray.600" fontSize="lg">
+                    Leases and rentable square feet coming up for replacement over the next 10 years
+                  </Text>
+                </VStack>
+              </HStack>
+
+              {forecast && (
+                <HStack spacing={3}>
+                  <Badge colorScheme="blue" px={3} py={1} borderRadius="full" fontSize="sm">
+                    As of {forecast.asOf}
+                  </Badge>
+                  {loading && <Spinner size="sm" color="blue.500" />}
+                </HStack>
+              )}
+            </VStack>
+          </Box>
+
+          {/* Filters */}
+          <Flex gap={3} wrap="wrap">
+            <Select
+              value={stateFilter}
+              onChange={(e) => updateFilters({ state: e.target.value })}
+              maxW="220px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              <option value="all">All States</option>
+              {filterValues?.states.map(state => (
+                <option key={state} value={state}>{state}</option>
+              ))}
+            </Select>
+
+            <Select
+              value={regionFilter}
+              onChange={(e) => updateFilters({ gsaRegion: e.target.value })}
+              maxW="220px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              <option value="all">All GSA Regions</option>
+              {filterValues?.gsaRegions.map(region => (
+                <option key={region} value={region}>Region {region}</option>
+              ))}
+            </Select>
+
+            <Select
+              value={assetTypeFilter}
+              onChange={(e) => updateFilters({ assetType: e.target.value })}
+              maxW="220px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              <option value="all">All Asset Types</option>
+              {filterValues?.assetTypes.map(assetType => (
+                <option key={assetType} value={assetType}>{assetType}</option>
+              ))}
+            </Select>
+
+            <Button
+              size="sm"
+              variant="outline"
+              colorScheme="gray"
+              onClick={() => updateFilters({ state: 'all', gsaRegion: 'all', assetType: 'all' })}
+            >
+              Clear All
+            </Button>
+
+            <Box ml="auto">
+              <SavedViewsMenu page="lease-forecast" query={query} onApply={applyQuery} />
+            </Box>
+          </Flex>
+
+          <Divider />
+
+          {!forecast ? (
+            <Center h="300px">
+              <VStack spacing={4}>
+                <Spinner size="lg" color="blue.500" />
+                <Text fontSize="sm" color="gray.500">Building lease forecast...</Text>
+              </VStack>
+            </Center>
+          ) : (
+            <>
+              {/* Rolling horizons - click one to scope the charts */}
+              <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={6}>
+                {forecast.horizons.map((horizon, index) => (
+                  <HorizonCard
+                    key={horizon.years}
+                    {...horizon}
+                    color={HORIZON_COLORS[index % HORIZON_COLORS.length]}
+                    isSelected={index === horizonIndex}
+                    onSelect={() => updateFilters({ horizon: horizon.years })}
+                  />
+                ))}
+              </SimpleGrid>
+
+              <Flex justify="flex-end">
+                <ButtonGroup size="sm" isAttached variant="outline" colorScheme="blue">
+                  <Button
+                    variant={metric === 'leases' ? 'solid' : 'outline'}
+                    onClick={() => updateFilters({ metric: 'leases' })}
+                  >
+                    Leases
+                  </Button>
+                  <Button
+                    variant={metric === 'rentableSquareFeet' ? 'solid' : 'outline'}
+                    onClick={() => updateFilters({ metric: 'rentableSquareFeet' })}
+                  >
+                    Square Feet
+                  </Button>
+                </ButtonGroup>
+              </Flex>
+
+              <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={8}>
+                <ChartContainer title={`${metricLabel} Expiring by Year`}>
+                  <ResponsiveChart>
+                    {({ width, height }) => (
+                      <ModernBarChart data={yearData} width={width} height={height} />
+                    )}
+                  </ResponsiveChart>
+                </ChartContainer>
+
+                <ChartContainer title={`${metricLabel} Expiring by Quarter`}>
+                  <ResponsiveChart>
+                    {({ width, height }) => (
+                      <ModernBarChart
+                        data={quarterData}
+                        width={width}
+                        height={height}
+                        primaryColor="#f59e0b"
+                        gradientColor="#fbbf24"
+                      />
+                    )}
+                  </ResponsiveChart>
+                </ChartContainer>
+              </SimpleGrid>
+
+              {/* Breakdowns across all horizons */}
+              <Card border="1px" borderColor="gray.100" shadow="sm">
+                <CardBody p={6}>
+                  <Tabs colorScheme="blue" isLazy>
+                    <TabList>
+                      <Tab>By State</Tab>
+                      <Tab>By GSA Region</Tab>
+                      <Tab>By Asset Type</Tab>
+                    </TabList>
+                    <TabPanels>
+                      <TabPanel px={0}>
+                        <ForecastGroupTable label="State" groups={forecast.byState} />
+                      </TabPanel>
+                      <TabPanel px={0}>
+                        <ForecastGroupTable label="GSA Region" groups={forecast.byGsaRegion} />
+                      </TabPanel>
+                      <TabPanel px={0}>
+                        <ForecastGroupTable label="Asset Type" groups={forecast.byAssetType} />
+                      </TabPanel>
+                    </TabPanels>
+                  </Tabs>
+                </CardBody>
+              </Card>
+            </>
+          )}
+        </VStack>
+      </Container>
+    </MainLayout>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function LeaseForecastDashboard() {
+  return (
+    <Suspense fallback={<MainLayout title="Lease Expiration Forecast"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <LeaseForecastContent />
+    </Suspense>
+  );
+}
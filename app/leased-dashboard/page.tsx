@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { Suspense, useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   Box,
   Container,
@@ -49,8 +49,13 @@ import {
   Progress,
   Input,
   InputGroup,
-  InputLeftElement
+  InputLeftElement,
+  Link,
+  Tag,
+  TagLabel,
+  TagCloseButton,
 } from '@chakra-ui/react';
+import NextLink from 'next/link';
 import {
   BarChart,
   Bar,
@@ -68,7 +73,12 @@ import { DataSet } from 'vis-data';
 import { DownloadIcon, SearchIcon } from '@chakra-ui/icons';
 import MainLayout from '../components/layout/main-layout';
 import VisTimelineGantt from '../components/VisTimelineGantt';
+import SavedViewsMenu from '../components/ui/saved-views-menu';
 import { TBuilding } from '../../types/property';
+import { formatDate, getPropertyUrl } from '@/lib/utils/data-helpers';
+import { useUrlFilters } from '@/lib/hooks/use-url-filters';
+import { usePageAction } from '@/lib/hooks/use-page-actions';
+import { reportExport } from '@/lib/utils/audit-log';
 import {
   FiHome,
   FiDollarSign,
@@ -90,6 +100,19 @@ const CHART_COLORS = {
 
 const ITEMS_PER_PAGE_OPTIONS = [10, 25, 50, 100];
 
+// Lease table filter, sort and paging state kept in the URL; only values differing from these are written
+const DEFAULT_FILTERS = {
+  search: '',
+  city: 'all',
+  state: 'all',
+  status: 'all',
+  expiresBy: '',
+  sortBy: 'realPropertyAssetName',
+  sortOrder: 'asc',
+  page: 1,
+  limit: 25,
+};
+
 // Utility functions
 const formatNumber = (num: number | null | undefined): string => {
   if (num === null || num === undefined || isNaN(num)) {
@@ -300,10 +323,12 @@ const SortableHeader = ({
   );
 };
 
-export default function LeasedPropertiesDashboard() {
+function LeasedPropertiesContent() {
   const [leasedBuildings, setLeasedBuildings] = useState<TBuilding[]>([]);
   const [leaseRecords, setLeaseRecords] = useState<any[]>([]);
-  const [filteredProperties, setFilteredProperties] = useState<TBuilding[]>([]);
+  const [totalLeaseRecords, setTotalLeaseRecords] = useState(0);
+  const [tableLoading, setTableLoading] = useState(false);
+  const latestTableRequestRef = useRef(0);
   const [loading, setLoading] = useState(true);
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [loadingMessage, setLoadingMessage] = useState('Initializing...');
@@ -313,14 +338,19 @@ export default function LeasedPropertiesDashboard() {
   const timelineInstance = useRef<Timeline | null>(null);
   
   // Filter and pagination state
-  const [searchTerm, setSearchTerm] = useState('');
-  const [cityFilter, setCityFilter] = useState<string>('all');
-  const [stateFilter, setStateFilter] = useState<string>('all');
-  const [leaseStatusFilter, setLeaseStatusFilter] = useState<string>('all');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(25);
-  const [sortField, setSortField] = useState<keyof TBuilding>('realPropertyAssetName');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const { values: urlFilters, update: updateFilters, applyQuery, query } = useUrlFilters(DEFAULT_FILTERS);
+  const {
+    search: debouncedSearchTerm,
+    city: cityFilter,
+    state: stateFilter,
+    status: leaseStatusFilter,
+    expiresBy,
+    page: currentPage,
+    limit: itemsPerPage,
+  } = urlFilters;
+  const sortField = urlFilters.sortBy as keyof TBuilding;
+  const sortDirection = urlFilters.sortOrder === 'desc' ? 'desc' : 'asc';
+  const [searchTerm, setSearchTerm] = useState(debouncedSearchTerm);
   const [uniqueFilterValues, setUniqueFilterValues] = useState<{
     cities: string[];
     states: string[];
@@ -376,80 +406,71 @@ export default function LeasedPropertiesDashboard() {
     };
   };
 
-  const filterPropertiesBySearch = (properties: TBuilding[], searchTerm: string) => {
-    if (!searchTerm.trim()) return properties;
-    
-    const term = searchTerm.toLowerCase();
-    return properties.filter(property =>
-      property.realPropertyAssetName?.toLowerCase().includes(term) ||
-      property.city?.toLowerCase().includes(term) ||
-      property.state?.toLowerCase().includes(term) ||
-      property.locationCode?.toLowerCase().includes(term) ||
-      (property as any).leaseNumber?.toLowerCase().includes(term)
-    );
-  };
+  // Current table query in the shape expected by GET /api/leases?format=raw
+  const leaseQuery = useMemo(() => ({
+    search: debouncedSearchTerm,
+    city: cityFilter,
+    state: stateFilter,
+    status: leaseStatusFilter,
+    expiresBy,
+    sortBy: sortField,
+    sortOrder: sortDirection,
+  }), [debouncedSearchTerm, cityFilter, stateFilter, leaseStatusFilter, expiresBy, sortField, sortDirection]);
+
+  const fetchLeaseRecords = useCallback(async (page: number, limit: number) => {
+    const params = new URLSearchParams({ format: 'raw', page: page.toString(), limit: limit.toString() });
+    Object.entries(leaseQuery).forEach(([key, value]) => {
+      if (value && value !== 'all') params.set(key, value);
+    });
 
-  const applyFilters = useCallback(() => {
-    let filtered = [...(leaseRecords.length > 0 ? leaseRecords : leasedBuildings)];
+    const response = await fetch(`/api/leases?${params}`);
+    if (!response.ok) {
+      throw new Error('Failed to fetch lease records');
+    }
+    return response.json();
+  }, [leaseQuery]);
 
-    // Apply search filter
-    filtered = filterPropertiesBySearch(filtered, searchTerm);
+  // Load only the table page being rendered; filtering, sorting and paging happen server-side
+  const loadLeasePage = useCallback(async () => {
+    const requestId = ++latestTableRequestRef.current;
 
-    // Apply dropdown filters
-    if (cityFilter !== 'all') {
-      filtered = filtered.filter(p => p.city === cityFilter);
-    }
-    if (stateFilter !== 'all') {
-      filtered = filtered.filter(p => p.state === stateFilter);
-    }
-    if (leaseStatusFilter !== 'all') {
-      filtered = filtered.filter(p => {
-        const record = p as any;
-        let recordStatus = record.leaseStatus;
-        
-        // Calculate lease status if missing
-        if (!recordStatus && record.leaseEffectiveDate && record.leaseExpirationDate) {
-          const now = new Date();
-          const startDate = new Date(record.leaseEffectiveDate);
-          const endDate = new Date(record.leaseExpirationDate);
-          
-          if (now < startDate) {
-            recordStatus = 'upcoming';
-          } else if (now > endDate) {
-            recordStatus = 'expired';
-          } else {
-            recordStatus = 'active';
-          }
-        }
-        
-        return recordStatus === leaseStatusFilter;
-      });
+    try {
+      setTableLoading(true);
+      const data = await fetchLeaseRecords(currentPage, itemsPerPage);
+      if (requestId !== latestTableRequestRef.current) return;
+
+      setLeaseRecords(data.buildings || []);
+      setTotalLeaseRecords(data.total || 0);
+    } catch (error) {
+      console.error('❌ Error loading lease records:', error);
+    } finally {
+      if (requestId === latestTableRequestRef.current) {
+        setTableLoading(false);
+      }
     }
+  }, [fetchLeaseRecords, currentPage, itemsPerPage]);
 
-    // Apply sorting
-    filtered.sort((a, b) => {
-      const aVal = a[sortField];
-      const bVal = b[sortField];
-      
-      if (aVal === bVal) return 0;
-      if (aVal == null) return 1;
-      if (bVal == null) return -1;
-      
-      const comparison = aVal < bVal ? -1 : 1;
-      return sortDirection === 'asc' ? comparison : -comparison;
-    });
+  useEffect(() => {
+    loadLeasePage();
+  }, [loadLeasePage]);
 
-    setFilteredProperties(filtered);
-    setCurrentPage(1); // Reset to first page when filters change
-  }, [leasedBuildings, leaseRecords, searchTerm, cityFilter, stateFilter, leaseStatusFilter, sortField, sortDirection]);
+  // Debounce search input so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    if (searchTerm === debouncedSearchTerm) return;
+    const timeoutId = setTimeout(() => updateFilters({ search: searchTerm, page: 1 }), 300);
+    return () => clearTimeout(timeoutId);
+  }, [searchTerm, debouncedSearchTerm, updateFilters]);
 
-  // Apply filters whenever dependencies change
+  // Show the search of a saved view or URL that was just applied, e.g. a palette link to this page
   useEffect(() => {
-    applyFilters();
-  }, [applyFilters]);
+    setSearchTerm(debouncedSearchTerm);
+  }, [debouncedSearchTerm]);
+
+  // Filter, sort and page size changes reset the page themselves; paging keeps everything else
+  const setCurrentPage = (page: number) => updateFilters({ page });
 
   // Export function
-  const exportToCSV = () => {
+  const exportToCSV = async () => {
     const headers = [
       'Building Name',
       'Location Code', 
@@ -462,7 +483,10 @@ export default function LeasedPropertiesDashboard() {
       'Square Footage'
     ];
 
-    const csvData = filteredProperties.map(property => {
+    // Export every lease record matching the current filters, not just the visible page
+    const { buildings: rows = [] } = await fetchLeaseRecords(1, Math.max(totalLeaseRecords, 1));
+
+    const csvData = (rows as TBuilding[]).map(property => {
       const enhanced = property as any;
       return [
         property.realPropertyAssetName || '',
@@ -486,8 +510,11 @@ export default function LeasedPropertiesDashboard() {
     link.href = URL.createObjectURL(blob);
     link.download = `leased-properties-${new Date().toISOString().split('T')[0]}.csv`;
     link.click();
+    reportExport('leases', 'csv', rows.length, window.location.search.slice(1));
   };
 
+  usePageAction('export', 'Export current view as CSV', exportToCSV);
+
   const loadLeasedProperties = useCallback(async () => {
     try {
       setLoading(true);
@@ -505,31 +532,14 @@ export default function LeasedPropertiesDashboard() {
       }
       const enhancedData = await enhancedResponse.json();
 
-      setLoadingProgress(50);
-      setLoadingMessage('Loading lease records for table...');
-
-      // Load raw lease records for table
-      const rawResponse = await fetch('/api/leases?includeStats=true&format=raw');
-      if (!rawResponse.ok) {
-        throw new Error('Failed to fetch lease records');
-      }
-      const rawData = await rawResponse.json();
-
       setLoadingProgress(80);
       setLoadingMessage('Processing dashboard data...');
 
       // Set enhanced buildings for Gantt chart
       setLeasedBuildings(enhancedData.buildings || []);
       
-      // Set raw lease records for table
-      setLeaseRecords(rawData.buildings || []);
-      
-      // Use raw stats (contains totalLeases property needed for UI)
-      setLeaseStats(rawData.stats || {});
-
-      // Extract unique filter values from lease records
-      const filterValues = extractUniqueFilterValues(rawData.buildings || []);
-      setUniqueFilterValues(filterValues);
+      // Enhanced stats include the base lease statistics (totalLeases, activeLeases, ...)
+      setLeaseStats(enhancedData.stats || {});
 
       setLoadingProgress(100);
       setLoadingMessage('Dashboard loaded successfully!');
@@ -560,8 +570,8 @@ export default function LeasedPropertiesDashboard() {
   }, [leasedBuildings]);
 
   // Calculate lease statistics
-  const totalProperties = filteredProperties.length;
-  const totalSquareFootage = filteredProperties.reduce(
+  const totalProperties = totalLeaseRecords;
+  const totalSquareFootage = leasedBuildings.reduce(
     (sum, prop) => sum + (prop.buildingRentableSquareFeet || 0),
     0
   );
@@ -569,17 +579,15 @@ export default function LeasedPropertiesDashboard() {
 
   // Pagination calculations
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const paginatedProperties = filteredProperties.slice(startIndex, endIndex);
-  const totalPages = Math.ceil(filteredProperties.length / itemsPerPage);
+  const endIndex = startIndex + leaseRecords.length;
+  const totalPages = Math.max(1, Math.ceil(totalLeaseRecords / itemsPerPage));
 
   // Handle sorting
   const handleSort = (field: keyof TBuilding) => {
     if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+      updateFilters({ sortOrder: sortDirection === 'asc' ? 'desc' : 'asc', page: 1 });
     } else {
-      setSortField(field);
-      setSortDirection('asc');
+      updateFilters({ sortBy: field, sortOrder: 'asc', page: 1 });
     }
   };
 
@@ -720,18 +728,22 @@ export default function LeasedPropertiesDashboard() {
                       Leased Properties Overview
                     </Heading>
                     <Text fontSize="sm" color="gray.600" mt={1}>
-                      {filteredProperties.length.toLocaleString()} properties found
+                      {totalLeaseRecords.toLocaleString()} properties found
+                      {tableLoading && <Spinner size="xs" ml={2} />}
                     </Text>
                   </Box>
-                  <Button
-                    leftIcon={<DownloadIcon />}
-                    colorScheme="blue"
-                    variant="outline"
-                    onClick={exportToCSV}
-                    size="sm"
-                  >
-                    Export CSV
-                  </Button>
+                  <HStack spacing={2}>
+                    <SavedViewsMenu page="leased-dashboard" query={query} onApply={applyQuery} />
+                    <Button
+                      leftIcon={<DownloadIcon />}
+                      colorScheme="blue"
+                      variant="outline"
+                      onClick={exportToCSV}
+                      size="sm"
+                    >
+                      Export CSV
+                    </Button>
+                  </HStack>
                 </Flex>
 
                 {/* Filters */}
@@ -754,7 +766,7 @@ export default function LeasedPropertiesDashboard() {
 
                     <Select
                       value={cityFilter}
-                      onChange={(e) => setCityFilter(e.target.value)}
+                      onChange={(e) => updateFilters({ city: e.target.value, page: 1 })}
                       flex="1"
                       size="sm"
                       fontSize="sm"
@@ -769,7 +781,7 @@ export default function LeasedPropertiesDashboard() {
 
                     <Select
                       value={stateFilter}
-                      onChange={(e) => setStateFilter(e.target.value)}
+                      onChange={(e) => updateFilters({ state: e.target.value, page: 1 })}
                       flex="1"
                       size="sm"
                       fontSize="sm"
@@ -784,7 +796,7 @@ export default function LeasedPropertiesDashboard() {
 
                     <Select
                       value={leaseStatusFilter}
-                      onChange={(e) => setLeaseStatusFilter(e.target.value)}
+                      onChange={(e) => updateFilters({ status: e.target.value, page: 1 })}
                       flex="1"
                       size="sm"
                       fontSize="sm"
@@ -803,15 +815,22 @@ export default function LeasedPropertiesDashboard() {
                         colorScheme="gray"
                         onClick={() => {
                           setSearchTerm('');
-                          setCityFilter('all');
-                          setStateFilter('all');
-                          setLeaseStatusFilter('all');
+                          updateFilters({ search: '', city: 'all', state: 'all', status: 'all', expiresBy: '', page: 1 });
                         }}
                       >
                         Clear All
                       </Button>
                     </Select>
                   </Flex>
+
+                  {expiresBy && (
+                    <Flex w="100%">
+                      <Tag size="md" colorScheme="orange" borderRadius="full">
+                        <TagLabel>Expiring by {formatDate(expiresBy)}</TagLabel>
+                        <TagCloseButton onClick={() => updateFilters({ expiresBy: '', page: 1 })} />
+                      </Tag>
+                    </Flex>
+                  )}
                 </VStack>
 
                 <TableContainer>
@@ -882,12 +901,14 @@ export default function LeasedPropertiesDashboard() {
                       </Tr>
                     </Thead>
                     <Tbody>
-                      {paginatedProperties.map((property, index) => {
+                      {(leaseRecords as TBuilding[]).map((property, index) => {
                         const enhancedProp = property as any; // EnhancedLeasedBuilding
                         return (
                           <Tr key={index} _hover={{ bg: 'blue.50' }} transition="all 0.2s">
                             <Td fontWeight="medium" maxW="300px">
-                              <Text noOfLines={2}>{property.realPropertyAssetName}</Text>
+                              <Link as={NextLink} href={getPropertyUrl(property.locationCode)} color="blue.600" noOfLines={2}>
+                                {property.realPropertyAssetName}
+                              </Link>
                             </Td>
                             <Td>{property.city}</Td>
                             <Td>
@@ -936,13 +957,13 @@ export default function LeasedPropertiesDashboard() {
                 <Flex justify="space-between" align="center">
                   <HStack spacing={4}>
                     <Text fontSize="sm" color="gray.600">
-                      Showing {startIndex + 1}-{Math.min(endIndex, filteredProperties.length)} of {filteredProperties.length.toLocaleString()} results
+                      Showing {totalLeaseRecords === 0 ? 0 : startIndex + 1}-{endIndex} of {totalLeaseRecords.toLocaleString()} results
                     </Text>
                     <HStack spacing={2}>
                       <Text fontSize="sm" color="gray.600">Items per page:</Text>
                       <Select
                         value={itemsPerPage}
-                        onChange={(e) => setItemsPerPage(Number(e.target.value))}
+                        onChange={(e) => updateFilters({ limit: Number(e.target.value), page: 1 })}
                         size="sm"
                         w="20"
                         bg="white"
@@ -980,7 +1001,7 @@ export default function LeasedPropertiesDashboard() {
                   </HStack>
                 </Flex>
 
-                {filteredProperties.length === 0 && (
+                {totalLeaseRecords === 0 && !tableLoading && (
                   <Center py={8}>
                     <VStack spacing={3}>
                       <Text color="gray.500">No leased properties found</Text>
@@ -998,4 +1019,13 @@ export default function LeasedPropertiesDashboard() {
       </Container>
     </MainLayout>
   );
-} 
\ No newline at end of file
+} 
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function LeasedPropertiesDashboard() {
+  return (
+    <Suspense fallback={<MainLayout title="Leased Properties Dashboard"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <LeasedPropertiesContent />
+    </Suspense>
+  );
+}
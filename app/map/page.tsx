@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { Suspense, useState, useEffect, useRef } from 'react';
 import {
   Box,
   Text,
@@ -15,27 +15,38 @@ import {
   Button,
   ButtonGroup,
   HStack,
-  Menu,
-  MenuButton,
-  MenuList,
-  MenuItem,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  NumberIncrementStepper,
+  NumberDecrementStepper,
+  Select,
 } from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { DownloadIcon } from '@chakra-ui/icons';
 import MainLayout from '@/app/components/layout/main-layout';
 import LoadingProgress from '@/app/components/ui/loading-progress';
-import { TMapMarker } from '@/types/property';
+import CompareButton from '@/app/components/ui/compare-button';
+import StateMetricsMap, { STATE_METRICS, TStateMetric } from '@/app/components/charts/StateMetricsMap';
+import { TBoundingBox, TBuilding, TGeoPoint, TMapMarker, TStateMetrics } from '@/types/property';
+import { getPropertyUrl } from '@/lib/utils/data-helpers';
+import { KM_PER_MILE, calculateDistance, createClusterIcon, createMarkerIcon } from '@/lib/utils/google-maps';
+import { TClusterIndex, createClusterIndex, getClusterType, getClustersInView } from '@/lib/utils/map-clusters';
+import { DEFAULT_RADIUS_MILES, MAX_PAGE_SIZE } from '@/lib/utils/query-params';
+import { usePageAction } from '@/lib/hooks/use-page-actions';
+import { reportExport } from '@/lib/utils/audit-log';
+import type { TBuildingFilters } from '@/lib/services/unified-data-service';
+import { GEOJSON_CONTENT_TYPE, downloadExport, exportFilename, toFeatureCollection } from '@/lib/utils/geo-export';
 
-export default function MapPage() {
+function MapContent() {
+  // Location code to center on, e.g. from the command palette
+  const focus = useSearchParams().get('focus');
   const [mapLoading, setMapLoading] = useState(true);
   const [dataLoading, setDataLoading] = useState(false); // Start as false since we're not loading data initially
   const [dataLoadingProgress, setDataLoadingProgress] = useState({ current: 0, total: 0, percentage: 0, message: '' });
   const [error, setError] = useState<string | null>(null);
   const [debugInfo, setDebugInfo] = useState<string[]>([]);
-  const [properties, setProperties] = useState<TMapMarker[]>([]);
-  const [allProperties, setAllProperties] = useState<TMapMarker[]>([]);
-  const [displayLimit, setDisplayLimit] = useState<number>(50);
-  const [markers, setMarkers] = useState<google.maps.Marker[]>([]);
-  const [isLoadingMarkers, setIsLoadingMarkers] = useState(false);
-  const [markerProgress, setMarkerProgress] = useState({ current: 0, total: 0, percentage: 0 });
   const [currentDisplayedProperties, setCurrentDisplayedProperties] = useState<TMapMarker[]>([]);
   const [ownedMarkersVisible, setOwnedMarkersVisible] = useState(true);
   const [leasedMarkersVisible, setLeasedMarkersVisible] = useState(true);
@@ -45,121 +56,121 @@ export default function MapPage() {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<google.maps.Map | null>(null);
   const infoWindowRef = useRef<google.maps.InfoWindow | null>(null);
+  // Full records behind the markers, for exports
+  const buildingsRef = useRef<Map<string, TBuilding>>(new Map());
+  // Cluster and property markers currently on the map
+  const markersRef = useRef<google.maps.Marker[]>([]);
+  const clusterIndexRef = useRef<TClusterIndex | null>(null);
+  const loadRequestRef = useRef(0);
+  // Viewport whose properties are all loaded, so zooming into it only needs new clusters
+  const loadedAreaRef = useRef<TBoundingBox | null>(null);
+  // Once properties are shown the map reloads them whenever the viewport changes
+  const [followViewport, setFollowViewport] = useState(false);
+  // "Within N miles of here" search; the ref mirrors state for the idle listener
+  const [radiusMiles, setRadiusMiles] = useState<number>(DEFAULT_RADIUS_MILES);
+  const [radiusCenter, setRadiusCenter] = useState<TGeoPoint | null>(null);
+  const radiusCenterRef = useRef<TGeoPoint | null>(null);
+  const radiusCircleRef = useRef<google.maps.Circle | null>(null);
+  // The idle listener is registered once, so it calls through a ref to see current state
+  const handleIdleRef = useRef<() => void>(() => {});
+  // Alternate layer shading whole states by a metric; drawn from bundled boundaries, not Google Maps
+  const [layer, setLayer] = useState<'markers' | 'states'>('markers');
+  const [stateMetric, setStateMetric] = useState<TStateMetric>('buildings');
+  const [stateMetrics, setStateMetrics] = useState<TStateMetrics[] | null>(null);
+  const [stateMetricsError, setStateMetricsError] = useState<string | null>(null);
 
   const addDebugInfo = (message: string) => {
     setDebugInfo(prev => [...prev, `${new Date().toLocaleTimeString()}: ${message}`]);
   };
 
-  const loadProperties = async (limitCount?: number) => {
+  const getViewportBounds = (): TBoundingBox | null => {
+    const bounds = mapInstanceRef.current?.getBounds();
+    if (!bounds) return null;
+    const northEast = bounds.getNorthEast();
+    const southWest = bounds.getSouthWest();
+    return { minLng: southWest.lng(), minLat: southWest.lat(), maxLng: northEast.lng(), maxLat: northEast.lat() };
+  };
+
+  // The area to load: the active radius search, otherwise the current viewport
+  const getSearchArea = (center: TGeoPoint | null): TBuildingFilters | null => {
+    if (center) {
+      return { near: center, radiusMiles };
+    }
+
+    const bbox = getViewportBounds();
+    return bbox ? { bbox } : null;
+  };
+
+  const toMapMarker = (building: TBuilding): TMapMarker => ({
+    id: building.locationCode,
+    name: building.realPropertyAssetName,
+    address: building.streetAddress,
+    lat: building.latitude,
+    lng: building.longitude,
+    squareFootage: building.buildingRentableSquareFeet || 0,
+    assetType: building.realPropertyAssetType || '',
+    ownedOrLeased: building.ownedOrLeased,
+  });
+
+  // Miles from the radius search center, or null when no radius search is active
+  const getDistanceMiles = (property: TMapMarker): number | null => {
+    if (!radiusCenter) return null;
+    return calculateDistance(radiusCenter.lat, radiusCenter.lng, property.lat, property.lng) / KM_PER_MILE;
+  };
+
+  // Load the properties inside the viewport (or radius search) and cluster them.
+  // Background reloads after panning skip the progress overlays.
+  const loadProperties = async (
+    center: TGeoPoint | null = radiusCenterRef.current,
+    showProgress: boolean = true
+  ) => {
+    const area = getSearchArea(center);
+    if (!area) {
+      addDebugInfo('❌ Cannot load properties - map not initialized');
+      return;
+    }
+
+    // Later loads supersede this one if the user keeps moving the map
+    const requestId = ++loadRequestRef.current;
+
     try {
-      setDataLoading(true);
-      setDataLoadingProgress({ current: 0, total: 100, percentage: 0, message: 'Initializing...' });
-      
-      const effectiveLimit = limitCount || displayLimit;
-      addDebugInfo(`📊 Loading property data with limit: ${effectiveLimit}...`);
-      
-      // Progress: 10% - Starting data fetch
-      setDataLoadingProgress({ current: 10, total: 100, percentage: 10, message: 'Connecting to database...' });
-      
+      if (showProgress) {
+        setDataLoading(true);
+        setDataLoadingProgress({ current: 0, total: 100, percentage: 0, message: 'Initializing...' });
+      }
+
+      addDebugInfo(`📊 Loading properties ${center ? `within ${radiusMiles} miles` : 'in view'}...`);
+
       // Dynamic import to avoid server-side execution
-      const { getAllBuildingsForMap, getDataSourceInfo } = await import('@/lib/services/unified-data-service');
-      
-      // Progress: 20% - Service loaded
+      const { getAllBuildings, getDataSourceInfo } = await import('@/lib/services/unified-data-service');
+
       const dataSourceInfo = getDataSourceInfo();
-      setDataLoadingProgress({ current: 20, total: 100, percentage: 20, message: `Loading from ${dataSourceInfo.description}...` });
-      
-      let data: TMapMarker[];
-      if (effectiveLimit >= 10000) {
-        // For "All" option, load all properties
-        addDebugInfo('📊 Loading ALL properties (no limit)...');
-        setDataLoadingProgress({ current: 30, total: 100, percentage: 30, message: 'Loading all properties...' });
-        const buildings = await getAllBuildingsForMap();
-        data = buildings.map(building => ({
-          id: building.locationCode,
-          name: building.realPropertyAssetName,
-          address: building.streetAddress,
-          city: building.city,
-          state: building.state,
-          lat: building.latitude,
-          lng: building.longitude,
-          squareFootage: building.buildingRentableSquareFeet || 0,
-          assetType: building.realPropertyAssetType || '',
-          ownedOrLeased: building.ownedOrLeased,
-          zipCode: building.zipCode?.toString() || '',
-          constructionDate: building.constructionDate?.toString() || '',
-          installationName: building.installationName || ''
-        }));
-      } else {
-        // For specific limits, load limited properties
-        addDebugInfo(`📊 Loading ${effectiveLimit} properties (limited)...`);
-        setDataLoadingProgress({ current: 30, total: 100, percentage: 30, message: `Loading ${effectiveLimit} properties...` });
-        const buildings = await getAllBuildingsForMap(effectiveLimit);
-        data = buildings.map(building => ({
-          id: building.locationCode,
-          name: building.realPropertyAssetName,
-          address: building.streetAddress,
-          city: building.city,
-          state: building.state,
-          lat: building.latitude,
-          lng: building.longitude,
-          squareFootage: building.buildingRentableSquareFeet || 0,
-          assetType: building.realPropertyAssetType || '',
-          ownedOrLeased: building.ownedOrLeased,
-          zipCode: building.zipCode?.toString() || '',
-          constructionDate: building.constructionDate?.toString() || '',
-          installationName: building.installationName || ''
-        }));
+      if (showProgress) {
+        setDataLoadingProgress({ current: 30, total: 100, percentage: 30, message: `Loading from ${dataSourceInfo.description}...` });
       }
-      
-      // Progress: 60% - Data loaded
-      setDataLoadingProgress({ current: 60, total: 100, percentage: 60, message: 'Processing property data...' });
-      addDebugInfo(`✅ Loaded ${data.length} properties from ${dataSourceInfo.description}`);
-      
+
+      const { buildings, total } = await getAllBuildings(1, MAX_PAGE_SIZE, area);
+      if (requestId !== loadRequestRef.current) return;
+
+      buildingsRef.current = new Map(buildings.map(building => [building.locationCode, building]));
+      loadedAreaRef.current = area.bbox && buildings.length >= total ? area.bbox : null;
+      const data = buildings.map(toMapMarker);
+      addDebugInfo(`✅ Loaded ${data.length} of ${total} matching properties from ${dataSourceInfo.description}`);
+
       // Analyze coordinate data quality
       const validCoordinates = data.filter(prop => 
         prop.lat && prop.lng && 
         !isNaN(prop.lat) && !isNaN(prop.lng) &&
         prop.lat !== 0 && prop.lng !== 0
       );
-      const invalidCoordinates = data.filter(prop => 
-        !prop.lat || !prop.lng || 
-        isNaN(prop.lat) || isNaN(prop.lng) ||
-        prop.lat === 0 || prop.lng === 0
-      );
-      
-      // Progress: 80% - Data processed
-      setDataLoadingProgress({ current: 80, total: 100, percentage: 80, message: 'Validating coordinates...' });
-      
-      addDebugInfo(`📍 Coordinate Analysis:`);
-      addDebugInfo(`  ✅ Valid coordinates: ${validCoordinates.length}`);
-      addDebugInfo(`  ❌ Invalid/missing coordinates: ${invalidCoordinates.length}`);
-      
-      // Log some examples of invalid addresses for debugging
-      if (invalidCoordinates.length > 0 && invalidCoordinates.length < 10) {
-        addDebugInfo(`🔍 Invalid addresses:`);
-        invalidCoordinates.forEach((prop, index) => {
-          addDebugInfo(`  ${index + 1}. ${prop.name} - ${prop.address} (lat: ${prop.lat}, lng: ${prop.lng})`);
-        });
-      }
-      
-      // Progress: 90% - Almost done
-      setDataLoadingProgress({ current: 90, total: 100, percentage: 90, message: 'Finalizing data...' });
-      
-      // Store both all properties and current subset
-      setAllProperties(data);
-      setProperties(data);
-      
-      // Progress: 100% - Complete
-      setDataLoadingProgress({ current: 100, total: 100, percentage: 100, message: 'Data loaded successfully!' });
-      
-      // Small delay to show completion
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      setDataLoading(false);
-      
-      // Add markers to map if map is ready - only use valid coordinates
-      if (mapInstanceRef.current && validCoordinates.length > 0) {
-        addMarkers(validCoordinates, effectiveLimit);
+      addDebugInfo(`📍 Valid coordinates: ${validCoordinates.length}, missing: ${data.length - validCoordinates.length}`);
+
+      setCurrentDisplayedProperties(validCoordinates);
+      buildClusters(validCoordinates, ownedMarkersVisible, leasedMarkersVisible);
+
+      if (showProgress) {
+        setDataLoadingProgress({ current: 100, total: 100, percentage: 100, message: 'Data loaded successfully!' });
+        setDataLoading(false);
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to load properties';
@@ -171,148 +182,68 @@ export default function MapPage() {
   };
 
   const clearMarkers = () => {
-    addDebugInfo(`🧹 Clearing ${markers.length} existing markers from map...`);
-    
-    // Remove all markers from the map and clear their references
-    markers.forEach((marker, index) => {
-      try {
-        marker.setMap(null); // Remove from map
-        marker.setVisible(false); // Ensure visibility is off
-      } catch (error) {
-        addDebugInfo(`⚠️ Error clearing marker ${index}: ${error}`);
-      }
-    });
-    
-    // Clear the markers array and displayed properties
-    setMarkers([]);
-    setCurrentDisplayedProperties([]);
-    
-    addDebugInfo(`✅ Map cleared - all markers removed`);
+    markersRef.current.forEach(marker => marker.setMap(null));
+    markersRef.current = [];
   };
 
-  const addMarkers = async (propertyData: TMapMarker[], customLimit?: number) => {
-    if (!mapInstanceRef.current) {
-      addDebugInfo('❌ Cannot add markers - map not initialized');
-      return;
-    }
-    
-    // ALWAYS clear existing markers first - this ensures a clean slate
-    addDebugInfo('🧹 Starting with clean map...');
+  // Draw the clusters and single properties in view from the cluster index
+  const renderClusters = () => {
+    const map = mapInstanceRef.current;
+    const index = clusterIndexRef.current;
+    const viewport = getViewportBounds();
+
     clearMarkers();
-    
-    // Reset current displayed properties to empty
-    setCurrentDisplayedProperties([]);
-    
-    // Use custom limit if provided, otherwise use current displayLimit
-    const effectiveLimit = customLimit !== undefined ? customLimit : displayLimit;
-    const totalToProcess = Math.min(propertyData.length, effectiveLimit);
-    
-    addDebugInfo(`📍 Adding ${totalToProcess} new markers to clean map (limit: ${effectiveLimit})...`);
-    
-    // Start loading progress
-    setIsLoadingMarkers(true);
-    setMarkerProgress({ current: 0, total: totalToProcess, percentage: 0 });
-    
-    let ownedCount = 0;
-    let leasedCount = 0;
-    let validMarkerCount = 0;
-    let invalidCoordCount = 0;
-    const newMarkers: google.maps.Marker[] = [];
-    const displayedProperties: TMapMarker[] = [];
-    
-    // Process markers in batches for better performance and smooth progress
-    const batchSize = 10;
-    let processedCount = 0;
-    
-    for (let i = 0; i < totalToProcess; i += batchSize) {
-      const batch = propertyData.slice(i, Math.min(i + batchSize, totalToProcess));
-      
-      // Process batch
-      for (const property of batch) {
-        const index = i + batch.indexOf(property);
-        
-        // Validate coordinates before creating marker
-        if (!property.lat || !property.lng || 
-            isNaN(property.lat) || isNaN(property.lng) ||
-            property.lat === 0 || property.lng === 0) {
-          invalidCoordCount++;
-          if (index < 5) { // Log first 5 invalid coordinates
-            addDebugInfo(`❌ Invalid coords for: ${property.name} (lat: ${property.lat}, lng: ${property.lng})`);
-          }
-          processedCount++;
-          continue;
-        }
-        
-        const isOwned = property.ownedOrLeased === 'F';
-        if (isOwned) ownedCount++;
-        else leasedCount++;
-        
-        try {
-          // Create all markers with map: null initially for consistent behavior
-          const marker = new google.maps.Marker({
-            position: { lat: property.lat, lng: property.lng },
-            map: null, // Always start with null, then set visibility after creation
-            title: `${property.name} (${isOwned ? 'Owned' : 'Leased'})`,
-            visible: false, // Start invisible, then set proper visibility
-          });
-          
-          // Set marker color based on ownership
-          if (isOwned) {
-            marker.setIcon('http://maps.google.com/mapfiles/ms/icons/green-dot.png');
-          } else {
-            marker.setIcon('http://maps.google.com/mapfiles/ms/icons/blue-dot.png');
-          }
-          
-          // Add click event listener for property info card
-          marker.addListener('click', () => {
-            setSelectedProperty(property);
-            setInfoWindowOpen(true);
-            addDebugInfo(`🔍 Property selected: ${property.name}`);
-          });
-          
-          // Now set proper visibility based on current toggle states
-          const shouldBeVisible = isOwned ? ownedMarkersVisible : leasedMarkersVisible;
-          if (shouldBeVisible) {
-            marker.setMap(mapInstanceRef.current);
-            marker.setVisible(true);
-          }
-          
-          newMarkers.push(marker);
-          displayedProperties.push(property);
-          validMarkerCount++;
-        } catch (error) {
-          addDebugInfo(`❌ Failed to create marker for: ${property.name} - ${error}`);
-        }
-        
-        processedCount++;
+    if (!map || !index || !viewport) return;
+
+    getClustersInView(index, viewport, map.getZoom() ?? 4).forEach(feature => {
+      const [lng, lat] = feature.geometry.coordinates;
+
+      if ('cluster_id' in feature.properties) {
+        const { cluster_id: clusterId, point_count: count, owned, leased } = feature.properties;
+        const marker = new google.maps.Marker({
+          position: { lat, lng },
+          map,
+          icon: createClusterIcon(count, getClusterType({ owned, leased })),
+          title: `${count} properties (Owned: ${owned}, Leased: ${leased})`,
+          zIndex: google.maps.Marker.MAX_ZINDEX + count,
+        });
+
+        // Zoom in until the cluster splits apart
+        marker.addListener('click', () => {
+          map.setZoom(index.getClusterExpansionZoom(clusterId));
+          map.panTo({ lat, lng });
+        });
+
+        markersRef.current.push(marker);
+        return;
       }
-      
-      // Update progress after each batch
-      const percentage = Math.round((processedCount / totalToProcess) * 100);
-      setMarkerProgress({ 
-        current: processedCount, 
-        total: totalToProcess, 
-        percentage 
+
+      const { property } = feature.properties;
+      const isOwned = property.ownedOrLeased === 'F';
+      const marker = new google.maps.Marker({
+        position: { lat, lng },
+        map,
+        icon: createMarkerIcon(isOwned ? 'owned' : 'leased'),
+        title: `${property.name} (${isOwned ? 'Owned' : 'Leased'})`,
       });
-      
-      // Small delay to allow UI to update and prevent blocking
-      if (i + batchSize < totalToProcess) {
-        await new Promise(resolve => setTimeout(resolve, 50));
-      }
-    }
-    
-    // Update state with new markers and properties
-    setMarkers(newMarkers);
-    setCurrentDisplayedProperties(displayedProperties);
-    setIsLoadingMarkers(false);
-    
-    addDebugInfo(`✅ Marker Summary:`);
-    addDebugInfo(`  📍 Valid markers created: ${validMarkerCount}`);
-    addDebugInfo(`  👁️ Visible markers: ${newMarkers.filter(m => m.getVisible()).length}`);
-    addDebugInfo(`  ❌ Invalid coordinates skipped: ${invalidCoordCount}`);
-    addDebugInfo(`  🟢 Owned properties: ${ownedCount} (visible: ${ownedMarkersVisible})`);
-    addDebugInfo(`  🔵 Leased properties: ${leasedCount} (visible: ${leasedMarkersVisible})`);
-    addDebugInfo(`  🎯 Display limit used: ${effectiveLimit}`);
+
+      // Add click event listener for property info card
+      marker.addListener('click', () => {
+        setSelectedProperty(property);
+        setInfoWindowOpen(true);
+        addDebugInfo(`🔍 Property selected: ${property.name}`);
+      });
+
+      markersRef.current.push(marker);
+    });
+  };
+
+  // Re-cluster the loaded properties, leaving out the types hidden by the toggles
+  const buildClusters = (propertyData: TMapMarker[], showOwned: boolean, showLeased: boolean) => {
+    clusterIndexRef.current = createClusterIndex(
+      propertyData.filter(property => (property.ownedOrLeased === 'F' ? showOwned : showLeased))
+    );
+    renderClusters();
   };
 
   const initializeMap = async () => {
@@ -405,6 +336,7 @@ export default function MapPage() {
       });
 
       mapInstanceRef.current = map;
+      map.addListener('idle', () => handleIdleRef.current());
       addDebugInfo('✅ Google Map created successfully');
       setMapLoading(false);
       
@@ -421,29 +353,74 @@ export default function MapPage() {
 
   const retryInitialization = () => {
     setDebugInfo([]);
-    setProperties([]);
-    setAllProperties([]);
+    setCurrentDisplayedProperties([]);
     initializeMap();
   };
 
-  const changeDisplayLimit = async (newLimit: number) => {
-    addDebugInfo(`🔢 Display limit changing from ${displayLimit} to ${newLimit}`);
-    addDebugInfo(`📊 Before change - AllProperties: ${allProperties.length}, CurrentDisplayed: ${currentDisplayedProperties.length}`);
-    
-    setDisplayLimit(newLimit);
-    
-    // Reset visibility states to show both types when changing limits
-    setOwnedMarkersVisible(true);
-    setLeasedMarkersVisible(true);
-    
-    // Clear existing markers and data
-    clearMarkers();
-    
-    // Fetch new data with the optimized limit - this will fetch only what we need from Firebase
-    addDebugInfo(`🔄 Fetching new data with limit: ${newLimit}`);
-    await loadProperties(newLimit);
-    
-    addDebugInfo(`📊 After change - AllProperties: ${allProperties.length}, CurrentDisplayed: ${currentDisplayedProperties.length}, DisplayLimit: ${displayLimit}`);
+  // Start showing properties; from here on the map follows the viewport
+  const showProperties = async () => {
+    setFollowViewport(true);
+    await loadProperties();
+  };
+
+  // Reload after the user pans or zooms. Radius results and areas that are already
+  // fully loaded only need their clusters redrawn for the new zoom level.
+  handleIdleRef.current = () => {
+    if (!followViewport) return;
+
+    const viewport = getViewportBounds();
+    const loaded = loadedAreaRef.current;
+    const isLoaded = Boolean(loaded && viewport &&
+      loaded.minLng <= loaded.maxLng && viewport.minLng <= viewport.maxLng &&
+      viewport.minLng >= loaded.minLng && viewport.maxLng <= loaded.maxLng &&
+      viewport.minLat >= loaded.minLat && viewport.maxLat <= loaded.maxLat);
+
+    if (radiusCenterRef.current || isLoaded) {
+      renderClusters();
+    } else {
+      loadProperties(null, false);
+    }
+  };
+
+  // Show the properties within radiusMiles of the map center
+  const searchNearHere = async () => {
+    const map = mapInstanceRef.current;
+    const mapCenter = map?.getCenter();
+    if (!map || !mapCenter) return;
+
+    const center = { lat: mapCenter.lat(), lng: mapCenter.lng() };
+    addDebugInfo(`🎯 Searching within ${radiusMiles} miles of ${center.lat.toFixed(4)}, ${center.lng.toFixed(4)}`);
+
+    radiusCircleRef.current?.setMap(null);
+    radiusCircleRef.current = new google.maps.Circle({
+      map,
+      center,
+      radius: radiusMiles * KM_PER_MILE * 1000,
+      strokeColor: '#805AD5',
+      strokeOpacity: 0.8,
+      strokeWeight: 2,
+      fillColor: '#805AD5',
+      fillOpacity: 0.08,
+      clickable: false,
+    });
+
+    radiusCenterRef.current = center;
+    setRadiusCenter(center);
+    setFollowViewport(true);
+
+    const circleBounds = radiusCircleRef.current.getBounds();
+    if (circleBounds) map.fitBounds(circleBounds);
+
+    await loadProperties(center);
+  };
+
+  const clearRadiusSearch = async () => {
+    radiusCircleRef.current?.setMap(null);
+    radiusCircleRef.current = null;
+    radiusCenterRef.current = null;
+    setRadiusCenter(null);
+    addDebugInfo('🎯 Radius search cleared - showing properties in view');
+    await loadProperties(null);
   };
 
   // Helper functions to get counts from current subset
@@ -465,74 +442,54 @@ export default function MapPage() {
     return getCurrentSubset().filter(p => p.ownedOrLeased === 'L').length;
   };
 
-  // New function to toggle marker visibility without reloading data
+  // Export the markers currently shown, respecting the owned/leased toggles
+  const downloadVisibleAsGeoJSON = () => {
+    const visibleBuildings = getCurrentSubset()
+      .filter(p => (p.ownedOrLeased === 'F' ? ownedMarkersVisible : leasedMarkersVisible))
+      .map(p => buildingsRef.current.get(p.id))
+      .filter((building): building is TBuilding => Boolean(building));
+
+    const { content, skipped } = toFeatureCollection(visibleBuildings);
+    downloadExport(JSON.stringify(content), exportFilename('visible-properties', 'geojson'), GEOJSON_CONTENT_TYPE);
+    addDebugInfo(`📥 Exported ${content.features.length} properties as GeoJSON (${skipped} without coordinates skipped)`);
+    reportExport('buildings', 'geojson', content.features.length);
+  };
+
+  usePageAction(
+    'export',
+    'Export current view as GeoJSON',
+    downloadVisibleAsGeoJSON,
+    layer === 'markers' && currentDisplayedProperties.length > 0
+  );
+
+  // Toggle owned or leased properties without reloading data; clusters are rebuilt so their counts match
   const toggleMarkerVisibility = (type: 'owned' | 'leased') => {
-    addDebugInfo(`🔘 Toggle button clicked: ${type}`);
-    addDebugInfo(`📊 Current state - Markers: ${markers.length}, Properties: ${currentDisplayedProperties.length}`);
-    
-    if (!mapInstanceRef.current) {
-      addDebugInfo('❌ Cannot toggle markers - map not initialized');
-      return;
-    }
-    
-    if (type === 'owned') {
-      const newVisibility = !ownedMarkersVisible;
-      setOwnedMarkersVisible(newVisibility);
-      addDebugInfo(`🟢 Setting owned markers visibility to: ${newVisibility}`);
-      
-      let toggledCount = 0;
-      let errorCount = 0;
-      
-      // Toggle visibility of owned markers (green)
-      markers.forEach((marker, index) => {
-        try {
-          const property = currentDisplayedProperties[index];
-          if (property && property.ownedOrLeased === 'F') {
-            if (newVisibility) {
-              marker.setMap(mapInstanceRef.current);
-              marker.setVisible(true);
-            } else {
-              marker.setMap(null);
-              marker.setVisible(false);
-            }
-            toggledCount++;
-          }
-        } catch (error) {
-          errorCount++;
-          addDebugInfo(`⚠️ Error toggling owned marker ${index}: ${error}`);
-        }
-      });
-      
-      addDebugInfo(`🟢 Owned markers ${newVisibility ? 'shown' : 'hidden'} - Toggled: ${toggledCount}, Errors: ${errorCount}`);
-    } else {
-      const newVisibility = !leasedMarkersVisible;
-      setLeasedMarkersVisible(newVisibility);
-      addDebugInfo(`🔵 Setting leased markers visibility to: ${newVisibility}`);
-      
-      let toggledCount = 0;
-      let errorCount = 0;
-      
-      // Toggle visibility of leased markers (blue)
-      markers.forEach((marker, index) => {
-        try {
-          const property = currentDisplayedProperties[index];
-          if (property && property.ownedOrLeased === 'L') {
-            if (newVisibility) {
-              marker.setMap(mapInstanceRef.current);
-              marker.setVisible(true);
-            } else {
-              marker.setMap(null);
-              marker.setVisible(false);
-            }
-            toggledCount++;
-          }
-        } catch (error) {
-          errorCount++;
-          addDebugInfo(`⚠️ Error toggling leased marker ${index}: ${error}`);
-        }
-      });
-      
-      addDebugInfo(`🔵 Leased markers ${newVisibility ? 'shown' : 'hidden'} - Toggled: ${toggledCount}, Errors: ${errorCount}`);
+    const showOwned = type === 'owned' ? !ownedMarkersVisible : ownedMarkersVisible;
+    const showLeased = type === 'leased' ? !leasedMarkersVisible : leasedMarkersVisible;
+    addDebugInfo(`🔘 Showing ${[showOwned && 'owned', showLeased && 'leased'].filter(Boolean).join(' and ') || 'no'} properties`);
+
+    setOwnedMarkersVisible(showOwned);
+    setLeasedMarkersVisible(showLeased);
+    buildClusters(currentDisplayedProperties, showOwned, showLeased);
+  };
+
+  // State metrics are loaded the first time the state layer is shown
+  const showStateLayer = async () => {
+    setLayer('states');
+    if (stateMetrics) return;
+
+    try {
+      setStateMetricsError(null);
+      const response = await fetch('/api/states');
+      if (!response.ok) {
+        throw new Error(`API call failed: ${response.statusText}`);
+      }
+      const data = await response.json();
+      setStateMetrics(data.states);
+      addDebugInfo(`🗺️ Loaded metrics for ${data.states.length} states`);
+    } catch (error) {
+      console.error('Error loading state metrics:', error);
+      setStateMetricsError(error instanceof Error ? error.message : 'Unknown error');
     }
   };
 
@@ -561,7 +518,42 @@ export default function MapPage() {
     initializeMap();
   }, []);
 
-  if (error) {
+  // Zoom to the focused property once the map is ready; moving the map triggers the
+  // idle listener, which loads the properties around it
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (mapLoading || !map || !focus) return;
+
+    const focusProperty = async () => {
+      try {
+        const response = await fetch(`/api/buildings/${encodeURIComponent(focus)}`);
+        if (!response.ok) {
+          throw new Error(`API call failed: ${response.statusText}`);
+        }
+        const { building } = await response.json();
+        if (!building.latitude || !building.longitude) {
+          addDebugInfo(`❌ ${focus} has no coordinates`);
+          return;
+        }
+
+        const marker = toMapMarker(building);
+        setLayer('markers');
+        setFollowViewport(true);
+        setSelectedProperty(marker);
+        setInfoWindowOpen(true);
+        map.setCenter({ lat: marker.lat, lng: marker.lng });
+        map.setZoom(16);
+        addDebugInfo(`🎯 Focused on ${marker.name}`);
+      } catch (error) {
+        console.error('Error focusing property:', error);
+        addDebugInfo(`❌ Could not focus on ${focus}`);
+      }
+    };
+
+    focusProperty();
+  }, [mapLoading, focus]);
+
+  if (error && layer === 'markers') {
     return (
       <MainLayout title="Map View">
         <VStack spacing={4} align="stretch">
@@ -573,9 +565,14 @@ export default function MapPage() {
             </Box>
           </Alert>
           
-          <Button onClick={retryInitialization} colorScheme="blue">
-            Retry Loading Map
-          </Button>
+          <HStack spacing={3}>
+            <Button onClick={retryInitialization} colorScheme="blue">
+              Retry Loading Map
+            </Button>
+            <Button onClick={showStateLayer} variant="outline" colorScheme="blue">
+              Show State Layer
+            </Button>
+          </HStack>
           
           <Box p={4} bg="blue.50" borderRadius="lg">
             <Text fontWeight="bold" mb={2}>💡 Troubleshooting Steps:</Text>
@@ -599,66 +596,118 @@ export default function MapPage() {
             Government Property Map
           </Text>
           <Text fontSize="sm" color="gray.600" mb={4}>
-            {getCurrentSubset().length === 0 
-              ? "Select 'Show Properties' to load government property data on the map" 
-              : `Dynamic Filtering • ${getCurrentSubset().length} properties displayed (Owned: ${getOwnedCountInSubset()}, Leased: ${getLeasedCountInSubset()}) • Green = Owned, Blue = Leased`
+            {layer === 'states'
+              ? `States shaded by ${STATE_METRICS[stateMetric].label.toLowerCase()} across the whole portfolio • Hover a state for details`
+              : !followViewport
+              ? "Select 'Show Properties' to load government property data in the current view, or search within a radius of the map center" 
+              : `${radiusCenter ? `Within ${radiusMiles} miles of the search center` : 'In current view'} • ${getCurrentSubset().length} properties displayed (Owned: ${getOwnedCountInSubset()}, Leased: ${getLeasedCountInSubset()}) • Green = Owned, Blue = Leased`
             }
           </Text>
           
-          {/* Filter Controls */}
-          <HStack spacing={4} align="center">
+          {/* Layer */}
+          <HStack spacing={4} align="center" mb={3}>
             <Text fontSize="sm" fontWeight="medium" color="gray.700">
-              Show:
+              Layer:
             </Text>
-            <ButtonGroup size="sm" variant="outline" colorScheme="blue">
-              <Menu>
-                <MenuButton 
-                  as={Button}
-                  rightIcon={<Text>▼</Text>}
-                  size="sm"
-                  variant="outline"
-                  colorScheme="blue"
+            <ButtonGroup size="sm" isAttached variant="outline" colorScheme="blue">
+              <Button onClick={() => setLayer('markers')} variant={layer === 'markers' ? 'solid' : 'outline'}>
+                Properties
+              </Button>
+              <Button onClick={showStateLayer} variant={layer === 'states' ? 'solid' : 'outline'}>
+                States
+              </Button>
+            </ButtonGroup>
+            {layer === 'states' && (
+              <Select
+                value={stateMetric}
+                onChange={(e) => setStateMetric(e.target.value as TStateMetric)}
+                maxW="260px"
+                size="sm"
+                bg="white"
+                borderColor="gray.300"
+              >
+                {(Object.keys(STATE_METRICS) as TStateMetric[]).map(metric => (
+                  <option key={metric} value={metric}>{STATE_METRICS[metric].label}</option>
+                ))}
+              </Select>
+            )}
+          </HStack>
+
+          {layer === 'markers' && (
+            <>
+            {/* Filter Controls */}
+            <HStack spacing={4} align="center">
+              <Text fontSize="sm" fontWeight="medium" color="gray.700">
+                Show:
+              </Text>
+              <ButtonGroup size="sm" variant="outline" colorScheme="blue">
+                <Button onClick={showProperties} isDisabled={mapLoading} isLoading={dataLoading}>
+                  {followViewport ? 'Reload' : 'Show'} Properties ({getCurrentSubset().length})
+                </Button>
+                <Button
+                  isActive={ownedMarkersVisible}
+                  onClick={() => toggleMarkerVisibility('owned')}
+                  leftIcon={<Box w={2} h={2} bg="green.500" borderRadius="full" />}
+                  variant={ownedMarkersVisible ? "solid" : "outline"}
+                  colorScheme={ownedMarkersVisible ? "green" : "gray"}
+                >
+                  Owned ({getOwnedCountInSubset()})
+                </Button>
+                <Button
+                  isActive={leasedMarkersVisible}
+                  onClick={() => toggleMarkerVisibility('leased')}
+                  leftIcon={<Box w={2} h={2} bg="blue.500" borderRadius="full" />}
+                  variant={leasedMarkersVisible ? "solid" : "outline"}
+                  colorScheme={leasedMarkersVisible ? "blue" : "gray"}
                 >
-                  Show Properties ({getCurrentSubset().length})
-                </MenuButton>
-                <MenuList>
-                  <MenuItem onClick={() => changeDisplayLimit(50)}>
-                    Show 50 properties
-                  </MenuItem>
-                  <MenuItem onClick={() => changeDisplayLimit(500)}>
-                    Show 500 properties
-                  </MenuItem>
-                  <MenuItem onClick={() => changeDisplayLimit(1000)}>
-                    Show 1,000 properties
-                  </MenuItem>
-                  <MenuItem onClick={() => changeDisplayLimit(5000)}>
-                    Show 5,000 properties
-                  </MenuItem>
-                  <MenuItem onClick={() => changeDisplayLimit(50000)}>
-                    Show All properties
-                  </MenuItem>
-                </MenuList>
-              </Menu>
+                  Leased ({getLeasedCountInSubset()})
+                </Button>
+              </ButtonGroup>
               <Button
-                isActive={ownedMarkersVisible}
-                onClick={() => toggleMarkerVisibility('owned')}
-                leftIcon={<Box w={2} h={2} bg="green.500" borderRadius="full" />}
-                variant={ownedMarkersVisible ? "solid" : "outline"}
-                colorScheme={ownedMarkersVisible ? "green" : "gray"}
+                size="sm"
+                variant="outline"
+                colorScheme="gray"
+                leftIcon={<DownloadIcon />}
+                onClick={downloadVisibleAsGeoJSON}
+                isDisabled={getCurrentSubset().length === 0}
               >
-                Owned ({getOwnedCountInSubset()})
+                Download visible properties as GeoJSON
               </Button>
-              <Button
-                isActive={leasedMarkersVisible}
-                onClick={() => toggleMarkerVisibility('leased')}
-                leftIcon={<Box w={2} h={2} bg="blue.500" borderRadius="full" />}
-                variant={leasedMarkersVisible ? "solid" : "outline"}
-                colorScheme={leasedMarkersVisible ? "blue" : "gray"}
+            </HStack>
+
+            {/* Radius Search */}
+            <HStack spacing={2} align="center" mt={3}>
+              <Text fontSize="sm" fontWeight="medium" color="gray.700">
+                Within
+              </Text>
+              <NumberInput
+                size="sm"
+                w="90px"
+                min={1}
+                max={500}
+                value={radiusMiles}
+                onChange={(_, value) => setRadiusMiles(isNaN(value) ? DEFAULT_RADIUS_MILES : value)}
               >
-                Leased ({getLeasedCountInSubset()})
+                <NumberInputField />
+                <NumberInputStepper>
+                  <NumberIncrementStepper />
+                  <NumberDecrementStepper />
+                </NumberInputStepper>
+              </NumberInput>
+              <Text fontSize="sm" fontWeight="medium" color="gray.700">
+                miles of here
+              </Text>
+              <Button size="sm" colorScheme="purple" onClick={searchNearHere} isDisabled={mapLoading}>
+                Search
               </Button>
-            </ButtonGroup>
-          </HStack>
+              {radiusCenter && (
+                <Button size="sm" variant="ghost" onClick={clearRadiusSearch}>
+                  Clear radius search
+                </Button>
+              )}
+            </HStack>
+            </>
+          )}
         </Box>
 
         {/* Map Container */}
@@ -714,29 +763,31 @@ export default function MapPage() {
             </Center>
           )}
           
-          {/* Marker Loading Progress */}
-          {isLoadingMarkers && (
-            <Center 
-              position="absolute" 
-              top="0" 
-              left="0" 
-              right="0" 
-              bottom="0" 
-              zIndex={15} 
-              bg="rgba(255,255,255,0.95)"
-            >
-              <Box w="400px" maxW="90%">
-                <LoadingProgress
-                  progress={markerProgress.percentage}
-                  title="Loading Map Markers"
-                  subtitle={`Processing ${markerProgress.current} of ${markerProgress.total} properties`}
-                  message={`${markerProgress.percentage}% complete`}
-                  showSpinner={true}
-                />
-              </Box>
-            </Center>
+          {/* State Layer - covers the Google map while selected */}
+          {layer === 'states' && (
+            <Box position="absolute" top="0" left="0" right="0" bottom="0" zIndex={15} bg="white" p={4}>
+              {stateMetricsError ? (
+                <Center h="100%">
+                  <VStack spacing={3}>
+                    <Text color="red.600">Failed to load state metrics: {stateMetricsError}</Text>
+                    <Button size="sm" colorScheme="blue" onClick={showStateLayer}>
+                      Retry
+                    </Button>
+                  </VStack>
+                </Center>
+              ) : !stateMetrics ? (
+                <Center h="100%">
+                  <VStack spacing={4}>
+                    <Spinner size="lg" color="blue.500" />
+                    <Text fontSize="sm" color="gray.600">Loading state metrics...</Text>
+                  </VStack>
+                </Center>
+              ) : (
+                <StateMetricsMap states={stateMetrics} metric={stateMetric} />
+              )}
+            </Box>
           )}
-          
+
           {/* Property Info Card */}
           {selectedProperty && infoWindowOpen && (
             <Box
@@ -812,6 +863,17 @@ export default function MapPage() {
                       </Text>
                     </Box>
                   </HStack>
+
+                  {getDistanceMiles(selectedProperty) !== null && (
+                    <Box>
+                      <Text fontSize="sm" fontWeight="medium" color="gray.700" mb={1}>
+                        📏 Distance
+                      </Text>
+                      <Text fontSize="sm" color="gray.600">
+                        {getDistanceMiles(selectedProperty)!.toFixed(1)} miles from the search center
+                      </Text>
+                    </Box>
+                  )}
                 </VStack>
                 
                 {/* Actions */}
@@ -825,6 +887,22 @@ export default function MapPage() {
                   >
                     Street View
                   </Button>
+                  <Button
+                    as={NextLink}
+                    href={getPropertyUrl(selectedProperty.id)}
+                    flex={1}
+                    colorScheme="blue"
+                    variant="outline"
+                    size="sm"
+                  >
+                    Details
+                  </Button>
+                  <CompareButton
+                    locationCode={selectedProperty.id}
+                    name={selectedProperty.name}
+                    flex={1}
+                    size="sm"
+                  />
                   <Button
                     flex={1}
                     variant="outline"
@@ -848,4 +926,13 @@ export default function MapPage() {
       </Box>
     </MainLayout>
   );
-}
\ No newline at end of file
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function MapPage() {
+  return (
+    <Suspense fallback={<MainLayout title="Map View"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <MapContent />
+    </Suspense>
+  );
+}
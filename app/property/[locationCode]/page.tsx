@@ -0,0 +1,443 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  Box,
+  Container,
+  Heading,
+  Text,
+  VStack,
+  HStack,
+  Card,
+  CardBody,
+  SimpleGrid,
+  Badge,
+  Button,
+  Divider,
+  Center,
+  Spinner,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  TableContainer,
+  Link,
+  IconButton,
+  Tooltip,
+  useClipboard,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { FiEdit2 } from 'react-icons/fi';
+import NextLink from 'next/link';
+import MainLayout from '@/app/components/layout/main-layout';
+import LoadingProgress from '@/app/components/ui/loading-progress';
+import LeaseHistoryTimeline from '@/app/components/LeaseHistoryTimeline';
+import WatchButton from '@/app/components/ui/watch-button';
+import OverrideBadge from '@/app/components/ui/override-badge';
+import PropertyEditModal from '@/app/components/ui/property-edit-modal';
+import PropertyNotes from '@/app/components/ui/property-notes';
+import { TBuilding, TLeaseRecord, TPropertyDetail, TPropertyOverride } from '@/types/property';
+import { formatDate, formatNumber, formatSquareFootage, getStreetViewUrl } from '@/lib/utils/data-helpers';
+import { createMarkerIcon, loadGoogleMaps } from '@/lib/utils/google-maps';
+import { decodeDistrict } from '@/lib/utils/congressional-districts';
+import { findOverride } from '@/lib/utils/property-overrides';
+import { useSession } from '@/lib/hooks/use-session';
+import { hasRole } from '@/lib/auth/roles';
+
+interface PropertyDetailPageProps {
+  params: { locationCode: string };
+}
+
+// Get status color
+const getStatusColor = (status: string): string => {
+  switch (status) {
+    case 'active': return 'green';
+    case 'expired': return 'red';
+    case 'upcoming': return 'blue';
+    default: return 'gray';
+  }
+};
+
+// Single labelled value in the property summary grid, marked when it was corrected in the app
+const DetailItem = ({ label, value, override }: { label: string; value: React.ReactNode; override?: TPropertyOverride }) => (
+  <VStack align="start" spacing={0}>
+    <Text fontSize="sm" fontWeight="medium" color="gray.600">
+      {label}
+      <OverrideBadge override={override} />
+    </Text>
+    <Text fontSize="md" color="gray.900">
+      {value}
+    </Text>
+  </VStack>
+);
+
+// Small map centered on the property
+const PropertyMiniMap = ({ building }: { building: TBuilding }) => {
+  const mapRef = useRef<HTMLDivElement>(null);
+  const [mapError, setMapError] = useState<string | null>(null);
+  const hasCoordinates = Boolean(building.latitude && building.longitude);
+
+  useEffect(() => {
+    if (!hasCoordinates) return;
+
+    let cancelled = false;
+
+    const initializeMap = async () => {
+      try {
+        const google = await loadGoogleMaps();
+        if (cancelled || !mapRef.current) return;
+
+        const position = { lat: building.latitude, lng: building.longitude };
+        const map = new google.maps.Map(mapRef.current, {
+          center: position,
+          zoom: 15,
+          mapTypeControl: false,
+          streetViewControl: false,
+          fullscreenControl: false,
+        });
+
+        new google.maps.Marker({
+          position,
+          map,
+          title: building.realPropertyAssetName,
+          icon: createMarkerIcon(building.ownedOrLeased === 'F' ? 'owned' : 'leased'),
+        });
+      } catch (error) {
+        console.error('Error initializing property map:', error);
+        if (!cancelled) {
+          setMapError(error instanceof Error ? error.message : 'Failed to initialize map');
+        }
+      }
+    };
+
+    initializeMap();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [building, hasCoordinates]);
+
+  if (!hasCoordinates || mapError) {
+    return (
+      <Center h="100%" bg="gray.100">
+        <Text color={mapError ? 'red.500' : 'gray.500'} fontSize="sm" textAlign="center" px={4}>
+          {mapError || 'No coordinates recorded for this property'}
+        </Text>
+      </Center>
+    );
+  }
+
+  return <Box ref={mapRef} h="100%" w="100%" bg="gray.100" />;
+};
+
+export default function PropertyDetailPage({ params }: PropertyDetailPageProps) {
+  const locationCode = decodeURIComponent(params.locationCode);
+  const [detail, setDetail] = useState<TPropertyDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { hasCopied, onCopy } = useClipboard(typeof window !== 'undefined' ? window.location.href : '');
+  const canEdit = hasRole(useSession()?.role, 'data-admin');
+  const editor = useDisclosure();
+  const [editingLease, setEditingLease] = useState<TLeaseRecord | undefined>(undefined);
+
+  const loadProperty = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setNotFound(false);
+
+      const response = await fetch(`/api/buildings/${encodeURIComponent(locationCode)}`);
+      if (response.status === 404) {
+        setNotFound(true);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(`API call failed: ${response.statusText}`);
+      }
+
+      setDetail(await response.json());
+    } catch (error) {
+      console.error('Error loading property:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [locationCode]);
+
+  useEffect(() => {
+    loadProperty();
+  }, [loadProperty]);
+
+  if (loading) {
+    return (
+      <MainLayout title="Property Details">
+        <LoadingProgress
+          progress={50}
+          message={`Loading ${locationCode}...`}
+          title="Loading Property"
+          subtitle="Fetching building and lease history..."
+        />
+      </MainLayout>
+    );
+  }
+
+  if (notFound || error || !detail) {
+    return (
+      <MainLayout title="Property Details">
+        <Container maxW="7xl" py={8}>
+          <VStack spacing={6}>
+            <Alert status={notFound ? 'warning' : 'error'}>
+              <AlertIcon />
+              <Box>
+                <AlertTitle>
+                  {notFound ? 'Property Not Found' : 'Error Loading Property'}
+                </AlertTitle>
+                <AlertDescription>
+                  {notFound
+                    ? `No building with location code ${locationCode} exists in the inventory.`
+                    : error}
+                </AlertDescription>
+              </Box>
+            </Alert>
+            <HStack spacing={3}>
+              {!notFound && (
+                <Button onClick={loadProperty} colorScheme="blue">
+                  Retry Loading
+                </Button>
+              )}
+              <Button as={NextLink} href="/all-properties" variant="outline">
+                Back to All Properties
+              </Button>
+            </HStack>
+          </VStack>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  const { building, leases, overrides } = detail;
+  const overrideOf = (field: string, leaseNumber: string | null = null) => findOverride(overrides, field, leaseNumber);
+  const addressOverride = ['streetAddress', 'city', 'state', 'zipCode'].map(field => overrideOf(field)).find(Boolean);
+  const coordinatesOverride = overrideOf('latitude') || overrideOf('longitude');
+
+  const openEditor = (lease?: TLeaseRecord) => {
+    setEditingLease(lease);
+    editor.onOpen();
+  };
+  const isOwned = building.ownedOrLeased === 'F';
+  const address = `${building.streetAddress}, ${building.city}, ${building.state} ${building.zipCode || ''}`.trim();
+  const vacancyRate = building.buildingRentableSquareFeet > 0
+    ? (building.availableSquareFeet / building.buildingRentableSquareFeet) * 100
+    : 0;
+  const district = decodeDistrict(building.congressionalDistrict);
+
+  return (
+    <MainLayout title="Property Details">
+      <Container maxW="7xl" py={8}>
+        <VStack spacing={8} align="stretch">
+
+          {/* Header */}
+          <HStack justify="space-between" align="start" flexWrap="wrap" spacing={4}>
+            <VStack align="start" spacing={2}>
+              <Heading size="xl" color="gray.900">
+                {building.realPropertyAssetName || 'Unknown Building'}
+                <OverrideBadge override={overrideOf('realPropertyAssetName')} />
+              </Heading>
+              <Text color="gray.600" fontSize="lg">
+                {address}
+                <OverrideBadge override={addressOverride} />
+              </Text>
+              <HStack spacing={3}>
+                <Badge colorScheme={isOwned ? 'green' : 'blue'} px={3} py={1} borderRadius="full">
+                  {isOwned ? 'Government Owned' : 'Leased Property'}
+                </Badge>
+                <Badge colorScheme="gray" px={3} py={1} borderRadius="full">
+                  {building.locationCode}
+                </Badge>
+                {building.buildingStatus && (
+                  <Badge colorScheme="purple" px={3} py={1} borderRadius="full">
+                    {building.buildingStatus}
+                  </Badge>
+                )}
+                <OverrideBadge override={overrideOf('buildingStatus')} />
+              </HStack>
+            </VStack>
+            <HStack spacing={3}>
+              <WatchButton locationCode={building.locationCode} />
+              {canEdit && (
+                <Button size="sm" variant="outline" leftIcon={<FiEdit2 />} onClick={() => openEditor()}>
+                  Edit
+                </Button>
+              )}
+              <Button size="sm" variant="outline" onClick={onCopy}>
+                {hasCopied ? 'Link Copied' : 'Copy Link'}
+              </Button>
+              <Button
+                size="sm"
+                colorScheme="blue"
+                leftIcon={<Text>🌍</Text>}
+                onClick={() => window.open(getStreetViewUrl(address), '_blank')}
+              >
+                Street View
+              </Button>
+            </HStack>
+          </HStack>
+
+          <Divider />
+
+          {/* Summary and map */}
+          <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+            <Card shadow="sm">
+              <CardBody p={6}>
+                <SimpleGrid columns={2} spacing={5}>
+                  <DetailItem
+                    label="Rentable Square Feet"
+                    value={`${formatNumber(building.buildingRentableSquareFeet)} sq ft`}
+                    override={overrideOf('buildingRentableSquareFeet')}
+                  />
+                  <DetailItem
+                    label="Available Square Feet"
+                    value={`${formatNumber(building.availableSquareFeet)} sq ft`}
+                    override={overrideOf('availableSquareFeet')}
+                  />
+                  <DetailItem label="Vacancy" value={`${vacancyRate.toFixed(1)}%`} />
+                  <DetailItem
+                    label="Construction Year"
+                    value={building.constructionDate || 'Unknown'}
+                    override={overrideOf('constructionDate')}
+                  />
+                  <DetailItem
+                    label="Congressional District"
+                    value={district ? (
+                      <Link as={NextLink} href={`/districts/${district.code}`} color="blue.600">
+                        {district.label}
+                        {building.congressionalDistrictRepresentativeName ? ` (${building.congressionalDistrictRepresentativeName})` : ''}
+                      </Link>
+                    ) : 'N/A'}
+                  />
+                  <DetailItem label="GSA Region" value={building.gsaRegion || 'N/A'} />
+                  <DetailItem label="Installation" value={building.installationName || 'N/A'} />
+                  <DetailItem label="Asset Type" value={building.realPropertyAssetType || 'N/A'} />
+                  <DetailItem
+                    label="Coordinates"
+                    value={building.latitude && building.longitude ? `${building.latitude.toFixed(5)}, ${building.longitude.toFixed(5)}` : 'N/A'}
+                    override={coordinatesOverride}
+                  />
+                </SimpleGrid>
+              </CardBody>
+            </Card>
+
+            <Card shadow="sm" overflow="hidden">
+              <Box h="320px">
+                <PropertyMiniMap building={building} />
+              </Box>
+            </Card>
+          </SimpleGrid>
+
+          {/* Lease history */}
+          <Card shadow="sm">
+            <CardBody p={6}>
+              <VStack spacing={6} align="stretch">
+                <HStack justify="space-between">
+                  <Heading size="md" color="gray.900">
+                    Lease History
+                  </Heading>
+                  <Text fontSize="sm" color="gray.600">
+                    {leases.length} {leases.length === 1 ? 'lease' : 'leases'} on record
+                  </Text>
+                </HStack>
+
+                {leases.length === 0 ? (
+                  <Text fontSize="sm" color="gray.500">
+                    {isOwned ? 'This property is government owned and has no lease records.' : 'No lease records found for this property.'}
+                  </Text>
+                ) : (
+                  <>
+                    <LeaseHistoryTimeline leases={leases} />
+                    <TableContainer>
+                      <Table variant="simple" size="sm">
+                        <Thead>
+                          <Tr>
+                            <Th>Lease Number</Th>
+                            <Th>Status</Th>
+                            <Th>Effective Date</Th>
+                            <Th>Expiration Date</Th>
+                            <Th isNumeric>Rentable Sq Ft</Th>
+                            {canEdit && <Th />}
+                          </Tr>
+                        </Thead>
+                        <Tbody>
+                          {leases.map((lease, index) => (
+                            <Tr key={`${lease.leaseNumber}-${index}`}>
+                              <Td fontWeight="medium">{lease.leaseNumber || 'N/A'}</Td>
+                              <Td>
+                                <Badge colorScheme={getStatusColor(lease.leaseStatus)} size="sm">
+                                  {lease.leaseStatus.toUpperCase()}
+                                </Badge>
+                              </Td>
+                              <Td>
+                                {formatDate(lease.leaseEffectiveDate)}
+                                <OverrideBadge override={overrideOf('leaseEffectiveDate', lease.leaseNumber)} />
+                              </Td>
+                              <Td>
+                                {formatDate(lease.leaseExpirationDate)}
+                                <OverrideBadge override={overrideOf('leaseExpirationDate', lease.leaseNumber)} />
+                              </Td>
+                              <Td isNumeric>
+                                <OverrideBadge override={overrideOf('buildingRentableSquareFeet', lease.leaseNumber)} />
+                                {' '}{formatSquareFootage(lease.buildingRentableSquareFeet || 0)}
+                              </Td>
+                              {canEdit && (
+                                <Td textAlign="right">
+                                  {lease.leaseNumber && (
+                                    <Tooltip label="Edit lease">
+                                      <IconButton
+                                        aria-label={`Edit lease ${lease.leaseNumber}`}
+                                        icon={<FiEdit2 />}
+                                        size="xs"
+                                        variant="ghost"
+                                        onClick={() => openEditor(lease)}
+                                      />
+                                    </Tooltip>
+                                  )}
+                                </Td>
+                              )}
+                            </Tr>
+                          ))}
+                        </Tbody>
+                      </Table>
+                    </TableContainer>
+                  </>
+                )}
+              </VStack>
+            </CardBody>
+          </Card>
+
+          <PropertyNotes
+            locationCode={building.locationCode}
+            tags={detail.tags}
+            onTagsChange={(tags) => setDetail(current => current && { ...current, tags })}
+          />
+        </VStack>
+      </Container>
+
+      {canEdit && editor.isOpen && (
+        <PropertyEditModal
+          building={building}
+          lease={editingLease}
+          overrides={overrides}
+          isOpen={editor.isOpen}
+          onClose={editor.onClose}
+          onSaved={(update) => setDetail(current => current && { ...current, ...update })}
+        />
+      )}
+    </MainLayout>
+  );
+}
@@ -0,0 +1,362 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Box,
+  Container,
+  Text,
+  Spinner,
+  Center,
+  VStack,
+  SimpleGrid,
+  Heading,
+  Card,
+  CardBody,
+  HStack,
+  Icon,
+  Link,
+  Progress,
+  useColorModeValue,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Button,
+  Flex,
+  Select,
+  TableContainer,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FiGrid } from 'react-icons/fi';
+import MainLayout from '@/app/components/layout/main-layout';
+import ModernBarChart from '@/app/components/charts/ModernBarChart';
+import ResponsiveChart from '@/app/components/charts/ResponsiveChart';
+import StateChoropleth from '@/app/components/charts/StateChoropleth';
+import { formatNumber, formatSquareFootage } from '@/lib/utils/data-helpers';
+import { GSA_REGIONS, getRegionLabel, getStateRegion } from '@/lib/utils/gsa-regions';
+import { TGsaRegionSummary } from '@/types/property';
+
+// One color per region, in region order
+const REGION_COLORS: Record<number, string> = {
+  1: '#2563eb',
+  2: '#7c3aed',
+  3: '#db2777',
+  4: '#ea580c',
+  5: '#ca8a04',
+  6: '#65a30d',
+  7: '#dc2626',
+  8: '#0891b2',
+  9: '#0d9488',
+  10: '#4f46e5',
+  11: '#475569',
+};
+
+// Metrics the comparison chart can show
+const CHART_METRICS: { value: string; label: string; getValue: (region: TGsaRegionSummary) => number }[] = [
+  { value: 'buildings', label: 'Buildings', getValue: region => region.buildings },
+  { value: 'rentableSquareFeet', label: 'Rentable sq ft', getValue: region => region.rentableSquareFeet },
+  { value: 'vacancyRate', label: 'Vacancy rate (%)', getValue: region => Number(region.vacancyRate.toFixed(1)) },
+  { value: 'medianBuildingAge', label: 'Median building age', getValue: region => region.medianBuildingAge || 0 },
+  { value: 'expiringLeases', label: 'Leases expiring in 24 months', getValue: region => region.expiringLeases },
+];
+
+const getRegionUrl = (region: number) => `/all-properties?gsaRegion=${region}`;
+
+// Portfolio-wide totals card
+const StatCard = ({ label, value, helpText }: { label: string; value: string; helpText?: string }) => {
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.100', 'gray.700');
+
+  return (
+    <Card bg={bgColor} border="1px" borderColor={borderColor} shadow="sm">
+      <CardBody p={5}>
+        <VStack align="stretch" spacing={1}>
+          <Text fontSize="sm" fontWeight="medium" color="gray.600">
+            {label}
+          </Text>
+          <Text fontSize="2xl" fontWeight="bold" color="gray.900">
+            {value}
+          </Text>
+          {helpText && (
+            <Text fontSize="xs" color="gray.500">
+              {helpText}
+            </Text>
+          )}
+        </VStack>
+      </CardBody>
+    </Card>
+  );
+};
+
+export default function RegionsPage() {
+  const router = useRouter();
+  const [regions, setRegions] = useState<TGsaRegionSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [chartMetric, setChartMetric] = useState(CHART_METRICS[0].value);
+  const [hoveredRegion, setHoveredRegion] = useState<number | null>(null);
+
+  const loadRegions = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/regions');
+      if (!response.ok) {
+        throw new Error('Failed to fetch GSA regions');
+      }
+      const data = await response.json();
+      setRegions(data.regions);
+    } catch (error) {
+      console.error('❌ Error loading regions:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRegions();
+  }, [loadRegions]);
+
+  // Every state shaded in its home region's color
+  const stateFills = useMemo(() => {
+    const fills: Record<string, string> = {};
+    Object.entries(GSA_REGIONS).forEach(([region, info]) => {
+      info.states.forEach(state => {
+        fills[state] = REGION_COLORS[Number(region)];
+      });
+    });
+    return fills;
+  }, []);
+
+  const totals = useMemo(() => (regions || []).reduce(
+    (sum, region) => ({
+      buildings: sum.buildings + region.buildings,
+      rentableSquareFeet: sum.rentableSquareFeet + region.rentableSquareFeet,
+      availableSquareFeet: sum.availableSquareFeet + region.availableSquareFeet,
+      expiringLeases: sum.expiringLeases + region.expiringLeases,
+    }),
+    { buildings: 0, rentableSquareFeet: 0, availableSquareFeet: 0, expiringLeases: 0 }
+  ), [regions]);
+
+  const metric = CHART_METRICS.find(option => option.value === chartMetric) || CHART_METRICS[0];
+  const chartData = (regions || []).map(region => ({ name: `R${region.region}`, value: metric.getValue(region) }));
+
+  if (error) {
+    return (
+      <MainLayout title="GSA Regions">
+        <Container maxW="7xl" py={8}>
+          <VStack spacing={6}>
+            <Alert status="error">
+              <AlertIcon />
+              <Box>
+                <AlertTitle>Error Loading Regions</AlertTitle>
+                <AlertDescription>
+                  <Text mb={2}>{error}</Text>
+                </AlertDescription>
+              </Box>
+            </Alert>
+            <Button onClick={loadRegions} colorScheme="blue">
+              Retry Loading
+            </Button>
+          </VStack>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout title="GSA Regions">
+      <Container maxW="7xl" py={8}>
+        <VStack spacing={8} align="stretch">
+
+          {/* Header Section */}
+          <Box>
+            <HStack spacing={3} align="center">
+              <Icon as={FiGrid} boxSize={8} color="blue.600" />
+              <VStack align="start" spacing={0}>
+                <Heading size="xl" color="gray.900" fontWeight="bold">
+                  GSA Regions
+                </Heading>
+                <Text color="gray.600" fontSize="lg">
+                  The 11 GSA regions side by side
+                </Text>
+              </VStack>
+            </HStack>
+          </Box>
+
+          {!regions ? (
+            <Center h="300px">
+              <VStack spacing={4}>
+                <Spinner size="lg" color="blue.500" />
+                <Text fontSize="sm" color="gray.500">Rolling up regions...</Text>
+              </VStack>
+            </Center>
+          ) : (
+            <>
+              <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={6}>
+                <StatCard label="Buildings" value={formatNumber(totals.buildings)} helpText={`Across ${regions.length} regions`} />
+                <StatCard label="Rentable Sq Ft" value={formatSquareFootage(totals.rentableSquareFeet)} />
+                <StatCard
+                  label="Vacancy Rate"
+                  value={`${(totals.rentableSquareFeet > 0 ? (totals.availableSquareFeet / totals.rentableSquareFeet) * 100 : 0).toFixed(1)}%`}
+                  helpText={`${formatSquareFootage(totals.availableSquareFeet)} available`}
+                />
+                <StatCard label="Expiring Leases" value={formatNumber(totals.expiringLeases)} helpText="Within 24 months" />
+              </SimpleGrid>
+
+              <SimpleGrid columns={{ base: 1, xl: 2 }} spacing={8}>
+                {/* States by region */}
+                <Card border="1px" borderColor="gray.100" shadow="sm">
+                  <CardBody p={6}>
+                    <VStack spacing={4} align="stretch">
+                      <Heading size="md" color="gray.900">States by Region</Heading>
+                      <ResponsiveChart height={320}>
+                        {({ width, height }) => (
+                          <StateChoropleth
+                            width={width}
+                            height={height}
+                            fills={stateFills}
+                            highlightedStates={hoveredRegion ? GSA_REGIONS[hoveredRegion]?.states : []}
+                            onStateClick={(state) => {
+                              const region = getStateRegion(state);
+                              if (region) router.push(getRegionUrl(region));
+                            }}
+                            renderTooltip={({ state, name }) => {
+                              const region = getStateRegion(state);
+                              return (
+                                <Box>
+                                  <Text fontSize="sm" fontWeight="600">{name}</Text>
+                                  <Text fontSize="xs">{region ? getRegionLabel(region) : 'No GSA region'}</Text>
+                                </Box>
+                              );
+                            }}
+                          />
+                        )}
+                      </ResponsiveChart>
+                      <Flex wrap="wrap" gap={3}>
+                        {regions.filter(region => REGION_COLORS[region.region]).map(region => (
+                          <HStack
+                            key={region.region}
+                            spacing={1}
+                            onMouseEnter={() => setHoveredRegion(region.region)}
+                            onMouseLeave={() => setHoveredRegion(null)}
+                          >
+                            <Box w={3} h={3} borderRadius="sm" bg={REGION_COLORS[region.region]} />
+                            <Text fontSize="xs" color="gray.600">{region.region} {region.name}</Text>
+                          </HStack>
+                        ))}
+                      </Flex>
+                      <Text fontSize="xs" color="gray.500">
+                        Click a state to list the properties of its region. Maryland and Virginia buildings near DC
+                        belong to the National Capital Region.
+                      </Text>
+                    </VStack>
+                  </CardBody>
+                </Card>
+
+                {/* Metric comparison */}
+                <Card border="1px" borderColor="gray.100" shadow="sm">
+                  <CardBody p={6}>
+                    <VStack spacing={4} align="stretch">
+                      <Flex justify="space-between" align="center" gap={3}>
+                        <Heading size="md" color="gray.900">Compare Regions</Heading>
+                        <Select
+                          value={chartMetric}
+                          onChange={(e) => setChartMetric(e.target.value)}
+                          maxW="240px"
+                          size="sm"
+                          bg="white"
+                          borderColor="gray.300"
+                        >
+                          {CHART_METRICS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </Select>
+                      </Flex>
+                      <ResponsiveChart height={360}>
+                        {({ width, height }) => (
+                          <ModernBarChart data={chartData} width={width} height={height} />
+                        )}
+                      </ResponsiveChart>
+                    </VStack>
+                  </CardBody>
+                </Card>
+              </SimpleGrid>
+
+              {/* Side-by-side table */}
+              <Card border="1px" borderColor="gray.100" shadow="sm">
+                <CardBody p={6}>
+                  <TableContainer>
+                    <Table variant="simple" size="sm">
+                      <Thead bg="gray.50">
+                        <Tr>
+                          <Th>Region</Th>
+                          <Th isNumeric>Buildings</Th>
+                          <Th>Owned / Leased</Th>
+                          <Th isNumeric>Rentable Sq Ft</Th>
+                          <Th isNumeric>Available Sq Ft</Th>
+                          <Th isNumeric>Vacancy</Th>
+                          <Th isNumeric>Median Age</Th>
+                          <Th isNumeric>Expiring (24 mo)</Th>
+                        </Tr>
+                      </Thead>
+                      <Tbody>
+                        {regions.map(region => (
+                          <Tr
+                            key={region.region}
+                            bg={hoveredRegion === region.region ? 'blue.50' : undefined}
+                            onMouseEnter={() => setHoveredRegion(region.region)}
+                            onMouseLeave={() => setHoveredRegion(null)}
+                          >
+                            <Td fontWeight="medium">
+                              <HStack spacing={2}>
+                                <Box w={3} h={3} borderRadius="sm" bg={REGION_COLORS[region.region] || 'gray.300'} />
+                                <Link as={NextLink} href={getRegionUrl(region.region)} color="blue.600">
+                                  {getRegionLabel(region.region)}
+                                </Link>
+                              </HStack>
+                              <Text fontSize="xs" color="gray.500" fontWeight="normal">
+                                {region.states.join(', ')}
+                              </Text>
+                            </Td>
+                            <Td isNumeric>{formatNumber(region.buildings)}</Td>
+                            <Td minW="160px">
+                              <Text fontSize="xs" color="gray.600" mb={1}>
+                                {formatNumber(region.ownedBuildings)} / {formatNumber(region.leasedBuildings)}
+                              </Text>
+                              <Progress
+                                value={region.buildings > 0 ? (region.ownedBuildings / region.buildings) * 100 : 0}
+                                size="sm"
+                                colorScheme="green"
+                                bg="blue.200"
+                                borderRadius="full"
+                              />
+                            </Td>
+                            <Td isNumeric>{formatSquareFootage(region.rentableSquareFeet)}</Td>
+                            <Td isNumeric>{formatSquareFootage(region.availableSquareFeet)}</Td>
+                            <Td isNumeric>{region.vacancyRate.toFixed(1)}%</Td>
+                            <Td isNumeric>
+                              {region.medianBuildingAge === null ? '—' : `${Math.round(region.medianBuildingAge)} yrs`}
+                            </Td>
+                            <Td isNumeric>{formatNumber(region.expiringLeases)}</Td>
+                          </Tr>
+                        ))}
+                      </Tbody>
+                    </Table>
+                  </TableContainer>
+                  <Text fontSize="xs" color="gray.500" mt={3}>
+                    Green is the owned share of each region&apos;s buildings, blue the leased share.
+                  </Text>
+                </CardBody>
+              </Card>
+            </>
+          )}
+        </VStack>
+      </Container>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Center,
+  FormControl,
+  FormLabel,
+  Heading,
+  Input,
+  Spinner,
+  Text,
+  VStack,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { useSearchParams } from 'next/navigation';
+
+// Only same-origin paths, so the sign-in page cannot be used to redirect elsewhere. The value is
+// resolved the way the browser would, which also catches '/\evil.com' and other backslash tricks.
+function safeNextPath(next: string | null): string {
+  if (!next || !next.startsWith('/')) return '/';
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : '/';
+  } catch {
+    return '/';
+  }
+}
+
+function SignInContent() {
+  const searchParams = useSearchParams();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const signIn = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await fetch('/api/auth/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || `Sign in failed: ${response.statusText}`);
+
+      // A full load, so every component picks up the new session
+      window.location.assign(safeNextPath(searchParams.get('next')));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card w="full" maxW="sm">
+      <CardBody>
+        <form onSubmit={signIn}>
+          <VStack spacing={4} align="stretch">
+            <Box>
+              <Heading size="md">Sign in</Heading>
+              <Text fontSize="sm" color="gray.500">Federal property inventory</Text>
+            </Box>
+
+            {error && (
+              <Alert status="error" borderRadius="md">
+                <AlertIcon />
+                {error}
+              </Alert>
+            )}
+
+            <FormControl isRequired>
+              <FormLabel>Email</FormLabel>
+              <Input type="email" autoComplete="email" autoFocus value={email} onChange={(e) => setEmail(e.target.value)} />
+            </FormControl>
+            <FormControl isRequired>
+              <FormLabel>Password</FormLabel>
+              <Input type="password" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+            </FormControl>
+
+            <Button type="submit" colorScheme="blue" isLoading={submitting}>
+              Sign in
+            </Button>
+          </VStack>
+        </form>
+      </CardBody>
+    </Card>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function SignInPage() {
+  return (
+    <Center minH="100vh" p={4} bg={useColorModeValue('gray.100', 'gray.900')}>
+      <VStack spacing={6} w="full">
+        <Text fontSize="2xl" fontFamily="monospace" fontWeight="bold">
+          PropertyViewer
+        </Text>
+        <Suspense fallback={<Spinner size="lg" />}>
+          <SignInContent />
+        </Suspense>
+      </VStack>
+    </Center>
+  );
+}
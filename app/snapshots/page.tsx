@@ -0,0 +1,366 @@
+'use client';
+
+import { Suspense, useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Container,
+  Text,
+  Spinner,
+  Center,
+  VStack,
+  SimpleGrid,
+  Heading,
+  Badge,
+  Card,
+  CardBody,
+  Divider,
+  HStack,
+  Icon,
+  useColorModeValue,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Button,
+  Flex,
+  Select,
+  Tabs,
+  TabList,
+  Tab,
+  TabPanels,
+  TabPanel,
+  TableContainer,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react';
+import { FiGitCommit } from 'react-icons/fi';
+import MainLayout from '@/app/components/layout/main-layout';
+import { formatNumber } from '@/lib/utils/data-helpers';
+import { useUrlFilters } from '@/lib/hooks/use-url-filters';
+import { TDiffChange, TDiffEntry, TSnapshot, TSnapshotDiff } from '@/types/property';
+
+// Releases being compared; empty means the two most recent ones
+const DEFAULT_FILTERS = {
+  from: '',
+  to: '',
+};
+
+// Rows rendered per category; the API always returns the full lists
+const MAX_ROWS = 500;
+
+type TDiffRow = TDiffEntry & Partial<TDiffChange<string | number | null>>;
+
+interface TDiffCategory {
+  label: string;
+  color: string;
+  entries: TDiffRow[];
+  format?: (value: string | number | null) => string;
+}
+
+function getCategories(diff: TSnapshotDiff): TDiffCategory[] {
+  const formatSquareFeet = (value: string | number | null) => `${formatNumber(Number(value) || 0)} sq ft`;
+  const formatDate = (value: string | number | null) => (value ? String(value) : 'Removed');
+
+  return [
+    { label: 'Buildings added', color: 'green', entries: diff.buildings.added },
+    { label: 'Buildings disposed', color: 'red', entries: diff.buildings.disposed },
+    { label: 'Ownership changed', color: 'purple', entries: diff.buildings.ownershipChanged },
+    { label: 'Resized', color: 'blue', entries: diff.buildings.resized, format: formatSquareFeet },
+    { label: 'Re-addressed', color: 'cyan', entries: diff.buildings.readdressed },
+    { label: 'Leases added', color: 'green', entries: diff.leases.added },
+    { label: 'Leases extended', color: 'teal', entries: diff.leases.extended, format: formatDate },
+    { label: 'Leases terminated', color: 'orange', entries: diff.leases.terminated, format: formatDate },
+  ];
+}
+
+// Count card for one change category
+const ChangeCard = ({ label, count, color }: { label: string; count: number; color: string }) => {
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.100', 'gray.700');
+
+  return (
+    <Card bg={bgColor} border="1px" borderColor={borderColor} shadow="sm">
+      <CardBody p={5}>
+        <VStack align="stretch" spacing={1}>
+          <Text fontSize="sm" fontWeight="medium" color="gray.600">
+            {label}
+          </Text>
+          <Text fontSize="2xl" fontWeight="bold" color={count > 0 ? `${color}.600` : 'gray.400'}>
+            {formatNumber(count)}
+          </Text>
+        </VStack>
+      </CardBody>
+    </Card>
+  );
+};
+
+// One row per building or lease, with before/after columns for changes
+const DiffTable = ({ category }: { category: TDiffCategory }) => {
+  const hasChanges = category.entries.some(entry => 'before' in entry);
+  const format = category.format || ((value: string | number | null) => String(value ?? ''));
+
+  if (category.entries.length === 0) {
+    return (
+      <Center h="120px">
+        <Text color="gray.500">No {category.label.toLowerCase()} between these releases</Text>
+      </Center>
+    );
+  }
+
+  return (
+    <VStack align="stretch" spacing={3}>
+      <TableContainer maxH="500px" overflowY="auto">
+        <Table variant="simple" size="sm">
+          <Thead bg="gray.50" position="sticky" top={0} zIndex={1}>
+            <Tr>
+              <Th>Location</Th>
+              {category.entries[0].key !== category.entries[0].locationCode && <Th>Lease</Th>}
+              <Th>Name</Th>
+              <Th>City</Th>
+              {hasChanges && <Th>Before</Th>}
+              {hasChanges && <Th>After</Th>}
+            </Tr>
+          </Thead>
+          <Tbody>
+            {category.entries.slice(0, MAX_ROWS).map(entry => (
+              <Tr key={`${entry.locationCode}|${entry.key}`}>
+                <Td fontFamily="mono">{entry.locationCode}</Td>
+                {entry.key !== entry.locationCode && <Td fontFamily="mono">{entry.key}</Td>}
+                <Td maxW="280px" overflow="hidden" textOverflow="ellipsis">{entry.name}</Td>
+                <Td>{entry.city}{entry.state ? `, ${entry.state}` : ''}</Td>
+                {hasChanges && <Td>{format(entry.before ?? null)}</Td>}
+                {hasChanges && <Td fontWeight="medium">{format(entry.after ?? null)}</Td>}
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </TableContainer>
+      {category.entries.length > MAX_ROWS && (
+        <Text fontSize="sm" color="gray.500">
+          Showing the first {formatNumber(MAX_ROWS)} of {formatNumber(category.entries.length)}
+        </Text>
+      )}
+    </VStack>
+  );
+};
+
+function SnapshotsContent() {
+  const [snapshots, setSnapshots] = useState<TSnapshot[] | null>(null);
+  const [diff, setDiff] = useState<TSnapshotDiff | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { values: urlFilters, update: updateFilters } = useUrlFilters(DEFAULT_FILTERS);
+
+  // Without a selection, compare the latest release with the one before it
+  const latest = snapshots && snapshots.length > 0 ? snapshots[snapshots.length - 1].id : '';
+  const previous = snapshots && snapshots.length > 1 ? snapshots[snapshots.length - 2].id : latest;
+  const fromId = urlFilters.from || previous;
+  const toId = urlFilters.to || latest;
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      setError(null);
+      const response = await fetch('/api/snapshots');
+      if (!response.ok) {
+        throw new Error('Failed to fetch snapshots');
+      }
+      const data = await response.json();
+      setSnapshots(data.snapshots);
+    } catch (error) {
+      console.error('❌ Error loading snapshots:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  useEffect(() => {
+    if (!fromId || !toId) {
+      if (snapshots) setLoading(false);
+      return;
+    }
+
+    const loadDiff = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(`/api/snapshots/${encodeURIComponent(fromId)}/diff/${encodeURIComponent(toId)}`);
+        if (!response.ok) {
+          throw new Error('Failed to compare snapshots');
+        }
+        setDiff(await response.json());
+      } catch (error) {
+        console.error('❌ Error loading snapshot diff:', error);
+        setError(error instanceof Error ? error.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadDiff();
+  }, [fromId, toId, snapshots]);
+
+  if (error) {
+    return (
+      <MainLayout title="What Changed">
+        <Container maxW="7xl" py={8}>
+          <VStack spacing={6}>
+            <Alert status="error">
+              <AlertIcon />
+              <Box>
+                <AlertTitle>Error Loading Snapshots</AlertTitle>
+                <AlertDescription>
+                  <Text mb={2}>{error}</Text>
+                </AlertDescription>
+              </Box>
+            </Alert>
+            <Button onClick={loadSnapshots} colorScheme="blue">
+              Retry Loading
+            </Button>
+          </VStack>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  const categories = diff ? getCategories(diff) : [];
+
+  return (
+    <MainLayout title="What Changed">
+      <Container maxW="7xl" py={8}>
+        <VStack spacing={8} align="stretch">
+
+          {/* Header Section */}
+          <Box>
+            <VStack spacing={3} align="stretch">
+              <HStack spacing={3} align="center">
+                <Icon as={FiGitCommit} boxSize={8} color="blue.600" />
+                <VStack align="start" spacing={0}>
+                  <Heading size="xl" color="gray.900" fontWeight="bold">
+                    What Changed
+                  </Heading>
+                  <Text color="gray.600" fontSize="lg">
+                    Buildings and leases that changed between two IOLP releases
+                  </Text>
+                </VStack>
+              </HStack>
+
+              {snapshots && (
+                <HStack spacing={3}>
+                  <Badge colorScheme="blue" px={3} py={1} borderRadius="full" fontSize="sm">
+                    {snapshots.length} {snapshots.length === 1 ? 'release' : 'releases'}
+                  </Badge>
+                  {loading && <Spinner size="sm" color="blue.500" />}
+                </HStack>
+              )}
+            </VStack>
+          </Box>
+
+          {/* Release selection */}
+          <Flex gap={3} wrap="wrap" align="center">
+            <Select
+              value={fromId}
+              onChange={(e) => updateFilters({ from: e.target.value })}
+              maxW="220px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              {snapshots?.map(snapshot => (
+                <option key={snapshot.id} value={snapshot.id}>{snapshot.id}</option>
+              ))}
+            </Select>
+            <Text fontSize="sm" color="gray.600">to</Text>
+            <Select
+              value={toId}
+              onChange={(e) => updateFilters({ to: e.target.value })}
+              maxW="220px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              {snapshots?.map(snapshot => (
+                <option key={snapshot.id} value={snapshot.id}>{snapshot.id}</option>
+              ))}
+            </Select>
+          </Flex>
+
+          {snapshots && snapshots.length < 2 && (
+            <Alert status="info">
+              <AlertIcon />
+              <AlertDescription>
+                Only one release has been imported. Add another dated export to compare releases.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Divider />
+
+          {!diff ? (
+            <Center h="300px">
+              {loading ? (
+                <VStack spacing={4}>
+                  <Spinner size="lg" color="blue.500" />
+                  <Text fontSize="sm" color="gray.500">Comparing releases...</Text>
+                </VStack>
+              ) : (
+                <Text color="gray.500">No releases have been imported yet</Text>
+              )}
+            </Center>
+          ) : (
+            <>
+              <SimpleGrid columns={{ base: 2, md: 4 }} spacing={6}>
+                {categories.map(category => (
+                  <ChangeCard
+                    key={category.label}
+                    label={category.label}
+                    count={category.entries.length}
+                    color={category.color}
+                  />
+                ))}
+              </SimpleGrid>
+
+              <Card border="1px" borderColor="gray.100" shadow="sm">
+                <CardBody p={6}>
+                  <Tabs colorScheme="blue" isLazy>
+                    <TabList overflowX="auto" overflowY="hidden">
+                      {categories.map(category => (
+                        <Tab key={category.label} whiteSpace="nowrap">
+                          {category.label} ({formatNumber(category.entries.length)})
+                        </Tab>
+                      ))}
+                    </TabList>
+                    <TabPanels>
+                      {categories.map(category => (
+                        <TabPanel key={category.label} px={0}>
+                          <DiffTable category={category} />
+                        </TabPanel>
+                      ))}
+                    </TabPanels>
+                  </Tabs>
+                </CardBody>
+              </Card>
+            </>
+          )}
+        </VStack>
+      </Container>
+    </MainLayout>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function SnapshotsPage() {
+  return (
+    <Suspense fallback={<MainLayout title="What Changed"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <SnapshotsContent />
+    </Suspense>
+  );
+}
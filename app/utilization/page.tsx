@@ -0,0 +1,506 @@
+'use client';
+
+import { Suspense, useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Box,
+  Container,
+  Text,
+  Spinner,
+  Center,
+  VStack,
+  SimpleGrid,
+  Heading,
+  Badge,
+  Card,
+  CardBody,
+  Divider,
+  HStack,
+  Icon,
+  Link,
+  Progress,
+  useColorModeValue,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Button,
+  Flex,
+  Select,
+  Tabs,
+  TabList,
+  Tab,
+  TabPanels,
+  TabPanel,
+  TableContainer,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { FiPieChart } from 'react-icons/fi';
+import ModernBarChart from '@/app/components/charts/ModernBarChart';
+import ResponsiveChart from '@/app/components/charts/ResponsiveChart';
+import MainLayout from '@/app/components/layout/main-layout';
+import SavedViewsMenu from '@/app/components/ui/saved-views-menu';
+import { formatNumber, formatSquareFootage, getPropertyUrl } from '@/lib/utils/data-helpers';
+import { getRegionLabel } from '@/lib/utils/gsa-regions';
+import { useUrlFilters } from '@/lib/hooks/use-url-filters';
+import {
+  TBuildingFilterValues,
+  TBuildingUtilization,
+  TSpaceTotals,
+  TUtilizationGroup,
+  TUtilizationReport,
+} from '@/types/property';
+
+// Rows listed in the idle building and consolidation tabs
+const LIST_LIMIT = 100;
+
+// Cities beyond this many are left out of the city table
+const MAX_CITY_ROWS = 250;
+
+const TABS = ['state', 'city', 'region', 'assetType', 'idle', 'consolidation'];
+
+// Filters and selected tab kept in the URL; only values differing from these are written
+const DEFAULT_FILTERS = {
+  state: 'all',
+  gsaRegion: 'all',
+  assetType: 'all',
+  tab: 'state',
+};
+
+// Rentable and available space summary card
+const SpaceCard = ({ label, totals, helpText }: { label: string; totals: TSpaceTotals; helpText?: string }) => {
+  const bgColor = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.100', 'gray.700');
+
+  return (
+    <Card bg={bgColor} border="1px" borderColor={borderColor} shadow="sm">
+      <CardBody p={5}>
+        <VStack align="stretch" spacing={1}>
+          <Text fontSize="sm" fontWeight="medium" color="gray.600">
+            {label}
+          </Text>
+          <Text fontSize="2xl" fontWeight="bold" color="gray.900">
+            {totals.vacancyRate.toFixed(1)}% vacant
+          </Text>
+          <Text fontSize="xs" color="gray.500">
+            {formatSquareFootage(totals.availableSquareFeet)} of {formatSquareFootage(totals.rentableSquareFeet)} · {formatNumber(totals.buildings)} buildings
+          </Text>
+          {helpText && (
+            <Text fontSize="xs" color="gray.500">
+              {helpText}
+            </Text>
+          )}
+        </VStack>
+      </CardBody>
+    </Card>
+  );
+};
+
+const VacancyBar = ({ rate }: { rate: number }) => (
+  <HStack spacing={2} minW="140px">
+    <Progress value={rate} size="sm" colorScheme={rate >= 25 ? 'red' : rate >= 10 ? 'orange' : 'green'} flex={1} borderRadius="full" />
+    <Text fontSize="xs" w="44px" textAlign="right">{rate.toFixed(1)}%</Text>
+  </HStack>
+);
+
+// Vacancy of each state, city, region or asset type
+const UtilizationGroupTable = ({
+  label,
+  groups,
+  formatKey = key => key,
+}: {
+  label: string;
+  groups: TUtilizationGroup[];
+  formatKey?: (key: string) => string;
+}) => (
+  <TableContainer maxH="500px" overflowY="auto">
+    <Table variant="simple" size="sm">
+      <Thead bg="gray.50" position="sticky" top={0} zIndex={1}>
+        <Tr>
+          <Th>{label}</Th>
+          <Th isNumeric>Buildings</Th>
+          <Th isNumeric>Rentable Sq Ft</Th>
+          <Th isNumeric>Available Sq Ft</Th>
+          <Th>Vacancy</Th>
+        </Tr>
+      </Thead>
+      <Tbody>
+        {groups.map(group => (
+          <Tr key={group.key}>
+            <Td fontWeight="medium">{formatKey(group.key)}</Td>
+            <Td isNumeric>{formatNumber(group.buildings)}</Td>
+            <Td isNumeric>{formatSquareFootage(group.rentableSquareFeet)}</Td>
+            <Td isNumeric>{formatSquareFootage(group.availableSquareFeet)}</Td>
+            <Td><VacancyBar rate={group.vacancyRate} /></Td>
+          </Tr>
+        ))}
+      </Tbody>
+    </Table>
+  </TableContainer>
+);
+
+const BuildingLink = ({ building }: { building: TBuildingUtilization }) => (
+  <VStack align="start" spacing={0}>
+    <Link as={NextLink} href={getPropertyUrl(building.locationCode)} color="blue.600" fontWeight="medium">
+      {building.realPropertyAssetName || building.locationCode}
+    </Link>
+    <Text fontSize="xs" color="gray.500">{building.locationCode}</Text>
+  </VStack>
+);
+
+function UtilizationContent() {
+  const [report, setReport] = useState<TUtilizationReport | null>(null);
+  const [filterValues, setFilterValues] = useState<TBuildingFilterValues | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { values: urlFilters, update: updateFilters, applyQuery, query } = useUrlFilters(DEFAULT_FILTERS);
+  const { state: stateFilter, gsaRegion: regionFilter, assetType: assetTypeFilter, tab } = urlFilters;
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const params = new URLSearchParams({ limit: String(LIST_LIMIT) });
+      if (stateFilter !== 'all') params.set('state', stateFilter);
+      if (regionFilter !== 'all') params.set('gsaRegion', regionFilter);
+      if (assetTypeFilter !== 'all') params.set('assetType', assetTypeFilter);
+
+      const response = await fetch(`/api/analytics/utilization?${params}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch space utilization');
+      }
+      setReport(await response.json());
+    } catch (error) {
+      console.error('❌ Error loading space utilization:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [stateFilter, regionFilter, assetTypeFilter]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  // Filter options only need loading once
+  useEffect(() => {
+    fetch('/api/buildings/filters')
+      .then(response => (response.ok ? response.json() : null))
+      .then(setFilterValues)
+      .catch(error => console.error('Error loading utilization filters:', error));
+  }, []);
+
+  const regionChartData = useMemo(
+    () => (report?.byGsaRegion || [])
+      .filter(group => group.key !== '0')
+      .sort((a, b) => Number(a.key) - Number(b.key))
+      .map(group => ({ name: `R${group.key}`, value: Number(group.vacancyRate.toFixed(1)) })),
+    [report]
+  );
+
+  if (error) {
+    return (
+      <MainLayout title="Space Utilization">
+        <Container maxW="7xl" py={8}>
+          <VStack spacing={6}>
+            <Alert status="error">
+              <AlertIcon />
+              <Box>
+                <AlertTitle>Error Loading Space Utilization</AlertTitle>
+                <AlertDescription>
+                  <Text mb={2}>{error}</Text>
+                </AlertDescription>
+              </Box>
+            </Alert>
+            <Button onClick={loadReport} colorScheme="blue">
+              Retry Loading
+            </Button>
+          </VStack>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout title="Space Utilization">
+      <Container maxW="7xl" py={8}>
+        <VStack spacing={8} align="stretch">
+
+          {/* Header Section */}
+          <Box>
+            <VStack spacing={3} align="stretch">
+              <HStack spacing={3} align="center">
+                <Icon as={FiPieChart} boxSize={8} color="blue.600" />
+                <VStack align="start" spacing={0}>
+                  <Heading size="xl" color="gray.900" fontWeight="bold">
+                    Space Utilization
+                  </Heading>
+                  <Text color="gray.600" fontSize="lg">
+                    Vacant space across owned and leased buildings
+                  </Text>
+                </VStack>
+              </HStack>
+              {loading && report && <Spinner size="sm" color="blue.500" />}
+            </VStack>
+          </Box>
+
+          {/* Filters */}
+          <Flex gap={3} wrap="wrap">
+            <Select
+              value={stateFilter}
+              onChange={(e) => updateFilters({ state: e.target.value })}
+              maxW="220px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              <option value="all">All States</option>
+              {filterValues?.states.map(state => (
+                <option key={state} value={state}>{state}</option>
+              ))}
+            </Select>
+
+            <Select
+              value={regionFilter}
+              onChange={(e) => updateFilters({ gsaRegion: e.target.value })}
+              maxW="260px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              <option value="all">All GSA Regions</option>
+              {filterValues?.gsaRegions.map(region => (
+                <option key={region} value={region}>{getRegionLabel(region)}</option>
+              ))}
+            </Select>
+
+            <Select
+              value={assetTypeFilter}
+              onChange={(e) => updateFilters({ assetType: e.target.value })}
+              maxW="220px"
+              size="sm"
+              bg="white"
+              borderColor="gray.300"
+            >
+              <option value="all">All Asset Types</option>
+              {filterValues?.assetTypes.map(assetType => (
+                <option key={assetType} value={assetType}>{assetType}</option>
+              ))}
+            </Select>
+
+            <Button
+              size="sm"
+              variant="outline"
+              colorScheme="gray"
+              onClick={() => updateFilters({ state: 'all', gsaRegion: 'all', assetType: 'all' })}
+            >
+              Clear All
+            </Button>
+
+            <Box ml="auto">
+              <SavedViewsMenu page="utilization" query={query} onApply={applyQuery} />
+            </Box>
+          </Flex>
+
+          <Divider />
+
+          {!report ? (
+            <Center h="300px">
+              <VStack spacing={4}>
+                <Spinner size="lg" color="blue.500" />
+                <Text fontSize="sm" color="gray.500">Measuring vacant space...</Text>
+              </VStack>
+            </Center>
+          ) : (
+            <>
+              <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={6}>
+                <SpaceCard label="All Buildings" totals={report.totals} />
+                <SpaceCard label="Owned Buildings" totals={report.owned} />
+                <SpaceCard label="Leased Buildings" totals={report.leased} />
+                <Card border="1px" borderColor="gray.100" shadow="sm">
+                  <CardBody p={5}>
+                    <VStack align="stretch" spacing={1}>
+                      <Text fontSize="sm" fontWeight="medium" color="gray.600">
+                        Consolidation Candidates
+                      </Text>
+                      <Text fontSize="2xl" fontWeight="bold" color="orange.600">
+                        {formatNumber(report.consolidationCandidateCount)}
+                      </Text>
+                      <Text fontSize="xs" color="gray.500">
+                        Leased buildings with space in a city where owned buildings have vacancy
+                      </Text>
+                    </VStack>
+                  </CardBody>
+                </Card>
+              </SimpleGrid>
+
+              <Card border="1px" borderColor="gray.100" shadow="sm">
+                <CardBody p={6}>
+                  <VStack spacing={6} align="stretch">
+                    <Heading size="md" color="gray.900">Vacancy Rate by GSA Region (%)</Heading>
+                    <ResponsiveChart height={260}>
+                      {({ width, height }) => (
+                        <ModernBarChart
+                          data={regionChartData}
+                          width={width}
+                          height={height}
+                          primaryColor="#f59e0b"
+                          gradientColor="#fbbf24"
+                        />
+                      )}
+                    </ResponsiveChart>
+                  </VStack>
+                </CardBody>
+              </Card>
+
+              <Card border="1px" borderColor="gray.100" shadow="sm">
+                <CardBody p={6}>
+                  <Tabs
+                    colorScheme="blue"
+                    isLazy
+                    index={Math.max(0, TABS.indexOf(tab))}
+                    onChange={(index) => updateFilters({ tab: TABS[index] })}
+                  >
+                    <TabList flexWrap="wrap">
+                      <Tab>By State</Tab>
+                      <Tab>By City</Tab>
+                      <Tab>By GSA Region</Tab>
+                      <Tab>By Asset Type</Tab>
+                      <Tab>Idle Buildings</Tab>
+                      <Tab>Consolidation</Tab>
+                    </TabList>
+                    <TabPanels>
+                      <TabPanel px={0}>
+                        <UtilizationGroupTable label="State" groups={report.byState} />
+                      </TabPanel>
+                      <TabPanel px={0}>
+                        <UtilizationGroupTable label="City" groups={report.byCity.slice(0, MAX_CITY_ROWS)} />
+                        {report.byCity.length > MAX_CITY_ROWS && (
+                          <Text fontSize="xs" color="gray.500" mt={3}>
+                            The {MAX_CITY_ROWS} cities with the most available space of {formatNumber(report.byCity.length)}
+                          </Text>
+                        )}
+                      </TabPanel>
+                      <TabPanel px={0}>
+                        <UtilizationGroupTable
+                          label="GSA Region"
+                          groups={report.byGsaRegion}
+                          formatKey={key => (key === '0' ? 'No region' : getRegionLabel(key))}
+                        />
+                      </TabPanel>
+                      <TabPanel px={0}>
+                        <UtilizationGroupTable label="Asset Type" groups={report.byAssetType} />
+                      </TabPanel>
+
+                      {/* Buildings with the most available space */}
+                      <TabPanel px={0}>
+                        <TableContainer maxH="500px" overflowY="auto">
+                          <Table variant="simple" size="sm">
+                            <Thead bg="gray.50" position="sticky" top={0} zIndex={1}>
+                              <Tr>
+                                <Th>Building</Th>
+                                <Th>Location</Th>
+                                <Th>Type</Th>
+                                <Th isNumeric>Rentable Sq Ft</Th>
+                                <Th isNumeric>Available Sq Ft</Th>
+                                <Th>Vacancy</Th>
+                              </Tr>
+                            </Thead>
+                            <Tbody>
+                              {report.idleBuildings.map(building => (
+                                <Tr key={building.locationCode}>
+                                  <Td><BuildingLink building={building} /></Td>
+                                  <Td>{building.city}, {building.state}</Td>
+                                  <Td>
+                                    <Badge colorScheme={building.ownedOrLeased === 'F' ? 'green' : 'blue'}>
+                                      {building.ownedOrLeased === 'F' ? 'Owned' : 'Leased'}
+                                    </Badge>
+                                  </Td>
+                                  <Td isNumeric>{formatSquareFootage(building.rentableSquareFeet)}</Td>
+                                  <Td isNumeric>{formatSquareFootage(building.availableSquareFeet)}</Td>
+                                  <Td><VacancyBar rate={building.vacancyRate} /></Td>
+                                </Tr>
+                              ))}
+                            </Tbody>
+                          </Table>
+                        </TableContainer>
+                      </TabPanel>
+
+                      {/* Leased space next to owned vacancy */}
+                      <TabPanel px={0}>
+                        <Text fontSize="sm" color="gray.600" mb={4}>
+                          Leased buildings with available space in a city where owned buildings also have vacancy,
+                          most owned vacancy first. Showing {formatNumber(report.consolidationCandidates.length)} of{' '}
+                          {formatNumber(report.consolidationCandidateCount)}.
+                        </Text>
+                        <TableContainer maxH="500px" overflowY="auto" whiteSpace="normal">
+                          <Table variant="simple" size="sm">
+                            <Thead bg="gray.50" position="sticky" top={0} zIndex={1}>
+                              <Tr>
+                                <Th>Leased Building</Th>
+                                <Th>City</Th>
+                                <Th isNumeric>Leased Available</Th>
+                                <Th>Owned Buildings with Vacancy</Th>
+                                <Th isNumeric>Owned Available</Th>
+                              </Tr>
+                            </Thead>
+                            <Tbody>
+                              {report.consolidationCandidates.map(candidate => (
+                                <Tr key={candidate.leased.locationCode} verticalAlign="top">
+                                  <Td><BuildingLink building={candidate.leased} /></Td>
+                                  <Td>{candidate.leased.city}, {candidate.leased.state}</Td>
+                                  <Td isNumeric>
+                                    {formatSquareFootage(candidate.leased.availableSquareFeet)}
+                                    <Text fontSize="xs" color="gray.500">
+                                      of {formatSquareFootage(candidate.leased.rentableSquareFeet)}
+                                    </Text>
+                                  </Td>
+                                  <Td>
+                                    <VStack align="start" spacing={1}>
+                                      {candidate.ownedWithVacancy.map(owned => (
+                                        <Link
+                                          key={owned.locationCode}
+                                          as={NextLink}
+                                          href={getPropertyUrl(owned.locationCode)}
+                                          color="blue.600"
+                                          fontSize="sm"
+                                        >
+                                          {owned.realPropertyAssetName || owned.locationCode} ({formatSquareFootage(owned.availableSquareFeet)})
+                                        </Link>
+                                      ))}
+                                    </VStack>
+                                  </Td>
+                                  <Td isNumeric>{formatSquareFootage(candidate.ownedAvailableSquareFeet)}</Td>
+                                </Tr>
+                              ))}
+                            </Tbody>
+                          </Table>
+                        </TableContainer>
+                      </TabPanel>
+                    </TabPanels>
+                  </Tabs>
+                </CardBody>
+              </Card>
+            </>
+          )}
+        </VStack>
+      </Container>
+    </MainLayout>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function UtilizationDashboard() {
+  return (
+    <Suspense fallback={<MainLayout title="Space Utilization"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <UtilizationContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,377 @@
+'use client';
+
+import { Suspense, useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Container,
+  Text,
+  Spinner,
+  Center,
+  VStack,
+  Heading,
+  Badge,
+  Card,
+  CardBody,
+  CardHeader,
+  HStack,
+  Icon,
+  IconButton,
+  Input,
+  Link,
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Button,
+  Flex,
+  SimpleGrid,
+  TableContainer,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  useToast,
+} from '@chakra-ui/react';
+import NextLink from 'next/link';
+import { FiStar, FiTrash2, FiX } from 'react-icons/fi';
+import MainLayout from '@/app/components/layout/main-layout';
+import { formatDate, getPropertyUrl } from '@/lib/utils/data-helpers';
+import { DEFAULT_ALERT_THRESHOLDS, normalizeThresholds } from '@/lib/utils/watchlists';
+import { useUrlFilters } from '@/lib/hooks/use-url-filters';
+import { useWatchlists } from '@/lib/hooks/use-watchlists';
+import { TWatchlistDetail, TWatchlistEntry } from '@/types/property';
+
+// Selected watchlist kept in the URL so it can be linked to
+const DEFAULT_FILTERS = {
+  id: '',
+};
+
+// Red inside the smallest threshold, orange inside the middle ones, yellow inside the largest
+function thresholdColor(entry: TWatchlistEntry, thresholds: number[]): string {
+  if (entry.daysToExpiration !== null && entry.daysToExpiration < 0) return 'gray';
+  if (entry.crossedThreshold === null) return 'green';
+  const smallest = Math.min(...thresholds);
+  const largest = Math.max(...thresholds);
+  if (entry.crossedThreshold === smallest) return 'red';
+  return entry.crossedThreshold === largest ? 'yellow' : 'orange';
+}
+
+function DaysBadge({ entry, thresholds }: { entry: TWatchlistEntry; thresholds: number[] }) {
+  if (entry.daysToExpiration === null) {
+    return <Text fontSize="sm" color="gray.400">—</Text>;
+  }
+  return (
+    <Badge colorScheme={thresholdColor(entry, thresholds)}>
+      {entry.daysToExpiration < 0 ? `Expired ${-entry.daysToExpiration} days ago` : `${entry.daysToExpiration} days`}
+    </Badge>
+  );
+}
+
+function WatchlistsContent() {
+  const { values, update } = useUrlFilters(DEFAULT_FILTERS);
+  const { watchlists, error: listError, reload, create, update: updateWatchlist, remove } = useWatchlists();
+  const [detail, setDetail] = useState<TWatchlistDetail | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [thresholdsText, setThresholdsText] = useState('');
+  const toast = useToast();
+
+  const selectedId = values.id || watchlists?.[0]?.id || '';
+
+  const loadDetail = useCallback(async () => {
+    if (!selectedId) {
+      setDetail(null);
+      return;
+    }
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/watchlists/${encodeURIComponent(selectedId)}`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'This watchlist no longer exists' : `Failed to fetch watchlist: ${response.statusText}`);
+      }
+      const data: TWatchlistDetail = await response.json();
+      setDetail(data);
+      setThresholdsText(data.watchlist.alertThresholds.join(', '));
+    } catch (error) {
+      console.error('Error loading watchlist:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedId]);
+
+  useEffect(() => {
+    loadDetail();
+  }, [loadDetail]);
+
+  // Star and unstar elsewhere on the page (or in another tab) change the entries
+  useEffect(() => {
+    if (!detail || !watchlists) return;
+    const current = watchlists.find(watchlist => watchlist.id === detail.watchlist.id);
+    if (current && current.updatedAt !== detail.watchlist.updatedAt) loadDetail();
+  }, [watchlists, detail, loadDetail]);
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast({ title: success, status: 'success', duration: 2000 });
+    } catch (error) {
+      console.error('Error updating watchlist:', error);
+      toast({ title: error instanceof Error ? error.message : 'Could not update the watchlist', status: 'error', duration: 3000 });
+    }
+  };
+
+  const createWatchlist = () => {
+    const name = newName.trim();
+    if (!name) return;
+    setNewName('');
+    run(async () => {
+      const { watchlist } = await create(name);
+      update({ id: watchlist.id });
+    }, `Created ${name}`);
+  };
+
+  const deleteWatchlist = () => {
+    if (!detail || !window.confirm(`Delete the watchlist "${detail.watchlist.name}"?`)) return;
+    const { name } = detail.watchlist;
+    run(async () => {
+      await remove(detail.watchlist.id);
+      update({ id: '' });
+    }, `Deleted ${name}`);
+  };
+
+  const saveThresholds = () => {
+    if (!detail) return;
+    const alertThresholds = normalizeThresholds(
+      thresholdsText.split(',').map(part => part.trim()).filter(Boolean).map(Number)
+    );
+    if (!alertThresholds) {
+      toast({ title: 'Enter whole days between 1 and 3650, separated by commas', status: 'error', duration: 3000 });
+      return;
+    }
+    run(() => updateWatchlist(detail.watchlist.id, { alertThresholds }), 'Alert thresholds saved');
+  };
+
+  const unwatch = (locationCode: string) => {
+    if (!detail) return;
+    run(() => updateWatchlist(detail.watchlist.id, { remove: [locationCode] }), `Removed ${locationCode}`);
+  };
+
+  if (listError || error) {
+    return (
+      <MainLayout title="Watchlists">
+        <Container maxW="7xl" py={8}>
+          <VStack spacing={6}>
+            <Alert status="error">
+              <AlertIcon />
+              <Box>
+                <AlertTitle>Error Loading Watchlists</AlertTitle>
+                <AlertDescription>
+                  <Text mb={2}>{listError || error}</Text>
+                </AlertDescription>
+              </Box>
+            </Alert>
+            <Button onClick={() => (error && values.id ? update({ id: '' }) : reload())} colorScheme="blue">
+              Retry Loading
+            </Button>
+          </VStack>
+        </Container>
+      </MainLayout>
+    );
+  }
+
+  if (!watchlists) {
+    return (
+      <MainLayout title="Watchlists">
+        <Center h="400px">
+          <VStack spacing={4}>
+            <Spinner size="lg" color="blue.500" />
+            <Text fontSize="sm" color="gray.500">Loading watchlists...</Text>
+          </VStack>
+        </Center>
+      </MainLayout>
+    );
+  }
+
+  const thresholds = detail?.watchlist.alertThresholds || DEFAULT_ALERT_THRESHOLDS;
+
+  return (
+    <MainLayout title="Watchlists">
+      <Container maxW="7xl" py={4}>
+        <VStack spacing={6} align="stretch">
+          <Box>
+            <HStack spacing={3} mb={2}>
+              <Icon as={FiStar} boxSize={6} color="yellow.500" />
+              <Heading size="lg">Watchlists</Heading>
+            </HStack>
+            <Text color="gray.600">
+              Properties you follow, with the primary lease of each and the days left until it expires.
+              An alert appears under the bell when a lease comes within one of the watchlist&apos;s thresholds.
+            </Text>
+          </Box>
+
+          <SimpleGrid columns={{ base: 1, lg: 4 }} spacing={6} alignItems="start">
+            <Card shadow="sm">
+              <CardBody>
+                <VStack align="stretch" spacing={2}>
+                  {watchlists.length === 0 && (
+                    <Text fontSize="sm" color="gray.500">
+                      No watchlists yet. Create one here or star a property from its page.
+                    </Text>
+                  )}
+                  {watchlists.map(watchlist => (
+                    <Button
+                      key={watchlist.id}
+                      variant={watchlist.id === selectedId ? 'solid' : 'ghost'}
+                      colorScheme={watchlist.id === selectedId ? 'blue' : 'gray'}
+                      justifyContent="space-between"
+                      size="sm"
+                      onClick={() => update({ id: watchlist.id })}
+                    >
+                      <Text noOfLines={1}>{watchlist.name}</Text>
+                      <Badge ml={2}>{watchlist.locationCodes.length}</Badge>
+                    </Button>
+                  ))}
+                  <HStack pt={2}>
+                    <Input
+                      size="sm"
+                      placeholder="New watchlist"
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && createWatchlist()}
+                    />
+                    <Button size="sm" colorScheme="yellow" onClick={createWatchlist} isDisabled={!newName.trim()}>
+                      Create
+                    </Button>
+                  </HStack>
+                </VStack>
+              </CardBody>
+            </Card>
+
+            <Card shadow="sm" gridColumn={{ lg: 'span 3' }}>
+              {!selectedId ? (
+                <CardBody>
+                  <Text color="gray.500">Create a watchlist to start following properties.</Text>
+                </CardBody>
+              ) : !detail || loading ? (
+                <Center h="200px">
+                  <Spinner size="lg" color="blue.500" />
+                </Center>
+              ) : (
+                <>
+                  <CardHeader pb={0}>
+                    <Flex align="center" gap={3} wrap="wrap">
+                      <Heading size="md">{detail.watchlist.name}</Heading>
+                      <Badge>{detail.entries.length} properties</Badge>
+                      <HStack ml="auto" spacing={2}>
+                        <Text fontSize="sm" color="gray.600" whiteSpace="nowrap">Alert at</Text>
+                        <Input
+                          size="sm"
+                          w="160px"
+                          value={thresholdsText}
+                          onChange={(e) => setThresholdsText(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && saveThresholds()}
+                        />
+                        <Text fontSize="sm" color="gray.600">days</Text>
+                        <Button size="sm" onClick={saveThresholds}>Save</Button>
+                        <IconButton
+                          aria-label="Delete watchlist"
+                          icon={<FiTrash2 />}
+                          size="sm"
+                          variant="ghost"
+                          colorScheme="red"
+                          onClick={deleteWatchlist}
+                        />
+                      </HStack>
+                    </Flex>
+                  </CardHeader>
+                  <CardBody>
+                    {detail.entries.length === 0 ? (
+                      <Text color="gray.500">
+                        Nothing watched yet. Use the star on a property page or in{' '}
+                        <Link as={NextLink} href="/all-properties" color="blue.500">All Properties</Link>
+                        {' '}to add one.
+                      </Text>
+                    ) : (
+                      <TableContainer>
+                        <Table size="sm">
+                          <Thead>
+                            <Tr>
+                              <Th>Property</Th>
+                              <Th>Location</Th>
+                              <Th>Primary Lease</Th>
+                              <Th>Status</Th>
+                              <Th>Expires</Th>
+                              <Th>Days Left</Th>
+                              <Th></Th>
+                            </Tr>
+                          </Thead>
+                          <Tbody>
+                            {detail.entries.map(entry => (
+                              <Tr key={entry.locationCode}>
+                                <Td>
+                                  <Link
+                                    as={NextLink}
+                                    href={getPropertyUrl(entry.locationCode)}
+                                    color="blue.600"
+                                    fontWeight="medium"
+                                  >
+                                    {entry.realPropertyAssetName || entry.locationCode}
+                                  </Link>
+                                  <Text fontSize="xs" color="gray.500">{entry.locationCode}</Text>
+                                </Td>
+                                <Td>{[entry.city, entry.state].filter(Boolean).join(', ') || '—'}</Td>
+                                <Td>
+                                  {entry.primaryLease?.leaseNumber || (
+                                    <Text as="span" color="gray.400">
+                                      {entry.ownedOrLeased === null ? 'Not in inventory' : entry.ownedOrLeased === 'F' ? 'Owned' : 'No lease'}
+                                    </Text>
+                                  )}
+                                </Td>
+                                <Td>
+                                  {entry.primaryLease && (
+                                    <Badge colorScheme={entry.primaryLease.leaseStatus === 'active' ? 'green' : 'gray'}>
+                                      {entry.primaryLease.leaseStatus}
+                                    </Badge>
+                                  )}
+                                </Td>
+                                <Td>{entry.primaryLease ? formatDate(entry.primaryLease.leaseExpirationDate) : '—'}</Td>
+                                <Td><DaysBadge entry={entry} thresholds={thresholds} /></Td>
+                                <Td>
+                                  <IconButton
+                                    aria-label={`Remove ${entry.locationCode}`}
+                                    icon={<FiX />}
+                                    size="xs"
+                                    variant="ghost"
+                                    onClick={() => unwatch(entry.locationCode)}
+                                  />
+                                </Td>
+                              </Tr>
+                            ))}
+                          </Tbody>
+                        </Table>
+                      </TableContainer>
+                    )}
+                  </CardBody>
+                </>
+              )}
+            </Card>
+          </SimpleGrid>
+        </VStack>
+      </Container>
+    </MainLayout>
+  );
+}
+
+// useSearchParams needs a Suspense boundary so the page can still be prerendered
+export default function WatchlistsPage() {
+  return (
+    <Suspense fallback={<MainLayout title="Watchlists"><Center h="400px"><Spinner size="lg" /></Center></MainLayout>}>
+      <WatchlistsContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,39 @@
+import { DATA_SOURCE } from '@/lib/config/data-source';
+import { AuthProvider, TAuthProviderName } from './types';
+
+export type { AuthProvider, TAuthProviderName, TSessionUser, TUserRole } from './types';
+
+function parseAuthProviderName(value: string | undefined): TAuthProviderName {
+  const name = value?.trim().toLowerCase();
+  if (name === 'supabase' || name === 'local') return name;
+  if (name) console.warn(`Unknown AUTH_PROVIDER "${value}", using the default for ${DATA_SOURCE}`);
+
+  // Supabase deployments sign in with Supabase Auth; the offline data sources use local accounts
+  return DATA_SOURCE === 'supabase' ? 'supabase' : 'local';
+}
+
+// Set AUTH_PROVIDER to supabase or local to override the default for the data source
+export const AUTH_PROVIDER: TAuthProviderName = parseAuthProviderName(process.env.AUTH_PROVIDER);
+
+let providerPromise: Promise<AuthProvider> | null = null;
+
+async function createAuthProvider(): Promise<AuthProvider> {
+  if (AUTH_PROVIDER === 'supabase') {
+    const { createSupabaseAuthProvider } = await import('./supabase-auth-provider');
+    return createSupabaseAuthProvider();
+  }
+
+  const { createLocalAuthProvider } = await import('./local-auth-provider');
+  return createLocalAuthProvider();
+}
+
+// Get the provider for the configured AUTH_PROVIDER (server-side only)
+export function getAuthProvider(): Promise<AuthProvider> {
+  if (!providerPromise) {
+    providerPromise = createAuthProvider().catch(error => {
+      providerPromise = null; // Allow the next request to retry
+      throw error;
+    });
+  }
+  return providerPromise;
+}
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { AuthProvider, TUserRole } from './types';
+
+interface TLocalUser {
+  id: string;
+  email: string;
+  name: string;
+  role: TUserRole;
+  passwordHash: string; // "scrypt$<salt>$<hash>", both hex
+  createdAt: string;
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+
+// Next to the offline user data; set LOCAL_USERS_PATH to move it
+const USERS_PATH = process.env.LOCAL_USERS_PATH || path.join(process.cwd(), '.data', 'users.json');
+
+function readUsers(): TLocalUser[] {
+  if (!fs.existsSync(USERS_PATH)) return [];
+  return JSON.parse(fs.readFileSync(USERS_PATH, 'utf-8')).users || [];
+}
+
+function writeUsers(users: TLocalUser[]) {
+  fs.mkdirSync(path.dirname(USERS_PATH), { recursive: true });
+  const temporaryPath = `${USERS_PATH}.tmp`;
+  fs.writeFileSync(temporaryPath, JSON.stringify({ users }, null, 2));
+  fs.renameSync(temporaryPath, USERS_PATH);
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, salt, expected] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !expected) return false;
+
+  const hash = await scryptAsync(password, Buffer.from(salt, 'hex'), KEY_LENGTH);
+  const expectedHash = Buffer.from(expected, 'hex');
+  return hash.length === expectedHash.length && timingSafeEqual(hash, expectedHash);
+}
+
+// Add a user or change an existing one's role, and password when one is given.
+// Used by scripts/set-user-role.ts; the app itself never writes users.
+export async function saveLocalUser(
+  email: string,
+  role: TUserRole,
+  password?: string,
+  name?: string
+): Promise<{ email: string; role: TUserRole; created: boolean }> {
+  const users = readUsers();
+  const key = email.trim().toLowerCase();
+  const existing = users.find(user => user.email === key);
+
+  if (existing) {
+    existing.role = role;
+    if (name) existing.name = name;
+    if (password) existing.passwordHash = await hashPassword(password);
+  } else {
+    if (!password) throw new Error(`${key} does not exist yet; give a password to create it`);
+    users.push({
+      id: randomUUID(),
+      email: key,
+      name: name || key,
+      role,
+      passwordHash: await hashPassword(password),
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  writeUsers(users);
+  return { email: key, role, created: !existing };
+}
+
+// Users and scrypt password hashes in a JSON file, for offline use without Supabase Auth
+export function createLocalAuthProvider(): AuthProvider {
+  return {
+    name: 'local',
+
+    async signIn(email, password) {
+      const user = readUsers().find(candidate => candidate.email === email.trim().toLowerCase());
+      if (!user || !(await verifyPassword(password, user.passwordHash))) return null;
+
+      return { id: user.id, email: user.email, name: user.name, role: user.role, provider: 'local' };
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { TUserRole } from './types';
+
+// Least to most access; every role can do everything the roles before it can
+export const USER_ROLES: TUserRole[] = ['viewer', 'analyst', 'data-admin'];
+
+export const ROLE_LABELS: Record<TUserRole, string> = {
+  viewer: 'Viewer',
+  analyst: 'Analyst',
+  'data-admin': 'Data admin',
+};
+
+// Reachable without signing in
+const PUBLIC_PATHS = ['/sign-in', '/api/auth/session'];
+
+// Pages and API routes that need more than the viewer role, by path prefix and, for rules that
+// only cover changes, request method. Viewers browse the inventory, properties, districts and
+// their own watchlists.
+const ACCESS_RULES: { prefix: string; role: TUserRole; methods?: string[] }[] = [
+  { prefix: '/lease-forecast', role: 'analyst' },
+  { prefix: '/api/leases/forecast', role: 'analyst' },
+  { prefix: '/snapshots', role: 'analyst' },
+  { prefix: '/api/snapshots', role: 'analyst' },
+  { prefix: '/data-quality', role: 'analyst' },
+  { prefix: '/api/data-quality', role: 'analyst' },
+  { prefix: '/utilization', role: 'analyst' },
+  { prefix: '/co-location', role: 'analyst' },
+  { prefix: '/api/analytics', role: 'analyst' },
+  { prefix: '/admin', role: 'data-admin' },
+  { prefix: '/api/admin', role: 'data-admin' },
+  // Analysts annotate properties; correcting the inventory itself is up to data admins
+  { prefix: '/api/buildings', role: 'data-admin', methods: ['PATCH'] },
+  { prefix: '/api/buildings', role: 'analyst', methods: ['POST', 'PUT', 'DELETE'] },
+];
+
+const matchesPrefix = (pathname: string, prefix: string) =>
+  pathname === prefix || pathname.startsWith(`${prefix}/`);
+
+export function parseUserRole(value: unknown): TUserRole | null {
+  return USER_ROLES.includes(value as TUserRole) ? (value as TUserRole) : null;
+}
+
+export function hasRole(role: TUserRole | null | undefined, required: TUserRole): boolean {
+  return Boolean(role) && USER_ROLES.indexOf(role as TUserRole) >= USER_ROLES.indexOf(required);
+}
+
+export function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some(prefix => matchesPrefix(pathname, prefix));
+}
+
+// Least role that may open a page or call an API route with the given method
+export function requiredRole(pathname: string, method: string = 'GET'): TUserRole {
+  const rule = ACCESS_RULES.find(({ prefix, methods }) =>
+    matchesPrefix(pathname, prefix) && (!methods || methods.includes(method))
+  );
+  return rule ? rule.role : 'viewer';
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseUserRole } from './roles';
+import { TSessionUser } from './types';
+
+// Runs in the middleware too, so only Web Crypto is used here, never Node's crypto module
+
+export const SESSION_COOKIE = 'pv_session';
+const SESSION_MAX_AGE = 60 * 60 * 12; // Twelve hours, in seconds
+
+// Only for `next dev`; production refuses to start signing sessions without AUTH_SECRET
+const DEVELOPMENT_SECRET = 'property-viewer-development-secret';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let keyPromise: Promise<CryptoKey> | null = null;
+
+function getSigningKey(): Promise<CryptoKey> {
+  if (!keyPromise) {
+    const secret = process.env.AUTH_SECRET;
+    if (!secret && process.env.NODE_ENV === 'production') {
+      throw new Error('AUTH_SECRET must be set to sign session cookies');
+    }
+    keyPromise = crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret || DEVELOPMENT_SECRET),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+  }
+  return keyPromise;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+// "<payload>.<signature>", both base64url; the payload is the user plus an expiry in epoch seconds
+async function createSessionToken(user: TSessionUser): Promise<string> {
+  const payload = encoder.encode(JSON.stringify({ ...user, exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE }));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), payload);
+  return `${toBase64Url(payload)}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// The user in a token, or null when it is malformed, tampered with or expired
+async function readSessionToken(token: string): Promise<TSessionUser | null> {
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return null;
+
+  try {
+    const payload = fromBase64Url(encodedPayload);
+    const isValid = await crypto.subtle.verify('HMAC', await getSigningKey(), fromBase64Url(encodedSignature), payload);
+    if (!isValid) return null;
+
+    const { exp, id, email, name, role, provider } = JSON.parse(decoder.decode(payload));
+    const userRole = parseUserRole(role);
+    if (typeof exp !== 'number' || exp * 1000 < Date.now() || typeof id !== 'string' || !userRole) return null;
+
+    return { id, email, name, role: userRole, provider };
+  } catch {
+    return null;
+  }
+}
+
+// The signed-in user of a request, or null
+export async function getSession(request: NextRequest): Promise<TSessionUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? readSessionToken(token) : null;
+}
+
+// Sign `user` in on the browser that receives this response
+export async function setSessionCookie(response: NextResponse, user: TSessionUser): Promise<NextResponse> {
+  response.cookies.set(SESSION_COOKIE, await createSessionToken(user), {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  });
+  return response;
+}
+
+export function clearSessionCookie(response: NextResponse): NextResponse {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, sameSite: 'lax', path: '/', maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,41 @@
+import { createClient } from '@supabase/supabase-js';
+import { parseUserRole } from './roles';
+import { AuthProvider } from './types';
+
+// Supabase Auth users. The role is read from app_metadata.role, which only the service role
+// can change (see scripts/set-user-role.ts); users without one are viewers.
+export function createSupabaseAuthProvider(): AuthProvider {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase Auth needs NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY');
+  }
+
+  // The app keeps its own session cookie, so this client never stores or refreshes tokens
+  const client = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  return {
+    name: 'supabase',
+
+    async signIn(email, password) {
+      const { data, error } = await client.auth.signInWithPassword({ email: email.trim(), password });
+      if (error) {
+        // 400 is Supabase's answer to wrong credentials; anything else is an outage or misconfiguration
+        if (error.status === 400) return null;
+        console.error('Error signing in with Supabase:', error);
+        throw error;
+      }
+
+      const { user } = data;
+      return {
+        id: user.id,
+        email: user.email || email,
+        name: user.user_metadata?.full_name || user.user_metadata?.name || user.email || email,
+        role: parseUserRole(user.app_metadata?.role) || 'viewer',
+        provider: 'supabase',
+      };
+    },
+  };
+}
@@ -0,0 +1,22 @@
+// Least to most access; see requiredRole() for what each role can open
+export type TUserRole = 'viewer' | 'analyst' | 'data-admin';
+
+// Where users and their passwords are kept
+export type TAuthProviderName = 'supabase' | 'local';
+
+// The signed-in user, as carried in the session cookie
+export interface TSessionUser {
+  id: string;
+  email: string;
+  name: string;
+  role: TUserRole;
+  provider: TAuthProviderName;
+}
+
+// Checks credentials against one user directory; see getAuthProvider() for selection
+export interface AuthProvider {
+  readonly name: TAuthProviderName;
+
+  // The user with this email and password, or null when either is wrong
+  signIn(email: string, password: string): Promise<TSessionUser | null>;
+}
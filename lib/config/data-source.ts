@@ -1,5 +1,29 @@
-// Data source configuration - change this single line to switch between Firebase and CSV
-export const DATA_SOURCE: 'firebase' | 'csv' = 'csv';
- 
-// You can also use environment variables for this
-// export const DATA_SOURCE = (process.env.NEXT_PUBLIC_DATA_SOURCE as 'firebase' | 'csv') || 'csv'; 
\ No newline at end of file
+// Backends that can serve building and lease data
+export type TDataSourceName = 'csv' | 'local' | 'supabase' | 'firestore';
+
+const DATA_SOURCE_NAMES: TDataSourceName[] = ['csv', 'local', 'supabase', 'firestore'];
+
+const DEFAULT_DATA_SOURCE: TDataSourceName = 'supabase';
+
+export const DATA_SOURCE_DESCRIPTIONS: Record<TDataSourceName, string> = {
+  csv: 'Reading data from local CSV files',
+  local: 'Reading data from the embedded local database',
+  supabase: 'Reading data from Supabase',
+  firestore: 'Reading data from Firebase Firestore',
+};
+
+function parseDataSourceName(value: string | undefined): TDataSourceName {
+  const name = value?.trim().toLowerCase();
+  if (!name) return DEFAULT_DATA_SOURCE;
+
+  if (!DATA_SOURCE_NAMES.includes(name as TDataSourceName)) {
+    console.warn(`Unknown NEXT_PUBLIC_DATA_SOURCE "${value}", falling back to ${DEFAULT_DATA_SOURCE}`);
+    return DEFAULT_DATA_SOURCE;
+  }
+
+  return name as TDataSourceName;
+}
+
+// Data source configuration - set NEXT_PUBLIC_DATA_SOURCE to csv, local, supabase or firestore.
+// The API routes use it to pick a provider and the pages use it to describe where data comes from.
+export const DATA_SOURCE: TDataSourceName = parseDataSourceName(process.env.NEXT_PUBLIC_DATA_SOURCE);
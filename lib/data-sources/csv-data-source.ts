@@ -0,0 +1,120 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parse } from 'csv-parse/sync';
+import { TBuilding, TLeaseRecord } from '@/types/property';
+import { PropertyDataSource } from './types';
+import { createInMemoryDataSource, getLeaseStatus } from './in-memory-query';
+import { parseDateString } from '@/lib/utils/dates';
+
+const BUILDINGS_CSV = join(process.cwd(), 'app', 'db', '2025-6-6-iolp-buildings.csv');
+const LEASES_CSV = join(process.cwd(), 'app', 'db', '2025-6-6-iolp-leased-properties.csv');
+
+// Parsed files are cached for the lifetime of the server process
+let buildingsCache: TBuilding[] | null = null;
+let leasesCache: TLeaseRecord[] | null = null;
+
+function readCSV(csvPath: string): Record<string, string>[] {
+  const csvContent = readFileSync(csvPath, 'utf-8');
+  return parse(csvContent, {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+  });
+}
+
+function cleanString(value: string | undefined): string {
+  if (!value) return '';
+  return value.replace(/[\x00-\x1F\x7F]/g, '').trim();
+}
+
+function cleanNumber(value: string | undefined): number {
+  if (!value) return 0;
+  const num = Number(value.replace(/,/g, ''));
+  return isNaN(num) || !isFinite(num) ? 0 : num;
+}
+
+// Normalize a CSV date to YYYY-MM-DD, or '' when it cannot be parsed
+function cleanDate(value: string | undefined): string {
+  return (value && parseDateString(value)) || '';
+}
+
+// The two files disagree on the capitalisation of this header
+function readAssetType(row: Record<string, string>): string {
+  return cleanString(row['Real Property Asset Type'] || row['Real Property Asset type']);
+}
+
+function transformBuildingRow(row: Record<string, string>): TBuilding {
+  return {
+    locationCode: cleanString(row['Location Code']),
+    realPropertyAssetName: cleanString(row['Real Property Asset Name']),
+    installationName: cleanString(row['Installation Name']),
+    ownedOrLeased: row['Owned or Leased'] === 'L' ? 'L' : 'F',
+    gsaRegion: cleanNumber(row['GSA Region']),
+    streetAddress: cleanString(row['Street Address']),
+    city: cleanString(row['City']),
+    state: cleanString(row['State']),
+    zipCode: cleanNumber(row['Zip Code']),
+    latitude: cleanNumber(row['Latitude']),
+    longitude: cleanNumber(row['Longitude']),
+    buildingRentableSquareFeet: cleanNumber(row['Building Rentable Square Feet']),
+    availableSquareFeet: cleanNumber(row['Available Square Feet']),
+    constructionDate: cleanNumber(row['Construction Date']) || undefined,
+    congressionalDistrict: cleanNumber(row['Congressional District']),
+    congressionalDistrictRepresentativeName: cleanString(row['Congressional District Representative Name']),
+    buildingStatus: cleanString(row['Building Status']),
+    realPropertyAssetType: readAssetType(row),
+  };
+}
+
+function transformLeaseRow(row: Record<string, string>): TLeaseRecord {
+  const leaseEffectiveDate = cleanDate(row['Lease Effective Date']);
+  const leaseExpirationDate = cleanDate(row['Lease Expiration Date']);
+
+  return {
+    locationCode: cleanString(row['Location Code']),
+    realPropertyAssetName: cleanString(row['Real Property Asset Name']),
+    installationName: cleanString(row['Installation Name']),
+    federalLeasedCode: cleanString(row['Federal Leased Code']),
+    gsaRegion: cleanNumber(row['GSA Region']),
+    streetAddress: cleanString(row['Street Address']),
+    city: cleanString(row['City']),
+    state: cleanString(row['State']),
+    zipCode: cleanNumber(row['Zip Code']),
+    latitude: cleanNumber(row['Latitude']),
+    longitude: cleanNumber(row['Longitude']),
+    buildingRentableSquareFeet: cleanNumber(row['Building Rentable Square Feet']),
+    availableSquareFeet: cleanNumber(row['Available Square Feet']),
+    congressionalDistrict: cleanNumber(row['Congressional District']),
+    congressionalDistrictRepresentative: cleanString(row['Congressional District Representative']),
+    leaseNumber: cleanString(row['Lease Number']),
+    leaseEffectiveDate,
+    leaseExpirationDate,
+    realPropertyAssetType: readAssetType(row),
+    leaseStatus: getLeaseStatus(leaseEffectiveDate, leaseExpirationDate),
+  };
+}
+
+async function loadBuildings(): Promise<TBuilding[]> {
+  if (!buildingsCache) {
+    buildingsCache = readCSV(BUILDINGS_CSV)
+      .map(transformBuildingRow)
+      .filter(building => building.locationCode);
+    console.log(`📊 Loaded ${buildingsCache.length} buildings from CSV`);
+  }
+  return buildingsCache;
+}
+
+async function loadLeases(): Promise<TLeaseRecord[]> {
+  if (!leasesCache) {
+    leasesCache = readCSV(LEASES_CSV)
+      .map(transformLeaseRow)
+      .filter(lease => lease.locationCode);
+    console.log(`📊 Loaded ${leasesCache.length} leases from CSV`);
+  }
+  return leasesCache;
+}
+
+// Serves the IOLP CSV exports in app/db without any database
+export function createCsvDataSource(): PropertyDataSource {
+  return createInMemoryDataSource('csv', loadBuildings, loadLeases);
+}
@@ -0,0 +1,43 @@
+import { listIolpReleases, readBuildingRows, readLeaseRows } from '@/lib/db/iolp-csv';
+import { convertToLeaseData, convertToTBuilding } from '@/lib/db/schema-rows';
+import { TSnapshot } from '@/types/property';
+import { TSnapshotData } from './types';
+
+// Parsed releases are cached for the lifetime of the server process
+const snapshotCache = new Map<string, TSnapshotData>();
+
+// Read one release pair from app/db, or null when no export carries that date
+function loadSnapshot(id: string): TSnapshotData | null {
+  const cached = snapshotCache.get(id);
+  if (cached) return cached;
+
+  const release = listIolpReleases().find(candidate => candidate.id === id);
+  if (!release) return null;
+
+  const buildings = readBuildingRows(release.buildingsPath)
+    .map(convertToTBuilding)
+    .filter(building => building.locationCode);
+  const leases = readLeaseRows(release.leasesPath)
+    .map(convertToLeaseData)
+    .filter(lease => lease.locationCode);
+
+  const data: TSnapshotData = {
+    snapshot: { id, buildingCount: buildings.length, leaseCount: leases.length },
+    buildings,
+    leases,
+  };
+  snapshotCache.set(id, data);
+  return data;
+}
+
+// Every release exported to app/db, oldest first. Counts require parsing each release once.
+export async function listFileSnapshots(): Promise<TSnapshot[]> {
+  return listIolpReleases()
+    .map(release => loadSnapshot(release.id))
+    .filter((data): data is TSnapshotData => data !== null)
+    .map(data => data.snapshot);
+}
+
+export async function getFileSnapshot(id: string): Promise<TSnapshotData | null> {
+  return loadSnapshot(id);
+}
@@ -0,0 +1,97 @@
+import { getAllBuildings, getAllLeasedProperties } from '@/lib/services/property-service';
+import { TBuilding, TLeaseRecord } from '@/types/property';
+import { PropertyDataSource } from './types';
+import { createInMemoryDataSource, getLeaseStatus } from './in-memory-query';
+
+// Collections are read once and cached for the lifetime of the server process
+let buildingsPromise: Promise<TBuilding[]> | null = null;
+let leasesPromise: Promise<TLeaseRecord[]> | null = null;
+
+// Firestore may hold dates as strings, Dates or Timestamps depending on how they were imported
+function toDateString(value: unknown): string {
+  if (!value) return '';
+  const date = typeof (value as any).toDate === 'function'
+    ? (value as any).toDate()
+    : new Date(value as string | Date);
+  return isNaN(date.getTime()) ? '' : date.toISOString().split('T')[0];
+}
+
+// Copy only the TBuilding fields so Firestore document ids don't leak into API responses
+function toBuilding(doc: TBuilding): TBuilding {
+  return {
+    locationCode: doc.locationCode || '',
+    realPropertyAssetName: doc.realPropertyAssetName || '',
+    installationName: doc.installationName || '',
+    ownedOrLeased: doc.ownedOrLeased === 'L' ? 'L' : 'F',
+    gsaRegion: Number(doc.gsaRegion) || 0,
+    streetAddress: doc.streetAddress || '',
+    city: doc.city || '',
+    state: doc.state || '',
+    zipCode: Number(doc.zipCode) || 0,
+    latitude: Number(doc.latitude) || 0,
+    longitude: Number(doc.longitude) || 0,
+    buildingRentableSquareFeet: Number(doc.buildingRentableSquareFeet) || 0,
+    availableSquareFeet: Number(doc.availableSquareFeet) || 0,
+    constructionDate: Number(doc.constructionDate) || undefined,
+    congressionalDistrict: Number(doc.congressionalDistrict) || 0,
+    congressionalDistrictRepresentativeName: doc.congressionalDistrictRepresentativeName || '',
+    buildingStatus: doc.buildingStatus || '',
+    realPropertyAssetType: doc.realPropertyAssetType || '',
+  };
+}
+
+function loadBuildings(): Promise<TBuilding[]> {
+  if (!buildingsPromise) {
+    buildingsPromise = getAllBuildings()
+      .then(docs => docs.map(toBuilding).filter(building => building.locationCode))
+      .catch(error => {
+        buildingsPromise = null; // Allow the next request to retry
+        throw error;
+      });
+  }
+  return buildingsPromise;
+}
+
+function loadLeases(): Promise<TLeaseRecord[]> {
+  if (!leasesPromise) {
+    leasesPromise = getAllLeasedProperties()
+      .then(docs => docs
+        .map(doc => {
+          const leaseEffectiveDate = toDateString(doc.leaseEffectiveDate);
+          const leaseExpirationDate = toDateString(doc.leaseExpirationDate);
+          return {
+            locationCode: doc.locationCode || '',
+            realPropertyAssetName: doc.realPropertyAssetName || '',
+            installationName: doc.installationName || '',
+            federalLeasedCode: doc.federalLeasedCode || '',
+            gsaRegion: Number(doc.gsaRegion) || 0,
+            streetAddress: doc.streetAddress || '',
+            city: doc.city || '',
+            state: doc.state || '',
+            zipCode: Number(doc.zipCode) || 0,
+            latitude: Number(doc.latitude) || 0,
+            longitude: Number(doc.longitude) || 0,
+            buildingRentableSquareFeet: Number(doc.buildingRentableSquareFeet) || 0,
+            availableSquareFeet: Number(doc.availableSquareFeet) || 0,
+            congressionalDistrict: Number(doc.congressionalDistrict) || 0,
+            congressionalDistrictRepresentative: doc.congressionalDistrictRepresentative || '',
+            leaseNumber: doc.leaseNumber || '',
+            leaseEffectiveDate,
+            leaseExpirationDate,
+            realPropertyAssetType: doc.realPropertyAssetType || '',
+            leaseStatus: getLeaseStatus(leaseEffectiveDate, leaseExpirationDate),
+          };
+        })
+        .filter(lease => lease.locationCode))
+      .catch(error => {
+        leasesPromise = null;
+        throw error;
+      });
+  }
+  return leasesPromise;
+}
+
+// Serves the legacy Firestore `buildings` and `leasedProperties` collections
+export function createFirestoreDataSource(): PropertyDataSource {
+  return createInMemoryDataSource('firestore', loadBuildings, loadLeases);
+}
@@ -0,0 +1,292 @@
+import {
+  TBuilding,
+  TBuildingFilterValues,
+  TFieldChange,
+  TFieldValue,
+  TBuildingQuery,
+  TBuildingStats,
+  TLeaseQuery,
+  TLeaseRecord,
+  TLeaseStats,
+} from '@/types/property';
+import { PropertyDataSource, TBuildingResult, TLeaseResult } from './types';
+import { findBuildingsInArea } from './spatial-index';
+import { searchInMemory } from './search-index';
+import { calculateLeaseStatus } from '@/lib/db/schema-rows';
+import { getExpiringWindow } from '@/lib/utils/dates';
+import { getFileSnapshot, listFileSnapshots } from './file-snapshots';
+
+// Loaders return the full inventory and are expected to cache it themselves
+type TLoader<T> = () => Promise<T[]>;
+
+// Lease status from its dates, as the database-backed sources derive it
+export const getLeaseStatus: (effectiveDate: string, expirationDate: string) => TLeaseRecord['leaseStatus'] =
+  calculateLeaseStatus;
+
+function matchesSearch(term: string, values: (string | undefined)[]): boolean {
+  const needle = term.toLowerCase();
+  return values.some(value => value?.toLowerCase().includes(needle));
+}
+
+// Ascending/descending comparison with empty values always last, like the Supabase queries
+function compareValues(a: unknown, b: unknown, sortOrder: 'asc' | 'desc' = 'asc'): number {
+  const aEmpty = a === undefined || a === null || a === '';
+  const bEmpty = b === undefined || b === null || b === '';
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+
+  const result = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b));
+  return sortOrder === 'desc' ? -result : result;
+}
+
+function paginate<T>(rows: T[], page: number = 1, limit?: number): T[] {
+  if (!limit) return rows;
+  const from = (page - 1) * limit;
+  return rows.slice(from, from + limit);
+}
+
+// Apply GET /api/buildings filters, sorting and paging to an in-memory list
+export function queryBuildingsInMemory(buildings: TBuilding[], options: TBuildingQuery = {}): TBuildingResult {
+  const decade = options.constructionDecade && options.constructionDecade !== 'unknown'
+    ? parseInt(options.constructionDecade)
+    : NaN;
+
+  // Viewport and radius filters are answered from an R-tree before the field filters run
+  const candidates = findBuildingsInArea(buildings, options) ?? buildings;
+
+  const filtered = candidates.filter(building => {
+    if (options.type === 'owned' && building.ownedOrLeased !== 'F') return false;
+    if (options.type === 'leased' && building.ownedOrLeased !== 'L') return false;
+    if (options.search && !matchesSearch(options.search, [
+      building.realPropertyAssetName,
+      building.streetAddress,
+      building.city,
+      building.state,
+      building.installationName,
+    ])) return false;
+    if (options.city && building.city !== options.city) return false;
+    if (options.state && building.state !== options.state) return false;
+    if (options.zipCode && String(building.zipCode) !== options.zipCode) return false;
+    if (options.gsaRegion !== undefined && building.gsaRegion !== options.gsaRegion) return false;
+    if (options.assetType && building.realPropertyAssetType !== options.assetType) return false;
+    if (options.status && building.buildingStatus !== options.status) return false;
+
+    if (options.constructionDecade === 'unknown') {
+      if (building.constructionDate) return false;
+    } else if (!isNaN(decade)) {
+      const year = building.constructionDate || 0;
+      if (year < decade || year >= decade + 10) return false;
+    }
+
+    return true;
+  });
+
+  const sortBy = options.sortBy || 'locationCode';
+  filtered.sort((a, b) => compareValues(a[sortBy], b[sortBy], options.sortOrder));
+
+  return {
+    buildings: paginate(filtered, options.page, options.limit),
+    total: filtered.length,
+  };
+}
+
+// Apply GET /api/leases?format=raw filters, sorting and paging to an in-memory list
+export function queryLeasesInMemory(leases: TLeaseRecord[], options: TLeaseQuery = {}): TLeaseResult {
+  const filtered = leases.filter(lease => {
+    if (options.search && !matchesSearch(options.search, [
+      lease.realPropertyAssetName,
+      lease.city,
+      lease.state,
+      lease.locationCode,
+      lease.leaseNumber,
+    ])) return false;
+    if (options.city && lease.city !== options.city) return false;
+    if (options.state && lease.state !== options.state) return false;
+    if (options.status && lease.leaseStatus !== options.status) return false;
+    if (options.expiresBy && !(lease.leaseExpirationDate && lease.leaseExpirationDate <= options.expiresBy)) return false;
+    return true;
+  });
+
+  const sortBy = options.sortBy || 'locationCode';
+  filtered.sort((a, b) => compareValues(a[sortBy], b[sortBy], options.sortOrder));
+
+  return {
+    leases: paginate(filtered, options.page, options.limit),
+    total: filtered.length,
+  };
+}
+
+// Distinct values for the building filter dropdowns
+export function getFilterValuesInMemory(buildings: TBuilding[]): TBuildingFilterValues {
+  const distinct = <T>(values: (T | null | undefined)[]): T[] =>
+    Array.from(new Set(values.filter((value): value is T => value !== null && value !== undefined && value !== '')));
+
+  const decades = buildings
+    .filter(building => building.constructionDate && building.constructionDate > 0)
+    .map(building => (Math.floor(building.constructionDate! / 10) * 10).toString());
+
+  return {
+    cities: distinct(buildings.map(building => building.city)).sort(),
+    states: distinct(buildings.map(building => building.state)).sort(),
+    zipCodes: distinct(buildings.map(building => building.zipCode)).filter(zip => zip !== 0).map(String).sort(),
+    constructionDecades: distinct(decades).sort(),
+    gsaRegions: distinct(buildings.map(building => building.gsaRegion)).filter(region => region !== 0).sort((a, b) => a - b),
+    assetTypes: distinct(buildings.map(building => building.realPropertyAssetType)).sort(),
+    statuses: distinct(buildings.map(building => building.buildingStatus)).sort(),
+  };
+}
+
+export function getBuildingStatsInMemory(buildings: TBuilding[]): TBuildingStats {
+  const totalBuildings = buildings.length;
+  const totalLeased = buildings.filter(building => building.ownedOrLeased === 'L').length;
+  const totalOwned = totalBuildings - totalLeased;
+
+  return {
+    totalBuildings,
+    totalOwned,
+    totalLeased,
+    ownedPercentage: totalBuildings > 0 ? Math.round((totalOwned / totalBuildings) * 100) : 0,
+    leasedPercentage: totalBuildings > 0 ? Math.round((totalLeased / totalBuildings) * 100) : 0,
+  };
+}
+
+// Same counting rules as the Supabase lease statistics: only leases with both dates are classified,
+// and active ones expiring within the next 12 months, the dashboards' window, are expiring soon
+export function getLeaseStatsInMemory(leases: TLeaseRecord[]): TLeaseStats {
+  const expiringBy = getExpiringWindow(new Date(), 12).to;
+  let activeLeases = 0;
+  let expiredLeases = 0;
+  let upcomingLeases = 0;
+  let expiringSoon = 0;
+
+  leases.forEach(lease => {
+    if (!lease.leaseEffectiveDate || !lease.leaseExpirationDate) return;
+
+    if (lease.leaseStatus === 'upcoming') {
+      upcomingLeases++;
+    } else if (lease.leaseStatus === 'expired') {
+      expiredLeases++;
+    } else {
+      activeLeases++;
+      if (lease.leaseExpirationDate <= expiringBy) {
+        expiringSoon++;
+      }
+    }
+  });
+
+  return {
+    totalLeases: leases.length,
+    activeLeases,
+    expiredLeases,
+    upcomingLeases,
+    expiringSoon,
+    leaseDataCoverage: 100,
+  };
+}
+
+// Write a corrected value into a loaded row, in the shape the loaders give empty values
+function setFieldValue(row: Record<string, unknown>, field: string, value: TFieldValue) {
+  if (value !== null) {
+    row[field] = value;
+  } else if (field === 'constructionDate') {
+    row[field] = undefined;
+  } else {
+    row[field] = typeof row[field] === 'number' ? 0 : '';
+  }
+}
+
+// Build a data source for backends that load the whole inventory into memory
+export function createInMemoryDataSource(
+  name: PropertyDataSource['name'],
+  loadInventoryBuildings: TLoader<TBuilding>,
+  loadInventoryLeases: TLoader<TLeaseRecord>
+): PropertyDataSource {
+  // Corrections edit the cached rows in place. The search and spatial indexes are keyed by array,
+  // so edited rows are served from a copy of the loader's array, which gets them rebuilt.
+  const edited = new WeakMap<object[], object[]>();
+  const withEdits = <T extends object>(load: TLoader<T>) => async (): Promise<T[]> => {
+    const rows = await load();
+    return (edited.get(rows) as T[] | undefined) || rows;
+  };
+  const loadBuildings = withEdits(loadInventoryBuildings);
+  const loadLeases = withEdits(loadInventoryLeases);
+
+  // Cached leases outlive the day their status was computed on, so refresh it on every read
+  const loadLeasesWithStatus = async (): Promise<TLeaseRecord[]> => {
+    const leases = await loadLeases();
+    leases.forEach(lease => {
+      lease.leaseStatus = getLeaseStatus(lease.leaseEffectiveDate, lease.leaseExpirationDate);
+    });
+    return leases;
+  };
+
+  return {
+    name,
+
+    async listBuildings(query) {
+      return queryBuildingsInMemory(await loadBuildings(), query);
+    },
+
+    async getBuilding(locationCode) {
+      const buildings = await loadBuildings();
+      return buildings.find(building => building.locationCode === locationCode) || null;
+    },
+
+    async listLeases(query) {
+      return queryLeasesInMemory(await loadLeasesWithStatus(), query);
+    },
+
+    async getLeasesForBuilding(locationCode) {
+      const leases = await loadLeasesWithStatus();
+      return leases
+        .filter(lease => lease.locationCode === locationCode)
+        .sort((a, b) => compareValues(a.leaseEffectiveDate, b.leaseEffectiveDate));
+    },
+
+    async getBuildingStats() {
+      return getBuildingStatsInMemory(await loadBuildings());
+    },
+
+    async getLeaseStats() {
+      return getLeaseStatsInMemory(await loadLeasesWithStatus());
+    },
+
+    async getFilterValues() {
+      return getFilterValuesInMemory(await loadBuildings());
+    },
+
+    async search(query) {
+      return searchInMemory(await loadBuildings(), await loadLeasesWithStatus(), query);
+    },
+
+    // Nothing is written back to the files or collections; the saved overrides are applied again on every start
+    async applyOverrides(changes: TFieldChange[]) {
+      const buildings = await loadInventoryBuildings();
+      const leases = await loadInventoryLeases();
+
+      const previous = changes.map(change => {
+        const matches: object[] = change.leaseNumber === null
+          ? buildings.filter(building => building.locationCode === change.locationCode)
+          : leases.filter(lease => lease.locationCode === change.locationCode && lease.leaseNumber === change.leaseNumber);
+        const rows = matches as Record<string, unknown>[];
+        const value = rows.length > 0 ? (rows[0][change.field] as TFieldValue | undefined) ?? null : null;
+        rows.forEach(row => setFieldValue(row, change.field, change.value));
+        return value;
+      });
+
+      edited.set(buildings, [...buildings]);
+      edited.set(leases, [...leases]);
+      return previous;
+    },
+
+    // The CSV exports and Firestore collections are only ever replaced wholesale, so there is no change history
+    async listAuditEntries() {
+      return { entries: [], total: 0 };
+    },
+
+    // Past releases are only kept as the dated exports in app/db
+    listSnapshots: listFileSnapshots,
+    getSnapshot: getFileSnapshot,
+  };
+}
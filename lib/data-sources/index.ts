@@ -0,0 +1,49 @@
+import { DATA_SOURCE } from '@/lib/config/data-source';
+import { PropertyDataSource } from './types';
+
+export type { PropertyDataSource, TBuildingResult, TLeaseResult, TSnapshotData } from './types';
+
+let dataSourcePromise: Promise<PropertyDataSource> | null = null;
+
+// Providers are imported lazily so only the configured backend's client is loaded
+async function createDataSource(): Promise<PropertyDataSource> {
+  switch (DATA_SOURCE) {
+    case 'csv': {
+      const { createCsvDataSource } = await import('./csv-data-source');
+      return createCsvDataSource();
+    }
+    case 'local': {
+      const { createLocalDataSource } = await import('./local-data-source');
+      return createLocalDataSource();
+    }
+    case 'firestore': {
+      const { createFirestoreDataSource } = await import('./firestore-data-source');
+      return createFirestoreDataSource();
+    }
+    default: {
+      const { createSupabaseDataSource } = await import('./supabase-data-source');
+      return createSupabaseDataSource();
+    }
+  }
+}
+
+// Every source except Supabase is rebuilt from files on start, without the corrections made in the app
+async function createDataSourceWithOverrides(): Promise<PropertyDataSource> {
+  const dataSource = await createDataSource();
+  if (DATA_SOURCE !== 'supabase') {
+    const { reapplyOverrides } = await import('@/lib/services/property-edit-service');
+    await reapplyOverrides(dataSource);
+  }
+  return dataSource;
+}
+
+// Get the data source selected by NEXT_PUBLIC_DATA_SOURCE (server-side only)
+export function getDataSource(): Promise<PropertyDataSource> {
+  if (!dataSourcePromise) {
+    dataSourcePromise = createDataSourceWithOverrides().catch(error => {
+      dataSourcePromise = null; // Allow the next request to retry
+      throw error;
+    });
+  }
+  return dataSourcePromise;
+}
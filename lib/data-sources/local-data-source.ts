@@ -0,0 +1,33 @@
+import {
+  applyOverrides,
+  getBuildingByLocationCode,
+  getBuildingFilterValues,
+  getBuildingStatistics,
+  getLeaseStatistics,
+  getLeasesByLocationCode,
+  listAuditEntries,
+  queryBuildings,
+  queryLeaseData,
+  searchProperties,
+} from '@/lib/services/local-data-service';
+import { PropertyDataSource } from './types';
+import { getFileSnapshot, listFileSnapshots } from './file-snapshots';
+
+// Serves the IOLP CSV exports from an embedded Postgres built with supabase/schema.sql
+export function createLocalDataSource(): PropertyDataSource {
+  return {
+    name: 'local',
+    listBuildings: queryBuildings,
+    getBuilding: getBuildingByLocationCode,
+    listLeases: queryLeaseData,
+    getLeasesForBuilding: getLeasesByLocationCode,
+    getBuildingStats: getBuildingStatistics,
+    getLeaseStats: getLeaseStatistics,
+    getFilterValues: getBuildingFilterValues,
+    search: searchProperties,
+    applyOverrides,
+    listAuditEntries,
+    listSnapshots: listFileSnapshots,
+    getSnapshot: getFileSnapshot,
+  };
+}
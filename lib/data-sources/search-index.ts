@@ -0,0 +1,230 @@
+import { TBuilding, TLeaseRecord, TSearchQuery, TSearchResult } from '@/types/property';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  SEARCH_ABBREVIATIONS,
+  normalizeSearchWords,
+  splitSearchWords,
+} from '@/lib/utils/search';
+
+type TSearchDocument = Omit<TSearchResult, 'score'>;
+
+interface TPosting {
+  document: number;
+  weight: number;
+}
+
+interface TSearchIndex {
+  documents: TSearchDocument[];
+  postings: Map<string, TPosting[]>;
+  // Every indexed word, scanned for prefix and typo matches
+  words: string[];
+  // Location codes and lease numbers, for ranking an exact code match first
+  codes: Map<string, number[]>;
+}
+
+// Field weights: a hit in a code or the asset name counts for more than one in the address
+const CODE_WEIGHT = 3;
+const NAME_WEIGHT = 2;
+const PLACE_WEIGHT = 1.5;
+const OTHER_WEIGHT = 1;
+
+// How much of a field's weight a query word earns for each kind of match
+const PREFIX_MATCH = 0.8;
+const ONE_TYPO_MATCH = 0.6;
+const TWO_TYPO_MATCH = 0.4;
+
+// Added to documents whose location code or lease number is exactly the query
+const EXACT_CODE_BONUS = 10;
+
+// Words shorter than this must match exactly or as a prefix
+const MIN_FUZZY_LENGTH = 4;
+// Words at least this long may have two typos
+const TWO_TYPO_LENGTH = 8;
+
+// Loaders cache their arrays, so the index is rebuilt only when the inventory is reloaded
+const indexes = new WeakMap<TBuilding[], { leases: TLeaseRecord[]; index: TSearchIndex }>();
+
+function buildIndex(buildings: TBuilding[], leases: TLeaseRecord[]): TSearchIndex {
+  const documents: TSearchDocument[] = [];
+  const postings = new Map<string, TPosting[]>();
+  const codes = new Map<string, number[]>();
+
+  const addWords = (document: number, words: string[], weight: number) => {
+    words.forEach(word => {
+      const list = postings.get(word);
+      if (!list) {
+        postings.set(word, [{ document, weight }]);
+        return;
+      }
+      // A word repeated across fields keeps its best weight
+      const last = list[list.length - 1];
+      if (last.document === document) {
+        last.weight = Math.max(last.weight, weight);
+      } else {
+        list.push({ document, weight });
+      }
+    });
+  };
+
+  const addCode = (document: number, code: string) => {
+    const key = splitSearchWords(code).join('');
+    if (!key) return;
+    codes.set(key, [...(codes.get(key) || []), document]);
+    addWords(document, splitSearchWords(code), CODE_WEIGHT);
+  };
+
+  buildings.forEach(building => {
+    const document = documents.length;
+    documents.push({
+      kind: 'building',
+      locationCode: building.locationCode,
+      leaseNumber: null,
+      realPropertyAssetName: building.realPropertyAssetName,
+      installationName: building.installationName,
+      streetAddress: building.streetAddress,
+      city: building.city,
+      state: building.state,
+      ownedOrLeased: building.ownedOrLeased,
+    });
+
+    addCode(document, building.locationCode);
+    addWords(document, normalizeSearchWords(building.realPropertyAssetName), NAME_WEIGHT);
+    addWords(document, normalizeSearchWords(building.streetAddress), PLACE_WEIGHT);
+    addWords(document, normalizeSearchWords(building.city), PLACE_WEIGHT);
+    // "NA" marks buildings outside an installation in the IOLP exports
+    if (building.installationName !== 'NA') {
+      addWords(document, normalizeSearchWords(building.installationName), OTHER_WEIGHT);
+    }
+    addWords(document, splitSearchWords(building.state), OTHER_WEIGHT);
+  });
+
+  // Leases are found by their number; their building is already indexed by name and address
+  leases.forEach(lease => {
+    if (!lease.leaseNumber) return;
+    const document = documents.length;
+    documents.push({
+      kind: 'lease',
+      locationCode: lease.locationCode,
+      leaseNumber: lease.leaseNumber,
+      realPropertyAssetName: lease.realPropertyAssetName,
+      installationName: lease.installationName,
+      streetAddress: lease.streetAddress,
+      city: lease.city,
+      state: lease.state,
+      ownedOrLeased: 'L',
+    });
+    addCode(document, lease.leaseNumber);
+  });
+
+  return { documents, postings, words: Array.from(postings.keys()), codes };
+}
+
+function getIndex(buildings: TBuilding[], leases: TLeaseRecord[]): TSearchIndex {
+  const cached = indexes.get(buildings);
+  if (cached && cached.leases === leases) return cached.index;
+
+  const index = buildIndex(buildings, leases);
+  indexes.set(buildings, { leases, index });
+  return index;
+}
+
+// Levenshtein distance between two words, or Infinity once it exceeds `max`
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return Infinity;
+    previous = current;
+  }
+  return previous[b.length] <= max ? previous[b.length] : Infinity;
+}
+
+// Indexed words a query word can stand for, with the share of the field weight each earns
+function matchWord(index: TSearchIndex, word: string): Map<string, number> {
+  const matches = new Map<string, number>();
+  if (index.postings.has(word)) matches.set(word, 1);
+
+  const fuzzy = word.length >= MIN_FUZZY_LENGTH && !/^\d+$/.test(word);
+  const maxTypos = word.length >= TWO_TYPO_LENGTH ? 2 : 1;
+
+  index.words.forEach(candidate => {
+    if (candidate === word) return;
+    if (candidate.startsWith(word)) {
+      matches.set(candidate, PREFIX_MATCH);
+    } else if (fuzzy) {
+      const distance = editDistance(word, candidate, maxTypos);
+      if (distance === 1) matches.set(candidate, ONE_TYPO_MATCH);
+      else if (distance === 2) matches.set(candidate, TWO_TYPO_MATCH);
+    }
+  });
+  return matches;
+}
+
+// Query words, each with the spellings that may match it: "Ave" is looked up as AVENUE or AVE.
+// Multi-word expansions like FB become one required word per expanded word.
+function toQueryTerms(query: string): string[][] {
+  return splitSearchWords(query).flatMap(word => {
+    const expanded = SEARCH_ABBREVIATIONS[word];
+    if (!expanded) return [[word]];
+    const parts = expanded.split(' ');
+    return parts.length === 1 ? [[parts[0], word]] : parts.map(part => [part]);
+  });
+}
+
+// Best score per document for one query term
+function scoreTerm(index: TSearchIndex, spellings: string[]): Map<number, number> {
+  const scores = new Map<number, number>();
+  spellings.forEach(spelling => {
+    matchWord(index, spelling).forEach((quality, word) => {
+      index.postings.get(word)?.forEach(({ document, weight }) => {
+        const score = quality * weight;
+        if (score > (scores.get(document) || 0)) scores.set(document, score);
+      });
+    });
+  });
+  return scores;
+}
+
+// Buildings and leases matching every word of the query, ranked by where and how closely each word matched
+export function searchInMemory(
+  buildings: TBuilding[],
+  leases: TLeaseRecord[],
+  query: TSearchQuery
+): TSearchResult[] {
+  const terms = toQueryTerms(query.q);
+  if (terms.length === 0) return [];
+
+  const index = getIndex(buildings, leases);
+
+  let totals = scoreTerm(index, terms[0]);
+  for (const term of terms.slice(1)) {
+    if (totals.size === 0) break;
+    const scores = scoreTerm(index, term);
+    const matched = new Map<number, number>();
+    totals.forEach((total, document) => {
+      const score = scores.get(document);
+      if (score !== undefined) matched.set(document, total + score);
+    });
+    totals = matched;
+  }
+
+  index.codes.get(splitSearchWords(query.q).join(''))?.forEach(document => {
+    totals.set(document, (totals.get(document) || 0) + EXACT_CODE_BONUS);
+  });
+
+  return Array.from(totals, ([document, score]) => ({ ...index.documents[document], score: Math.round(score * 1000) / 1000 }))
+    .sort((a, b) =>
+      b.score - a.score ||
+      (a.kind === b.kind ? 0 : a.kind === 'building' ? -1 : 1) ||
+      a.locationCode.localeCompare(b.locationCode)
+    )
+    .slice(0, query.limit || DEFAULT_SEARCH_LIMIT);
+}
@@ -0,0 +1,83 @@
+import RBush from 'rbush';
+import { TBoundingBox, TBuilding, TBuildingQuery, TGeoPoint } from '@/types/property';
+import { KM_PER_MILE, calculateDistance } from '@/lib/utils/google-maps';
+
+interface TIndexedBuilding {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  building: TBuilding;
+}
+
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+// Loaders cache their building arrays, so each array is indexed once
+const indexes = new WeakMap<TBuilding[], RBush<TIndexedBuilding>>();
+
+function getIndex(buildings: TBuilding[]): RBush<TIndexedBuilding> {
+  let index = indexes.get(buildings);
+  if (!index) {
+    index = new RBush<TIndexedBuilding>();
+    // Buildings without coordinates (0,0 in the IOLP exports) can't match a map area
+    index.load(buildings
+      .filter(building => building.latitude && building.longitude)
+      .map(building => ({
+        minX: building.longitude,
+        minY: building.latitude,
+        maxX: building.longitude,
+        maxY: building.latitude,
+        building,
+      })));
+    indexes.set(buildings, index);
+  }
+  return index;
+}
+
+function searchBox(index: RBush<TIndexedBuilding>, bbox: TBoundingBox): TBuilding[] {
+  const boxes = bbox.minLng <= bbox.maxLng
+    ? [{ minX: bbox.minLng, maxX: bbox.maxLng }]
+    // A box crossing the antimeridian is searched as its two halves
+    : [{ minX: bbox.minLng, maxX: 180 }, { minX: -180, maxX: bbox.maxLng }];
+
+  return boxes.flatMap(box =>
+    index.search({ ...box, minY: bbox.minLat, maxY: bbox.maxLat }).map(item => item.building)
+  );
+}
+
+// Smallest bounding box containing the circle, used to narrow candidates before measuring distances
+function boxAroundPoint(center: TGeoPoint, radiusKm: number): TBoundingBox {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const minLat = Math.max(center.lat - latDelta, -90);
+  const maxLat = Math.min(center.lat + latDelta, 90);
+
+  const cosLat = Math.cos((Math.max(Math.abs(minLat), Math.abs(maxLat)) * Math.PI) / 180);
+  const lngDelta = cosLat > 0 ? latDelta / cosLat : 180;
+  if (lngDelta >= 180) {
+    return { minLng: -180, minLat, maxLng: 180, maxLat };
+  }
+
+  const wrap = (lng: number) => (lng < -180 ? lng + 360 : lng > 180 ? lng - 360 : lng);
+  return { minLng: wrap(center.lng - lngDelta), minLat, maxLng: wrap(center.lng + lngDelta), maxLat };
+}
+
+// Buildings within the query's bounding box and/or radius, or null when the query has no spatial filter
+export function findBuildingsInArea(buildings: TBuilding[], options: TBuildingQuery): TBuilding[] | null {
+  if (!options.bbox && !options.near) return null;
+
+  const index = getIndex(buildings);
+  let matches = options.bbox ? searchBox(index, options.bbox) : null;
+
+  if (options.near) {
+    const center = options.near;
+    const radiusKm = (options.radiusMiles || 0) * KM_PER_MILE;
+    const inRadius = (building: TBuilding) =>
+      calculateDistance(center.lat, center.lng, building.latitude, building.longitude) <= radiusKm;
+
+    matches = matches
+      ? matches.filter(inRadius)
+      : searchBox(index, boxAroundPoint(center, radiusKm)).filter(inRadius);
+  }
+
+  return matches;
+}
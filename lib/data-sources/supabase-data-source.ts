@@ -0,0 +1,34 @@
+import {
+  applyOverrides,
+  getBuildingByLocationCode,
+  getBuildingFilterValues,
+  getBuildingStatistics,
+  getLeaseStatistics,
+  getLeasesByLocationCode,
+  listAuditEntries,
+  getSnapshot,
+  listSnapshots,
+  queryBuildings,
+  queryLeaseData,
+  searchProperties,
+} from '@/lib/services/supabase-data-service';
+import { PropertyDataSource } from './types';
+
+// Serves the `buildings` and `leased_properties` tables; filtering and paging run in Postgres
+export function createSupabaseDataSource(): PropertyDataSource {
+  return {
+    name: 'supabase',
+    listBuildings: queryBuildings,
+    getBuilding: getBuildingByLocationCode,
+    listLeases: queryLeaseData,
+    getLeasesForBuilding: getLeasesByLocationCode,
+    getBuildingStats: getBuildingStatistics,
+    getLeaseStats: getLeaseStatistics,
+    getFilterValues: getBuildingFilterValues,
+    search: searchProperties,
+    applyOverrides,
+    listAuditEntries,
+    listSnapshots,
+    getSnapshot,
+  };
+}
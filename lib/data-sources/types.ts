@@ -0,0 +1,82 @@
+import { TDataSourceName } from '@/lib/config/data-source';
+import {
+  TAuditEntry,
+  TAuditQuery,
+  TBuilding,
+  TBuildingFilterValues,
+  TBuildingQuery,
+  TBuildingStats,
+  TFieldChange,
+  TFieldValue,
+  TLeaseQuery,
+  TLeaseRecord,
+  TLeaseStats,
+  TSearchQuery,
+  TSearchResult,
+  TSnapshot,
+} from '@/types/property';
+
+export interface TBuildingResult {
+  buildings: TBuilding[];
+  total: number;
+}
+
+export interface TLeaseResult {
+  leases: TLeaseRecord[];
+  total: number;
+}
+
+export interface TAuditResult {
+  entries: TAuditEntry[];
+  total: number;
+}
+
+// Every building and lease of one dated IOLP release
+export interface TSnapshotData {
+  snapshot: TSnapshot;
+  buildings: TBuilding[];
+  leases: TLeaseRecord[];
+}
+
+// Read access to the building and lease inventory, implemented once per backend.
+// The API routes only talk to this interface; see getDataSource() for selection.
+export interface PropertyDataSource {
+  readonly name: TDataSourceName;
+
+  // Filtered, sorted page of buildings. Without a limit every match is returned.
+  listBuildings(query?: TBuildingQuery): Promise<TBuildingResult>;
+
+  // Single building by location code, or null when it does not exist
+  getBuilding(locationCode: string): Promise<TBuilding | null>;
+
+  // Filtered, sorted page of lease records. Without a limit every match is returned.
+  listLeases(query?: TLeaseQuery): Promise<TLeaseResult>;
+
+  // Every lease recorded for a location, oldest first
+  getLeasesForBuilding(locationCode: string): Promise<TLeaseRecord[]>;
+
+  getBuildingStats(): Promise<TBuildingStats>;
+
+  getLeaseStats(): Promise<TLeaseStats>;
+
+  // Distinct values for the building filter dropdowns
+  getFilterValues(): Promise<TBuildingFilterValues>;
+
+  // Buildings and leases ranked by how well their names, addresses, codes and lease numbers match,
+  // tolerating typos and abbreviations. Empty when nothing matches.
+  search(query: TSearchQuery): Promise<TSearchResult[]>;
+
+  // Write corrected values over the imported ones and return the values they replaced, in order.
+  // With an actor the changes are audited as made in the app; without one they are saved
+  // overrides being applied again to a freshly loaded inventory.
+  applyOverrides(changes: TFieldChange[], actor?: string): Promise<TFieldValue[]>;
+
+  // Recorded changes to buildings and leases, newest first. Empty for sources without a change history.
+  listAuditEntries(query?: TAuditQuery): Promise<TAuditResult>;
+
+  // Imported IOLP releases, oldest first
+  listSnapshots(): Promise<TSnapshot[]>;
+
+  // Full contents of one release by id (YYYY-MM-DD), or null when it was never imported
+  getSnapshot(id: string): Promise<TSnapshotData | null>;
+}
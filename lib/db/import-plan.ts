@@ -0,0 +1,82 @@
+// Reconcile an IOLP export with the rows already in a table, so re-running an import only
+// writes what changed. Used by scripts/import-to-supabase.ts.
+
+// A table row as read back from the database
+export type TStoredRow<T> = T & { id: string };
+
+export interface TImportPlan<T> {
+  inserts: T[];
+  updates: TStoredRow<T>[]; // File values with the id of the row they replace
+  unchanged: number;
+  stale: TStoredRow<T>[]; // Stored rows missing from the file
+  skipped: number; // File rows without a key
+}
+
+// DECIMAL columns come back rounded to their scale, so coordinates are compared with a tolerance
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) < 1e-6;
+  return (a ?? null) === (b ?? null);
+}
+
+function sameRow<T extends object>(row: T, stored: TStoredRow<T>): boolean {
+  return Object.keys(row).every(column =>
+    sameValue((row as Record<string, unknown>)[column], (stored as Record<string, unknown>)[column])
+  );
+}
+
+function groupByKey<R>(rows: R[], keyOf: (row: R) => string | null): Map<string, R[]> {
+  const groups = new Map<string, R[]>();
+  rows.forEach(row => {
+    const key = keyOf(row);
+    if (!key) return;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  });
+  return groups;
+}
+
+// Match file rows to stored rows by key. A key may repeat (a lease listed once per structure):
+// identical rows are paired first, the remaining ones in file order.
+export function planImport<T extends object>(
+  incoming: T[],
+  existing: TStoredRow<T>[],
+  keyOf: (row: T) => string | null
+): TImportPlan<T> {
+  const plan: TImportPlan<T> = { inserts: [], updates: [], unchanged: 0, stale: [], skipped: 0 };
+  const storedByKey = groupByKey(existing, keyOf);
+  const seenKeys = new Set<string>();
+
+  groupByKey(incoming, keyOf).forEach((rows, key) => {
+    seenKeys.add(key);
+    const stored = [...(storedByKey.get(key) || [])];
+    const changed: T[] = [];
+
+    rows.forEach(row => {
+      const match = stored.findIndex(candidate => sameRow(row, candidate));
+      if (match >= 0) {
+        stored.splice(match, 1);
+        plan.unchanged += 1;
+      } else {
+        changed.push(row);
+      }
+    });
+
+    changed.forEach((row, i) => {
+      if (i < stored.length) {
+        plan.updates.push({ ...row, id: stored[i].id });
+      } else {
+        plan.inserts.push(row);
+      }
+    });
+    plan.stale.push(...stored.slice(changed.length));
+  });
+
+  storedByKey.forEach((rows, key) => {
+    if (!seenKeys.has(key)) plan.stale.push(...rows);
+  });
+  // Stored rows without a key can never be matched to the file
+  plan.stale.push(...existing.filter(row => !keyOf(row)));
+  plan.skipped = incoming.filter(row => !keyOf(row)).length;
+
+  return plan;
+}
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import { parse } from 'csv-parse/sync';
+import { TBuildingInsert, TLeaseInsert } from './schema-rows';
+import { parseDateString } from '@/lib/utils/dates';
+
+// IOLP exports shipped with the app, one buildings/leased properties pair per release
+export const IOLP_DATA_DIR = path.join(process.cwd(), 'app/db');
+export const BUILDINGS_CSV_PATH = path.join(IOLP_DATA_DIR, '2025-6-6-iolp-buildings.csv');
+export const LEASES_CSV_PATH = path.join(IOLP_DATA_DIR, '2025-6-6-iolp-leased-properties.csv');
+
+// Exports are named after their release date, e.g. 2025-6-6-iolp-buildings.csv
+const RELEASE_FILE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})-iolp-(buildings|leased-properties)\.csv$/;
+
+export interface TIolpRelease {
+  id: string; // Release date, YYYY-MM-DD
+  buildingsPath: string;
+  leasesPath: string;
+}
+
+// Snapshot id (YYYY-MM-DD) of an export file, or null when its name carries no release date
+export function getReleaseId(csvPath: string): string | null {
+  const match = path.basename(csvPath).match(RELEASE_FILE_PATTERN);
+  if (!match) return null;
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+}
+
+// Releases with both exports present in the data directory, oldest first
+export function listIolpReleases(dataDir: string = IOLP_DATA_DIR): TIolpRelease[] {
+  const files = fs.readdirSync(dataDir);
+  const releases: TIolpRelease[] = [];
+
+  files.forEach(file => {
+    if (!file.endsWith('-iolp-buildings.csv')) return;
+    const id = getReleaseId(file);
+    const leasesFile = file.replace(/-iolp-buildings\.csv$/, '-iolp-leased-properties.csv');
+    if (!id || !files.includes(leasesFile)) return;
+
+    releases.push({
+      id,
+      buildingsPath: path.join(dataDir, file),
+      leasesPath: path.join(dataDir, leasesFile),
+    });
+  });
+
+  return releases.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+// Helper function to parse numbers safely
+function parseNumber(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = parseFloat(String(value).replace(/,/g, ''));
+  return isNaN(num) ? null : num;
+}
+
+// Helper function to parse integers safely
+function parseIntSafe(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number.parseInt(String(value).replace(/,/g, ''), 10);
+  return isNaN(num) ? null : num;
+}
+
+// Helper function to parse dates safely
+function parseDate(dateStr: string): string | null {
+  return dateStr ? parseDateString(dateStr) : null;
+}
+
+// The buildings and leases exports capitalise this header differently
+function readAssetType(row: any): string | null {
+  return row['Real Property Asset Type'] || row['Real Property Asset type'] || null;
+}
+
+// Transform buildings CSV row to database format
+export function transformBuildingRow(row: any): TBuildingInsert {
+  return {
+    location_code: row['Location Code'] || '',
+    real_property_asset_name: row['Real Property Asset Name'] || null,
+    installation_name: row['Installation Name'] || null,
+    owned_or_leased: row['Owned or Leased'] === 'L' ? 'L' : 'F',
+    gsa_region: parseIntSafe(row['GSA Region']),
+    street_address: row['Street Address'] || null,
+    city: row['City'] || null,
+    state: row['State'] || null,
+    zip_code: parseIntSafe(row['Zip Code']),
+    latitude: parseNumber(row['Latitude']),
+    longitude: parseNumber(row['Longitude']),
+    building_rentable_square_feet: parseIntSafe(row['Building Rentable Square Feet']),
+    available_square_feet: parseIntSafe(row['Available Square Feet']),
+    construction_date: parseIntSafe(row['Construction Date']),
+    congressional_district: parseIntSafe(row['Congressional District']),
+    congressional_district_representative_name: row['Congressional District Representative Name'] || null,
+    building_status: row['Building Status'] || null,
+    real_property_asset_type: readAssetType(row),
+  };
+}
+
+// Transform leased properties CSV row to database format
+export function transformLeaseRow(row: any): TLeaseInsert {
+  return {
+    location_code: row['Location Code'] || '',
+    real_property_asset_name: row['Real Property Asset Name'] || null,
+    installation_name: row['Installation Name'] || null,
+    federal_leased_code: row['Federal Leased Code'] || null,
+    gsa_region: parseIntSafe(row['GSA Region']),
+    street_address: row['Street Address'] || null,
+    city: row['City'] || null,
+    state: row['State'] || null,
+    zip_code: parseIntSafe(row['Zip Code']),
+    latitude: parseNumber(row['Latitude']),
+    longitude: parseNumber(row['Longitude']),
+    building_rentable_square_feet: parseIntSafe(row['Building Rentable Square Feet']),
+    available_square_feet: parseIntSafe(row['Available Square Feet']),
+    congressional_district: parseIntSafe(row['Congressional District']),
+    congressional_district_representative: row['Congressional District Representative'] || null,
+    lease_number: row['Lease Number'] || null,
+    lease_effective_date: parseDate(row['Lease Effective Date']),
+    lease_expiration_date: parseDate(row['Lease Expiration Date']),
+    real_property_asset_type: readAssetType(row),
+  };
+}
+
+// Read a CSV export into header-keyed records
+export function readCSVRecords(csvPath: string): any[] {
+  const csvContent = fs.readFileSync(csvPath, 'utf-8');
+  return parse(csvContent, {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true
+  });
+}
+
+// Buildings export as `buildings` table rows
+export function readBuildingRows(csvPath: string = BUILDINGS_CSV_PATH): TBuildingInsert[] {
+  return readCSVRecords(csvPath).map(transformBuildingRow);
+}
+
+// Leased properties export as `leased_properties` table rows
+export function readLeaseRows(csvPath: string = LEASES_CSV_PATH): TLeaseInsert[] {
+  return readCSVRecords(csvPath).map(transformLeaseRow);
+}
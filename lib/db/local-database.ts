@@ -0,0 +1,75 @@
+import fs from 'fs';
+import path from 'path';
+import { PGlite, Transaction, types } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import { cube } from '@electric-sql/pglite/contrib/cube';
+import { earthdistance } from '@electric-sql/pglite/contrib/earthdistance';
+import { pg_trgm } from '@electric-sql/pglite/contrib/pg_trgm';
+import { readBuildingRows, readLeaseRows } from './iolp-csv';
+
+// Same schema the hosted Supabase project is created from
+const SCHEMA_PATH = path.join(process.cwd(), 'supabase', 'schema.sql');
+
+// Rows per INSERT statement, well under Postgres' 65535 bind parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+// The database lives in memory and is built once per server process
+let dbPromise: Promise<PGlite> | null = null;
+
+// Insert rows in multi-row batches. All rows must share the keys of the first one.
+async function insertRows(tx: Transaction, table: string, rows: Record<string, unknown>[]): Promise<void> {
+  if (rows.length === 0) return;
+  const columns = Object.keys(rows[0]);
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + INSERT_BATCH_SIZE);
+    const params: unknown[] = [];
+    const values = batch.map(row => {
+      const placeholders = columns.map(column => {
+        params.push(row[column]);
+        return `$${params.length}`;
+      });
+      return `(${placeholders.join(', ')})`;
+    });
+
+    await tx.query(`INSERT INTO ${table} (${columns.join(', ')}) VALUES ${values.join(', ')}`, params);
+  }
+}
+
+async function createLocalDatabase(): Promise<PGlite> {
+  const db = await PGlite.create({
+    extensions: { uuid_ossp, cube, earthdistance, pg_trgm },
+    // Match the supabase-js row shapes: numbers for DECIMAL columns, YYYY-MM-DD strings for dates
+    parsers: {
+      [types.NUMERIC]: (value: string) => parseFloat(value),
+      [types.DATE]: (value: string) => value,
+    },
+  });
+
+  await db.exec(fs.readFileSync(SCHEMA_PATH, 'utf-8'));
+
+  const buildings = readBuildingRows().filter(row => row.location_code);
+  const leases = readLeaseRows().filter(row => row.location_code);
+
+  // Buildings first, leases reference them by location code. The database is rebuilt from the
+  // CSV on every start, so triggers are skipped and the load does not fill the audit log.
+  await db.transaction(async tx => {
+    await tx.exec('SET LOCAL session_replication_role = replica');
+    await insertRows(tx, 'buildings', buildings);
+    await insertRows(tx, 'leased_properties', leases);
+  });
+
+  console.log(`📊 Loaded ${buildings.length} buildings and ${leases.length} leases into the local database`);
+  return db;
+}
+
+// Get the embedded Postgres database, loading the IOLP CSV exports on first use
+export function getLocalDatabase(): Promise<PGlite> {
+  if (!dbPromise) {
+    dbPromise = createLocalDatabase().catch(error => {
+      dbPromise = null; // Allow the next request to retry
+      throw error;
+    });
+  }
+  return dbPromise;
+}
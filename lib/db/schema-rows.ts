@@ -0,0 +1,166 @@
+import { Database } from '@/lib/types/supabase';
+import { TAuditEntry, TBuilding, TFieldChange, TFieldValue, TLeaseRecord, TSearchResult } from '@/types/property';
+import { isEditableField } from '@/lib/utils/property-overrides';
+import { toDateString } from '@/lib/utils/dates';
+
+// Rows of the tables defined in supabase/schema.sql
+type Tables = Database['public']['Tables'];
+export type TBuildingRow = Tables['buildings']['Row'];
+export type TBuildingInsert = Tables['buildings']['Insert'];
+export type TLeaseRow = Tables['leased_properties']['Row'];
+export type TLeaseInsert = Tables['leased_properties']['Insert'];
+
+// Lease status from its YYYY-MM-DD dates. A lease is active from its effective date through its
+// expiration date, the same boundary the status filters and lease statistics use, counted in
+// local time like the expiring windows. Leases with a missing date are treated as active.
+export function calculateLeaseStatus(effectiveDate: string, expirationDate: string): 'active' | 'expired' | 'upcoming' {
+  if (!effectiveDate || !expirationDate) {
+    return 'active';
+  }
+
+  const today = toDateString(new Date());
+  if (effectiveDate > today) {
+    return 'upcoming';
+  } else if (expirationDate < today) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+// Convert a `buildings` row to TBuilding format
+export function convertToTBuilding(row: any): TBuilding {
+  return {
+    locationCode: row.location_code || '',
+    realPropertyAssetName: row.real_property_asset_name || '',
+    installationName: row.installation_name || '',
+    ownedOrLeased: row.owned_or_leased || 'F',
+    gsaRegion: row.gsa_region || 0,
+    streetAddress: row.street_address || '',
+    city: row.city || '',
+    state: row.state || '',
+    zipCode: row.zip_code || 0,
+    latitude: row.latitude || 0,
+    longitude: row.longitude || 0,
+    buildingRentableSquareFeet: row.building_rentable_square_feet || 0,
+    availableSquareFeet: row.available_square_feet || 0,
+    constructionDate: row.construction_date || undefined,
+    congressionalDistrict: row.congressional_district || 0,
+    congressionalDistrictRepresentativeName: row.congressional_district_representative_name || '',
+    buildingStatus: row.building_status || '',
+    realPropertyAssetType: row.real_property_asset_type || '',
+  };
+}
+
+// Convert a `leased_properties` row to lease record format
+export function convertToLeaseData(row: any): TLeaseRecord {
+  const effectiveDate = row.lease_effective_date || '';
+  const expirationDate = row.lease_expiration_date || '';
+
+  return {
+    locationCode: row.location_code || '',
+    realPropertyAssetName: row.real_property_asset_name || '',
+    installationName: row.installation_name || '',
+    federalLeasedCode: row.federal_leased_code || '',
+    gsaRegion: row.gsa_region || 0,
+    streetAddress: row.street_address || '',
+    city: row.city || '',
+    state: row.state || '',
+    zipCode: row.zip_code || 0,
+    latitude: row.latitude || 0,
+    longitude: row.longitude || 0,
+    buildingRentableSquareFeet: row.building_rentable_square_feet || 0,
+    availableSquareFeet: row.available_square_feet || 0,
+    congressionalDistrict: row.congressional_district || 0,
+    congressionalDistrictRepresentative: row.congressional_district_representative || '',
+    leaseNumber: row.lease_number || '',
+    leaseEffectiveDate: effectiveDate,
+    leaseExpirationDate: expirationDate,
+    realPropertyAssetType: row.real_property_asset_type || '',
+    leaseStatus: calculateLeaseStatus(effectiveDate, expirationDate),
+  };
+}
+
+// Convert a row of the search_properties() function to a search result
+export function convertToSearchResult(row: any): TSearchResult {
+  return {
+    kind: row.kind === 'lease' ? 'lease' : 'building',
+    locationCode: row.location_code || '',
+    leaseNumber: row.lease_number || null,
+    realPropertyAssetName: row.real_property_asset_name || '',
+    installationName: row.installation_name || '',
+    streetAddress: row.street_address || '',
+    city: row.city || '',
+    state: row.state || '',
+    ownedOrLeased: row.owned_or_leased === 'L' ? 'L' : 'F',
+    score: Math.round((row.score || 0) * 1000) / 1000,
+  };
+}
+
+// Timestamps arrive as ISO strings from Supabase and as Dates from the local database
+const toIsoString = (value: string | Date): string => new Date(value).toISOString();
+
+// Convert an `audit_log` row
+export function convertToAuditEntry(row: any): TAuditEntry {
+  return {
+    id: Number(row.id),
+    occurredAt: toIsoString(row.occurred_at),
+    tableName: row.table_name,
+    operation: row.operation,
+    locationCode: row.location_code || null,
+    leaseNumber: row.lease_number || null,
+    changedFields: row.changed_fields || [],
+    before: row.before || null,
+    after: row.after || null,
+    actor: row.actor || '',
+    source: row.source,
+  };
+}
+
+// Map camelCase sort fields to database columns
+export const BUILDING_COLUMNS: Partial<Record<keyof TBuilding, string>> = {
+  locationCode: 'location_code',
+  realPropertyAssetName: 'real_property_asset_name',
+  installationName: 'installation_name',
+  ownedOrLeased: 'owned_or_leased',
+  gsaRegion: 'gsa_region',
+  streetAddress: 'street_address',
+  city: 'city',
+  state: 'state',
+  zipCode: 'zip_code',
+  buildingRentableSquareFeet: 'building_rentable_square_feet',
+  availableSquareFeet: 'available_square_feet',
+  constructionDate: 'construction_date',
+  congressionalDistrict: 'congressional_district',
+  buildingStatus: 'building_status',
+  realPropertyAssetType: 'real_property_asset_type',
+};
+
+export const LEASE_COLUMNS: Partial<Record<keyof TLeaseRecord, string>> = {
+  locationCode: 'location_code',
+  realPropertyAssetName: 'real_property_asset_name',
+  city: 'city',
+  state: 'state',
+  zipCode: 'zip_code',
+  buildingRentableSquareFeet: 'building_rentable_square_feet',
+  availableSquareFeet: 'available_square_feet',
+  leaseNumber: 'lease_number',
+  leaseEffectiveDate: 'lease_effective_date',
+  leaseExpirationDate: 'lease_expiration_date',
+};
+
+// Table, column and stored value a correction is written to. Only editable fields are accepted,
+// because the column name ends up in SQL. Empty values are stored as NULL, like the import does.
+export function toOverrideColumn(change: TFieldChange): {
+  table: 'buildings' | 'leased_properties';
+  column: string;
+  value: TFieldValue;
+} {
+  if (!isEditableField(change.field, change.leaseNumber)) {
+    throw new Error(`${change.field} cannot be corrected`);
+  }
+  return {
+    table: change.leaseNumber === null ? 'buildings' : 'leased_properties',
+    column: change.field.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`),
+    value: change.value === '' ? null : change.value,
+  };
+}
@@ -10,15 +10,10 @@ const firebaseConfig = {
   appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
 };
 
-// Initialize Firebase only on client side
-let app: any = null;
-let db: any = null;
-
-if (typeof window !== 'undefined') {
-  // Only initialize on client side
-  app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0];
-  db = getFirestore(app);
-}
+// Initialize Firebase on both client and server; the Firestore data source
+// reads through this instance from the API routes
+const app = getApps().length === 0 ? initializeApp(firebaseConfig) : getApps()[0];
+const db = getFirestore(app);
 
 export { db };
 export default app; 
\ No newline at end of file
@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  COMPARE_TRAY_EVENT,
+  MAX_COMPARE,
+  TCompareItem,
+  addCompareItem,
+  clearCompareItems,
+  listCompareItems,
+  removeCompareItem,
+} from '@/lib/utils/compare-tray';
+
+// Buildings in the compare tray, updated when any component or another tab changes it
+export function useCompareTray() {
+  const [items, setItems] = useState<TCompareItem[]>([]);
+
+  // localStorage is only available after mounting
+  useEffect(() => {
+    const refresh = () => setItems(listCompareItems());
+    refresh();
+
+    window.addEventListener(COMPARE_TRAY_EVENT, refresh);
+    window.addEventListener('storage', refresh);
+    return () => {
+      window.removeEventListener(COMPARE_TRAY_EVENT, refresh);
+      window.removeEventListener('storage', refresh);
+    };
+  }, []);
+
+  return {
+    items,
+    isFull: items.length >= MAX_COMPARE,
+    has: (locationCode: string) => items.some(item => item.locationCode === locationCode),
+    add: addCompareItem,
+    remove: removeCompareItem,
+    clear: clearCompareItems,
+  };
+}
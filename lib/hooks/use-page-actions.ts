@@ -0,0 +1,50 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+// Something the current page can do, offered in the command palette
+export interface TPageAction {
+  id: string;
+  label: string;
+  run: () => void;
+}
+
+// Fired on window whenever a page registers or removes an action
+const PAGE_ACTIONS_EVENT = 'propertyViewer:pageActions';
+
+const actions = new Map<string, TPageAction>();
+
+function notify() {
+  window.dispatchEvent(new Event(PAGE_ACTIONS_EVENT));
+}
+
+// Offer `run` in the command palette while the calling page is mounted.
+// The latest `run` is always called, so it can close over current page state.
+export function usePageAction(id: string, label: string, run: () => void, enabled: boolean = true) {
+  const runRef = useRef(run);
+  runRef.current = run;
+
+  useEffect(() => {
+    if (!enabled) return;
+    actions.set(id, { id, label, run: () => runRef.current() });
+    notify();
+    return () => {
+      actions.delete(id);
+      notify();
+    };
+  }, [id, label, enabled]);
+}
+
+// Actions registered by the pages currently mounted
+export function usePageActions(): TPageAction[] {
+  const [current, setCurrent] = useState<TPageAction[]>([]);
+
+  useEffect(() => {
+    const refresh = () => setCurrent(Array.from(actions.values()));
+    refresh();
+    window.addEventListener(PAGE_ACTIONS_EVENT, refresh);
+    return () => window.removeEventListener(PAGE_ACTIONS_EVENT, refresh);
+  }, []);
+
+  return current;
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { TSessionUser } from '@/lib/auth/types';
+
+// One request serves every component on the page; signing in or out reloads the page
+let sessionPromise: Promise<TSessionUser | null> | null = null;
+
+function fetchSession(): Promise<TSessionUser | null> {
+  if (!sessionPromise) {
+    sessionPromise = fetch('/api/auth/session')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to fetch session');
+        return response.json();
+      })
+      .then(data => data.user as TSessionUser | null)
+      .catch(error => {
+        sessionPromise = null;
+        throw error;
+      });
+  }
+  return sessionPromise;
+}
+
+// The signed-in user; null until loaded and when signed out
+export function useSession(): TSessionUser | null {
+  const [user, setUser] = useState<TSessionUser | null>(null);
+
+  useEffect(() => {
+    fetchSession()
+      .then(setUser)
+      .catch(error => console.error('Error loading session:', error));
+  }, []);
+
+  return user;
+}
+
+export async function signOut() {
+  await fetch('/api/auth/session', { method: 'DELETE' });
+  sessionPromise = null;
+  window.location.assign('/sign-in');
+}
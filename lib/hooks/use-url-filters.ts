@@ -0,0 +1,81 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+// Filter, sort and paging values a page keeps in its query string
+export type TUrlFilterValues = Record<string, string | number>;
+
+// Read values from query parameters, keeping the default for missing or malformed ones.
+// Numbers are recognized by the type of their default.
+export function parseUrlFilters<T extends TUrlFilterValues>(searchParams: URLSearchParams, defaults: T): T {
+  const values: TUrlFilterValues = { ...defaults };
+
+  Object.entries(defaults).forEach(([key, fallback]) => {
+    const raw = searchParams.get(key);
+    if (raw === null || raw === '') return;
+
+    if (typeof fallback === 'number') {
+      const value = Number(raw);
+      if (isFinite(value)) values[key] = value;
+    } else {
+      values[key] = raw;
+    }
+  });
+
+  return values as T;
+}
+
+// Query string holding only the values that differ from their defaults, so a page without filters has a bare URL
+export function formatUrlFilters<T extends TUrlFilterValues>(values: T, defaults: T): string {
+  const params = new URLSearchParams();
+  Object.entries(values).forEach(([key, value]) => {
+    if (value !== defaults[key]) params.set(key, String(value));
+  });
+  return params.toString();
+}
+
+// Page state mirrored to the URL: restored on load, replaced (not pushed) on every change, and read
+// again when the URL changes under the page (Back/Forward, or a link to the page already open).
+// Pages using it must render inside a <Suspense> boundary because of useSearchParams.
+export function useUrlFilters<T extends TUrlFilterValues>(defaults: T) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const search = searchParams.toString();
+  const [values, setValues] = useState<T>(() => parseUrlFilters(new URLSearchParams(search), defaults));
+
+  const query = formatUrlFilters(values, defaults);
+  // Queries written below whose echo in searchParams has not arrived yet. An echo may be older than
+  // the values by the time it does (typing outruns the router), so echoes are not read back.
+  const pendingQueries = useRef<string[]>([]);
+
+  useEffect(() => {
+    const pending = pendingQueries.current.indexOf(search);
+    if (pending !== -1) {
+      pendingQueries.current = pendingQueries.current.slice(pending + 1);
+      return;
+    }
+    pendingQueries.current = [];
+    const next = parseUrlFilters(new URLSearchParams(search), defaults);
+    setValues(previous => (formatUrlFilters(previous, defaults) === formatUrlFilters(next, defaults) ? previous : next));
+  }, [search, defaults]);
+
+  useEffect(() => {
+    if (query === window.location.search.replace(/^\?/, '')) return;
+    pendingQueries.current.push(query);
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [query, pathname, router]);
+
+  // Merge changed values, e.g. update({ city, page: 1 })
+  const update = useCallback((changes: Partial<T>) => {
+    setValues(previous => ({ ...previous, ...changes }));
+  }, []);
+
+  // Replace every value from a saved query string
+  const applyQuery = useCallback((savedQuery: string) => {
+    setValues(parseUrlFilters(new URLSearchParams(savedQuery), defaults));
+  }, [defaults]);
+
+  return { values, update, applyQuery, query };
+}
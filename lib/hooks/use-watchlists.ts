@@ -0,0 +1,74 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { TWatchlist } from '@/types/property';
+
+// Fired on window after any change, so every star menu on the page shows the same lists
+const WATCHLISTS_EVENT = 'propertyViewer:watchlists';
+
+// One request serves every component on the page until a change reloads it
+let watchlistsPromise: Promise<TWatchlist[]> | null = null;
+
+function fetchWatchlists(reload = false): Promise<TWatchlist[]> {
+  if (!watchlistsPromise || reload) {
+    watchlistsPromise = fetch('/api/watchlists')
+      .then(response => {
+        if (!response.ok) throw new Error('Failed to fetch watchlists');
+        return response.json();
+      })
+      .then(data => data.watchlists as TWatchlist[])
+      .catch(error => {
+        watchlistsPromise = null;
+        throw error;
+      });
+  }
+  return watchlistsPromise;
+}
+
+async function sendJson(url: string, method: string, body: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(data.error || `Request failed: ${response.statusText}`);
+
+  await fetchWatchlists(true);
+  window.dispatchEvent(new Event(WATCHLISTS_EVENT));
+  return data;
+}
+
+// The current user's watchlists and the calls that change them
+export function useWatchlists() {
+  const [watchlists, setWatchlists] = useState<TWatchlist[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (reload = false) => {
+    try {
+      setError(null);
+      setWatchlists(await fetchWatchlists(reload));
+    } catch (error) {
+      console.error('Error loading watchlists:', error);
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const refresh = () => load();
+    window.addEventListener(WATCHLISTS_EVENT, refresh);
+    return () => window.removeEventListener(WATCHLISTS_EVENT, refresh);
+  }, [load]);
+
+  return {
+    watchlists,
+    error,
+    reload: () => load(true),
+    create: (name: string, alertThresholds?: number[]): Promise<{ watchlist: TWatchlist }> =>
+      sendJson('/api/watchlists', 'POST', { name, alertThresholds }),
+    update: (id: string, changes: { name?: string; alertThresholds?: number[]; add?: string[]; remove?: string[] }) =>
+      sendJson(`/api/watchlists/${id}`, 'PATCH', changes),
+    remove: (id: string) => sendJson(`/api/watchlists/${id}`, 'DELETE', {}),
+  };
+}
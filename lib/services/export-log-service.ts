@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { getUserDataStore } from '@/lib/user-data';
+import { TExportDataset } from '@/lib/utils/audit-log';
+import { TExportFormat } from '@/types/property';
+
+// Record a download made through the API by the signed-in user. A logging failure is
+// reported but never fails the download itself.
+export async function recordExport(
+  request: NextRequest,
+  dataset: TExportDataset,
+  format: TExportFormat,
+  rowCount: number | null
+): Promise<void> {
+  try {
+    const user = await getSession(request);
+    if (!user) return;
+
+    const store = await getUserDataStore();
+    await store.logExport({
+      userId: user.id,
+      userEmail: user.email,
+      dataset,
+      format,
+      rowCount,
+      query: new URL(request.url).searchParams.toString(),
+    });
+  } catch (error) {
+    console.error('Error logging export:', error);
+  }
+}
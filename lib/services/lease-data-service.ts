@@ -1,6 +1,7 @@
 import { readFileSync } from 'fs';
 import { join } from 'path';
-import { TBuilding } from '@/types/property';
+import { TBuilding, TLeaseContinuity } from '@/types/property';
+import { analyzeLeaseContinuity } from '@/lib/utils/lease-continuity';
 
 export interface LeaseData {
   locationCode: string;
@@ -54,6 +55,8 @@ export interface EnhancedLeasedBuildingWithMultipleLeases extends TBuilding {
     leaseDurationYears?: number;
     leaseStatus?: 'active' | 'expired' | 'upcoming';
   };
+  // Gaps and overlaps between the location's leases
+  continuity: TLeaseContinuity;
 }
 
 // Cache for parsed lease data
@@ -312,7 +315,8 @@ export function enhanceLeasedBuildingsWithMultipleLeases(
         leases: [],
         primaryLease: {
           leaseStatus: 'active' as const
-        }
+        },
+        continuity: analyzeLeaseContinuity(building.locationCode, [])
       };
     }
 
@@ -377,7 +381,8 @@ export function enhanceLeasedBuildingsWithMultipleLeases(
         leaseExpirationDateParsed: primaryLease.leaseExpirationDateParsed,
         leaseDurationYears: primaryLease.leaseDurationYears,
         leaseStatus: primaryLease.leaseStatus
-      }
+      },
+      continuity: analyzeLeaseContinuity(building.locationCode, leases)
     };
   });
 }
@@ -0,0 +1,426 @@
+import { getLocalDatabase } from '../db/local-database';
+import { KM_PER_MILE } from '../utils/google-maps';
+import {
+  BUILDING_COLUMNS,
+  LEASE_COLUMNS,
+  convertToAuditEntry,
+  convertToLeaseData,
+  convertToSearchResult,
+  convertToTBuilding,
+  toOverrideColumn,
+} from '../db/schema-rows';
+import { DEFAULT_SEARCH_LIMIT } from '../utils/search';
+import { DEFAULT_LOG_PAGE_SIZE } from '../utils/audit-log';
+import { getExpiringWindow, toDateString } from '../utils/dates';
+import {
+  TAuditEntry,
+  TAuditQuery,
+  TBoundingBox,
+  TBuilding,
+  TBuildingFilterValues,
+  TBuildingQuery,
+  TBuildingStats,
+  TFieldChange,
+  TFieldValue,
+  TLeaseQuery,
+  TLeaseRecord,
+  TLeaseStats,
+  TSearchQuery,
+  TSearchResult,
+} from '@/types/property';
+
+// Mirrors supabase-data-service against the embedded database, so both return identical shapes
+
+// Collects WHERE conditions with positional parameters
+function createWhere() {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  return {
+    params,
+    param(value: unknown): string {
+      params.push(value);
+      return `$${params.length}`;
+    },
+    add(condition: string) {
+      conditions.push(condition);
+    },
+    toSQL(): string {
+      return conditions.length > 0 ? `WHERE ${conditions.map(c => `(${c})`).join(' AND ')}` : '';
+    },
+  };
+}
+
+type TWhere = ReturnType<typeof createWhere>;
+
+// Case-insensitive substring match across several columns, sanitized like the Supabase search
+function addSearch(where: TWhere, term: string, columns: string[]) {
+  const sanitized = term.replace(/[%_"\\]/g, ' ').trim();
+  if (!sanitized) return;
+  const pattern = where.param(`%${sanitized}%`);
+  where.add(columns.map(column => `${column} ILIKE ${pattern}`).join(' OR '));
+}
+
+// Viewport filter; a box crossing the antimeridian wraps around through ±180°
+function addBoundingBox(where: TWhere, bbox: TBoundingBox) {
+  where.add(`latitude BETWEEN ${where.param(bbox.minLat)} AND ${where.param(bbox.maxLat)}`);
+  const west = where.param(bbox.minLng);
+  const east = where.param(bbox.maxLng);
+  where.add(bbox.minLng <= bbox.maxLng
+    ? `longitude BETWEEN ${west} AND ${east}`
+    : `longitude >= ${west} OR longitude <= ${east}`);
+}
+
+function toOrderBy(column: string, sortOrder?: 'asc' | 'desc'): string {
+  return `ORDER BY ${column} ${sortOrder === 'desc' ? 'DESC' : 'ASC'} NULLS LAST`;
+}
+
+function toLimit(where: TWhere, page: number = 1, limit?: number): string {
+  if (!limit) return '';
+  return `LIMIT ${where.param(limit)} OFFSET ${where.param((page - 1) * limit)}`;
+}
+
+// Run a filtered, sorted page query plus the matching row count
+async function queryPage(
+  source: string,
+  where: TWhere,
+  orderBy: string,
+  page?: number,
+  limit?: number
+): Promise<{ rows: any[]; total: number }> {
+  const db = await getLocalDatabase();
+  const whereSQL = where.toSQL();
+  const countParams = [...where.params];
+  const limitSQL = toLimit(where, page, limit);
+
+  const [result, countResult] = await Promise.all([
+    db.query<any>(`SELECT * FROM ${source} ${whereSQL} ${orderBy} ${limitSQL}`, where.params),
+    db.query<{ total: number }>(`SELECT count(*)::int AS total FROM ${source} ${whereSQL}`, countParams),
+  ]);
+
+  return { rows: result.rows, total: countResult.rows[0]?.total ?? result.rows.length };
+}
+
+// Get a filtered, sorted page of buildings. Without a limit every matching row is returned.
+export async function queryBuildings(options: TBuildingQuery = {}): Promise<{ buildings: TBuilding[]; total: number }> {
+  try {
+    const where = createWhere();
+
+    if (options.type === 'owned') {
+      where.add(`owned_or_leased = 'F'`);
+    } else if (options.type === 'leased') {
+      where.add(`owned_or_leased = 'L'`);
+    }
+
+    if (options.search) {
+      addSearch(where, options.search, [
+        'real_property_asset_name',
+        'street_address',
+        'city',
+        'state',
+        'installation_name',
+      ]);
+    }
+
+    if (options.city) where.add(`city = ${where.param(options.city)}`);
+    if (options.state) where.add(`state = ${where.param(options.state)}`);
+    if (options.zipCode) where.add(`zip_code::text = ${where.param(options.zipCode)}`);
+    if (options.gsaRegion !== undefined) where.add(`gsa_region = ${where.param(options.gsaRegion)}`);
+    if (options.assetType) where.add(`real_property_asset_type = ${where.param(options.assetType)}`);
+    if (options.status) where.add(`building_status = ${where.param(options.status)}`);
+
+    if (options.constructionDecade === 'unknown') {
+      where.add('construction_date IS NULL OR construction_date = 0');
+    } else if (options.constructionDecade) {
+      const decade = parseInt(options.constructionDecade);
+      if (!isNaN(decade)) {
+        where.add(`construction_date >= ${where.param(decade)} AND construction_date < ${where.param(decade + 10)}`);
+      }
+    }
+
+    if (options.bbox) addBoundingBox(where, options.bbox);
+
+    // Radius searches read from the indexed earthdistance function in supabase/schema.sql
+    const source = options.near
+      ? `buildings_within_radius(${where.param(options.near.lat)}, ${where.param(options.near.lng)}, ` +
+        `${where.param((options.radiusMiles || 0) * KM_PER_MILE * 1000)})`
+      : 'buildings';
+
+    const sortColumn = (options.sortBy && BUILDING_COLUMNS[options.sortBy]) || 'location_code';
+    const { rows, total } = await queryPage(
+      source,
+      where,
+      toOrderBy(sortColumn, options.sortOrder),
+      options.page,
+      options.limit
+    );
+
+    return { buildings: rows.map(convertToTBuilding), total };
+  } catch (error) {
+    console.error('Error in queryBuildings:', error);
+    return { buildings: [], total: 0 };
+  }
+}
+
+// Get distinct values for the building filter dropdowns
+export async function getBuildingFilterValues(): Promise<TBuildingFilterValues> {
+  try {
+    const db = await getLocalDatabase();
+    const distinct = async <T>(expression: string, condition: string): Promise<T[]> => {
+      const result = await db.query<{ value: T }>(
+        `SELECT DISTINCT ${expression} AS value FROM buildings WHERE ${condition} ORDER BY 1`
+      );
+      return result.rows.map(row => row.value);
+    };
+
+    const [cities, states, zipCodes, constructionDecades, gsaRegions, assetTypes, statuses] = await Promise.all([
+      distinct<string>('city', `city <> ''`),
+      distinct<string>('state', `state <> ''`),
+      distinct<string>('zip_code::text', 'zip_code <> 0'),
+      distinct<string>('(construction_date / 10 * 10)::text', 'construction_date > 0'),
+      distinct<number>('gsa_region', 'gsa_region IS NOT NULL'),
+      distinct<string>('real_property_asset_type', `real_property_asset_type <> ''`),
+      distinct<string>('building_status', `building_status <> ''`),
+    ]);
+
+    return { cities, states, zipCodes, constructionDecades, gsaRegions, assetTypes, statuses };
+  } catch (error) {
+    console.error('Error in getBuildingFilterValues:', error);
+    return { cities: [], states: [], zipCodes: [], constructionDecades: [], gsaRegions: [], assetTypes: [], statuses: [] };
+  }
+}
+
+// Get all buildings from the local database
+export async function getAllBuildings(): Promise<TBuilding[]> {
+  try {
+    const db = await getLocalDatabase();
+    const result = await db.query<any>('SELECT * FROM buildings ORDER BY location_code');
+    return result.rows.map(convertToTBuilding);
+  } catch (error) {
+    console.error('Error in getAllBuildings:', error);
+    return [];
+  }
+}
+
+// Get all lease data from the local database
+export async function getAllLeaseData(): Promise<TLeaseRecord[]> {
+  try {
+    const db = await getLocalDatabase();
+    const result = await db.query<any>('SELECT * FROM leased_properties ORDER BY location_code');
+    return result.rows.map(convertToLeaseData);
+  } catch (error) {
+    console.error('Error in getAllLeaseData:', error);
+    return [];
+  }
+}
+
+// Get a filtered, sorted page of lease records. Status filters use the same date
+// rules as the Supabase query, with leases missing a date treated as active.
+export async function queryLeaseData(options: TLeaseQuery = {}): Promise<{ leases: TLeaseRecord[]; total: number }> {
+  try {
+    const where = createWhere();
+
+    if (options.search) {
+      addSearch(where, options.search, [
+        'real_property_asset_name',
+        'city',
+        'state',
+        'location_code',
+        'lease_number',
+      ]);
+    }
+
+    if (options.city) where.add(`city = ${where.param(options.city)}`);
+    if (options.state) where.add(`state = ${where.param(options.state)}`);
+
+    // Today in local time, like calculateLeaseStatus; CURRENT_DATE is the database's UTC date
+    if (options.status) {
+      const today = `${where.param(toDateString(new Date()))}::date`;
+      if (options.status === 'upcoming') {
+        where.add(`lease_effective_date > ${today} AND lease_expiration_date IS NOT NULL`);
+      } else if (options.status === 'expired') {
+        where.add(`lease_effective_date <= ${today} AND lease_expiration_date < ${today}`);
+      } else if (options.status === 'active') {
+        where.add(
+          'lease_effective_date IS NULL OR lease_expiration_date IS NULL ' +
+          `OR (lease_effective_date <= ${today} AND lease_expiration_date >= ${today})`
+        );
+      }
+    }
+
+    if (options.expiresBy) where.add(`lease_expiration_date <= ${where.param(options.expiresBy)}`);
+
+    const sortColumn = (options.sortBy && LEASE_COLUMNS[options.sortBy]) || 'location_code';
+    const { rows, total } = await queryPage(
+      'leased_properties',
+      where,
+      toOrderBy(sortColumn, options.sortOrder),
+      options.page,
+      options.limit
+    );
+
+    return { leases: rows.map(convertToLeaseData), total };
+  } catch (error) {
+    console.error('Error in queryLeaseData:', error);
+    return { leases: [], total: 0 };
+  }
+}
+
+// Get a single building by location code. Errors are rethrown so callers can
+// tell a missing building apart from a failed query.
+export async function getBuildingByLocationCode(locationCode: string): Promise<TBuilding | null> {
+  const db = await getLocalDatabase();
+  const result = await db.query<any>('SELECT * FROM buildings WHERE location_code = $1', [locationCode]);
+  return result.rows[0] ? convertToTBuilding(result.rows[0]) : null;
+}
+
+// Get every lease recorded for a location, oldest first
+export async function getLeasesByLocationCode(locationCode: string): Promise<TLeaseRecord[]> {
+  const db = await getLocalDatabase();
+  const result = await db.query<any>(
+    'SELECT * FROM leased_properties WHERE location_code = $1 ORDER BY lease_effective_date ASC NULLS LAST, lease_number',
+    [locationCode]
+  );
+  return result.rows.map(convertToLeaseData);
+}
+
+// Rank buildings and leases against a search query with the search_properties() function
+export async function searchProperties(query: TSearchQuery): Promise<TSearchResult[]> {
+  const db = await getLocalDatabase();
+  const result = await db.query<any>(
+    'SELECT * FROM search_properties($1, $2)',
+    [query.q, query.limit || DEFAULT_SEARCH_LIMIT]
+  );
+  return result.rows.map(convertToSearchResult);
+}
+
+// Get a page of audit log entries, newest first. The local database is rebuilt on every
+// start, so the log only holds changes made since then.
+export async function listAuditEntries(options: TAuditQuery = {}): Promise<{ entries: TAuditEntry[]; total: number }> {
+  const where = createWhere();
+
+  if (options.locationCode) where.add(`location_code = ${where.param(options.locationCode)}`);
+  if (options.actor) addSearch(where, options.actor, ['actor']);
+  if (options.source) where.add(`source = ${where.param(options.source)}`);
+  if (options.from) where.add(`occurred_at >= ${where.param(options.from)}::date`);
+  if (options.to) where.add(`occurred_at < ${where.param(options.to)}::date + 1`);
+
+  const { rows, total } = await queryPage(
+    'audit_log',
+    where,
+    'ORDER BY id DESC',
+    options.page,
+    options.limit || DEFAULT_LOG_PAGE_SIZE
+  );
+
+  return { entries: rows.map(convertToAuditEntry), total };
+}
+
+// Write corrections in one transaction. The audit trigger reads the actor and source from the
+// transaction settings; overrides applied again after the CSV load are not audited a second time.
+export async function applyOverrides(changes: TFieldChange[], actor?: string): Promise<TFieldValue[]> {
+  const db = await getLocalDatabase();
+
+  return db.transaction(async tx => {
+    if (actor) {
+      await tx.query(`SELECT set_config('app.audit_actor', $1, true), set_config('app.audit_source', 'ui', true)`, [actor]);
+    } else {
+      await tx.exec('SET LOCAL session_replication_role = replica');
+    }
+
+    const previous: TFieldValue[] = [];
+    for (const change of changes) {
+      const { table, column, value } = toOverrideColumn(change);
+      const where = change.leaseNumber === null ? 'location_code = $1' : 'location_code = $1 AND lease_number = $2';
+      const params: unknown[] = change.leaseNumber === null ? [change.locationCode] : [change.locationCode, change.leaseNumber];
+
+      const current = await tx.query<Record<string, TFieldValue>>(`SELECT ${column} FROM ${table} WHERE ${where} LIMIT 1`, params);
+      previous.push(current.rows[0]?.[column] ?? null);
+      await tx.query(`UPDATE ${table} SET ${column} = $${params.length + 1} WHERE ${where}`, [...params, value]);
+    }
+    return previous;
+  });
+}
+
+// Get building statistics
+export async function getBuildingStatistics(): Promise<TBuildingStats> {
+  try {
+    const db = await getLocalDatabase();
+    const result = await db.query<{ total: number; leased: number }>(
+      `SELECT count(*)::int AS total, (count(*) FILTER (WHERE owned_or_leased = 'L'))::int AS leased FROM buildings`
+    );
+
+    const totalBuildings = result.rows[0]?.total || 0;
+    const totalLeased = result.rows[0]?.leased || 0;
+    const totalOwned = totalBuildings - totalLeased;
+
+    return {
+      totalBuildings,
+      totalOwned,
+      totalLeased,
+      ownedPercentage: totalBuildings > 0 ? Math.round((totalOwned / totalBuildings) * 100) : 0,
+      leasedPercentage: totalBuildings > 0 ? Math.round((totalLeased / totalBuildings) * 100) : 0,
+    };
+  } catch (error) {
+    console.error('Error getting building statistics:', error);
+    return {
+      totalBuildings: 0,
+      totalOwned: 0,
+      totalLeased: 0,
+      ownedPercentage: 0,
+      leasedPercentage: 0,
+    };
+  }
+}
+
+// Get lease statistics. Counted like the Supabase version: only leases with both dates are
+// classified, a lease is active through its expiration date (as the status filter has it, on the
+// local date), and "expiring soon" means active with an expiration within the next 12 months.
+export async function getLeaseStatistics(): Promise<TLeaseStats> {
+  try {
+    const db = await getLocalDatabase();
+    const expiring = getExpiringWindow(new Date(), 12);
+    const result = await db.query<{
+      total: number;
+      active: number;
+      expired: number;
+      upcoming: number;
+      expiring_soon: number;
+    }>(`
+      WITH dated AS (
+        SELECT lease_effective_date AS effective, lease_expiration_date AS expiration
+        FROM leased_properties
+        WHERE lease_effective_date IS NOT NULL AND lease_expiration_date IS NOT NULL
+      )
+      SELECT
+        (SELECT count(*) FROM leased_properties)::int AS total,
+        (count(*) FILTER (WHERE effective <= $1::date AND expiration >= $1::date))::int AS active,
+        (count(*) FILTER (WHERE effective <= $1::date AND expiration < $1::date))::int AS expired,
+        (count(*) FILTER (WHERE effective > $1::date))::int AS upcoming,
+        (count(*) FILTER (
+          WHERE effective <= $1::date AND expiration >= $1::date AND expiration <= $2::date
+        ))::int AS expiring_soon
+      FROM dated
+    `, [expiring.from, expiring.to]);
+
+    const stats = result.rows[0];
+    return {
+      totalLeases: stats?.total || 0,
+      activeLeases: stats?.active || 0,
+      expiredLeases: stats?.expired || 0,
+      upcomingLeases: stats?.upcoming || 0,
+      expiringSoon: stats?.expiring_soon || 0,
+      leaseDataCoverage: 100, // Same structured schema as Supabase
+    };
+  } catch (error) {
+    console.error('Error getting lease statistics:', error);
+    return {
+      totalLeases: 0,
+      activeLeases: 0,
+      expiredLeases: 0,
+      upcomingLeases: 0,
+      expiringSoon: 0,
+      leaseDataCoverage: 0,
+    };
+  }
+}
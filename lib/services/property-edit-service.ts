@@ -0,0 +1,116 @@
+import { TFieldValue, TPropertyEdit, TPropertyOverride } from '@/types/property';
+import { DATA_SOURCE } from '@/lib/config/data-source';
+import { getDataSource } from '@/lib/data-sources';
+import type { PropertyDataSource } from '@/lib/data-sources';
+import { getUserDataStore } from '@/lib/user-data';
+import type { UserDataStore } from '@/lib/user-data';
+import { findOverride, sameFieldValue } from '@/lib/utils/property-overrides';
+
+// Current value of each field of a building (leaseNumber null) or lease, as the property page shows them
+async function readFieldValues(
+  dataSource: PropertyDataSource,
+  locationCode: string,
+  leaseNumber: string | null
+): Promise<Record<string, unknown>> {
+  const record = leaseNumber === null
+    ? await dataSource.getBuilding(locationCode)
+    : (await dataSource.getLeasesForBuilding(locationCode)).find(lease => lease.leaseNumber === leaseNumber);
+  return { ...record };
+}
+
+// Write an edit's changes and overrides together. Supabase keeps the overrides in the inventory's
+// database and writes both in one transaction. The JSON file store saves the overrides first and
+// puts the earlier ones back if the inventory write fails.
+async function applyEdit(dataSource: PropertyDataSource, store: UserDataStore, edit: TPropertyEdit, actor: string) {
+  if (DATA_SOURCE === 'supabase') {
+    const { applyPropertyEdit } = await import('@/lib/services/supabase-data-service');
+    await applyPropertyEdit(edit, actor);
+    return;
+  }
+
+  const { locationCode, leaseNumber } = edit;
+  const fields = [...edit.save.map(override => override.field), ...edit.remove];
+  const earlier = (await store.listOverrides(locationCode))
+    .filter(override => override.leaseNumber === leaseNumber && fields.includes(override.field));
+
+  await store.saveOverrides(edit.save);
+  if (edit.remove.length > 0) await store.removeOverrides(locationCode, leaseNumber, edit.remove);
+  try {
+    await dataSource.applyOverrides(edit.changes, actor);
+  } catch (error) {
+    if (fields.length > 0) await store.removeOverrides(locationCode, leaseNumber, fields);
+    await store.saveOverrides(earlier);
+    throw error;
+  }
+}
+
+// Correct fields of a building (leaseNumber null) or of every row of one of its leases, and keep the
+// corrections as overrides. Fields in `revert`, and fields set back to what the import says, lose
+// their override and get the source value back. Returns the location's overrides afterwards.
+export async function editProperty(
+  locationCode: string,
+  leaseNumber: string | null,
+  changes: Record<string, TFieldValue>,
+  revert: string[],
+  actor: string
+): Promise<TPropertyOverride[]> {
+  const [dataSource, store] = await Promise.all([getDataSource(), getUserDataStore()]);
+  const [existing, current] = await Promise.all([
+    store.listOverrides(locationCode),
+    readFieldValues(dataSource, locationCode, leaseNumber),
+  ]);
+
+  const edits = Object.entries(changes).map(([field, value]) => ({ locationCode, leaseNumber, field, value }));
+  const updatedAt = new Date().toISOString();
+
+  const save: TPropertyOverride[] = [];
+  const remove: string[] = [];
+  edits.forEach(edit => {
+    // The first override of a field remembers the imported value; later ones keep it
+    const override = findOverride(existing, edit.field, leaseNumber);
+    const sourceValue = override ? override.sourceValue : (current[edit.field] as TFieldValue | undefined) ?? null;
+    if (sameFieldValue(edit.value, sourceValue)) {
+      if (override) remove.push(edit.field);
+    } else {
+      save.push({ ...edit, sourceValue, updatedBy: actor, updatedAt });
+    }
+  });
+
+  // Reverted fields get their source value back
+  const reverted = revert
+    .filter(field => !(field in changes))
+    .map(field => findOverride(existing, field, leaseNumber))
+    .filter((override): override is TPropertyOverride => override !== undefined);
+  remove.push(...reverted.map(override => override.field));
+
+  await applyEdit(dataSource, store, {
+    locationCode,
+    leaseNumber,
+    changes: [...edits, ...reverted.map(override => ({ locationCode, leaseNumber, field: override.field, value: override.sourceValue }))],
+    save,
+    remove,
+  }, actor);
+
+  return store.listOverrides(locationCode);
+}
+
+// Sources rebuilt from the IOLP files on every start have lost the corrections made in the app, so
+// the saved overrides are written over them again. What the files now say becomes the source value.
+// A failure is logged and leaves the imported values in place rather than failing every request.
+export async function reapplyOverrides(dataSource: PropertyDataSource): Promise<void> {
+  try {
+    const store = await getUserDataStore();
+    const overrides = await store.listOverrides();
+    if (overrides.length === 0) return;
+
+    const previous = await dataSource.applyOverrides(overrides);
+    await store.saveOverrides(
+      overrides
+        .map((override, i) => ({ ...override, sourceValue: previous[i] }))
+        .filter((override, i) => !sameFieldValue(override.sourceValue, overrides[i].sourceValue))
+    );
+    console.log(`✏️ Applied ${overrides.length} saved overrides`);
+  } catch (error) {
+    console.error('Error applying saved overrides:', error);
+  }
+}
@@ -1,4 +1,36 @@
+import type { PostgrestError } from '@supabase/supabase-js';
 import { supabase } from '../supabaseClient';
+import { getSupabaseAdmin } from '../supabaseAdminClient';
+import { KM_PER_MILE } from '../utils/google-maps';
+import {
+  TAuditEntry,
+  TAuditQuery,
+  TBuildingFilterValues,
+  TBuildingQuery,
+  TBuildingStats,
+  TFieldChange,
+  TFieldValue,
+  TLeaseQuery,
+  TLeaseStats,
+  TPropertyEdit,
+  TSearchQuery,
+  TSearchResult,
+  TSnapshot,
+} from '@/types/property';
+import type { TSnapshotData } from '@/lib/data-sources/types';
+import {
+  BUILDING_COLUMNS,
+  LEASE_COLUMNS,
+  calculateLeaseStatus,
+  convertToAuditEntry,
+  convertToLeaseData,
+  convertToSearchResult,
+  convertToTBuilding,
+  toOverrideColumn,
+} from '@/lib/db/schema-rows';
+import { DEFAULT_SEARCH_LIMIT } from '@/lib/utils/search';
+import { DEFAULT_LOG_PAGE_SIZE, dayAfter } from '@/lib/utils/audit-log';
+import { getExpiringWindow, toDateString } from '@/lib/utils/dates';
 
 // Types that match your existing interfaces
 export interface TBuilding {
@@ -45,188 +77,331 @@ export interface LeaseData {
   leaseStatus: 'active' | 'expired' | 'upcoming';
 }
 
-// Helper function to calculate lease status
-function calculateLeaseStatus(effectiveDate: string, expirationDate: string): 'active' | 'expired' | 'upcoming' {
-  if (!effectiveDate || !expirationDate) {
-    return 'active';
-  }
-  
-  const now = new Date();
-  const startDate = new Date(effectiveDate);
-  const endDate = new Date(expirationDate);
-  
-  if (now < startDate) {
-    return 'upcoming';
-  } else if (now > endDate) {
-    return 'expired';
-  } else {
-    return 'active';
-  }
+// Build a PostgREST `or` filter matching a search term against several columns.
+// The term is quoted so commas and parentheses in user input can't break the filter.
+function buildSearchFilter(term: string, columns: string[]): string | null {
+  const sanitized = term.replace(/[%_"\\]/g, ' ').trim();
+  if (!sanitized) return null;
+  return columns.map(column => `${column}.ilike."%${sanitized}%"`).join(',');
 }
 
-// Convert Supabase row to TBuilding format
-function convertToTBuilding(row: any): TBuilding {
-  return {
-    locationCode: row.location_code || '',
-    realPropertyAssetName: row.real_property_asset_name || '',
-    installationName: row.installation_name || '',
-    ownedOrLeased: row.owned_or_leased || 'F',
-    gsaRegion: row.gsa_region || 0,
-    streetAddress: row.street_address || '',
-    city: row.city || '',
-    state: row.state || '',
-    zipCode: row.zip_code || 0,
-    latitude: row.latitude || 0,
-    longitude: row.longitude || 0,
-    buildingRentableSquareFeet: row.building_rentable_square_feet || 0,
-    availableSquareFeet: row.available_square_feet || 0,
-    constructionDate: row.construction_date || undefined,
-    congressionalDistrict: row.congressional_district || 0,
-    congressionalDistrictRepresentativeName: row.congressional_district_representative_name || '',
-    buildingStatus: row.building_status || '',
-    realPropertyAssetType: row.real_property_asset_type || '',
-  };
+// Convert 1-based page/limit into an inclusive row range
+function toRange(page: number, limit: number): [number, number] {
+  const from = (page - 1) * limit;
+  return [from, from + limit - 1];
 }
 
-// Convert Supabase row to LeaseData format
-function convertToLeaseData(row: any): LeaseData {
-  const effectiveDate = row.lease_effective_date || '';
-  const expirationDate = row.lease_expiration_date || '';
-  
-  return {
-    locationCode: row.location_code || '',
-    realPropertyAssetName: row.real_property_asset_name || '',
-    installationName: row.installation_name || '',
-    federalLeasedCode: row.federal_leased_code || '',
-    gsaRegion: row.gsa_region || 0,
-    streetAddress: row.street_address || '',
-    city: row.city || '',
-    state: row.state || '',
-    zipCode: row.zip_code || 0,
-    latitude: row.latitude || 0,
-    longitude: row.longitude || 0,
-    buildingRentableSquareFeet: row.building_rentable_square_feet || 0,
-    availableSquareFeet: row.available_square_feet || 0,
-    congressionalDistrict: row.congressional_district || 0,
-    congressionalDistrictRepresentative: row.congressional_district_representative || '',
-    leaseNumber: row.lease_number || '',
-    leaseEffectiveDate: effectiveDate,
-    leaseExpirationDate: expirationDate,
-    realPropertyAssetType: row.real_property_asset_type || '',
-    leaseStatus: calculateLeaseStatus(effectiveDate, expirationDate),
-  };
+// PostgREST caps every response at its max-rows setting (1000 by default)
+const PAGE_SIZE = 1000;
+
+interface TRangeQuery<T> {
+  range(from: number, to: number): PromiseLike<{ data: T[] | null; error: PostgrestError | null; count?: number | null }>;
 }
 
-// Get all buildings from Supabase
-export async function getAllBuildings(): Promise<TBuilding[]> {
-  try {
-    const { data, error } = await supabase
-      .from('buildings')
-      .select('*')
-      .order('location_code');
+// Read one page of a query (or, without a limit, all of it) a PAGE_SIZE range at a time, so no
+// response is cut short. buildQuery must order by a unique column for the pages to line up.
+async function fetchRows<T>(
+  buildQuery: () => TRangeQuery<T>,
+  page: number = 1,
+  limit?: number
+): Promise<{ rows: T[]; total: number }> {
+  const start = limit ? (page - 1) * limit : 0;
+  const end = limit ? start + limit : Infinity;
+  const rows: T[] = [];
+  let total: number | null = null;
 
-    if (error) {
-      console.error('Error fetching buildings from Supabase:', error);
-      throw error;
-    }
+  for (let from = start; from < end; from += PAGE_SIZE) {
+    const to = Math.min(from + PAGE_SIZE, end) - 1;
+    const { data, error, count } = await buildQuery().range(from, to);
+    if (error) throw error;
 
-    return data.map(convertToTBuilding);
-  } catch (error) {
-    console.error('Error in getAllBuildings:', error);
-    return [];
+    rows.push(...(data || []));
+    total = count ?? total;
+    if (!data || data.length < to - from + 1) break;
   }
+
+  return { rows, total: total ?? start + rows.length };
 }
 
-// Get leased buildings only
-export async function getLeasedBuildings(): Promise<TBuilding[]> {
-  try {
-    const { data, error } = await supabase
-      .from('buildings')
-      .select('*')
-      .eq('owned_or_leased', 'L')
-      .order('location_code');
+// Get a filtered, sorted page of buildings. Without a limit every matching row is returned.
+// Errors are rethrown so an outage isn't reported as an empty inventory.
+export async function queryBuildings(options: TBuildingQuery = {}): Promise<{ buildings: TBuilding[]; total: number }> {
+  const buildQuery = () => {
+    // Radius searches go through the indexed earthdistance function in supabase/schema.sql
+    let query = options.near
+      ? supabase.rpc('buildings_within_radius', {
+          center_lat: options.near.lat,
+          center_lng: options.near.lng,
+          radius_meters: (options.radiusMiles || 0) * KM_PER_MILE * 1000,
+        }, { count: 'exact' })
+      : supabase.from('buildings').select('*', { count: 'exact' });
 
-    if (error) {
-      console.error('Error fetching leased buildings from Supabase:', error);
-      throw error;
+    if (options.type === 'owned') {
+      query = query.eq('owned_or_leased', 'F');
+    } else if (options.type === 'leased') {
+      query = query.eq('owned_or_leased', 'L');
     }
 
-    return data.map(convertToTBuilding);
+    if (options.search) {
+      const searchFilter = buildSearchFilter(options.search, [
+        'real_property_asset_name',
+        'street_address',
+        'city',
+        'state',
+        'installation_name',
+      ]);
+      if (searchFilter) query = query.or(searchFilter);
+    }
+
+    if (options.city) query = query.eq('city', options.city);
+    if (options.state) query = query.eq('state', options.state);
+    if (options.zipCode) query = query.eq('zip_code', options.zipCode);
+    if (options.gsaRegion !== undefined) query = query.eq('gsa_region', options.gsaRegion);
+    if (options.assetType) query = query.eq('real_property_asset_type', options.assetType);
+    if (options.status) query = query.eq('building_status', options.status);
+
+    if (options.constructionDecade === 'unknown') {
+      query = query.or('construction_date.is.null,construction_date.eq.0');
+    } else if (options.constructionDecade) {
+      const decade = parseInt(options.constructionDecade);
+      if (!isNaN(decade)) {
+        query = query.gte('construction_date', decade).lt('construction_date', decade + 10);
+      }
+    }
+
+    if (options.bbox) {
+      const { minLng, minLat, maxLng, maxLat } = options.bbox;
+      query = query.gte('latitude', minLat).lte('latitude', maxLat);
+      // A box crossing the antimeridian wraps around through ±180°
+      query = minLng <= maxLng
+        ? query.gte('longitude', minLng).lte('longitude', maxLng)
+        : query.or(`longitude.gte.${minLng},longitude.lte.${maxLng}`);
+    }
+
+    // id breaks ties, so rows with the same sort value don't move between pages
+    const sortColumn = (options.sortBy && BUILDING_COLUMNS[options.sortBy]) || 'location_code';
+    return query
+      .order(sortColumn, { ascending: options.sortOrder !== 'desc', nullsFirst: false })
+      .order('id');
+  };
+
+  try {
+    const { rows, total } = await fetchRows(buildQuery, options.page, options.limit);
+    return { buildings: rows.map(convertToTBuilding), total };
   } catch (error) {
-    console.error('Error in getLeasedBuildings:', error);
-    return [];
+    console.error('Error querying buildings from Supabase:', error);
+    throw error;
   }
 }
 
-// Get owned buildings only
-export async function getOwnedBuildings(): Promise<TBuilding[]> {
+// Get distinct values for the building filter dropdowns
+export async function getBuildingFilterValues(): Promise<TBuildingFilterValues> {
   try {
-    const { data, error } = await supabase
+    const { rows: data } = await fetchRows(() => supabase
       .from('buildings')
-      .select('*')
-      .eq('owned_or_leased', 'F')
-      .order('location_code');
+      .select('city, state, zip_code, construction_date, gsa_region, real_property_asset_type, building_status')
+      .order('id'));
 
-    if (error) {
-      console.error('Error fetching owned buildings from Supabase:', error);
-      throw error;
-    }
+    const distinct = <T>(values: (T | null | undefined)[]): T[] =>
+      Array.from(new Set(values.filter((value): value is T => value !== null && value !== undefined && value !== '')));
+
+    const decades = data
+      .filter(row => row.construction_date && row.construction_date > 0)
+      .map(row => (Math.floor(row.construction_date / 10) * 10).toString());
 
-    return data.map(convertToTBuilding);
+    return {
+      cities: distinct<string>(data.map(row => row.city)).sort(),
+      states: distinct<string>(data.map(row => row.state)).sort(),
+      zipCodes: distinct<number>(data.map(row => row.zip_code)).filter(zip => zip !== 0).map(String).sort(),
+      constructionDecades: distinct<string>(decades).sort(),
+      gsaRegions: distinct<number>(data.map(row => row.gsa_region)).sort((a, b) => a - b),
+      assetTypes: distinct<string>(data.map(row => row.real_property_asset_type)).sort(),
+      statuses: distinct<string>(data.map(row => row.building_status)).sort(),
+    };
   } catch (error) {
-    console.error('Error in getOwnedBuildings:', error);
-    return [];
+    console.error('Error in getBuildingFilterValues:', error);
+    return { cities: [], states: [], zipCodes: [], constructionDecades: [], gsaRegions: [], assetTypes: [], statuses: [] };
   }
 }
 
-// Get all lease data
-export async function getAllLeaseData(): Promise<LeaseData[]> {
-  try {
-    const { data, error } = await supabase
+// Get a filtered, sorted page of lease records. Lease status is derived from the
+// lease dates the same way calculateLeaseStatus does, so it can be filtered in the query.
+export async function queryLeaseData(options: TLeaseQuery = {}): Promise<{ leases: LeaseData[]; total: number }> {
+  const buildQuery = () => {
+    let query = supabase
       .from('leased_properties')
-      .select('*')
-      .order('location_code');
+      .select('*', { count: 'exact' });
+
+    if (options.search) {
+      const searchFilter = buildSearchFilter(options.search, [
+        'real_property_asset_name',
+        'city',
+        'state',
+        'location_code',
+        'lease_number',
+      ]);
+      if (searchFilter) query = query.or(searchFilter);
+    }
+
+    if (options.city) query = query.eq('city', options.city);
+    if (options.state) query = query.eq('state', options.state);
 
-    if (error) {
-      console.error('Error fetching lease data from Supabase:', error);
-      throw error;
+    const today = toDateString(new Date());
+    if (options.status === 'upcoming') {
+      query = query.gt('lease_effective_date', today).not('lease_expiration_date', 'is', null);
+    } else if (options.status === 'expired') {
+      query = query.lte('lease_effective_date', today).lt('lease_expiration_date', today);
+    } else if (options.status === 'active') {
+      // Leases with missing dates are treated as active
+      query = query.or(
+        `lease_effective_date.is.null,lease_expiration_date.is.null,and(lease_effective_date.lte.${today},lease_expiration_date.gte.${today})`
+      );
     }
 
-    return data.map(convertToLeaseData);
+    if (options.expiresBy) query = query.lte('lease_expiration_date', options.expiresBy);
+
+    const sortColumn = (options.sortBy && LEASE_COLUMNS[options.sortBy]) || 'location_code';
+    return query
+      .order(sortColumn, { ascending: options.sortOrder !== 'desc', nullsFirst: false })
+      .order('id');
+  };
+
+  try {
+    const { rows, total } = await fetchRows(buildQuery, options.page, options.limit);
+    return { leases: rows.map(convertToLeaseData), total };
   } catch (error) {
-    console.error('Error in getAllLeaseData:', error);
-    return [];
+    console.error('Error querying lease data from Supabase:', error);
+    throw error;
   }
 }
 
-// Get buildings with pagination (for map view)
-export async function getBuildingsForMap(limit?: number): Promise<TBuilding[]> {
-  try {
-    let query = supabase
-      .from('buildings')
-      .select('*')
-      .order('location_code');
+// Get a single building by location code. Errors are rethrown so callers can
+// tell a missing building apart from a failed query.
+export async function getBuildingByLocationCode(locationCode: string): Promise<TBuilding | null> {
+  const { data, error } = await supabase
+    .from('buildings')
+    .select('*')
+    .eq('location_code', locationCode)
+    .maybeSingle();
 
-    if (limit) {
-      query = query.limit(limit);
-    }
+  if (error) {
+    console.error('Error fetching building from Supabase:', error);
+    throw error;
+  }
 
-    const { data, error } = await query;
+  return data ? convertToTBuilding(data) : null;
+}
 
-    if (error) {
-      console.error('Error fetching buildings for map from Supabase:', error);
-      throw error;
-    }
+// Get every lease recorded for a location, oldest first
+export async function getLeasesByLocationCode(locationCode: string): Promise<LeaseData[]> {
+  const { data, error } = await supabase
+    .from('leased_properties')
+    .select('*')
+    .eq('location_code', locationCode)
+    .order('lease_effective_date', { ascending: true, nullsFirst: false })
+    .order('lease_number');
 
-    return data.map(convertToTBuilding);
-  } catch (error) {
-    console.error('Error in getBuildingsForMap:', error);
-    return [];
+  if (error) {
+    console.error('Error fetching leases for location from Supabase:', error);
+    throw error;
+  }
+
+  return data.map(convertToLeaseData);
+}
+
+// Rank buildings and leases against a search query with the search_properties() function
+// in supabase/schema.sql. Errors are rethrown so an outage isn't reported as no matches.
+export async function searchProperties(query: TSearchQuery): Promise<TSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_properties', {
+    query: query.q,
+    max_results: query.limit || DEFAULT_SEARCH_LIMIT,
+  });
+
+  if (error) {
+    console.error('Error searching properties in Supabase:', error);
+    throw error;
+  }
+
+  return (data || []).map(convertToSearchResult);
+}
+
+// Get a page of audit log entries, newest first. The log has no read policy, so this
+// uses the service role; only the data-admin routes call it.
+export async function listAuditEntries(options: TAuditQuery = {}): Promise<{ entries: TAuditEntry[]; total: number }> {
+  let query = getSupabaseAdmin().from('audit_log').select('*', { count: 'exact' });
+
+  if (options.locationCode) query = query.eq('location_code', options.locationCode);
+  if (options.actor) {
+    const sanitized = options.actor.replace(/[%_"\\]/g, ' ').trim();
+    if (sanitized) query = query.ilike('actor', `%${sanitized}%`);
+  }
+  if (options.source) query = query.eq('source', options.source);
+  if (options.from) query = query.gte('occurred_at', options.from);
+  if (options.to) query = query.lt('occurred_at', dayAfter(options.to));
+
+  const [from, to] = toRange(options.page || 1, options.limit || DEFAULT_LOG_PAGE_SIZE);
+  const { data, error, count } = await query.order('id', { ascending: false }).range(from, to);
+
+  if (error) {
+    console.error('Error querying audit log from Supabase:', error);
+    throw error;
+  }
+
+  return { entries: (data || []).map(convertToAuditEntry), total: count || 0 };
+}
+
+// Changes in the shape apply_property_overrides in supabase/schema.sql takes
+function toOverrideChanges(changes: TFieldChange[]) {
+  return changes.map(change => {
+    const { table, column, value } = toOverrideColumn(change);
+    return { table, column, location_code: change.locationCode, lease_number: change.leaseNumber, value };
+  });
+}
+
+// Write corrections with the service role, since RLS only lets data admins' own sessions write the
+// inventory. apply_property_overrides makes them in one transaction and has the audit trigger record the actor.
+export async function applyOverrides(changes: TFieldChange[], actor?: string): Promise<TFieldValue[]> {
+  if (changes.length === 0) return [];
+
+  const { data, error } = await getSupabaseAdmin().rpc('apply_property_overrides', {
+    changes: toOverrideChanges(changes),
+    actor,
+  });
+
+  if (error) {
+    console.error('Error writing overrides to Supabase:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+// Write an edit made in the app. Its overrides are saved and removed in the same transaction as
+// the inventory changes, since property_overrides lives in the same database.
+export async function applyPropertyEdit(edit: TPropertyEdit, actor: string): Promise<void> {
+  const { error } = await getSupabaseAdmin().rpc('apply_property_overrides', {
+    changes: toOverrideChanges(edit.changes),
+    actor,
+    save_overrides: edit.save.map(override => ({
+      location_code: override.locationCode,
+      lease_number: override.leaseNumber,
+      field: override.field,
+      value: override.value,
+      source_value: override.sourceValue,
+      updated_by: override.updatedBy,
+      updated_at: override.updatedAt,
+    })),
+    remove_overrides: edit.remove.map(field => ({ location_code: edit.locationCode, lease_number: edit.leaseNumber, field })),
+  });
+
+  if (error) {
+    console.error('Error writing edit to Supabase:', error);
+    throw error;
   }
 }
 
 // Get building statistics
-export async function getBuildingStatistics() {
+export async function getBuildingStatistics(): Promise<TBuildingStats> {
   try {
     const [buildingsResult, leasedResult] = await Promise.all([
       supabase.from('buildings').select('*', { count: 'exact', head: true }),
@@ -257,18 +432,16 @@ export async function getBuildingStatistics() {
 }
 
 // Get lease statistics
-export async function getLeaseStatistics() {
+export async function getLeaseStatistics(): Promise<TLeaseStats> {
   try {
-    const { data, error } = await supabase
+    const { rows: data } = await fetchRows(() => supabase
       .from('leased_properties')
-      .select('lease_effective_date, lease_expiration_date');
-
-    if (error) {
-      console.error('Error fetching lease statistics from Supabase:', error);
-      throw error;
-    }
+      .select('lease_effective_date, lease_expiration_date')
+      .order('id'));
 
-    const now = new Date();
+    // Classified like calculateLeaseStatus and the queryLeaseData status filter. Active leases
+    // expiring within the next 12 months, the dashboards' window, are expiring soon.
+    const expiringBy = getExpiringWindow(new Date(), 12).to;
     let activeLeases = 0;
     let expiredLeases = 0;
     let upcomingLeases = 0;
@@ -276,17 +449,15 @@ export async function getLeaseStatistics() {
 
     data.forEach(lease => {
       if (lease.lease_effective_date && lease.lease_expiration_date) {
-        const startDate = new Date(lease.lease_effective_date);
-        const endDate = new Date(lease.lease_expiration_date);
-        const monthsToExpiry = (endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24 * 30);
+        const status = calculateLeaseStatus(lease.lease_effective_date, lease.lease_expiration_date);
 
-        if (now < startDate) {
+        if (status === 'upcoming') {
           upcomingLeases++;
-        } else if (now > endDate) {
+        } else if (status === 'expired') {
           expiredLeases++;
         } else {
           activeLeases++;
-          if (monthsToExpiry <= 12 && monthsToExpiry > 0) {
+          if (lease.lease_expiration_date <= expiringBy) {
             expiringSoon++;
           }
         }
@@ -312,4 +483,72 @@ export async function getLeaseStatistics() {
       leaseDataCoverage: 0,
     };
   }
-} 
\ No newline at end of file
+}
+
+function toSnapshot(row: any): TSnapshot {
+  return {
+    id: row.id,
+    buildingCount: row.building_count || 0,
+    leaseCount: row.lease_count || 0,
+    importedAt: row.imported_at || undefined,
+  };
+}
+
+// A unique column per snapshot table, so whole snapshots read page by page neither repeat nor
+// skip rows. location_code is unique within a release's buildings but not within its leases.
+const SNAPSHOT_ORDER_COLUMNS = { snapshot_buildings: 'location_code', snapshot_leases: 'id' } as const;
+
+async function getSnapshotRows(table: 'snapshot_buildings' | 'snapshot_leases', snapshotId: string): Promise<any[]> {
+  try {
+    const { rows } = await fetchRows(() => supabase
+      .from(table)
+      .select('*')
+      .eq('snapshot_id', snapshotId)
+      .order(SNAPSHOT_ORDER_COLUMNS[table]));
+    return rows;
+  } catch (error) {
+    console.error(`Error fetching ${table} from Supabase:`, error);
+    throw error;
+  }
+}
+
+// Get the imported IOLP releases, oldest first
+export async function listSnapshots(): Promise<TSnapshot[]> {
+  const { data, error } = await supabase
+    .from('snapshots')
+    .select('*')
+    .order('id');
+
+  if (error) {
+    console.error('Error fetching snapshots from Supabase:', error);
+    throw error;
+  }
+
+  return data.map(toSnapshot);
+}
+
+// Get every building and lease of one imported release, or null when it was never imported
+export async function getSnapshot(id: string): Promise<TSnapshotData | null> {
+  const { data, error } = await supabase
+    .from('snapshots')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching snapshot from Supabase:', error);
+    throw error;
+  }
+  if (!data) return null;
+
+  const [buildingRows, leaseRows] = await Promise.all([
+    getSnapshotRows('snapshot_buildings', id),
+    getSnapshotRows('snapshot_leases', id),
+  ]);
+
+  return {
+    snapshot: toSnapshot(data),
+    buildings: buildingRows.map(convertToTBuilding),
+    leases: leaseRows.map(convertToLeaseData),
+  };
+}
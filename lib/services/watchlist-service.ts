@@ -0,0 +1,108 @@
+import { TBuilding, TLeaseRecord, TWatchlist, TWatchlistEntry } from '@/types/property';
+import { getDataSource } from '@/lib/data-sources';
+import { enhanceLeasedBuildingsWithMultipleLeases } from '@/lib/services/lease-data-service';
+import type { TNewWatchlistNotification, UserDataStore } from '@/lib/user-data';
+import { getCrossedThreshold } from '@/lib/utils/watchlists';
+
+// Whole days from today (local time) to a YYYY-MM-DD date
+function daysUntil(date: string, today: Date): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = Date.UTC(year, month - 1, day);
+  const start = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((target - start) / (24 * 60 * 60 * 1000));
+}
+
+// Each watched property with its primary lease, picked the same way as on the leased dashboard's timeline
+export function buildWatchlistEntries(
+  watchlist: TWatchlist,
+  buildings: TBuilding[],
+  leases: TLeaseRecord[],
+  today: Date = new Date()
+): TWatchlistEntry[] {
+  const watched = new Set(watchlist.locationCodes);
+  const buildingsByCode = new Map(
+    buildings.filter(building => watched.has(building.locationCode)).map(building => [building.locationCode, building])
+  );
+  const watchedLeases = leases.filter(lease => watched.has(lease.locationCode));
+
+  // Without lease rows the helper falls back to reading the CSV export, which isn't wanted here
+  const enhanced = watchedLeases.length > 0
+    ? enhanceLeasedBuildingsWithMultipleLeases(Array.from(buildingsByCode.values()), watchedLeases)
+    : [];
+  const primaryLeases = new Map(enhanced.map(building => [building.locationCode, building.primaryLease]));
+
+  return watchlist.locationCodes.map(locationCode => {
+    const building = buildingsByCode.get(locationCode);
+    const primary = primaryLeases.get(locationCode);
+    const primaryLease = primary?.leaseNumber && primary.leaseExpirationDate && primary.leaseStatus
+      ? {
+          leaseNumber: primary.leaseNumber,
+          leaseEffectiveDate: primary.leaseEffectiveDate || '',
+          leaseExpirationDate: primary.leaseExpirationDate,
+          leaseStatus: primary.leaseStatus,
+        }
+      : null;
+    const daysToExpiration = primaryLease ? daysUntil(primaryLease.leaseExpirationDate, today) : null;
+
+    return {
+      locationCode,
+      realPropertyAssetName: building?.realPropertyAssetName || '',
+      city: building?.city || '',
+      state: building?.state || '',
+      ownedOrLeased: building?.ownedOrLeased || null,
+      primaryLease,
+      daysToExpiration,
+      crossedThreshold: getCrossedThreshold(daysToExpiration, watchlist.alertThresholds),
+    };
+  });
+}
+
+// Alerts for leases now within a threshold. Only the smallest crossed threshold is raised:
+// days to expiration only go down, so the larger ones can never be crossed later.
+export function findWatchlistAlerts(watchlist: TWatchlist, entries: TWatchlistEntry[]): TNewWatchlistNotification[] {
+  return entries
+    .filter(entry => entry.primaryLease && entry.crossedThreshold !== null)
+    .map(entry => ({
+      watchlistId: watchlist.id,
+      watchlistName: watchlist.name,
+      locationCode: entry.locationCode,
+      realPropertyAssetName: entry.realPropertyAssetName,
+      leaseNumber: entry.primaryLease!.leaseNumber,
+      leaseExpirationDate: entry.primaryLease!.leaseExpirationDate,
+      thresholdDays: entry.crossedThreshold!,
+      daysToExpiration: entry.daysToExpiration!,
+    }));
+}
+
+// Entries of each watchlist, by watchlist id, after raising the alerts that have come due
+export async function evaluateWatchlists(
+  userId: string,
+  watchlists: TWatchlist[],
+  store: UserDataStore
+): Promise<Map<string, TWatchlistEntry[]>> {
+  const entriesById = new Map<string, TWatchlistEntry[]>();
+  if (watchlists.every(watchlist => watchlist.locationCodes.length === 0)) {
+    watchlists.forEach(watchlist => entriesById.set(watchlist.id, []));
+    return entriesById;
+  }
+
+  // Only the watched properties are read, since the notifications menu calls this on every page
+  const dataSource = await getDataSource();
+  const locationCodes = Array.from(new Set(watchlists.flatMap(watchlist => watchlist.locationCodes)));
+  const [found, leasesByCode] = await Promise.all([
+    Promise.all(locationCodes.map(locationCode => dataSource.getBuilding(locationCode))),
+    Promise.all(locationCodes.map(locationCode => dataSource.getLeasesForBuilding(locationCode))),
+  ]);
+  const buildings = found.filter((building): building is TBuilding => building !== null);
+  const leases = leasesByCode.flat();
+
+  const alerts: TNewWatchlistNotification[] = [];
+  watchlists.forEach(watchlist => {
+    const entries = buildWatchlistEntries(watchlist, buildings, leases);
+    entriesById.set(watchlist.id, entries);
+    alerts.push(...findWatchlistAlerts(watchlist, entries));
+  });
+
+  await store.addNotifications(userId, alerts);
+  return entriesById;
+}
@@ -0,0 +1,20 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let adminClient: SupabaseClient | null = null;
+
+// Server-only client with the service role key, which bypasses RLS. Only call it from API routes
+// that identify the user themselves or whose role the middleware has already checked.
+export function getSupabaseAdmin(): SupabaseClient {
+  if (!adminClient) {
+    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY. The API routes need it for user data and the audit and export logs.');
+    }
+
+    adminClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+  return adminClient;
+}
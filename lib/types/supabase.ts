@@ -154,12 +154,248 @@ export interface Database {
           updated_at?: string
         }
       }
+      snapshots: {
+        Row: {
+          id: string
+          building_count: number
+          lease_count: number
+          imported_at: string
+        }
+        Insert: {
+          id: string
+          building_count?: number
+          lease_count?: number
+          imported_at?: string
+        }
+      }
+      snapshot_buildings: {
+        Row: Omit<Database['public']['Tables']['buildings']['Insert'], 'id' | 'created_at' | 'updated_at'> & {
+          snapshot_id: string
+        }
+        Insert: Omit<Database['public']['Tables']['buildings']['Insert'], 'id' | 'created_at' | 'updated_at'> & {
+          snapshot_id: string
+        }
+      }
+      snapshot_leases: {
+        Row: Omit<Database['public']['Tables']['leased_properties']['Row'], 'created_at' | 'updated_at'> & {
+          snapshot_id: string
+        }
+        Insert: Omit<Database['public']['Tables']['leased_properties']['Insert'], 'id' | 'created_at' | 'updated_at'> & {
+          snapshot_id: string
+        }
+      }
+      saved_views: {
+        Row: {
+          id: string
+          user_id: string
+          page: string
+          name: string
+          query: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          page: string
+          name: string
+          query: string
+          created_at?: string
+        }
+      }
+      watchlists: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          alert_thresholds: number[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          alert_thresholds?: number[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      watchlist_items: {
+        Row: {
+          watchlist_id: string
+          location_code: string
+          added_at: string
+        }
+        Insert: {
+          watchlist_id: string
+          location_code: string
+          added_at?: string
+        }
+      }
+      watchlist_notifications: {
+        Row: {
+          id: string
+          user_id: string
+          watchlist_id: string
+          watchlist_name: string
+          location_code: string
+          real_property_asset_name: string | null
+          lease_number: string
+          lease_expiration_date: string
+          threshold_days: number
+          days_to_expiration: number
+          created_at: string
+          read_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          watchlist_id: string
+          watchlist_name: string
+          location_code: string
+          real_property_asset_name?: string | null
+          lease_number: string
+          lease_expiration_date: string
+          threshold_days: number
+          days_to_expiration: number
+          created_at?: string
+          read_at?: string | null
+        }
+      }
+      audit_log: {
+        Row: {
+          id: number
+          occurred_at: string
+          table_name: string
+          operation: string
+          location_code: string | null
+          lease_number: string | null
+          changed_fields: string[]
+          before: Json | null
+          after: Json | null
+          actor: string
+          source: string
+        }
+        Insert: never // Written by the audit triggers only
+      }
+      export_log: {
+        Row: {
+          id: string
+          user_id: string
+          user_email: string
+          dataset: string
+          format: string
+          row_count: number | null
+          query: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          user_email: string
+          dataset: string
+          format: string
+          row_count?: number | null
+          query?: string
+          created_at?: string
+        }
+      }
+      property_overrides: {
+        Row: {
+          id: string
+          location_code: string
+          lease_number: string | null
+          field: string
+          value: string | number | null
+          source_value: string | number | null
+          updated_by: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          location_code: string
+          lease_number?: string | null
+          field: string
+          value?: string | number | null
+          source_value?: string | number | null
+          updated_by: string
+          updated_at?: string
+        }
+      }
+      property_notes: {
+        Row: {
+          id: string
+          location_code: string
+          body: string
+          author_id: string
+          author_email: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          location_code: string
+          body: string
+          author_id: string
+          author_email: string
+          created_at?: string
+        }
+      }
+      property_tags: {
+        Row: {
+          location_code: string
+          tag: string
+          added_at: string
+        }
+        Insert: {
+          location_code: string
+          tag: string
+          added_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      app_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      apply_property_overrides: {
+        Args: {
+          changes: Json
+          actor?: string
+          save_overrides?: Json
+          remove_overrides?: Json
+        }
+        Returns: Json
+      }
+      buildings_within_radius: {
+        Args: {
+          center_lat: number
+          center_lng: number
+          radius_meters: number
+        }
+        Returns: Database['public']['Tables']['buildings']['Row'][]
+      }
+      search_properties: {
+        Args: {
+          query: string
+          max_results?: number
+        }
+        Returns: {
+          kind: string
+          location_code: string
+          lease_number: string | null
+          real_property_asset_name: string | null
+          installation_name: string | null
+          street_address: string | null
+          city: string | null
+          state: string | null
+          owned_or_leased: string | null
+          score: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
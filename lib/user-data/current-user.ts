@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth/session';
+import { TSessionUser } from '@/lib/auth/types';
+
+// User data belongs to the signed-in user. The middleware already turns away anonymous
+// requests, so a missing user here means the route was reached some other way.
+export function getCurrentUser(request: NextRequest): Promise<TSessionUser | null> {
+  return getSession(request);
+}
+
+export function signInRequired(): NextResponse {
+  return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+}
@@ -0,0 +1,258 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { TExportLogEntry, TPropertyNote, TPropertyOverride, TSavedView, TWatchlist, TWatchlistNotification } from '@/types/property';
+import { DEFAULT_LOG_PAGE_SIZE, dayAfter } from '@/lib/utils/audit-log';
+import { TNewWatchlistNotification, TWatchlistChanges, UserDataStore } from './types';
+
+interface TUserDataFile {
+  savedViews: (TSavedView & { userId: string })[];
+  watchlists: (TWatchlist & { userId: string })[];
+  notifications: (TWatchlistNotification & { userId: string })[];
+  exports: TExportLogEntry[];
+  overrides: TPropertyOverride[];
+  notes: TPropertyNote[];
+  tags: Record<string, string[]>; // By location code
+}
+
+// Outside app/ so the dev server does not reload when it changes; set USER_DATA_PATH to move it
+const DATA_PATH = process.env.USER_DATA_PATH || path.join(process.cwd(), '.data', 'user-data.json');
+
+function readData(): TUserDataFile {
+  const data = fs.existsSync(DATA_PATH) ? JSON.parse(fs.readFileSync(DATA_PATH, 'utf-8')) : {};
+  return {
+    savedViews: data.savedViews || [],
+    watchlists: data.watchlists || [],
+    notifications: data.notifications || [],
+    exports: data.exports || [],
+    overrides: data.overrides || [],
+    notes: data.notes || [],
+    tags: data.tags || {},
+  };
+}
+
+// Written to a temporary file first so a crash never leaves half a file behind
+function writeData(data: TUserDataFile) {
+  fs.mkdirSync(path.dirname(DATA_PATH), { recursive: true });
+  const temporaryPath = `${DATA_PATH}.tmp`;
+  fs.writeFileSync(temporaryPath, JSON.stringify(data, null, 2));
+  fs.renameSync(temporaryPath, DATA_PATH);
+}
+
+// Changes run one at a time so concurrent requests don't overwrite each other
+let queue: Promise<unknown> = Promise.resolve();
+
+function update<T>(change: (data: TUserDataFile) => T): Promise<T> {
+  const result = queue.then(() => {
+    const data = readData();
+    const value = change(data);
+    writeData(data);
+    return value;
+  });
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+const withoutUser = <T extends { userId: string }>({ userId, ...record }: T): Omit<T, 'userId'> => record;
+
+const notificationKey = (notification: TNewWatchlistNotification) =>
+  [notification.watchlistId, notification.locationCode, notification.leaseNumber, notification.thresholdDays].join('|');
+
+const overrideKey = (override: Pick<TPropertyOverride, 'locationCode' | 'leaseNumber' | 'field'>) =>
+  [override.locationCode, override.leaseNumber ?? '', override.field].join('|');
+
+// Keeps user data in a JSON file, for the csv, local and firestore data sources
+export function createFileUserDataStore(): UserDataStore {
+  return {
+    async listSavedViews(userId, page) {
+      return readData().savedViews
+        .filter(view => view.userId === userId && view.page === page)
+        .map(withoutUser)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    saveView(userId, page, name, query) {
+      return update(data => {
+        const view = { id: randomUUID(), userId, page, name, query, createdAt: new Date().toISOString() };
+        data.savedViews = data.savedViews
+          .filter(item => !(item.userId === userId && item.page === page && item.name === name))
+          .concat(view);
+        return withoutUser(view);
+      });
+    },
+
+    deleteSavedView(userId, id) {
+      return update(data => {
+        const count = data.savedViews.length;
+        data.savedViews = data.savedViews.filter(item => !(item.id === id && item.userId === userId));
+        return data.savedViews.length < count;
+      });
+    },
+
+    async listWatchlists(userId) {
+      return readData().watchlists
+        .filter(watchlist => watchlist.userId === userId)
+        .map(withoutUser)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async getWatchlist(userId, id) {
+      const watchlist = readData().watchlists.find(item => item.id === id && item.userId === userId);
+      return watchlist ? withoutUser(watchlist) : null;
+    },
+
+    createWatchlist(userId, name, alertThresholds) {
+      return update(data => {
+        const now = new Date().toISOString();
+        const watchlist = { id: randomUUID(), userId, name, locationCodes: [], alertThresholds, createdAt: now, updatedAt: now };
+        data.watchlists.push(watchlist);
+        return withoutUser(watchlist);
+      });
+    },
+
+    updateWatchlist(userId, id, changes: TWatchlistChanges) {
+      return update(data => {
+        const watchlist = data.watchlists.find(item => item.id === id && item.userId === userId);
+        if (!watchlist) return null;
+
+        const removed = new Set(changes.remove || []);
+        const locationCodes = watchlist.locationCodes.filter(code => !removed.has(code));
+        (changes.add || []).forEach(code => {
+          if (!locationCodes.includes(code)) locationCodes.push(code);
+        });
+
+        Object.assign(watchlist, {
+          name: changes.name ?? watchlist.name,
+          alertThresholds: changes.alertThresholds ?? watchlist.alertThresholds,
+          locationCodes,
+          updatedAt: new Date().toISOString(),
+        });
+        return withoutUser(watchlist);
+      });
+    },
+
+    deleteWatchlist(userId, id) {
+      return update(data => {
+        const count = data.watchlists.length;
+        data.watchlists = data.watchlists.filter(item => !(item.id === id && item.userId === userId));
+        if (data.watchlists.length === count) return false;
+
+        data.notifications = data.notifications.filter(item => item.watchlistId !== id);
+        return true;
+      });
+    },
+
+    async listNotifications(userId) {
+      return readData().notifications
+        .filter(notification => notification.userId === userId)
+        .map(withoutUser)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async addNotifications(userId, notifications) {
+      if (notifications.length === 0) return;
+
+      await update(data => {
+        const existing = new Set(data.notifications.map(notificationKey));
+        const createdAt = new Date().toISOString();
+        notifications
+          .filter(notification => !existing.has(notificationKey(notification)))
+          .forEach(notification => {
+            data.notifications.push({ ...notification, id: randomUUID(), userId, createdAt, readAt: null });
+          });
+      });
+    },
+
+    async markNotificationsRead(userId, ids) {
+      await update(data => {
+        const readAt = new Date().toISOString();
+        data.notifications.forEach(notification => {
+          if (notification.userId !== userId || notification.readAt) return;
+          if (ids === 'all' || ids.includes(notification.id)) notification.readAt = readAt;
+        });
+      });
+    },
+
+    async logExport(entry) {
+      await update(data => {
+        data.exports.push({ ...entry, id: randomUUID(), createdAt: new Date().toISOString() });
+      });
+    },
+
+    async listExports(query = {}) {
+      const user = query.user?.toLowerCase();
+      const to = query.to && dayAfter(query.to);
+      const matches = readData().exports
+        .filter(entry =>
+          (!user || entry.userEmail.toLowerCase().includes(user)) &&
+          (!query.dataset || entry.dataset === query.dataset) &&
+          (!query.from || entry.createdAt >= query.from) &&
+          (!to || entry.createdAt < to)
+        )
+        .reverse();
+
+      const limit = query.limit || DEFAULT_LOG_PAGE_SIZE;
+      const start = ((query.page || 1) - 1) * limit;
+      return { entries: matches.slice(start, start + limit), total: matches.length };
+    },
+
+    async listOverrides(locationCode) {
+      return readData().overrides.filter(override => !locationCode || override.locationCode === locationCode);
+    },
+
+    async saveOverrides(overrides) {
+      if (overrides.length === 0) return;
+
+      await update(data => {
+        const saved = new Map(overrides.map(override => [overrideKey(override), override]));
+        data.overrides = [...data.overrides.filter(override => !saved.has(overrideKey(override))), ...overrides];
+      });
+    },
+
+    removeOverrides(locationCode, leaseNumber, fields) {
+      return update(data => {
+        const removed = data.overrides.filter(override =>
+          override.locationCode === locationCode && override.leaseNumber === leaseNumber && fields.includes(override.field)
+        );
+        data.overrides = data.overrides.filter(override => !removed.includes(override));
+        return removed;
+      });
+    },
+
+    async listNotes(locationCode) {
+      return readData().notes
+        .filter(note => note.locationCode === locationCode)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    addNote(note) {
+      return update(data => {
+        const saved = { ...note, id: randomUUID(), createdAt: new Date().toISOString() };
+        data.notes.push(saved);
+        return saved;
+      });
+    },
+
+    deleteNote(locationCode, id) {
+      return update(data => {
+        const count = data.notes.length;
+        data.notes = data.notes.filter(note => !(note.id === id && note.locationCode === locationCode));
+        return data.notes.length < count;
+      });
+    },
+
+    async listTags(locationCode) {
+      return readData().tags[locationCode] || [];
+    },
+
+    async setTags(locationCode, tags) {
+      await update(data => {
+        if (tags.length > 0) {
+          data.tags[locationCode] = [...tags].sort();
+        } else {
+          delete data.tags[locationCode];
+        }
+      });
+    },
+  };
+}
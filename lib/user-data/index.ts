@@ -0,0 +1,28 @@
+import { DATA_SOURCE } from '@/lib/config/data-source';
+import { UserDataStore } from './types';
+
+export type { UserDataStore, TWatchlistChanges, TNewWatchlistNotification, TNewExportLogEntry, TNewPropertyNote } from './types';
+
+let storePromise: Promise<UserDataStore> | null = null;
+
+// Supabase deployments keep user data in the database; the offline data sources use a JSON file
+async function createUserDataStore(): Promise<UserDataStore> {
+  if (DATA_SOURCE === 'supabase') {
+    const { createSupabaseUserDataStore } = await import('./supabase-user-data-store');
+    return createSupabaseUserDataStore();
+  }
+
+  const { createFileUserDataStore } = await import('./file-user-data-store');
+  return createFileUserDataStore();
+}
+
+// Get the store for the configured NEXT_PUBLIC_DATA_SOURCE (server-side only)
+export function getUserDataStore(): Promise<UserDataStore> {
+  if (!storePromise) {
+    storePromise = createUserDataStore().catch(error => {
+      storePromise = null; // Allow the next request to retry
+      throw error;
+    });
+  }
+  return storePromise;
+}
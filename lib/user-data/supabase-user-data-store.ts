@@ -0,0 +1,371 @@
+import { supabase } from '@/lib/supabaseClient';
+import { getSupabaseAdmin } from '@/lib/supabaseAdminClient';
+import { DEFAULT_LOG_PAGE_SIZE, dayAfter } from '@/lib/utils/audit-log';
+import { TExportLogEntry, TPropertyNote, TPropertyOverride, TSavedView, TWatchlist, TWatchlistNotification } from '@/types/property';
+import { TWatchlistChanges, UserDataStore } from './types';
+
+const WATCHLIST_COLUMNS = '*, watchlist_items(location_code, added_at)';
+
+function toSavedView(row: any): TSavedView {
+  return {
+    id: row.id,
+    page: row.page,
+    name: row.name,
+    query: row.query,
+    createdAt: row.created_at,
+  };
+}
+
+function toWatchlist(row: any): TWatchlist {
+  const items: { location_code: string; added_at: string }[] = row.watchlist_items || [];
+  return {
+    id: row.id,
+    name: row.name,
+    locationCodes: [...items]
+      .sort((a, b) => a.added_at.localeCompare(b.added_at))
+      .map(item => item.location_code),
+    alertThresholds: row.alert_thresholds || [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toNotification(row: any): TWatchlistNotification {
+  return {
+    id: row.id,
+    watchlistId: row.watchlist_id,
+    watchlistName: row.watchlist_name,
+    locationCode: row.location_code,
+    realPropertyAssetName: row.real_property_asset_name || '',
+    leaseNumber: row.lease_number,
+    leaseExpirationDate: row.lease_expiration_date,
+    thresholdDays: row.threshold_days,
+    daysToExpiration: row.days_to_expiration,
+    createdAt: row.created_at,
+    readAt: row.read_at,
+  };
+}
+
+function toExportLogEntry(row: any): TExportLogEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    userEmail: row.user_email,
+    dataset: row.dataset,
+    format: row.format,
+    rowCount: row.row_count ?? null,
+    query: row.query || '',
+    createdAt: row.created_at,
+  };
+}
+
+function toOverride(row: any): TPropertyOverride {
+  return {
+    locationCode: row.location_code,
+    leaseNumber: row.lease_number ?? null,
+    field: row.field,
+    value: row.value ?? null,
+    sourceValue: row.source_value ?? null,
+    updatedBy: row.updated_by,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toNote(row: any): TPropertyNote {
+  return {
+    id: row.id,
+    locationCode: row.location_code,
+    body: row.body,
+    authorId: row.author_id,
+    authorEmail: row.author_email,
+    createdAt: row.created_at,
+  };
+}
+
+// Rows per request when reading every override
+const PAGE_SIZE = 1000;
+
+// Throw Supabase errors after logging which operation failed
+function check<T>(result: { data: T; error: unknown }, operation: string): T {
+  if (result.error) {
+    console.error(`Error ${operation} in Supabase:`, result.error);
+    throw result.error;
+  }
+  return result.data;
+}
+
+// Keeps user data in the saved view, watchlist, export log and property annotation tables from supabase/schema.sql.
+// The per-user tables have no RLS policies, since the anon key ships to every browser: they are read and
+// written with the service role, scoped to the user the API route signed in.
+export function createSupabaseUserDataStore(): UserDataStore {
+  const store: UserDataStore = {
+    async listSavedViews(userId, page) {
+      const rows = check(
+        await getSupabaseAdmin().from('saved_views').select('*').eq('user_id', userId).eq('page', page).order('name'),
+        'listing saved views'
+      );
+      return (rows || []).map(toSavedView);
+    },
+
+    async saveView(userId, page, name, query) {
+      const row = check(
+        await getSupabaseAdmin()
+          .from('saved_views')
+          .upsert({ user_id: userId, page, name, query, created_at: new Date().toISOString() }, { onConflict: 'user_id,page,name' })
+          .select('*')
+          .single(),
+        'saving view'
+      );
+      return toSavedView(row);
+    },
+
+    async deleteSavedView(userId, id) {
+      const rows = check(
+        await getSupabaseAdmin().from('saved_views').delete().eq('user_id', userId).eq('id', id).select('id'),
+        'deleting saved view'
+      );
+      return (rows || []).length > 0;
+    },
+
+    async listWatchlists(userId) {
+      const rows = check(
+        await getSupabaseAdmin().from('watchlists').select(WATCHLIST_COLUMNS).eq('user_id', userId).order('name'),
+        'listing watchlists'
+      );
+      return (rows || []).map(toWatchlist);
+    },
+
+    async getWatchlist(userId, id) {
+      const row = check(
+        await getSupabaseAdmin().from('watchlists').select(WATCHLIST_COLUMNS).eq('user_id', userId).eq('id', id).maybeSingle(),
+        'fetching watchlist'
+      );
+      return row ? toWatchlist(row) : null;
+    },
+
+    async createWatchlist(userId, name, alertThresholds) {
+      const row = check(
+        await getSupabaseAdmin()
+          .from('watchlists')
+          .insert({ user_id: userId, name, alert_thresholds: alertThresholds })
+          .select(WATCHLIST_COLUMNS)
+          .single(),
+        'creating watchlist'
+      );
+      return toWatchlist(row);
+    },
+
+    async updateWatchlist(userId, id, changes: TWatchlistChanges) {
+      const existing = await store.getWatchlist(userId, id);
+      if (!existing) return null;
+
+      const fields: Record<string, unknown> = { updated_at: new Date().toISOString() };
+      if (changes.name !== undefined) fields.name = changes.name;
+      if (changes.alertThresholds !== undefined) fields.alert_thresholds = changes.alertThresholds;
+      check(await getSupabaseAdmin().from('watchlists').update(fields).eq('id', id), 'updating watchlist');
+
+      if (changes.remove?.length) {
+        check(
+          await getSupabaseAdmin().from('watchlist_items').delete().eq('watchlist_id', id).in('location_code', changes.remove),
+          'removing watchlist properties'
+        );
+      }
+      if (changes.add?.length) {
+        check(
+          await getSupabaseAdmin()
+            .from('watchlist_items')
+            .upsert(changes.add.map(code => ({ watchlist_id: id, location_code: code })), { ignoreDuplicates: true }),
+          'adding watchlist properties'
+        );
+      }
+
+      return store.getWatchlist(userId, id);
+    },
+
+    async deleteWatchlist(userId, id) {
+      const rows = check(
+        await getSupabaseAdmin().from('watchlists').delete().eq('user_id', userId).eq('id', id).select('id'),
+        'deleting watchlist'
+      );
+      return (rows || []).length > 0;
+    },
+
+    async listNotifications(userId) {
+      const rows = check(
+        await getSupabaseAdmin()
+          .from('watchlist_notifications')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false }),
+        'listing notifications'
+      );
+      return (rows || []).map(toNotification);
+    },
+
+    async addNotifications(userId, notifications) {
+      if (notifications.length === 0) return;
+
+      check(
+        await getSupabaseAdmin().from('watchlist_notifications').upsert(
+          notifications.map(notification => ({
+            user_id: userId,
+            watchlist_id: notification.watchlistId,
+            watchlist_name: notification.watchlistName,
+            location_code: notification.locationCode,
+            real_property_asset_name: notification.realPropertyAssetName,
+            lease_number: notification.leaseNumber,
+            lease_expiration_date: notification.leaseExpirationDate,
+            threshold_days: notification.thresholdDays,
+            days_to_expiration: notification.daysToExpiration,
+          })),
+          { onConflict: 'watchlist_id,location_code,lease_number,threshold_days', ignoreDuplicates: true }
+        ),
+        'adding notifications'
+      );
+    },
+
+    async markNotificationsRead(userId, ids) {
+      let query = getSupabaseAdmin()
+        .from('watchlist_notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null);
+      if (ids !== 'all') query = query.in('id', ids);
+
+      check(await query, 'marking notifications read');
+    },
+
+    // export_log has no policies, so the service role both adds and reads it
+    async logExport(entry) {
+      check(
+        await getSupabaseAdmin().from('export_log').insert({
+          user_id: entry.userId,
+          user_email: entry.userEmail,
+          dataset: entry.dataset,
+          format: entry.format,
+          row_count: entry.rowCount,
+          query: entry.query,
+        }),
+        'logging export'
+      );
+    },
+
+    async listExports(query = {}) {
+      let request = getSupabaseAdmin().from('export_log').select('*', { count: 'exact' });
+      if (query.user) {
+        const sanitized = query.user.replace(/[%_"\\]/g, ' ').trim();
+        if (sanitized) request = request.ilike('user_email', `%${sanitized}%`);
+      }
+      if (query.dataset) request = request.eq('dataset', query.dataset);
+      if (query.from) request = request.gte('created_at', query.from);
+      if (query.to) request = request.lt('created_at', dayAfter(query.to));
+
+      const limit = query.limit || DEFAULT_LOG_PAGE_SIZE;
+      const start = ((query.page || 1) - 1) * limit;
+      const result = await request.order('created_at', { ascending: false }).range(start, start + limit - 1);
+      const rows = check(result, 'listing exports');
+      return { entries: (rows || []).map(toExportLogEntry), total: result.count || 0 };
+    },
+
+    async listOverrides(locationCode) {
+      const overrides: TPropertyOverride[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        let request = supabase.from('property_overrides').select('*');
+        if (locationCode) request = request.eq('location_code', locationCode);
+        const rows = check(await request.order('id').range(from, from + PAGE_SIZE - 1), 'listing overrides') || [];
+        overrides.push(...rows.map(toOverride));
+        if (rows.length < PAGE_SIZE) return overrides;
+      }
+    },
+
+    // The annotation tables only have read policies, so overrides, notes and tags are written with the service role
+    async saveOverrides(overrides) {
+      if (overrides.length === 0) return;
+
+      check(
+        await getSupabaseAdmin().from('property_overrides').upsert(
+          overrides.map(override => ({
+            location_code: override.locationCode,
+            lease_number: override.leaseNumber,
+            field: override.field,
+            value: override.value,
+            source_value: override.sourceValue,
+            updated_by: override.updatedBy,
+            updated_at: override.updatedAt,
+          })),
+          { onConflict: 'location_code,lease_number,field' }
+        ),
+        'saving overrides'
+      );
+    },
+
+    async removeOverrides(locationCode, leaseNumber, fields) {
+      let request = getSupabaseAdmin()
+        .from('property_overrides')
+        .delete()
+        .eq('location_code', locationCode)
+        .in('field', fields);
+      request = leaseNumber === null ? request.is('lease_number', null) : request.eq('lease_number', leaseNumber);
+
+      const rows = check(await request.select('*'), 'removing overrides');
+      return (rows || []).map(toOverride);
+    },
+
+    async listNotes(locationCode) {
+      const rows = check(
+        await supabase
+          .from('property_notes')
+          .select('*')
+          .eq('location_code', locationCode)
+          .order('created_at', { ascending: false }),
+        'listing notes'
+      );
+      return (rows || []).map(toNote);
+    },
+
+    async addNote(note) {
+      const row = check(
+        await getSupabaseAdmin()
+          .from('property_notes')
+          .insert({
+            location_code: note.locationCode,
+            body: note.body,
+            author_id: note.authorId,
+            author_email: note.authorEmail,
+          })
+          .select('*')
+          .single(),
+        'adding note'
+      );
+      return toNote(row);
+    },
+
+    async deleteNote(locationCode, id) {
+      const rows = check(
+        await getSupabaseAdmin().from('property_notes').delete().eq('location_code', locationCode).eq('id', id).select('id'),
+        'deleting note'
+      );
+      return (rows || []).length > 0;
+    },
+
+    async listTags(locationCode) {
+      const rows = check(
+        await supabase.from('property_tags').select('tag').eq('location_code', locationCode).order('tag'),
+        'listing tags'
+      );
+      return (rows || []).map(row => row.tag);
+    },
+
+    async setTags(locationCode, tags) {
+      check(await getSupabaseAdmin().from('property_tags').delete().eq('location_code', locationCode), 'removing tags');
+      if (tags.length === 0) return;
+
+      check(
+        await getSupabaseAdmin().from('property_tags').insert(tags.map(tag => ({ location_code: locationCode, tag }))),
+        'adding tags'
+      );
+    },
+  };
+
+  return store;
+}
@@ -0,0 +1,90 @@
+import {
+  TExportLogEntry,
+  TExportLogQuery,
+  TPropertyNote,
+  TPropertyOverride,
+  TSavedView,
+  TWatchlist,
+  TWatchlistNotification,
+} from '@/types/property';
+
+export interface TWatchlistChanges {
+  name?: string;
+  alertThresholds?: number[];
+  add?: string[]; // Location codes to add
+  remove?: string[]; // Location codes to remove
+}
+
+// A notification before the store assigns its id and timestamps
+export type TNewWatchlistNotification = Omit<TWatchlistNotification, 'id' | 'createdAt' | 'readAt'>;
+
+// An export before the store assigns its id and timestamp
+export type TNewExportLogEntry = Omit<TExportLogEntry, 'id' | 'createdAt'>;
+
+// A note before the store assigns its id and timestamp
+export type TNewPropertyNote = Omit<TPropertyNote, 'id' | 'createdAt'>;
+
+// Data users create in the app, kept apart from the IOLP inventory. Saved views, watchlists and
+// notifications are scoped to one user; the export log, overrides, notes and tags are shared.
+// See getUserDataStore().
+export interface UserDataStore {
+  // One page's views, by name
+  listSavedViews(userId: string, page: string): Promise<TSavedView[]>;
+
+  // Save a query under a name, replacing the user's view of the same name on that page
+  saveView(userId: string, page: string, name: string, query: string): Promise<TSavedView>;
+
+  // False when the view does not exist or belongs to another user
+  deleteSavedView(userId: string, id: string): Promise<boolean>;
+
+  listWatchlists(userId: string): Promise<TWatchlist[]>;
+
+  // One watchlist, or null when it does not exist or belongs to another user
+  getWatchlist(userId: string, id: string): Promise<TWatchlist | null>;
+
+  createWatchlist(userId: string, name: string, alertThresholds: number[]): Promise<TWatchlist>;
+
+  // Rename, change thresholds and add or remove properties; null when the watchlist does not exist
+  updateWatchlist(userId: string, id: string, changes: TWatchlistChanges): Promise<TWatchlist | null>;
+
+  // False when the watchlist does not exist. Its notifications are deleted with it.
+  deleteWatchlist(userId: string, id: string): Promise<boolean>;
+
+  // Newest first
+  listNotifications(userId: string): Promise<TWatchlistNotification[]>;
+
+  // Notifications already raised for the same watchlist, location, lease and threshold are skipped
+  addNotifications(userId: string, notifications: TNewWatchlistNotification[]): Promise<void>;
+
+  // Mark the given notifications, or all of them, as read
+  markNotificationsRead(userId: string, ids: string[] | 'all'): Promise<void>;
+
+  // Append one download to the export log, which is never changed afterwards
+  logExport(entry: TNewExportLogEntry): Promise<void>;
+
+  // Exports by every user, newest first
+  listExports(query?: TExportLogQuery): Promise<{ entries: TExportLogEntry[]; total: number }>;
+
+  // Overrides of one location's building and leases, or of the whole inventory
+  listOverrides(locationCode?: string): Promise<TPropertyOverride[]>;
+
+  // Insert or replace overrides by location, lease number and field
+  saveOverrides(overrides: TPropertyOverride[]): Promise<void>;
+
+  // Delete the overrides of the given fields and return them, so their source values can be restored
+  removeOverrides(locationCode: string, leaseNumber: string | null, fields: string[]): Promise<TPropertyOverride[]>;
+
+  // Newest first
+  listNotes(locationCode: string): Promise<TPropertyNote[]>;
+
+  addNote(note: TNewPropertyNote): Promise<TPropertyNote>;
+
+  // False when the note does not exist on this location
+  deleteNote(locationCode: string, id: string): Promise<boolean>;
+
+  // Alphabetical
+  listTags(locationCode: string): Promise<string[]>;
+
+  // Replace every tag of a location
+  setTags(locationCode: string, tags: string[]): Promise<void>;
+}
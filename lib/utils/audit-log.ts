@@ -0,0 +1,26 @@
+import { TExportFormat } from '@/types/property';
+
+// Datasets the export log knows; compare is the buildings picked on /compare
+export const EXPORT_DATASETS = ['buildings', 'leases', 'compare', 'co-location'] as const;
+export type TExportDataset = (typeof EXPORT_DATASETS)[number];
+
+export const EXPORT_FORMATS: TExportFormat[] = ['csv', 'geojson', 'kml'];
+
+export const DEFAULT_LOG_PAGE_SIZE = 50;
+export const MAX_LOG_PAGE_SIZE = 500;
+
+// The day after a YYYY-MM-DD date, for inclusive "to" filters on timestamps
+export function dayAfter(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
+}
+
+// Record a download built in the browser. Fire and forget: logging never holds up the file.
+export function reportExport(dataset: TExportDataset, format: TExportFormat, rowCount: number, query: string = '') {
+  fetch('/api/exports', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ dataset, format, rowCount, query }),
+  }).catch(error => console.error('Error logging export:', error));
+}
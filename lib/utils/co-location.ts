@@ -0,0 +1,153 @@
+import {
+  TBuilding,
+  TCoLocationCandidate,
+  TCoLocationMatch,
+  TCoLocationQuery,
+  TCoLocationReport,
+  TLeaseRecord,
+} from '@/types/property';
+import { KM_PER_MILE, calculateDistance } from '@/lib/utils/google-maps';
+import { findBuildingsInArea } from '@/lib/data-sources/spatial-index';
+
+const DEFAULT_LIMIT = 50;
+
+const hasCoordinates = (record: { latitude: number; longitude: number }) => Boolean(record.latitude && record.longitude);
+
+// Owned buildings within the radius of one lease whose available space covers its rentable square feet
+function findCandidates(
+  lease: TCoLocationMatch,
+  buildings: TBuilding[],
+  radiusMiles: number
+): TCoLocationCandidate[] {
+  const nearby = findBuildingsInArea(buildings, { near: { lat: lease.latitude, lng: lease.longitude }, radiusMiles }) || [];
+
+  return nearby
+    .filter(building =>
+      building.ownedOrLeased === 'F' &&
+      building.locationCode !== lease.locationCode &&
+      (building.availableSquareFeet || 0) >= lease.rentableSquareFeet
+    )
+    .map(building => ({
+      locationCode: building.locationCode,
+      realPropertyAssetName: building.realPropertyAssetName,
+      city: building.city,
+      state: building.state,
+      latitude: building.latitude,
+      longitude: building.longitude,
+      availableSquareFeet: Math.round(building.availableSquareFeet),
+      distanceMiles: calculateDistance(lease.latitude, lease.longitude, building.latitude, building.longitude) / KM_PER_MILE,
+      fitPercent: (lease.rentableSquareFeet / building.availableSquareFeet) * 100,
+    }))
+    // The tightest fit leaves the least space unused; nearer buildings break ties
+    .sort((a, b) => b.fitPercent - a.fitPercent || a.distanceMiles - b.distanceMiles);
+}
+
+// Active leases that an owned building within `radiusMiles` has the free space to absorb.
+// Leases without coordinates use those of their building, and are skipped when neither has any.
+export function findCoLocationMatches(
+  buildings: TBuilding[],
+  leases: TLeaseRecord[],
+  query: TCoLocationQuery
+): { activeLeases: number; matches: TCoLocationMatch[] } {
+  const buildingsByCode = new Map(buildings.map(building => [building.locationCode, building]));
+
+  const activeLeases = leases.filter(lease =>
+    lease.leaseStatus === 'active' &&
+    (!query.state || lease.state === query.state) &&
+    (!query.gsaRegion || lease.gsaRegion === query.gsaRegion)
+  );
+
+  const matches = activeLeases
+    .filter(lease => lease.buildingRentableSquareFeet > 0)
+    .map((lease): TCoLocationMatch | null => {
+      const location = hasCoordinates(lease) ? lease : buildingsByCode.get(lease.locationCode);
+      if (!location || !hasCoordinates(location)) return null;
+
+      const match: TCoLocationMatch = {
+        locationCode: lease.locationCode,
+        leaseNumber: lease.leaseNumber,
+        realPropertyAssetName: lease.realPropertyAssetName,
+        city: lease.city,
+        state: lease.state,
+        gsaRegion: lease.gsaRegion,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        rentableSquareFeet: Math.round(lease.buildingRentableSquareFeet),
+        leaseExpirationDate: lease.leaseExpirationDate,
+        candidates: [],
+      };
+      match.candidates = findCandidates(match, buildings, query.radiusMiles);
+      return match.candidates.length > 0 ? match : null;
+    })
+    .filter((match): match is TCoLocationMatch => match !== null);
+
+  const byExpiration = (a: TCoLocationMatch, b: TCoLocationMatch) =>
+    a.leaseExpirationDate.localeCompare(b.leaseExpirationDate);
+  const byFit = (a: TCoLocationMatch, b: TCoLocationMatch) =>
+    b.candidates[0].fitPercent - a.candidates[0].fitPercent;
+
+  matches.sort(query.sortBy === 'fit'
+    ? (a, b) => byFit(a, b) || byExpiration(a, b)
+    : (a, b) => byExpiration(a, b) || byFit(a, b));
+
+  return { activeLeases: activeLeases.length, matches };
+}
+
+// One page of co-location matches for GET /api/analytics/co-location
+export function buildCoLocationReport(
+  buildings: TBuilding[],
+  leases: TLeaseRecord[],
+  query: TCoLocationQuery
+): TCoLocationReport {
+  const { activeLeases, matches } = findCoLocationMatches(buildings, leases, query);
+  const limit = query.limit || DEFAULT_LIMIT;
+  const start = ((query.page || 1) - 1) * limit;
+
+  return {
+    radiusMiles: query.radiusMiles,
+    activeLeases,
+    matches: matches.slice(start, start + limit),
+    total: matches.length,
+  };
+}
+
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+
+// One CSV row per lease and candidate pair, in match order
+export function toCoLocationCsv(matches: TCoLocationMatch[]): string {
+  const headers = [
+    'Lease Number',
+    'Leased Location Code',
+    'Leased Property',
+    'City',
+    'State',
+    'Lease Rentable Sq Ft',
+    'Lease Expiration',
+    'Owned Location Code',
+    'Owned Property',
+    'Owned City',
+    'Owned State',
+    'Owned Available Sq Ft',
+    'Distance (mi)',
+    'Fit (%)',
+  ];
+
+  const rows = matches.flatMap(match => match.candidates.map(candidate => [
+    match.leaseNumber,
+    match.locationCode,
+    match.realPropertyAssetName,
+    match.city,
+    match.state,
+    match.rentableSquareFeet,
+    match.leaseExpirationDate,
+    candidate.locationCode,
+    candidate.realPropertyAssetName,
+    candidate.city,
+    candidate.state,
+    candidate.availableSquareFeet,
+    candidate.distanceMiles.toFixed(1),
+    candidate.fitPercent.toFixed(1),
+  ].map(csvCell).join(',')));
+
+  return [headers.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,52 @@
+// A building picked for side by side comparison
+export interface TCompareItem {
+  locationCode: string;
+  name: string;
+}
+
+export const MIN_COMPARE = 2;
+export const MAX_COMPARE = 5;
+
+// The tray is kept in the browser's localStorage so it survives navigating between pages
+const STORAGE_KEY = 'propertyViewer.compareTray';
+
+// Fired on window whenever the tray changes, so every tray and button on the page stays in sync
+export const COMPARE_TRAY_EVENT = 'propertyViewer:compareTray';
+
+export function listCompareItems(): TCompareItem[] {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading compare tray:', error);
+    return [];
+  }
+}
+
+function storeCompareItems(items: TCompareItem[]): TCompareItem[] {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  window.dispatchEvent(new Event(COMPARE_TRAY_EVENT));
+  return items;
+}
+
+// Add a building unless it is already in the tray or the tray is full
+export function addCompareItem(item: TCompareItem): TCompareItem[] {
+  const items = listCompareItems();
+  if (items.length >= MAX_COMPARE || items.some(existing => existing.locationCode === item.locationCode)) {
+    return items;
+  }
+  return storeCompareItems([...items, item]);
+}
+
+export function removeCompareItem(locationCode: string): TCompareItem[] {
+  return storeCompareItems(listCompareItems().filter(item => item.locationCode !== locationCode));
+}
+
+export function clearCompareItems(): TCompareItem[] {
+  return storeCompareItems([]);
+}
+
+// /compare?ids=A,B,C
+export function getCompareUrl(locationCodes: string[]): string {
+  return `/compare?ids=${locationCodes.map(encodeURIComponent).join(',')}`;
+}
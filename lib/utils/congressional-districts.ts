@@ -0,0 +1,205 @@
+import {
+  TBuilding,
+  TCongressionalDistrict,
+  TDistrictDetail,
+  TDistrictSummary,
+  TLeaseRecord,
+} from '@/types/property';
+import { getExpiringWindow, isLeaseExpiringIn } from './dates';
+
+// Postal codes by state FIPS code, including DC and the territories with a delegate
+export const STATE_FIPS: Record<string, string> = {
+  '01': 'AL', '02': 'AK', '04': 'AZ', '05': 'AR', '06': 'CA', '08': 'CO', '09': 'CT', '10': 'DE',
+  '11': 'DC', '12': 'FL', '13': 'GA', '15': 'HI', '16': 'ID', '17': 'IL', '18': 'IN', '19': 'IA',
+  '20': 'KS', '21': 'KY', '22': 'LA', '23': 'ME', '24': 'MD', '25': 'MA', '26': 'MI', '27': 'MN',
+  '28': 'MS', '29': 'MO', '30': 'MT', '31': 'NE', '32': 'NV', '33': 'NH', '34': 'NJ', '35': 'NM',
+  '36': 'NY', '37': 'NC', '38': 'ND', '39': 'OH', '40': 'OK', '41': 'OR', '42': 'PA', '44': 'RI',
+  '45': 'SC', '46': 'SD', '47': 'TN', '48': 'TX', '49': 'UT', '50': 'VT', '51': 'VA', '53': 'WA',
+  '54': 'WV', '55': 'WI', '56': 'WY', '60': 'AS', '66': 'GU', '69': 'MP', '72': 'PR', '78': 'VI',
+};
+
+const AT_LARGE = 0;
+const DELEGATE = 98;
+
+// A district's expiring leases are those ending within the next year
+const EXPIRING_WITHIN_MONTHS = 12;
+
+// Decode a stored district such as 1309 (GA-09) or 408 (AZ-08). Returns null for 0 and unknown states.
+export function decodeDistrict(value: number | string | null | undefined): TCongressionalDistrict | null {
+  const code = String(value ?? '').trim().padStart(4, '0');
+  if (!/^\d{4}$/.test(code)) return null;
+
+  const stateFips = code.slice(0, 2);
+  const state = STATE_FIPS[stateFips];
+  if (!state) return null;
+
+  const district = Number(code.slice(2));
+  let label = `${state}-${String(district).padStart(2, '0')}`;
+  if (district === AT_LARGE) label = `${state}-AL`;
+  if (district === DELEGATE) label = `${state}-Delegate`;
+
+  return { code, stateFips, state, district, label };
+}
+
+// Name parts that keep their own capitalisation
+const NAME_SUFFIXES: Record<string, string> = { JR: 'Jr.', SR: 'Sr.', II: 'II', III: 'III', IV: 'IV' };
+
+function capitalizeNamePart(part: string): string {
+  const lower = part.toLowerCase();
+  const capitalized = lower.charAt(0).toUpperCase() + lower.slice(1);
+  // McClain, O'Rourke
+  return capitalized
+    .replace(/^Mc(\w)/, (_, letter: string) => `Mc${letter.toUpperCase()}`)
+    .replace(/^O'(\w)/, (_, letter: string) => `O'${letter.toUpperCase()}`);
+}
+
+// The buildings file spells representatives in mixed case ("Andrew Clyde"), the leases file in
+// capitals ("GARY PALMER"). Mixed case is kept as is; all-caps names are title cased.
+export function normalizeRepresentativeName(name: string | null | undefined): string {
+  const trimmed = (name || '').replace(/\s+/g, ' ').trim();
+  // Open seats are listed as "Vacant Vacant" (first and last name)
+  if (/^(vacant ?)+$/i.test(trimmed)) return 'Vacant';
+  if (!trimmed || trimmed !== trimmed.toUpperCase()) return trimmed;
+
+  return trimmed
+    .split(' ')
+    .map(word => {
+      const suffix = NAME_SUFFIXES[word.replace(/[.,]/g, '')];
+      if (suffix) return suffix;
+      return word.split('-').map(capitalizeNamePart).join('-');
+    })
+    .join(' ');
+}
+
+// Key under which spellings of the same name are merged: "Raúl Grijalva", "RAUL GRIJALVA" and
+// "Raul Grijalva" share one, as do "Doug LaMalfa" and "Doug Lamalfa"
+export function representativeNameKey(name: string | null | undefined): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/[^A-Z ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Rows naming one representative, and how often each spelling appears
+interface TNameTally {
+  rows: number;
+  spellings: Map<string, number>;
+}
+
+// Accumulates the rows of one district
+interface TDistrictTally {
+  district: TCongressionalDistrict;
+  names: Map<string, TNameTally>;
+  buildings: TBuilding[];
+  leases: TLeaseRecord[];
+}
+
+function addName(tally: TDistrictTally, name: string) {
+  const normalized = normalizeRepresentativeName(name);
+  const key = representativeNameKey(normalized);
+  if (!key) return;
+
+  if (!tally.names.has(key)) tally.names.set(key, { rows: 0, spellings: new Map() });
+  const names = tally.names.get(key)!;
+  names.rows += 1;
+  // Spellings as written in mixed case are preferred over ones title cased from capitals
+  const weight = normalized === name.replace(/\s+/g, ' ').trim() ? 1 : 0;
+  names.spellings.set(normalized, (names.spellings.get(normalized) || 0) + weight);
+}
+
+function preferredSpelling(names: TNameTally): string {
+  return Array.from(names.spellings).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+}
+
+function tallyDistricts(buildings: TBuilding[], leases: TLeaseRecord[]): Map<string, TDistrictTally> {
+  const tallies = new Map<string, TDistrictTally>();
+  const getTally = (value: number): TDistrictTally | null => {
+    const district = decodeDistrict(value);
+    if (!district) return null;
+    if (!tallies.has(district.code)) {
+      tallies.set(district.code, { district, names: new Map(), buildings: [], leases: [] });
+    }
+    return tallies.get(district.code)!;
+  };
+
+  buildings.forEach(building => {
+    const tally = getTally(building.congressionalDistrict);
+    if (!tally) return;
+    tally.buildings.push(building);
+    addName(tally, building.congressionalDistrictRepresentativeName);
+  });
+
+  leases.forEach(lease => {
+    const tally = getTally(lease.congressionalDistrict);
+    if (!tally) return;
+    tally.leases.push(lease);
+    addName(tally, lease.congressionalDistrictRepresentative);
+  });
+
+  return tallies;
+}
+
+function summarize(tally: TDistrictTally, today: Date): TDistrictSummary {
+  const expiring = getExpiringWindow(today, EXPIRING_WITHIN_MONTHS);
+
+  // Most common name first
+  const names = Array.from(tally.names.values())
+    .sort((a, b) => b.rows - a.rows)
+    .map(preferredSpelling);
+  const owned = tally.buildings.filter(building => building.ownedOrLeased === 'F');
+  const leased = tally.buildings.filter(building => building.ownedOrLeased === 'L');
+  const sumSquareFeet = (rows: TBuilding[]) =>
+    Math.round(rows.reduce((sum, building) => sum + (building.buildingRentableSquareFeet || 0), 0));
+
+  return {
+    ...tally.district,
+    representative: names[0] || '',
+    otherRepresentativeNames: names.slice(1),
+    buildings: tally.buildings.length,
+    ownedBuildings: owned.length,
+    leasedBuildings: leased.length,
+    ownedSquareFeet: sumSquareFeet(owned),
+    leasedSquareFeet: sumSquareFeet(leased),
+    leases: tally.leases.length,
+    expiringLeases: tally.leases.filter(lease => isLeaseExpiringIn(lease, expiring)).length,
+  };
+}
+
+// Every district with buildings or leases, in state then district order
+export function buildDistrictSummaries(
+  buildings: TBuilding[],
+  leases: TLeaseRecord[],
+  today: Date = new Date()
+): TDistrictSummary[] {
+  return Array.from(tallyDistricts(buildings, leases).values())
+    .map(tally => summarize(tally, today))
+    .sort((a, b) => a.state.localeCompare(b.state) || a.district - b.district);
+}
+
+// Portfolio of one district, or null when no building or lease is recorded for it
+export function buildDistrictDetail(
+  code: string,
+  buildings: TBuilding[],
+  leases: TLeaseRecord[],
+  today: Date = new Date()
+): TDistrictDetail | null {
+  const district = decodeDistrict(code);
+  if (!district) return null;
+
+  const tally = tallyDistricts(
+    buildings.filter(building => decodeDistrict(building.congressionalDistrict)?.code === district.code),
+    leases.filter(lease => decodeDistrict(lease.congressionalDistrict)?.code === district.code)
+  ).get(district.code);
+  if (!tally) return null;
+
+  return {
+    summary: summarize(tally, today),
+    buildings: [...tally.buildings].sort((a, b) => b.buildingRentableSquareFeet - a.buildingRentableSquareFeet),
+    leases: [...tally.leases].sort((a, b) =>
+      (a.leaseExpirationDate || '9999').localeCompare(b.leaseExpirationDate || '9999')
+    ),
+  };
+}
@@ -1,4 +1,5 @@
-import { TBuilding, TLeasedProperty, TChartData, TDashboardStats } from '@/types/property';
+import { TBuilding, TLeasedProperty, TLeaseRecord, TChartData, TDashboardStats, TStateMetrics } from '@/types/property';
+import { getExpiringWindow, isLeaseActiveOn, isLeaseExpiringIn } from './dates';
 
 // Format number with commas
 export function formatNumber(num: number): string {
@@ -104,6 +105,64 @@ export function groupPropertiesByState(buildings: TBuilding[]): TChartData[] {
     .slice(0, 10); // Top 10 states
 }
 
+// Per-state metrics for the map's state layer, one entry per state with buildings or leases.
+// Leases count as active on dates between their effective and expiration dates (inclusive).
+export function calculateStateMetrics(
+  buildings: TBuilding[],
+  leases: TLeaseRecord[],
+  today: Date = new Date(),
+  expiringWithinMonths: number = 24
+): TStateMetrics[] {
+  const expiring = getExpiringWindow(today, expiringWithinMonths);
+
+  const states: { [key: string]: TStateMetrics } = {};
+  const getState = (state: string): TStateMetrics => {
+    if (!states[state]) {
+      states[state] = {
+        state,
+        buildings: 0,
+        ownedBuildings: 0,
+        leasedBuildings: 0,
+        rentableSquareFeet: 0,
+        availableSquareFeet: 0,
+        leasedShare: 0,
+        vacancyRate: 0,
+        activeLeases: 0,
+        expiringLeases: 0,
+        expiringLeaseShare: 0,
+      };
+    }
+    return states[state];
+  };
+
+  buildings.forEach(building => {
+    const metrics = getState(building.state);
+    metrics.buildings += 1;
+    if (building.ownedOrLeased === 'F') metrics.ownedBuildings += 1;
+    if (building.ownedOrLeased === 'L') metrics.leasedBuildings += 1;
+    metrics.rentableSquareFeet += building.buildingRentableSquareFeet || 0;
+    metrics.availableSquareFeet += building.availableSquareFeet || 0;
+  });
+
+  leases.forEach(lease => {
+    if (!isLeaseActiveOn(lease, expiring.from)) return;
+    const metrics = getState(lease.state);
+    metrics.activeLeases += 1;
+    if (isLeaseExpiringIn(lease, expiring)) metrics.expiringLeases += 1;
+  });
+
+  return Object.values(states)
+    .map(metrics => ({
+      ...metrics,
+      rentableSquareFeet: Math.round(metrics.rentableSquareFeet),
+      availableSquareFeet: Math.round(metrics.availableSquareFeet),
+      leasedShare: metrics.buildings > 0 ? (metrics.leasedBuildings / metrics.buildings) * 100 : 0,
+      vacancyRate: metrics.rentableSquareFeet > 0 ? (metrics.availableSquareFeet / metrics.rentableSquareFeet) * 100 : 0,
+      expiringLeaseShare: metrics.activeLeases > 0 ? (metrics.expiringLeases / metrics.activeLeases) * 100 : 0,
+    }))
+    .sort((a, b) => a.state.localeCompare(b.state));
+}
+
 // Calculate statistics for owned properties only
 export function calculateOwnedPropertyStats(buildings: TBuilding[]): TDashboardStats {
   const ownedBuildings = buildings.filter(building => building.ownedOrLeased === 'F');
@@ -320,6 +379,11 @@ export function getStreetViewUrl(address: string): string {
   return `${baseUrl}${encodeURIComponent(address)}`;
 }
 
+// Link to the detail page for a single property
+export function getPropertyUrl(locationCode: string): string {
+  return `/property/${encodeURIComponent(locationCode)}`;
+}
+
 // Calculate space utilization comparison between owned and leased
 export function calculateSpaceUtilizationComparison(buildings: TBuilding[]): {
   owned: TChartData[];
@@ -0,0 +1,38 @@
+import { TLeaseRecord } from '@/types/property';
+
+type TLeaseDates = Pick<TLeaseRecord, 'leaseEffectiveDate' | 'leaseExpirationDate'>;
+
+// YYYY-MM-DD in local time, the format lease dates are stored in
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// A date from a CSV export as YYYY-MM-DD, or null when it cannot be parsed. ISO dates keep their
+// parts as written; other formats (e.g. 2/12/2020) are read and written back in local time, so no
+// time zone can move them to the day before or after.
+export function parseDateString(value: string): string | null {
+  const iso = value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:$|[T ])/);
+  if (iso) return iso[1];
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : toDateString(date);
+}
+
+// From `today` through the same day `months` months later, as YYYY-MM-DD strings
+export function getExpiringWindow(today: Date, months: number): { from: string; to: string } {
+  const expiringBy = new Date(today);
+  expiringBy.setMonth(expiringBy.getMonth() + months);
+  return { from: toDateString(today), to: toDateString(expiringBy) };
+}
+
+// In effect on the date, counting its effective and expiration dates
+export function isLeaseActiveOn(lease: TLeaseDates, date: string): boolean {
+  return lease.leaseEffectiveDate <= date && lease.leaseExpirationDate >= date;
+}
+
+// In effect at the start of the window and expiring before it ends
+export function isLeaseExpiringIn(lease: TLeaseDates, window: { from: string; to: string }): boolean {
+  return isLeaseActiveOn(lease, window.from) && lease.leaseExpirationDate <= window.to;
+}
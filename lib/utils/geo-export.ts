@@ -0,0 +1,132 @@
+import { TBuilding, TLeaseRecord } from '@/types/property';
+
+// Records that can be placed on a map
+type TGeoRecord = TBuilding | TLeaseRecord;
+
+type TGeoProperties = Record<string, string | number | null>;
+
+export interface TGeoFeature {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: [number, number] };
+  properties: TGeoProperties;
+}
+
+export interface TGeoFeatureCollection {
+  type: 'FeatureCollection';
+  features: TGeoFeature[];
+}
+
+// The result of an export, with the number of records left out for missing coordinates
+export interface TGeoExport<T> {
+  content: T;
+  skipped: number;
+}
+
+export const GEOJSON_CONTENT_TYPE = 'application/geo+json';
+export const KML_CONTENT_TYPE = 'application/vnd.google-earth.kml+xml';
+
+// Coordinates of 0 mean the IOLP export has no location for the record
+export function hasCoordinates(record: { latitude: number; longitude: number }): boolean {
+  return Boolean(record.latitude && record.longitude && !isNaN(record.latitude) && !isNaN(record.longitude));
+}
+
+// Every TBuilding/TLeaseRecord field, with unset values as null
+function toProperties(record: TGeoRecord): TGeoProperties {
+  const properties: TGeoProperties = {};
+  Object.entries(record).forEach(([key, value]) => {
+    properties[key] = value === undefined ? null : value;
+  });
+  return properties;
+}
+
+// Build a GeoJSON FeatureCollection of points, skipping records without coordinates
+export function toFeatureCollection(records: TGeoRecord[]): TGeoExport<TGeoFeatureCollection> {
+  const mappable = records.filter(hasCoordinates);
+
+  return {
+    content: {
+      type: 'FeatureCollection',
+      features: mappable.map(record => ({
+        type: 'Feature',
+        // GeoJSON positions are [longitude, latitude]
+        geometry: { type: 'Point', coordinates: [record.longitude, record.latitude] },
+        properties: toProperties(record),
+      })),
+    },
+    skipped: records.length - mappable.length,
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Owned and leased placemarks use the map's marker colors (KML colors are aabbggrr)
+const KML_STYLES = `    <Style id="owned"><IconStyle><color>ff81b910</color></IconStyle></Style>
+    <Style id="leased"><IconStyle><color>fff6823b</color></IconStyle></Style>`;
+
+function toPlacemark(record: TGeoRecord): string {
+  const isOwned = 'ownedOrLeased' in record && record.ownedOrLeased === 'F';
+  const data = Object.entries(toProperties(record))
+    .map(([key, value]) => `        <Data name="${key}"><value>${escapeXml(value === null ? '' : String(value))}</value></Data>`)
+    .join('\n');
+
+  return `    <Placemark>
+      <name>${escapeXml(record.realPropertyAssetName || record.locationCode)}</name>
+      <styleUrl>#${isOwned ? 'owned' : 'leased'}</styleUrl>
+      <ExtendedData>
+${data}
+      </ExtendedData>
+      <Point><coordinates>${record.longitude},${record.latitude}</coordinates></Point>
+    </Placemark>`;
+}
+
+// Build a KML document of placemarks, skipping records without coordinates
+export function toKml(records: TGeoRecord[], documentName: string): TGeoExport<string> {
+  const mappable = records.filter(hasCoordinates);
+
+  const content = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(documentName)}</name>
+${KML_STYLES}
+${mappable.map(toPlacemark).join('\n')}
+  </Document>
+</kml>
+`;
+
+  return { content, skipped: records.length - mappable.length };
+}
+
+// Response headers for a downloadable export. X-Skipped-Records reports rows left out for missing coordinates.
+export function geoExportHeaders(contentType: string, filename: string, skipped: number): HeadersInit {
+  return {
+    'Content-Type': `${contentType}; charset=utf-8`,
+    'Content-Disposition': `attachment; filename="${filename}"`,
+    'X-Skipped-Records': String(skipped),
+  };
+}
+
+// Date-stamped download name, e.g. buildings-2025-06-06.geojson
+export function exportFilename(prefix: string, extension: 'geojson' | 'kml' | 'csv'): string {
+  return `${prefix}-${new Date().toISOString().split('T')[0]}.${extension}`;
+}
+
+// Save an export from the browser
+export function downloadExport(content: string, filename: string, contentType: string) {
+  const blob = new Blob([content], { type: `${contentType};charset=utf-8;` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -134,6 +134,8 @@ export function fitMapToMarkers(
   });
 }
 
+export const KM_PER_MILE = 1.609344;
+
 export function calculateDistance(
   lat1: number,
   lng1: number,
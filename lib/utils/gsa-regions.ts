@@ -0,0 +1,97 @@
+import { TBuilding, TGsaRegionSummary, TLeaseRecord } from '@/types/property';
+import { getExpiringWindow, isLeaseExpiringIn } from './dates';
+
+// The 11 GSA regions and the states and territories each one serves. The National Capital
+// Region also covers the DC suburbs in Maryland and Virginia, which are listed under region 3.
+export const GSA_REGIONS: Record<number, { name: string; states: string[] }> = {
+  1: { name: 'New England', states: ['CT', 'MA', 'ME', 'NH', 'RI', 'VT'] },
+  2: { name: 'Northeast and Caribbean', states: ['NJ', 'NY', 'PR', 'VI'] },
+  3: { name: 'Mid-Atlantic', states: ['DE', 'MD', 'PA', 'VA', 'WV'] },
+  4: { name: 'Southeast Sunbelt', states: ['AL', 'FL', 'GA', 'KY', 'MS', 'NC', 'SC', 'TN'] },
+  5: { name: 'Great Lakes', states: ['IL', 'IN', 'MI', 'MN', 'OH', 'WI'] },
+  6: { name: 'Heartland', states: ['IA', 'KS', 'MO', 'NE'] },
+  7: { name: 'Greater Southwest', states: ['AR', 'LA', 'NM', 'OK', 'TX'] },
+  8: { name: 'Rocky Mountain', states: ['CO', 'MT', 'ND', 'SD', 'UT', 'WY'] },
+  9: { name: 'Pacific Rim', states: ['AS', 'AZ', 'CA', 'GU', 'HI', 'MP', 'NV'] },
+  10: { name: 'Northwest/Arctic', states: ['AK', 'ID', 'OR', 'WA'] },
+  11: { name: 'National Capital', states: ['DC'] },
+};
+
+// Regions plan further ahead than districts: leases ending within two years count as expiring
+const EXPIRING_WITHIN_MONTHS = 24;
+
+// Over half the leased buildings are listed as built in 2000 (against ~50 for 1999 or 2001),
+// a fill-in for an unknown year, so that year is ignored for leased buildings
+export const LEASED_PLACEHOLDER_YEAR = 2000;
+
+// "Region 4 · Southeast Sunbelt", or just "Region 12" for a number outside the table
+export function getRegionLabel(region: number | string): string {
+  const info = GSA_REGIONS[Number(region)];
+  return info ? `Region ${region} · ${info.name}` : `Region ${region}`;
+}
+
+// Home region of a state, or undefined for states outside the table
+export function getStateRegion(state: string): number | undefined {
+  const entry = Object.entries(GSA_REGIONS).find(([, info]) => info.states.includes(state));
+  return entry ? Number(entry[0]) : undefined;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function summarize(
+  region: number,
+  buildings: TBuilding[],
+  leases: TLeaseRecord[],
+  today: Date
+): TGsaRegionSummary {
+  const expiring = getExpiringWindow(today, EXPIRING_WITHIN_MONTHS);
+
+  const rentableSquareFeet = buildings.reduce((sum, building) => sum + (building.buildingRentableSquareFeet || 0), 0);
+  const availableSquareFeet = buildings.reduce((sum, building) => sum + (building.availableSquareFeet || 0), 0);
+  const ages = buildings
+    .filter(building => building.constructionDate)
+    .filter(building => !(building.ownedOrLeased === 'L' && Number(building.constructionDate) === LEASED_PLACEHOLDER_YEAR))
+    .map(building => today.getFullYear() - Number(building.constructionDate));
+
+  return {
+    region,
+    name: GSA_REGIONS[region]?.name || 'Unknown',
+    states: GSA_REGIONS[region]?.states || [],
+    buildings: buildings.length,
+    ownedBuildings: buildings.filter(building => building.ownedOrLeased === 'F').length,
+    leasedBuildings: buildings.filter(building => building.ownedOrLeased === 'L').length,
+    rentableSquareFeet: Math.round(rentableSquareFeet),
+    availableSquareFeet: Math.round(availableSquareFeet),
+    vacancyRate: rentableSquareFeet > 0 ? (availableSquareFeet / rentableSquareFeet) * 100 : 0,
+    medianBuildingAge: median(ages),
+    leases: leases.length,
+    expiringLeases: leases.filter(lease => isLeaseExpiringIn(lease, expiring)).length,
+  };
+}
+
+// One summary per GSA region in region order, including regions without any rows.
+// Rows without a region (0) are left out.
+export function buildRegionSummaries(
+  buildings: TBuilding[],
+  leases: TLeaseRecord[],
+  today: Date = new Date()
+): TGsaRegionSummary[] {
+  const regions = new Set(Object.keys(GSA_REGIONS).map(Number));
+  [...buildings, ...leases].forEach(row => {
+    if (row.gsaRegion) regions.add(row.gsaRegion);
+  });
+
+  return Array.from(regions)
+    .sort((a, b) => a - b)
+    .map(region => summarize(
+      region,
+      buildings.filter(building => building.gsaRegion === region),
+      leases.filter(lease => lease.gsaRegion === region),
+      today
+    ));
+}
@@ -0,0 +1,131 @@
+import {
+  TContinuityIssue,
+  TLeaseContinuity,
+  TLeaseContinuityQuery,
+  TLeaseContinuityReport,
+  TLeaseRecord,
+} from '@/types/property';
+
+// Lease fields the analyzer needs, shared by TLeaseRecord and the CSV LeaseData
+interface TDatedLease {
+  leaseNumber: string;
+  leaseEffectiveDate: string;
+  leaseExpirationDate: string;
+}
+
+interface TLeaseInterval {
+  leaseNumber: string;
+  start: number;
+  end: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Days since the epoch for a YYYY-MM-DD date, or null when it isn't one
+function toDay(date: string): number | null {
+  if (!DATE_PATTERN.test(date)) return null;
+  return Date.UTC(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10))) / DAY_MS;
+}
+
+function fromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split('T')[0];
+}
+
+function toIssue(type: TContinuityIssue['type'], start: number, end: number, before: TLeaseInterval, after: TLeaseInterval): TContinuityIssue {
+  return {
+    type,
+    start: fromDay(start),
+    end: fromDay(end),
+    days: end - start + 1,
+    leaseNumbers: [before.leaseNumber, after.leaseNumber],
+  };
+}
+
+// Find the gaps and overlaps between successive leases at one location.
+// Both lease dates are inclusive, so a lease expiring on the 31st followed by one effective on the 1st is continuous.
+export function analyzeLeaseContinuity(locationCode: string, leases: TDatedLease[]): TLeaseContinuity {
+  const intervals = leases
+    .map(lease => ({
+      leaseNumber: lease.leaseNumber,
+      start: toDay(lease.leaseEffectiveDate),
+      end: toDay(lease.leaseExpirationDate),
+    }))
+    .filter((lease): lease is TLeaseInterval => lease.start !== null && lease.end !== null && lease.start <= lease.end)
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  const gaps: TContinuityIssue[] = [];
+  const overlaps: TContinuityIssue[] = [];
+  let coveredDays = 0;
+  // The lease reaching furthest so far; later leases are compared against it
+  let cover: TLeaseInterval | null = null;
+
+  for (const lease of intervals) {
+    if (!cover) {
+      coveredDays += lease.end - lease.start + 1;
+    } else if (lease.start > cover.end + 1) {
+      gaps.push(toIssue('gap', cover.end + 1, lease.start - 1, cover, lease));
+      coveredDays += lease.end - lease.start + 1;
+    } else {
+      // The same lease number listed twice (e.g. one row per floor) is one lease, not a double payment
+      if (lease.start <= cover.end && lease.leaseNumber !== cover.leaseNumber) {
+        overlaps.push(toIssue('overlap', lease.start, Math.min(lease.end, cover.end), cover, lease));
+      }
+      coveredDays += Math.max(0, lease.end - cover.end);
+    }
+
+    if (!cover || lease.end > cover.end) cover = lease;
+  }
+
+  return {
+    locationCode,
+    leaseCount: leases.length,
+    spanStart: intervals.length > 0 ? fromDay(intervals[0].start) : null,
+    spanEnd: cover ? fromDay(cover.end) : null,
+    coveredDays,
+    gapDays: gaps.reduce((sum, gap) => sum + gap.days, 0),
+    overlapDays: overlaps.reduce((sum, overlap) => sum + overlap.days, 0),
+    gaps,
+    overlaps,
+  };
+}
+
+// Continuity of every location with leases, most days at risk first
+export function buildContinuityReport(leases: TLeaseRecord[], query: TLeaseContinuityQuery = {}): TLeaseContinuityReport {
+  const leasesByLocation = new Map<string, TLeaseRecord[]>();
+  leases.forEach(lease => {
+    if (!lease.locationCode) return;
+    if (query.locationCode && lease.locationCode !== query.locationCode) return;
+    if (query.state && lease.state !== query.state) return;
+
+    if (!leasesByLocation.has(lease.locationCode)) {
+      leasesByLocation.set(lease.locationCode, []);
+    }
+    leasesByLocation.get(lease.locationCode)!.push(lease);
+  });
+
+  const analyzed = Array.from(leasesByLocation, ([locationCode, locationLeases]) =>
+    analyzeLeaseContinuity(locationCode, locationLeases)
+  );
+
+  const locations = analyzed
+    .filter(location => {
+      if (query.issue === 'gap') return location.gaps.length > 0;
+      if (query.issue === 'overlap') return location.overlaps.length > 0;
+      return true;
+    })
+    .sort((a, b) =>
+      (b.gapDays + b.overlapDays) - (a.gapDays + a.overlapDays) || a.locationCode.localeCompare(b.locationCode)
+    );
+
+  return {
+    summary: {
+      locations: analyzed.length,
+      locationsWithGaps: analyzed.filter(location => location.gaps.length > 0).length,
+      locationsWithOverlaps: analyzed.filter(location => location.overlaps.length > 0).length,
+      gapDays: analyzed.reduce((sum, location) => sum + location.gapDays, 0),
+      overlapDays: analyzed.reduce((sum, location) => sum + location.overlapDays, 0),
+    },
+    locations,
+  };
+}
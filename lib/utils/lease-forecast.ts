@@ -0,0 +1,128 @@
+import {
+  TExpirationTotals,
+  TForecastGroup,
+  TForecastHorizon,
+  TForecastPeriod,
+  TLeaseForecast,
+  TLeaseForecastQuery,
+  TLeaseRecord,
+} from '@/types/property';
+import { toDateString } from './dates';
+
+// Rolling horizons in years; the longest one bounds the whole forecast
+export const FORECAST_HORIZONS = [1, 3, 5, 10];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Calendar quarters (3 months) or years (12 months) covering first..last, clipped to that range
+function buildPeriods(first: string, last: string, months: 3 | 12): TForecastPeriod[] {
+  const periods: TForecastPeriod[] = [];
+  const firstMonth = Number(first.slice(5, 7)) - 1;
+  let cursor = new Date(Number(first.slice(0, 4)), firstMonth - (firstMonth % months), 1);
+
+  while (toDateString(cursor) <= last) {
+    const next = new Date(cursor.getFullYear(), cursor.getMonth() + months, 1);
+    const start = toDateString(cursor);
+    const end = toDateString(new Date(next.getFullYear(), next.getMonth(), 0));
+
+    periods.push({
+      label: months === 12 ? String(cursor.getFullYear()) : `${cursor.getFullYear()} Q${cursor.getMonth() / 3 + 1}`,
+      start: start < first ? first : start,
+      end: end > last ? last : end,
+      leases: 0,
+      rentableSquareFeet: 0,
+    });
+    cursor = next;
+  }
+
+  return periods;
+}
+
+function emptyHorizons(ends: string[]): TForecastHorizon[] {
+  return FORECAST_HORIZONS.map((years, i) => ({ years, end: ends[i], leases: 0, rentableSquareFeet: 0 }));
+}
+
+// Square feet to the cent, without floating point noise from summing
+function roundTotals(totals: TExpirationTotals[]) {
+  totals.forEach(total => {
+    total.rentableSquareFeet = Math.round(total.rentableSquareFeet * 100) / 100;
+  });
+}
+
+// Largest 10-year workload first
+function toGroups(groups: Map<string, TForecastHorizon[]>): TForecastGroup[] {
+  const longest = FORECAST_HORIZONS.length - 1;
+  groups.forEach(roundTotals);
+  return Array.from(groups, ([key, horizons]) => ({ key, horizons }))
+    .sort((a, b) => b.horizons[longest].leases - a.horizons[longest].leases || a.key.localeCompare(b.key));
+}
+
+function matchesQuery(lease: TLeaseRecord, query: TLeaseForecastQuery): boolean {
+  if (query.state && lease.state !== query.state) return false;
+  if (query.gsaRegion && lease.gsaRegion !== query.gsaRegion) return false;
+  if (query.assetType && lease.realPropertyAssetType !== query.assetType) return false;
+  return true;
+}
+
+// Bucket leases expiring after `today` and within the longest horizon by quarter, year, state, GSA region and asset type
+export function buildLeaseForecast(
+  leases: TLeaseRecord[],
+  query: TLeaseForecastQuery = {},
+  today: Date = new Date()
+): TLeaseForecast {
+  const asOf = toDateString(today);
+  const first = toDateString(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1));
+  const horizonEnds = FORECAST_HORIZONS.map(years =>
+    toDateString(new Date(today.getFullYear() + years, today.getMonth(), today.getDate()))
+  );
+  const last = horizonEnds[horizonEnds.length - 1];
+
+  const quarters = buildPeriods(first, last, 3);
+  const years = buildPeriods(first, last, 12);
+  const horizons = emptyHorizons(horizonEnds);
+  const byState = new Map<string, TForecastHorizon[]>();
+  const byGsaRegion = new Map<string, TForecastHorizon[]>();
+  const byAssetType = new Map<string, TForecastHorizon[]>();
+
+  leases.forEach(lease => {
+    const expiration = lease.leaseExpirationDate;
+    if (!DATE_PATTERN.test(expiration) || expiration < first || expiration > last) return;
+    if (!matchesQuery(lease, query)) return;
+
+    const rentableSquareFeet = lease.buildingRentableSquareFeet || 0;
+    const add = (totals: TExpirationTotals) => {
+      totals.leases += 1;
+      totals.rentableSquareFeet += rentableSquareFeet;
+    };
+
+    // Horizons are cumulative: a lease in the 3-year horizon is also in the 5- and 10-year ones
+    const firstHorizon = horizonEnds.findIndex(end => expiration <= end);
+    const addToHorizons = (target: TForecastHorizon[]) => target.slice(firstHorizon).forEach(add);
+
+    add(quarters.find(period => expiration <= period.end)!);
+    add(years.find(period => expiration <= period.end)!);
+    addToHorizons(horizons);
+
+    const groupKeys: [Map<string, TForecastHorizon[]>, string][] = [
+      [byState, lease.state || 'Unknown'],
+      [byGsaRegion, lease.gsaRegion ? String(lease.gsaRegion) : 'Unknown'],
+      [byAssetType, lease.realPropertyAssetType || 'Unknown'],
+    ];
+    groupKeys.forEach(([groups, key]) => {
+      if (!groups.has(key)) groups.set(key, emptyHorizons(horizonEnds));
+      addToHorizons(groups.get(key)!);
+    });
+  });
+
+  [quarters, years, horizons].forEach(roundTotals);
+
+  return {
+    asOf,
+    horizons,
+    quarters,
+    years,
+    byState: toGroups(byState),
+    byGsaRegion: toGroups(byGsaRegion),
+    byAssetType: toGroups(byAssetType),
+  };
+}
@@ -0,0 +1,54 @@
+import Supercluster from 'supercluster';
+import { TBoundingBox, TMapMarker } from '@/types/property';
+
+// Owned/leased tally carried by every point and summed up into its clusters
+export interface TClusterCounts {
+  owned: number;
+  leased: number;
+}
+
+type TPointProperties = TClusterCounts & { property: TMapMarker };
+
+export type TClusterIndex = Supercluster<TPointProperties, TClusterCounts>;
+export type TClusterFeature = ReturnType<TClusterIndex['getClusters']>[number];
+
+// Cluster radius in pixels and the zoom level from which every property gets its own marker
+const CLUSTER_RADIUS = 60;
+const CLUSTER_MAX_ZOOM = 15;
+
+// Build a clustering index over the properties; rebuild it whenever the set changes
+export function createClusterIndex(properties: TMapMarker[]): TClusterIndex {
+  const index: TClusterIndex = new Supercluster({
+    radius: CLUSTER_RADIUS,
+    maxZoom: CLUSTER_MAX_ZOOM,
+    map: props => ({ owned: props.owned, leased: props.leased }),
+    reduce: (accumulated, props) => {
+      accumulated.owned += props.owned;
+      accumulated.leased += props.leased;
+    },
+  });
+
+  index.load(properties.map(property => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: [property.lng, property.lat] },
+    properties: {
+      owned: property.ownedOrLeased === 'F' ? 1 : 0,
+      leased: property.ownedOrLeased === 'L' ? 1 : 0,
+      property,
+    },
+  })));
+
+  return index;
+}
+
+// Clusters and single properties visible in a viewport at a zoom level
+export function getClustersInView(index: TClusterIndex, bounds: TBoundingBox, zoom: number): TClusterFeature[] {
+  return index.getClusters([bounds.minLng, bounds.minLat, bounds.maxLng, bounds.maxLat], Math.round(zoom));
+}
+
+// Cluster icon style: single-colored when every property in it is owned or leased
+export function getClusterType(counts: TClusterCounts): 'mixed' | 'owned' | 'leased' {
+  if (counts.leased === 0) return 'owned';
+  if (counts.owned === 0) return 'leased';
+  return 'mixed';
+}
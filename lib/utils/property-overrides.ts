@@ -0,0 +1,77 @@
+import { TFieldValue, TPropertyOverride } from '@/types/property';
+
+// Building fields data admins can correct from the property page, in form order
+export const EDITABLE_BUILDING_FIELDS = [
+  { field: 'realPropertyAssetName', label: 'Name', type: 'text' },
+  { field: 'streetAddress', label: 'Street Address', type: 'text' },
+  { field: 'city', label: 'City', type: 'text' },
+  { field: 'state', label: 'State', type: 'text' },
+  { field: 'zipCode', label: 'Zip Code', type: 'number' },
+  { field: 'latitude', label: 'Latitude', type: 'number' },
+  { field: 'longitude', label: 'Longitude', type: 'number' },
+  { field: 'buildingRentableSquareFeet', label: 'Rentable Square Feet', type: 'number' },
+  { field: 'availableSquareFeet', label: 'Available Square Feet', type: 'number' },
+  { field: 'constructionDate', label: 'Construction Year', type: 'number' },
+  { field: 'buildingStatus', label: 'Building Status', type: 'text' },
+] as const;
+
+// Lease fields data admins can correct; a change applies to every row of the lease
+export const EDITABLE_LEASE_FIELDS = [
+  { field: 'leaseEffectiveDate', label: 'Effective Date', type: 'date' },
+  { field: 'leaseExpirationDate', label: 'Expiration Date', type: 'date' },
+  { field: 'buildingRentableSquareFeet', label: 'Rentable Square Feet', type: 'number' },
+] as const;
+
+export type TEditableField = (typeof EDITABLE_BUILDING_FIELDS)[number] | (typeof EDITABLE_LEASE_FIELDS)[number];
+
+export const MAX_NOTE_LENGTH = 2000;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+export function isEditableField(field: string, leaseNumber: string | null): boolean {
+  const fields: readonly TEditableField[] = leaseNumber === null ? EDITABLE_BUILDING_FIELDS : EDITABLE_LEASE_FIELDS;
+  return fields.some(item => item.field === field);
+}
+
+// Field names to revert from a request body; null when one is not an editable field
+export function normalizeRevert(value: unknown, leaseNumber: string | null): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(field => typeof field !== 'string' || !isEditableField(field, leaseNumber))) return null;
+  return Array.from(new Set(value as string[]));
+}
+
+// The override of one building field (leaseNumber null) or lease field, if any
+export function findOverride(
+  overrides: TPropertyOverride[],
+  field: string,
+  leaseNumber: string | null = null
+): TPropertyOverride | undefined {
+  return overrides.find(override => override.field === field && override.leaseNumber === leaseNumber);
+}
+
+// Numbers and empty values compare loosely: the sources store a cleared field as '', 0 or null
+export function sameFieldValue(a: TFieldValue | undefined, b: TFieldValue | undefined): boolean {
+  const empty = (value: TFieldValue | undefined) => value === undefined || value === null || value === '';
+  if (empty(a) || empty(b)) return empty(a) && empty(b);
+  if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) < 1e-6;
+  return a === b;
+}
+
+export function formatFieldValue(value: TFieldValue | undefined): string {
+  return value === undefined || value === null || value === '' ? 'Empty' : String(value);
+}
+
+// Lowercase, single-spaced tags without duplicates; null when one is empty or too long, or there are too many
+export function normalizeTags(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) return null;
+  const tags = Array.from(new Set((value as string[]).map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' '))));
+  if (tags.length > MAX_TAGS || tags.some(tag => !tag || tag.length > MAX_TAG_LENGTH)) return null;
+  return tags.sort();
+}
+
+// Trimmed note text, or null when it is empty or too long
+export function normalizeNote(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const body = value.trim();
+  return body && body.length <= MAX_NOTE_LENGTH ? body : null;
+}
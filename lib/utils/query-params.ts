@@ -0,0 +1,304 @@
+import {
+  TAuditQuery,
+  TAuditSource,
+  TBoundingBox,
+  TBuilding,
+  TBuildingQuery,
+  TCoLocationQuery,
+  TDataQualityQuery,
+  TExportLogQuery,
+  TGeoPoint,
+  TLeaseContinuityQuery,
+  TLeaseForecastQuery,
+  TLeaseQuery,
+  TLeaseRecord,
+  TQualityCategory,
+  TSearchQuery,
+  TUtilizationQuery,
+} from '@/types/property';
+import { MAX_SEARCH_LIMIT } from './search';
+import { EXPORT_DATASETS, MAX_LOG_PAGE_SIZE } from './audit-log';
+
+export const MAX_PAGE_SIZE = 10000;
+
+export const DEFAULT_RADIUS_MILES = 25;
+const MAX_RADIUS_MILES = 500;
+
+// Sortable building fields accepted from the query string
+const BUILDING_SORT_FIELDS: (keyof TBuilding)[] = [
+  'locationCode',
+  'realPropertyAssetName',
+  'installationName',
+  'ownedOrLeased',
+  'gsaRegion',
+  'streetAddress',
+  'city',
+  'state',
+  'zipCode',
+  'buildingRentableSquareFeet',
+  'availableSquareFeet',
+  'constructionDate',
+  'congressionalDistrict',
+  'buildingStatus',
+  'realPropertyAssetType',
+];
+
+// Sortable lease fields accepted from the query string
+const LEASE_SORT_FIELDS: (keyof TLeaseRecord)[] = [
+  'locationCode',
+  'realPropertyAssetName',
+  'city',
+  'state',
+  'zipCode',
+  'buildingRentableSquareFeet',
+  'availableSquareFeet',
+  'leaseNumber',
+  'leaseEffectiveDate',
+  'leaseExpirationDate',
+];
+
+const LEASE_STATUSES = ['active', 'expired', 'upcoming'] as const;
+
+const QUALITY_CATEGORIES: TQualityCategory[] = [
+  'invalid-field',
+  'missing-coordinates',
+  'coordinates-outside-state',
+  'zip-state-mismatch',
+  'available-exceeds-rentable',
+  'missing-lease-dates',
+  'expiration-before-effective',
+  'orphan-lease',
+];
+
+// Read a string parameter, treating empty values and 'all' as unset
+function readFilter(searchParams: URLSearchParams, name: string): string | undefined {
+  const value = searchParams.get(name)?.trim();
+  if (!value || value === 'all') return undefined;
+  return value;
+}
+
+function readPositiveInt(searchParams: URLSearchParams, name: string, max?: number): number | undefined {
+  const value = Number.parseInt(searchParams.get(name) || '', 10);
+  if (isNaN(value) || value < 1) return undefined;
+  return max ? Math.min(value, max) : value;
+}
+
+// Read a YYYY-MM-DD parameter, ignoring anything else
+function readDate(searchParams: URLSearchParams, name: string): string | undefined {
+  const value = searchParams.get(name)?.trim();
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) ? value : undefined;
+}
+
+function readSortOrder(searchParams: URLSearchParams): 'asc' | 'desc' | undefined {
+  const value = searchParams.get('sortOrder');
+  return value === 'asc' || value === 'desc' ? value : undefined;
+}
+
+// Read a comma separated list of numbers, e.g. "-77.1,38.8"
+function readNumberList(searchParams: URLSearchParams, name: string, length: number): number[] | undefined {
+  const values = (searchParams.get(name) || '').split(',').map(value => Number.parseFloat(value));
+  if (values.length !== length || values.some(value => !isFinite(value))) return undefined;
+  return values;
+}
+
+const isLatitude = (value: number) => value >= -90 && value <= 90;
+const isLongitude = (value: number) => value >= -180 && value <= 180;
+
+// bbox=minLng,minLat,maxLng,maxLat
+function readBoundingBox(searchParams: URLSearchParams): TBoundingBox | undefined {
+  const values = readNumberList(searchParams, 'bbox', 4);
+  if (!values) return undefined;
+
+  const [minLng, minLat, maxLng, maxLat] = values;
+  if (!isLongitude(minLng) || !isLongitude(maxLng) || !isLatitude(minLat) || !isLatitude(maxLat) || minLat > maxLat) {
+    return undefined;
+  }
+  return { minLng, minLat, maxLng, maxLat };
+}
+
+// near=lat,lng
+function readPoint(searchParams: URLSearchParams, name: string): TGeoPoint | undefined {
+  const values = readNumberList(searchParams, name, 2);
+  if (!values || !isLatitude(values[0]) || !isLongitude(values[1])) return undefined;
+  return { lat: values[0], lng: values[1] };
+}
+
+function readRadiusMiles(searchParams: URLSearchParams): number {
+  const value = Number.parseFloat(searchParams.get('radiusMiles') || '');
+  if (!isFinite(value) || value <= 0) return DEFAULT_RADIUS_MILES;
+  return Math.min(value, MAX_RADIUS_MILES);
+}
+
+// Parse GET /api/buildings query parameters
+export function parseBuildingQuery(searchParams: URLSearchParams): TBuildingQuery {
+  const type = searchParams.get('type');
+  const sortBy = searchParams.get('sortBy') as keyof TBuilding | null;
+  const gsaRegion = Number.parseInt(searchParams.get('gsaRegion') || '', 10);
+  const near = readPoint(searchParams, 'near');
+
+  return {
+    type: type === 'owned' || type === 'leased' ? type : 'all',
+    search: readFilter(searchParams, 'search'),
+    city: readFilter(searchParams, 'city'),
+    state: readFilter(searchParams, 'state'),
+    zipCode: readFilter(searchParams, 'zipCode'),
+    constructionDecade: readFilter(searchParams, 'constructionDecade'),
+    gsaRegion: isNaN(gsaRegion) ? undefined : gsaRegion,
+    assetType: readFilter(searchParams, 'assetType'),
+    status: readFilter(searchParams, 'status'),
+    bbox: readBoundingBox(searchParams),
+    near,
+    radiusMiles: near ? readRadiusMiles(searchParams) : undefined,
+    sortBy: sortBy && BUILDING_SORT_FIELDS.includes(sortBy) ? sortBy : undefined,
+    sortOrder: readSortOrder(searchParams),
+    page: readPositiveInt(searchParams, 'page'),
+    limit: readPositiveInt(searchParams, 'limit', MAX_PAGE_SIZE),
+  };
+}
+
+// Parse GET /api/leases?format=raw query parameters
+export function parseLeaseQuery(searchParams: URLSearchParams): TLeaseQuery {
+  const status = searchParams.get('status');
+  const sortBy = searchParams.get('sortBy') as keyof TLeaseRecord | null;
+
+  return {
+    search: readFilter(searchParams, 'search'),
+    city: readFilter(searchParams, 'city'),
+    state: readFilter(searchParams, 'state'),
+    status: LEASE_STATUSES.find(s => s === status),
+    expiresBy: readDate(searchParams, 'expiresBy'),
+    sortBy: sortBy && LEASE_SORT_FIELDS.includes(sortBy) ? sortBy : undefined,
+    sortOrder: readSortOrder(searchParams),
+    page: readPositiveInt(searchParams, 'page'),
+    limit: readPositiveInt(searchParams, 'limit', MAX_PAGE_SIZE),
+  };
+}
+
+// Parse GET /api/leases/forecast query parameters
+export function parseLeaseForecastQuery(searchParams: URLSearchParams): TLeaseForecastQuery {
+  const gsaRegion = Number.parseInt(searchParams.get('gsaRegion') || '', 10);
+
+  return {
+    state: readFilter(searchParams, 'state'),
+    gsaRegion: isNaN(gsaRegion) ? undefined : gsaRegion,
+    assetType: readFilter(searchParams, 'assetType'),
+  };
+}
+
+// Parse GET /api/leases/continuity query parameters
+export function parseLeaseContinuityQuery(searchParams: URLSearchParams): TLeaseContinuityQuery {
+  const issue = searchParams.get('issue');
+
+  return {
+    locationCode: readFilter(searchParams, 'locationCode'),
+    state: readFilter(searchParams, 'state'),
+    issue: issue === 'gap' || issue === 'overlap' ? issue : undefined,
+  };
+}
+
+// Parse GET /api/data-quality query parameters
+export function parseDataQualityQuery(searchParams: URLSearchParams): TDataQualityQuery {
+  const category = searchParams.get('category') as TQualityCategory | null;
+  const recordType = searchParams.get('recordType');
+
+  return {
+    category: category && QUALITY_CATEGORIES.includes(category) ? category : undefined,
+    recordType: recordType === 'building' || recordType === 'lease' ? recordType : undefined,
+    state: readFilter(searchParams, 'state'),
+    page: readPositiveInt(searchParams, 'page'),
+    limit: readPositiveInt(searchParams, 'limit', MAX_PAGE_SIZE),
+  };
+}
+
+// Parse GET /api/analytics/utilization query parameters
+export function parseUtilizationQuery(searchParams: URLSearchParams): TUtilizationQuery {
+  const gsaRegion = Number.parseInt(searchParams.get('gsaRegion') || '', 10);
+
+  return {
+    state: readFilter(searchParams, 'state'),
+    gsaRegion: isNaN(gsaRegion) ? undefined : gsaRegion,
+    assetType: readFilter(searchParams, 'assetType'),
+    limit: readPositiveInt(searchParams, 'limit', MAX_PAGE_SIZE),
+  };
+}
+
+// Parse GET /api/analytics/co-location query parameters
+export function parseCoLocationQuery(searchParams: URLSearchParams): TCoLocationQuery {
+  const gsaRegion = Number.parseInt(searchParams.get('gsaRegion') || '', 10);
+
+  return {
+    radiusMiles: readRadiusMiles(searchParams),
+    state: readFilter(searchParams, 'state'),
+    gsaRegion: isNaN(gsaRegion) ? undefined : gsaRegion,
+    sortBy: searchParams.get('sortBy') === 'fit' ? 'fit' : 'expiration',
+    page: readPositiveInt(searchParams, 'page'),
+    limit: readPositiveInt(searchParams, 'limit', MAX_PAGE_SIZE),
+  };
+}
+
+// Longer queries are cut off; nothing in the inventory is this long
+const MAX_SEARCH_LENGTH = 200;
+
+// Parse GET /api/search query parameters
+export function parseSearchQuery(searchParams: URLSearchParams): TSearchQuery {
+  return {
+    q: (searchParams.get('q') || '').trim().slice(0, MAX_SEARCH_LENGTH),
+    limit: readPositiveInt(searchParams, 'limit', MAX_SEARCH_LIMIT),
+  };
+}
+
+const AUDIT_SOURCES: TAuditSource[] = ['import', 'ui', 'api', 'sql'];
+
+// Parse GET /api/admin/audit query parameters
+export function parseAuditQuery(searchParams: URLSearchParams): TAuditQuery {
+  const source = searchParams.get('source') as TAuditSource | null;
+
+  return {
+    locationCode: readFilter(searchParams, 'locationCode')?.toUpperCase(),
+    actor: readFilter(searchParams, 'actor'),
+    source: source && AUDIT_SOURCES.includes(source) ? source : undefined,
+    from: readDate(searchParams, 'from'),
+    to: readDate(searchParams, 'to'),
+    page: readPositiveInt(searchParams, 'page'),
+    limit: readPositiveInt(searchParams, 'limit', MAX_LOG_PAGE_SIZE),
+  };
+}
+
+// Parse GET /api/admin/exports query parameters
+export function parseExportLogQuery(searchParams: URLSearchParams): TExportLogQuery {
+  const dataset = readFilter(searchParams, 'dataset');
+
+  return {
+    user: readFilter(searchParams, 'user'),
+    dataset: dataset && (EXPORT_DATASETS as readonly string[]).includes(dataset) ? dataset : undefined,
+    from: readDate(searchParams, 'from'),
+    to: readDate(searchParams, 'to'),
+    page: readPositiveInt(searchParams, 'page'),
+    limit: readPositiveInt(searchParams, 'limit', MAX_LOG_PAGE_SIZE),
+  };
+}
+
+// Format a query value the way the parsers above read it
+function formatParam(key: string, value: unknown): string {
+  if (key === 'bbox') {
+    const { minLng, minLat, maxLng, maxLat } = value as TBoundingBox;
+    return [minLng, minLat, maxLng, maxLat].join(',');
+  }
+  if (key === 'near') {
+    const { lat, lng } = value as TGeoPoint;
+    return [lat, lng].join(',');
+  }
+  return String(value);
+}
+
+// Serialize a building or lease query back into URL parameters, skipping unset values
+export function toSearchParams(query: TBuildingQuery | TLeaseQuery): URLSearchParams {
+  const params = new URLSearchParams();
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '' || value === 'all') return;
+    params.set(key, formatParam(key, value));
+  });
+
+  return params;
+}
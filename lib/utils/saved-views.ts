@@ -0,0 +1,43 @@
+import type { TSavedView } from '@/types/property';
+
+export type { TSavedView };
+
+export const MAX_VIEW_NAME_LENGTH = 100;
+const MAX_VIEW_QUERY_LENGTH = 2000;
+
+// Trimmed view name, or null when it is empty or too long
+export function normalizeViewName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const name = value.trim();
+  return name && name.length <= MAX_VIEW_NAME_LENGTH ? name : null;
+}
+
+// Page key like 'lease-forecast', or null when it is not one
+export function normalizeViewPage(value: unknown): string | null {
+  return typeof value === 'string' && /^[a-z0-9-]{1,50}$/.test(value) ? value : null;
+}
+
+// Query string without its leading '?', or null when it is not a string or too long
+export function normalizeViewQuery(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const query = value.replace(/^\?/, '');
+  return query.length <= MAX_VIEW_QUERY_LENGTH ? query : null;
+}
+
+// Views saved in the browser before they were stored per user. The menu moves them to the server
+// the first time it loads on their page, then clears them.
+const LEGACY_STORAGE_PREFIX = 'propertyViewer.savedViews.';
+
+export function readLegacySavedViews(page: string): Pick<TSavedView, 'name' | 'query'>[] {
+  try {
+    const stored = window.localStorage.getItem(LEGACY_STORAGE_PREFIX + page);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('Error reading saved views from localStorage:', error);
+    return [];
+  }
+}
+
+export function clearLegacySavedViews(page: string) {
+  window.localStorage.removeItem(LEGACY_STORAGE_PREFIX + page);
+}
@@ -0,0 +1,49 @@
+// Abbreviations found in IOLP names and addresses and the word they are searched as.
+// search_normalize() in supabase/schema.sql applies the same list; keep them in step.
+export const SEARCH_ABBREVIATIONS: Record<string, string> = {
+  ST: 'STREET',
+  AVE: 'AVENUE',
+  AV: 'AVENUE',
+  RD: 'ROAD',
+  DR: 'DRIVE',
+  BLVD: 'BOULEVARD',
+  PKWY: 'PARKWAY',
+  HWY: 'HIGHWAY',
+  LN: 'LANE',
+  PL: 'PLACE',
+  CT: 'COURT',
+  CIR: 'CIRCLE',
+  PLZ: 'PLAZA',
+  SQ: 'SQUARE',
+  CTR: 'CENTER',
+  CENTRE: 'CENTER',
+  BLDG: 'BUILDING',
+  BLD: 'BUILDING',
+  FED: 'FEDERAL',
+  FB: 'FEDERAL BUILDING',
+  USCH: 'US COURTHOUSE',
+  FT: 'FORT',
+  MT: 'MOUNT',
+  STE: 'SUITE',
+  N: 'NORTH',
+  S: 'SOUTH',
+  E: 'EAST',
+  W: 'WEST',
+  NE: 'NORTHEAST',
+  NW: 'NORTHWEST',
+  SE: 'SOUTHEAST',
+  SW: 'SOUTHWEST',
+};
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+// Upper-cased words without punctuation, e.g. "Fed. Bldg & Courthouse" -> ["FED", "BLDG", "COURTHOUSE"]
+export function splitSearchWords(value: string | null | undefined): string[] {
+  return (value || '').toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+}
+
+// Words with abbreviations spelled out, so "Washington Ave" and "WASHINGTON AVENUE" compare equal
+export function normalizeSearchWords(value: string | null | undefined): string[] {
+  return splitSearchWords(value).flatMap(word => (SEARCH_ABBREVIATIONS[word] || word).split(' '));
+}
@@ -0,0 +1,117 @@
+import type { TSnapshotData } from '@/lib/data-sources/types';
+import { TBuilding, TDiffChange, TDiffEntry, TLeaseRecord, TSnapshotDiff } from '@/types/property';
+
+type TEntrySource = Pick<TBuilding, 'locationCode' | 'realPropertyAssetName' | 'city' | 'state'>;
+
+function toEntry(key: string, source: TEntrySource): TDiffEntry {
+  return {
+    key,
+    locationCode: source.locationCode,
+    name: source.realPropertyAssetName,
+    city: source.city,
+    state: source.state,
+  };
+}
+
+function toChange<T>(key: string, source: TEntrySource, before: T, after: T): TDiffChange<T> {
+  return { ...toEntry(key, source), before, after };
+}
+
+// Single-line address; case and spacing differences between releases are not a move
+function formatAddress(building: TBuilding): string {
+  const zipCode = building.zipCode ? ` ${building.zipCode}` : '';
+  return `${building.streetAddress}, ${building.city}, ${building.state}${zipCode}`
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toUpperCase();
+}
+
+function byLocation(a: TDiffEntry, b: TDiffEntry): number {
+  return a.locationCode.localeCompare(b.locationCode) || a.key.localeCompare(b.key);
+}
+
+function indexBuildings(buildings: TBuilding[]): Map<string, TBuilding> {
+  return new Map(buildings.map(building => [building.locationCode, building]));
+}
+
+// Leases by location and lease number. A lease listed on several rows counts once, with its latest expiration.
+function indexLeases(leases: TLeaseRecord[]): Map<string, TLeaseRecord> {
+  const index = new Map<string, TLeaseRecord>();
+  leases.forEach(lease => {
+    if (!lease.leaseNumber) return;
+    const key = `${lease.locationCode}|${lease.leaseNumber}`;
+    const existing = index.get(key);
+    if (!existing || lease.leaseExpirationDate > existing.leaseExpirationDate) {
+      index.set(key, lease);
+    }
+  });
+  return index;
+}
+
+// What changed between two IOLP releases, `from` being the older one
+export function diffSnapshots(from: TSnapshotData, to: TSnapshotData): TSnapshotDiff {
+  const diff: TSnapshotDiff = {
+    from: from.snapshot,
+    to: to.snapshot,
+    buildings: { added: [], disposed: [], ownershipChanged: [], resized: [], readdressed: [] },
+    leases: { added: [], extended: [], terminated: [] },
+  };
+
+  const beforeBuildings = indexBuildings(from.buildings);
+  const afterBuildings = indexBuildings(to.buildings);
+
+  afterBuildings.forEach((after, locationCode) => {
+    const before = beforeBuildings.get(locationCode);
+    if (!before) {
+      diff.buildings.added.push(toEntry(locationCode, after));
+      return;
+    }
+
+    if (before.ownedOrLeased !== after.ownedOrLeased) {
+      diff.buildings.ownershipChanged.push(toChange(locationCode, after, before.ownedOrLeased, after.ownedOrLeased));
+    }
+    if (before.buildingRentableSquareFeet !== after.buildingRentableSquareFeet) {
+      diff.buildings.resized.push(
+        toChange(locationCode, after, before.buildingRentableSquareFeet, after.buildingRentableSquareFeet)
+      );
+    }
+    if (formatAddress(before) !== formatAddress(after)) {
+      diff.buildings.readdressed.push(toChange(locationCode, after, formatAddress(before), formatAddress(after)));
+    }
+  });
+
+  beforeBuildings.forEach((before, locationCode) => {
+    if (!afterBuildings.has(locationCode)) {
+      diff.buildings.disposed.push(toEntry(locationCode, before));
+    }
+  });
+
+  const beforeLeases = indexLeases(from.leases);
+  const afterLeases = indexLeases(to.leases);
+
+  afterLeases.forEach((after, key) => {
+    const before = beforeLeases.get(key);
+    if (!before) {
+      diff.leases.added.push(toEntry(after.leaseNumber, after));
+    } else if (after.leaseExpirationDate > before.leaseExpirationDate) {
+      diff.leases.extended.push(
+        toChange(after.leaseNumber, after, before.leaseExpirationDate, after.leaseExpirationDate)
+      );
+    } else if (after.leaseExpirationDate < before.leaseExpirationDate) {
+      diff.leases.terminated.push(
+        toChange<string | null>(after.leaseNumber, after, before.leaseExpirationDate, after.leaseExpirationDate)
+      );
+    }
+  });
+
+  beforeLeases.forEach((before, key) => {
+    if (!afterLeases.has(key)) {
+      diff.leases.terminated.push(toChange<string | null>(before.leaseNumber, before, before.leaseExpirationDate, null));
+    }
+  });
+
+  Object.values(diff.buildings).forEach(entries => entries.sort(byLocation));
+  Object.values(diff.leases).forEach(entries => entries.sort(byLocation));
+
+  return diff;
+}
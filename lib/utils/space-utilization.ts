@@ -0,0 +1,127 @@
+import {
+  TBuilding,
+  TBuildingUtilization,
+  TConsolidationCandidate,
+  TSpaceTotals,
+  TUtilizationGroup,
+  TUtilizationQuery,
+  TUtilizationReport,
+} from '@/types/property';
+
+const DEFAULT_LIST_LIMIT = 25;
+
+// Owned buildings listed per consolidation candidate
+const MAX_OWNED_PER_CANDIDATE = 5;
+
+// Vacancy of one building in whole square feet. A few rows list more available than rentable
+// space (see the data quality report), so available space is capped at the rentable area.
+export function getBuildingUtilization(building: TBuilding): TBuildingUtilization {
+  const rentableSquareFeet = Math.round(Math.max(building.buildingRentableSquareFeet || 0, 0));
+  const availableSquareFeet = Math.min(Math.round(Math.max(building.availableSquareFeet || 0, 0)), rentableSquareFeet);
+
+  return {
+    locationCode: building.locationCode,
+    realPropertyAssetName: building.realPropertyAssetName,
+    ownedOrLeased: building.ownedOrLeased,
+    city: building.city,
+    state: building.state,
+    gsaRegion: building.gsaRegion,
+    realPropertyAssetType: building.realPropertyAssetType,
+    rentableSquareFeet,
+    availableSquareFeet,
+    vacancyRate: rentableSquareFeet > 0 ? (availableSquareFeet / rentableSquareFeet) * 100 : 0,
+  };
+}
+
+function sumSpace(buildings: TBuildingUtilization[]): TSpaceTotals {
+  const rentableSquareFeet = buildings.reduce((sum, building) => sum + building.rentableSquareFeet, 0);
+  const availableSquareFeet = buildings.reduce((sum, building) => sum + building.availableSquareFeet, 0);
+
+  return {
+    buildings: buildings.length,
+    rentableSquareFeet,
+    availableSquareFeet,
+    vacancyRate: rentableSquareFeet > 0 ? (availableSquareFeet / rentableSquareFeet) * 100 : 0,
+  };
+}
+
+function groupBy(
+  buildings: TBuildingUtilization[],
+  keyOf: (building: TBuildingUtilization) => string
+): TUtilizationGroup[] {
+  const groups = new Map<string, TBuildingUtilization[]>();
+  buildings.forEach(building => {
+    const key = keyOf(building);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(building);
+  });
+
+  return Array.from(groups, ([key, rows]) => ({ key, ...sumSpace(rows) }))
+    .sort((a, b) => b.availableSquareFeet - a.availableSquareFeet || a.key.localeCompare(b.key));
+}
+
+const cityKey = (building: TBuildingUtilization) => `${building.city.trim().toUpperCase()}, ${building.state}`;
+
+// Leased buildings with available space in cities where owned buildings have vacancy too,
+// i.e. places where leased space might move into federal space that already sits empty
+export function findConsolidationCandidates(buildings: TBuildingUtilization[]): TConsolidationCandidate[] {
+  const ownedVacancyByCity = new Map<string, TBuildingUtilization[]>();
+  buildings
+    .filter(building => building.ownedOrLeased === 'F' && building.availableSquareFeet > 0)
+    .forEach(building => {
+      const key = cityKey(building);
+      if (!ownedVacancyByCity.has(key)) ownedVacancyByCity.set(key, []);
+      ownedVacancyByCity.get(key)!.push(building);
+    });
+
+  return buildings
+    .filter(building => building.ownedOrLeased === 'L' && building.availableSquareFeet > 0)
+    .filter(building => ownedVacancyByCity.has(cityKey(building)))
+    .map(leased => {
+      const owned = [...ownedVacancyByCity.get(cityKey(leased))!]
+        .sort((a, b) => b.availableSquareFeet - a.availableSquareFeet);
+      return {
+        leased,
+        ownedWithVacancy: owned.slice(0, MAX_OWNED_PER_CANDIDATE),
+        ownedAvailableSquareFeet: owned.reduce((sum, building) => sum + building.availableSquareFeet, 0),
+      };
+    })
+    .sort((a, b) =>
+      b.ownedAvailableSquareFeet - a.ownedAvailableSquareFeet ||
+      b.leased.availableSquareFeet - a.leased.availableSquareFeet
+    );
+}
+
+function matchesQuery(building: TBuilding, query: TUtilizationQuery): boolean {
+  if (query.state && building.state !== query.state) return false;
+  if (query.gsaRegion && building.gsaRegion !== query.gsaRegion) return false;
+  if (query.assetType && building.realPropertyAssetType !== query.assetType) return false;
+  return true;
+}
+
+// Vacancy by state, city, GSA region and asset type, the buildings with the most idle space
+// and the leased buildings that could consolidate into owned vacancy
+export function buildUtilizationReport(
+  buildings: TBuilding[],
+  query: TUtilizationQuery = {}
+): TUtilizationReport {
+  const rows = buildings.filter(building => matchesQuery(building, query)).map(getBuildingUtilization);
+  const limit = query.limit || DEFAULT_LIST_LIMIT;
+  const candidates = findConsolidationCandidates(rows);
+
+  return {
+    totals: sumSpace(rows),
+    owned: sumSpace(rows.filter(building => building.ownedOrLeased === 'F')),
+    leased: sumSpace(rows.filter(building => building.ownedOrLeased === 'L')),
+    byState: groupBy(rows, building => building.state),
+    byCity: groupBy(rows, cityKey),
+    byGsaRegion: groupBy(rows, building => String(building.gsaRegion)),
+    byAssetType: groupBy(rows, building => building.realPropertyAssetType || 'Unknown'),
+    idleBuildings: rows
+      .filter(building => building.availableSquareFeet > 0)
+      .sort((a, b) => b.availableSquareFeet - a.availableSquareFeet || b.vacancyRate - a.vacancyRate)
+      .slice(0, limit),
+    consolidationCandidates: candidates.slice(0, limit),
+    consolidationCandidateCount: candidates.length,
+  };
+}
@@ -0,0 +1,27 @@
+// Alert when a watched lease is within 18, 12 and 6 months of expiring
+export const DEFAULT_ALERT_THRESHOLDS = [540, 365, 180];
+
+const MAX_THRESHOLD_DAYS = 3650;
+
+export const MAX_WATCHLIST_NAME_LENGTH = 100;
+
+// Whole positive days up to ten years, deduplicated and largest first; null when the input is not such a list
+export function normalizeThresholds(value: unknown): number[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  if (value.some(days => !Number.isInteger(days) || days < 1 || days > MAX_THRESHOLD_DAYS)) return null;
+  return Array.from(new Set(value as number[])).sort((a, b) => b - a);
+}
+
+// Trimmed watchlist name, or null when it is empty or too long
+export function normalizeWatchlistName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const name = value.trim();
+  return name && name.length <= MAX_WATCHLIST_NAME_LENGTH ? name : null;
+}
+
+// Smallest threshold a lease expiring in `daysToExpiration` days is within, or null
+export function getCrossedThreshold(daysToExpiration: number | null, thresholds: number[]): number | null {
+  if (daysToExpiration === null || daysToExpiration < 0) return null;
+  const crossed = thresholds.filter(days => daysToExpiration <= days);
+  return crossed.length > 0 ? Math.min(...crossed) : null;
+}
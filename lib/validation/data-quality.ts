@@ -0,0 +1,172 @@
+import { z } from 'zod';
+import {
+  TBuilding,
+  TDataQualityQuery,
+  TDataQualityReport,
+  TLeaseRecord,
+  TQualityCategory,
+  TQualityIssue,
+} from '@/types/property';
+import { BuildingSchema, LeasedPropertySchema } from './property-schema';
+import { isWithinState, isZipInState } from './us-geography';
+
+// Report order and labels of the issue categories
+export const QUALITY_CATEGORIES: Record<TQualityCategory, string> = {
+  'invalid-field': 'Invalid or missing fields',
+  'missing-coordinates': 'Missing coordinates',
+  'coordinates-outside-state': 'Coordinates outside state',
+  'zip-state-mismatch': 'ZIP code not in state',
+  'available-exceeds-rentable': 'Available exceeds rentable sq ft',
+  'missing-lease-dates': 'Missing lease dates',
+  'expiration-before-effective': 'Expires before effective date',
+  'orphan-lease': 'Lease without building',
+};
+
+const DEFAULT_ISSUE_LIMIT = 50;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Address and size fields that lease rows repeat from their building
+type TLocationFields = Pick<
+  TBuilding,
+  'state' | 'zipCode' | 'latitude' | 'longitude' | 'buildingRentableSquareFeet' | 'availableSquareFeet'
+>;
+
+function addIssue(ctx: z.RefinementCtx, category: TQualityCategory, message: string) {
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message, params: { category } });
+}
+
+// The converters store a missing coordinate or ZIP code as 0
+function checkLocation(record: TLocationFields, ctx: z.RefinementCtx) {
+  if (!record.latitude || !record.longitude) {
+    addIssue(ctx, 'missing-coordinates', 'Latitude or longitude is missing or zero');
+  } else if (!isWithinState(record.state, record.latitude, record.longitude)) {
+    addIssue(ctx, 'coordinates-outside-state', `${record.latitude}, ${record.longitude} is outside ${record.state}`);
+  }
+
+  if (!record.zipCode) {
+    addIssue(ctx, 'invalid-field', 'ZIP code is missing');
+  } else if (!isZipInState(record.state, record.zipCode)) {
+    addIssue(ctx, 'zip-state-mismatch', `ZIP ${String(record.zipCode).padStart(5, '0')} is not a ${record.state} ZIP code`);
+  }
+
+  // Whole square feet; the exports carry fractional areas with floating point noise
+  const available = Math.round(record.availableSquareFeet);
+  const rentable = Math.round(record.buildingRentableSquareFeet);
+  if (available > rentable) {
+    addIssue(ctx, 'available-exceeds-rentable', `${available} sq ft available of ${rentable} rentable`);
+  }
+}
+
+const BuildingQualitySchema = BuildingSchema.superRefine(checkLocation);
+
+// Lease checks need the location codes of every building to find orphaned leases
+function createLeaseQualitySchema(locationCodes: Set<string>) {
+  return LeasedPropertySchema.superRefine((lease, ctx) => {
+    checkLocation(lease, ctx);
+
+    if (!DATE_PATTERN.test(lease.leaseEffectiveDate) || !DATE_PATTERN.test(lease.leaseExpirationDate)) {
+      addIssue(ctx, 'missing-lease-dates', 'Effective or expiration date is missing or invalid');
+    } else if (lease.leaseExpirationDate < lease.leaseEffectiveDate) {
+      addIssue(
+        ctx,
+        'expiration-before-effective',
+        `Expires ${lease.leaseExpirationDate}, before it takes effect on ${lease.leaseEffectiveDate}`
+      );
+    }
+
+    if (!locationCodes.has(lease.locationCode)) {
+      addIssue(ctx, 'orphan-lease', `No building with location code ${lease.locationCode}`);
+    }
+  });
+}
+
+// Schema errors become invalid-field issues, refinement errors carry their own category
+function toIssues(error: z.ZodError, base: Omit<TQualityIssue, 'category' | 'message'>): TQualityIssue[] {
+  return error.issues.map(issue => {
+    if (issue.code === z.ZodIssueCode.custom) {
+      return { ...base, category: issue.params?.category as TQualityCategory, message: issue.message };
+    }
+    return { ...base, category: 'invalid-field', message: `${issue.path.join('.')}: ${issue.message}` };
+  });
+}
+
+// Every issue in the inventory, in category order then by location code
+export function validateInventory(buildings: TBuilding[], leases: TLeaseRecord[]): TQualityIssue[] {
+  const issues: TQualityIssue[] = [];
+  const leaseSchema = createLeaseQualitySchema(new Set(buildings.map(building => building.locationCode)));
+
+  buildings.forEach(building => {
+    const result = BuildingQualitySchema.safeParse(building);
+    if (result.success) return;
+    issues.push(...toIssues(result.error, {
+      recordType: 'building',
+      locationCode: building.locationCode,
+      name: building.realPropertyAssetName,
+      city: building.city,
+      state: building.state,
+    }));
+  });
+
+  leases.forEach(lease => {
+    const result = leaseSchema.safeParse(lease);
+    if (result.success) return;
+    issues.push(...toIssues(result.error, {
+      recordType: 'lease',
+      locationCode: lease.locationCode,
+      leaseNumber: lease.leaseNumber,
+      name: lease.realPropertyAssetName,
+      city: lease.city,
+      state: lease.state,
+    }));
+  });
+
+  const order = Object.keys(QUALITY_CATEGORIES);
+  return issues.sort((a, b) =>
+    order.indexOf(a.category) - order.indexOf(b.category) || a.locationCode.localeCompare(b.locationCode)
+  );
+}
+
+// Totals per category over the whole inventory, plus one page of the issues matching the query
+export function buildDataQualityReport(
+  buildings: TBuilding[],
+  leases: TLeaseRecord[],
+  query: TDataQualityQuery = {}
+): TDataQualityReport {
+  const issues = validateInventory(buildings, leases);
+
+  const categories = (Object.keys(QUALITY_CATEGORIES) as TQualityCategory[]).map(category => ({
+    category,
+    label: QUALITY_CATEGORIES[category],
+    buildings: issues.filter(issue => issue.category === category && issue.recordType === 'building').length,
+    leases: issues.filter(issue => issue.category === category && issue.recordType === 'lease').length,
+  }));
+
+  // Rows are counted once however many issues they have; leases are told apart by lease number
+  const rowsWithIssues = (recordType: TQualityIssue['recordType']) => new Set(
+    issues
+      .filter(issue => issue.recordType === recordType)
+      .map(issue => `${issue.locationCode}|${issue.leaseNumber || ''}`)
+  ).size;
+
+  const matching = issues.filter(issue => {
+    if (query.category && issue.category !== query.category) return false;
+    if (query.recordType && issue.recordType !== query.recordType) return false;
+    if (query.state && issue.state !== query.state) return false;
+    return true;
+  });
+
+  const limit = query.limit || DEFAULT_ISSUE_LIMIT;
+  const start = ((query.page || 1) - 1) * limit;
+
+  return {
+    summary: {
+      buildings: buildings.length,
+      leases: leases.length,
+      buildingsWithIssues: rowsWithIssues('building'),
+      leasesWithIssues: rowsWithIssues('lease'),
+      categories,
+    },
+    issues: matching.slice(start, start + limit),
+    total: matching.length,
+  };
+}
@@ -1,4 +1,4 @@
-import { z } from 'zod';
+import { z, ZodError } from 'zod';
 
 export const BuildingSchema = z.object({
   locationCode: z.string(),
@@ -14,7 +14,7 @@ export const BuildingSchema = z.object({
   longitude: z.number(),
   buildingRentableSquareFeet: z.number(),
   availableSquareFeet: z.number(),
-  constructionDate: z.number(),
+  constructionDate: z.number().optional(),
   congressionalDistrict: z.number(),
   congressionalDistrictRepresentativeName: z.string(),
   buildingStatus: z.string(),
@@ -38,8 +38,8 @@ export const LeasedPropertySchema = z.object({
   congressionalDistrict: z.number(),
   congressionalDistrictRepresentative: z.string(),
   leaseNumber: z.string(),
-  leaseEffectiveDate: z.date(),
-  leaseExpirationDate: z.date(),
+  leaseEffectiveDate: z.string(), // YYYY-MM-DD, empty when unknown
+  leaseExpirationDate: z.string(),
   realPropertyAssetType: z.string(),
 });
 
@@ -64,6 +64,33 @@ export const MapMarkerSchema = z.object({
   lng: z.number(),
 });
 
+// Fields that can be corrected in the app, with tighter bounds than the import accepts so a typo
+// cannot move a building off the map or give it negative space
+const building = BuildingSchema.shape;
+export const BuildingEditSchema = z.object({
+  realPropertyAssetName: building.realPropertyAssetName.trim().min(1).max(200),
+  streetAddress: building.streetAddress.trim().max(200),
+  city: building.city.trim().max(100),
+  state: building.state.trim().toUpperCase().regex(/^[A-Z]{2}$/, 'Use the two-letter state code'),
+  zipCode: building.zipCode.int().min(0).max(99999),
+  latitude: building.latitude.min(-90).max(90),
+  longitude: building.longitude.min(-180).max(180),
+  buildingRentableSquareFeet: building.buildingRentableSquareFeet.int().min(0),
+  availableSquareFeet: building.availableSquareFeet.int().min(0),
+  constructionDate: building.constructionDate.unwrap().int().min(1600).max(new Date().getFullYear() + 5).nullable(),
+  buildingStatus: building.buildingStatus.trim().max(50),
+}).partial().strict();
+
+const lease = LeasedPropertySchema.shape;
+export const LeaseEditSchema = z.object({
+  leaseEffectiveDate: lease.leaseEffectiveDate.regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Use YYYY-MM-DD'),
+  leaseExpirationDate: lease.leaseExpirationDate.regex(/^(\d{4}-\d{2}-\d{2})?$/, 'Use YYYY-MM-DD'),
+  buildingRentableSquareFeet: lease.buildingRentableSquareFeet.int().min(0),
+}).partial().strict();
+
+export type TBuildingEdit = z.infer<typeof BuildingEditSchema>;
+export type TLeaseEdit = z.infer<typeof LeaseEditSchema>;
+
 // Validation functions
 export function validateBuilding(data: unknown) {
   return BuildingSchema.safeParse(data);
@@ -81,4 +108,19 @@ export function validateMapMarker(data: unknown) {
   return MapMarkerSchema.safeParse(data);
 }
 
- 
\ No newline at end of file
+ 
+
+export function validateBuildingEdit(data: unknown) {
+  return BuildingEditSchema.safeParse(data);
+}
+
+export function validateLeaseEdit(data: unknown) {
+  return LeaseEditSchema.safeParse(data);
+}
+
+// One line naming each invalid field, for API error responses
+export function formatValidationError(error: ZodError): string {
+  return error.issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
@@ -0,0 +1,106 @@
+// Reference geography for the data quality checks. Bounds are approximate and only meant
+// to catch coordinates that are clearly in the wrong place, not to decide borderline cases.
+
+// [minLat, minLng, maxLat, maxLng]; minLng > maxLng means the box crosses the antimeridian
+type TStateBounds = [number, number, number, number];
+
+export const STATE_BOUNDS: Record<string, TStateBounds> = {
+  AK: [51.2, 172.4, 71.5, -129.9],
+  AL: [30.1, -88.5, 35.0, -84.9],
+  AR: [33.0, -94.7, 36.5, -89.6],
+  AS: [-14.6, -171.1, -11.0, -168.1],
+  AZ: [31.3, -114.9, 37.0, -109.0],
+  CA: [32.5, -124.5, 42.0, -114.1],
+  CO: [37.0, -109.1, 41.0, -102.0],
+  CT: [40.9, -73.8, 42.1, -71.8],
+  DC: [38.8, -77.2, 39.0, -76.9],
+  DE: [38.4, -75.8, 39.9, -75.0],
+  FL: [24.4, -87.7, 31.0, -79.9],
+  GA: [30.3, -85.7, 35.0, -80.8],
+  GU: [13.2, 144.6, 13.7, 145.0],
+  HI: [18.9, -178.4, 28.5, -154.8],
+  IA: [40.4, -96.7, 43.5, -90.1],
+  ID: [42.0, -117.3, 49.0, -111.0],
+  IL: [37.0, -91.6, 42.5, -87.0],
+  IN: [37.8, -88.1, 41.8, -84.8],
+  KS: [37.0, -102.1, 40.0, -94.6],
+  KY: [36.5, -89.6, 39.2, -81.9],
+  LA: [28.9, -94.1, 33.0, -88.8],
+  MA: [41.2, -73.5, 42.9, -69.9],
+  MD: [37.9, -79.5, 39.8, -75.0],
+  ME: [43.0, -71.1, 47.5, -66.9],
+  MI: [41.7, -90.5, 48.3, -82.4],
+  MN: [43.5, -97.3, 49.4, -89.5],
+  MO: [36.0, -95.8, 40.6, -89.1],
+  MP: [14.1, 145.1, 20.6, 145.9],
+  MS: [30.1, -91.7, 35.0, -88.1],
+  MT: [44.4, -116.1, 49.0, -104.0],
+  NC: [33.8, -84.4, 36.6, -75.4],
+  ND: [45.9, -104.1, 49.0, -96.5],
+  NE: [40.0, -104.1, 43.0, -95.3],
+  NH: [42.7, -72.6, 45.3, -70.6],
+  NJ: [38.9, -75.6, 41.4, -73.9],
+  NM: [31.3, -109.1, 37.0, -103.0],
+  NV: [35.0, -120.0, 42.0, -114.0],
+  NY: [40.5, -79.8, 45.0, -71.8],
+  OH: [38.4, -84.9, 42.0, -80.5],
+  OK: [33.6, -103.0, 37.0, -94.4],
+  OR: [42.0, -124.6, 46.3, -116.5],
+  PA: [39.7, -80.6, 42.3, -74.7],
+  PR: [17.8, -68.0, 18.6, -65.2],
+  RI: [41.1, -71.9, 42.0, -71.1],
+  SC: [32.0, -83.4, 35.2, -78.5],
+  SD: [42.5, -104.1, 45.9, -96.4],
+  TN: [35.0, -90.4, 36.7, -81.6],
+  TX: [25.8, -106.7, 36.5, -93.5],
+  UT: [37.0, -114.1, 42.0, -109.0],
+  VA: [36.5, -83.7, 39.5, -75.2],
+  VI: [17.6, -65.1, 18.5, -64.5],
+  VT: [42.7, -73.5, 45.0, -71.5],
+  WA: [45.5, -124.9, 49.0, -116.9],
+  WI: [42.5, -92.9, 47.3, -86.2],
+  WV: [37.2, -82.7, 40.7, -77.7],
+  WY: [41.0, -111.1, 45.0, -104.0],
+};
+
+// Slack around the bounds, in degrees, for geocoding noise on state borders and coasts
+const BOUNDS_MARGIN = 0.1;
+
+// First three ZIP digits assigned to each state: [from, to, state]. A few prefixes are shared.
+const ZIP_PREFIXES: [number, number, string][] = [
+  [5, 5, 'NY'], [6, 7, 'PR'], [8, 8, 'VI'], [9, 9, 'PR'],
+  [10, 27, 'MA'], [28, 29, 'RI'], [30, 38, 'NH'], [39, 49, 'ME'], [50, 59, 'VT'], [55, 55, 'MA'],
+  [60, 69, 'CT'], [70, 89, 'NJ'], [100, 149, 'NY'], [150, 196, 'PA'], [197, 199, 'DE'],
+  [200, 200, 'DC'], [201, 201, 'VA'], [202, 205, 'DC'], [206, 219, 'MD'], [220, 246, 'VA'],
+  [247, 268, 'WV'], [270, 289, 'NC'], [290, 299, 'SC'], [300, 319, 'GA'], [398, 399, 'GA'],
+  [320, 349, 'FL'], [350, 369, 'AL'], [370, 385, 'TN'], [386, 397, 'MS'], [400, 427, 'KY'],
+  [430, 459, 'OH'], [460, 479, 'IN'], [480, 499, 'MI'], [500, 528, 'IA'], [530, 549, 'WI'],
+  [550, 567, 'MN'], [569, 569, 'DC'], [570, 577, 'SD'], [580, 588, 'ND'], [590, 599, 'MT'],
+  [600, 629, 'IL'], [630, 658, 'MO'], [660, 679, 'KS'], [680, 693, 'NE'], [700, 714, 'LA'],
+  [716, 729, 'AR'], [730, 749, 'OK'], [733, 733, 'TX'], [750, 799, 'TX'], [885, 885, 'TX'],
+  [800, 816, 'CO'], [820, 831, 'WY'], [832, 838, 'ID'], [834, 834, 'WY'], [840, 847, 'UT'],
+  [850, 865, 'AZ'], [870, 884, 'NM'], [889, 898, 'NV'], [900, 961, 'CA'], [967, 968, 'HI'],
+  [967, 967, 'AS'], [969, 969, 'GU'], [969, 969, 'MP'], [970, 979, 'OR'], [980, 994, 'WA'],
+  [995, 999, 'AK'],
+];
+
+// Whether a point falls inside the state's bounds; unknown states are never flagged
+export function isWithinState(state: string, latitude: number, longitude: number): boolean {
+  const bounds = STATE_BOUNDS[state];
+  if (!bounds) return true;
+
+  const [minLat, minLng, maxLat, maxLng] = bounds;
+  if (latitude < minLat - BOUNDS_MARGIN || latitude > maxLat + BOUNDS_MARGIN) return false;
+  if (minLng > maxLng) {
+    return longitude >= minLng - BOUNDS_MARGIN || longitude <= maxLng + BOUNDS_MARGIN;
+  }
+  return longitude >= minLng - BOUNDS_MARGIN && longitude <= maxLng + BOUNDS_MARGIN;
+}
+
+// Whether a ZIP code belongs to the state. ZIPs are stored as integers, so 02101 arrives as 2101.
+export function isZipInState(state: string, zipCode: number): boolean {
+  if (!ZIP_PREFIXES.some(([, , prefixState]) => prefixState === state)) return true;
+
+  const prefix = Math.floor(zipCode / 100);
+  return ZIP_PREFIXES.some(([from, to, prefixState]) => prefixState === state && prefix >= from && prefix <= to);
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ROLE_LABELS, hasRole, isPublicPath, requiredRole } from '@/lib/auth/roles';
+import { getSession } from '@/lib/auth/session';
+
+// Every page and API route needs a signed-in user with at least the role requiredRole() names.
+// Pages send anonymous visitors to the sign-in page; API routes answer 401 or 403.
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (isPublicPath(pathname)) return NextResponse.next();
+
+  const isApi = pathname.startsWith('/api/');
+  const user = await getSession(request);
+  if (!user) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+    }
+    const signInUrl = new URL('/sign-in', request.url);
+    signInUrl.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(signInUrl);
+  }
+
+  const role = requiredRole(pathname, request.method);
+  if (!hasRole(user.role, role)) {
+    if (isApi) {
+      return NextResponse.json({ error: `Requires the ${ROLE_LABELS[role]} role` }, { status: 403 });
+    }
+    return NextResponse.rewrite(new URL('/forbidden', request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Next.js assets and the map marker images are public
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|marker-icons/).*)'],
+};
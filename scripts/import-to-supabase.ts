@@ -1,8 +1,19 @@
 import { config } from 'dotenv';
 import { createClient } from '@supabase/supabase-js';
 import fs from 'fs';
-import path from 'path';
-import { parse } from 'csv-parse/sync';
+import os from 'os';
+import { TImportPlan, TStoredRow, planImport } from '../lib/db/import-plan';
+import { toOverrideColumn } from '../lib/db/schema-rows';
+import { sameFieldValue } from '../lib/utils/property-overrides';
+import type { TFieldValue } from '../types/property';
+import {
+  BUILDINGS_CSV_PATH,
+  LEASES_CSV_PATH,
+  getReleaseId,
+  readCSVRecords,
+  transformBuildingRow,
+  transformLeaseRow,
+} from '../lib/db/iolp-csv';
 
 // Load environment variables from .env.local
 config({ path: '.env.local' });
@@ -21,220 +32,284 @@ if (!supabaseUrl || !supabaseServiceKey) {
   process.exit(1);
 }
 
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
+// The audit triggers read these headers, so imported changes are logged as imports by whoever ran them
+const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+  global: {
+    headers: {
+      'x-audit-source': 'import',
+      'x-audit-actor': process.env.AUDIT_ACTOR || os.userInfo().username,
+    },
+  },
+});
+
+// Value following a command line flag, e.g. --snapshot 2025-06-06
+function readArg(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
 
-// Helper function to clean and normalize CSV headers
-function normalizeHeader(header: string): string {
-  return header
-    .toLowerCase()
-    .replace(/\s+/g, '_')
-    .replace(/[^\w_]/g, '')
-    .replace(/_+/g, '_')
-    .replace(/^_|_$/g, '');
+// Report what would change without writing anything
+const dryRun = process.argv.includes('--dry-run');
+// Delete rows that are no longer in the export
+const prune = process.argv.includes('--prune');
+const summaryPath = readArg('--summary');
+
+const buildingsCsvPath = readArg('--buildings') || BUILDINGS_CSV_PATH;
+const leasesCsvPath = readArg('--leases') || LEASES_CSV_PATH;
+// Release date the import is kept under; defaults to the date in the buildings file name
+const snapshotId = readArg('--snapshot') || getReleaseId(buildingsCsvPath);
+
+// Rows per insert/upsert request, and ids per delete request (ids go in the URL)
+const BATCH_SIZE = 1000;
+const DELETE_BATCH_SIZE = 200;
+
+// Row counts for one table. In a dry run, inserts/updates/deletes are what the import would write.
+interface TTableSummary {
+  fileRows: number;
+  inserts: number;
+  updates: number;
+  unchanged: number;
+  stale: number; // Rows in the table but not in the file
+  deletes: number; // Stale rows removed, only with --prune
+  skipped: number; // File rows without a key
 }
 
-// Helper function to parse numbers safely
-function parseNumber(value: any): number | null {
-  if (value === null || value === undefined || value === '') return null;
-  const num = parseFloat(String(value).replace(/,/g, ''));
-  return isNaN(num) ? null : num;
+// Machine-readable result, printed at the end and written to --summary <path>
+interface TImportSummary {
+  ok: boolean;
+  error?: string;
+  dryRun: boolean;
+  prune: boolean;
+  snapshot: string | null;
+  startedAt: string;
+  finishedAt?: string;
+  buildings?: TTableSummary;
+  leases?: TTableSummary;
 }
 
-// Helper function to parse integers safely
-function parseIntSafe(value: any): number | null {
-  if (value === null || value === undefined || value === '') return null;
-  const num = Number.parseInt(String(value).replace(/,/g, ''), 10);
-  return isNaN(num) ? null : num;
+type TImportTable = 'buildings' | 'leased_properties';
+
+// A property_overrides row: a correction made in the app
+interface TOverrideRow {
+  id: string;
+  location_code: string;
+  lease_number: string | null;
+  field: string;
+  value: TFieldValue;
+  source_value: TFieldValue;
 }
 
-// Helper function to parse dates safely
-function parseDate(dateStr: string): string | null {
-  if (!dateStr || dateStr.trim() === '') return null;
-  
-  try {
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime())) return null;
-    return date.toISOString().split('T')[0]; // Return YYYY-MM-DD format
-  } catch (error) {
-    return null;
+// Read every row of a table, a page at a time
+async function fetchAllRows(table: TImportTable): Promise<TStoredRow<any>[]> {
+  const rows: TStoredRow<any>[] = [];
+
+  for (let from = 0; ; from += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .order('id')
+      .range(from, from + BATCH_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Error reading ${table}: ${error.message}`);
+    }
+
+    rows.push(...data);
+    if (data.length < BATCH_SIZE) return rows;
   }
 }
 
-// Transform buildings CSV row to database format
-function transformBuildingRow(row: any): any {
-  return {
-    location_code: row['Location Code'] || '',
-    real_property_asset_name: row['Real Property Asset Name'] || null,
-    installation_name: row['Installation Name'] || null,
-    owned_or_leased: row['Owned or Leased'] === 'L' ? 'L' : 'F',
-    gsa_region: parseIntSafe(row['GSA Region']),
-    street_address: row['Street Address'] || null,
-    city: row['City'] || null,
-    state: row['State'] || null,
-    zip_code: parseIntSafe(row['Zip Code']),
-    latitude: parseNumber(row['Latitude']),
-    longitude: parseNumber(row['Longitude']),
-    building_rentable_square_feet: parseIntSafe(row['Building Rentable Square Feet']),
-    available_square_feet: parseIntSafe(row['Available Square Feet']),
-    construction_date: parseIntSafe(row['Construction Date']),
-    congressional_district: parseIntSafe(row['Congressional District']),
-    congressional_district_representative_name: row['Congressional District Representative Name'] || null,
-    building_status: row['Building Status'] || null,
-    real_property_asset_type: row['Real Property Asset type'] || null,
-  };
-}
+// Every correction made in the app, a page at a time
+async function fetchOverrides(): Promise<TOverrideRow[]> {
+  const rows: TOverrideRow[] = [];
 
-// Transform leased properties CSV row to database format
-function transformLeaseRow(row: any): any {
-  return {
-    location_code: row['Location Code'] || '',
-    real_property_asset_name: row['Real Property Asset Name'] || null,
-    installation_name: row['Installation Name'] || null,
-    federal_leased_code: row['Federal Leased Code'] || null,
-    gsa_region: parseIntSafe(row['GSA Region']),
-    street_address: row['Street Address'] || null,
-    city: row['City'] || null,
-    state: row['State'] || null,
-    zip_code: parseIntSafe(row['Zip Code']),
-    latitude: parseNumber(row['Latitude']),
-    longitude: parseNumber(row['Longitude']),
-    building_rentable_square_feet: parseIntSafe(row['Building Rentable Square Feet']),
-    available_square_feet: parseIntSafe(row['Available Square Feet']),
-    congressional_district: parseIntSafe(row['Congressional District']),
-    congressional_district_representative: row['Congressional District Representative'] || null,
-    lease_number: row['Lease Number'] || null,
-    lease_effective_date: parseDate(row['Lease Effective Date']),
-    lease_expiration_date: parseDate(row['Lease Expiration Date']),
-    real_property_asset_type: row['Real Property Asset type'] || null,
-  };
-}
+  for (let from = 0; ; from += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('property_overrides')
+      .select('id, location_code, lease_number, field, value, source_value')
+      .order('id')
+      .range(from, from + BATCH_SIZE - 1);
 
-// Import buildings data
-async function importBuildings() {
-  console.log('📊 Starting buildings import...');
-  
-  const csvPath = path.join(process.cwd(), 'app/db/2025-6-6-iolp-buildings.csv');
-  
-  if (!fs.existsSync(csvPath)) {
-    console.error(`❌ Buildings CSV file not found: ${csvPath}`);
-    return false;
+    if (error) {
+      throw new Error(`Error reading property_overrides: ${error.message}`);
+    }
+
+    rows.push(...data);
+    if (data.length < BATCH_SIZE) return rows;
   }
+}
 
-  try {
-    const csvContent = fs.readFileSync(csvPath, 'utf-8');
-    const records = parse(csvContent, {
-      columns: true,
-      skip_empty_lines: true,
-      trim: true
+// Write the overrides into the file rows, so planImport sees corrected rows as unchanged and the
+// corrections survive the import. Returns the overrides whose value in the file has changed.
+function applyOverridesToRows(
+  table: TImportTable,
+  rows: any[],
+  overrides: TOverrideRow[]
+): { override: TOverrideRow; sourceValue: TFieldValue }[] {
+  const changedSources: { override: TOverrideRow; sourceValue: TFieldValue }[] = [];
+
+  overrides
+    .filter(override => (override.lease_number === null) === (table === 'buildings'))
+    .forEach(override => {
+      const { column, value } = toOverrideColumn({
+        locationCode: override.location_code,
+        leaseNumber: override.lease_number,
+        field: override.field,
+        value: override.value,
+      });
+      const matches = rows.filter(row =>
+        row.location_code === override.location_code &&
+        (override.lease_number === null || row.lease_number === override.lease_number)
+      );
+      if (matches.length === 0) return;
+
+      const sourceValue = matches[0][column] ?? null;
+      if (!sameFieldValue(sourceValue, override.source_value)) changedSources.push({ override, sourceValue });
+      matches.forEach(row => { row[column] = value; });
     });
 
-    console.log(`📋 Found ${records.length} building records in CSV`);
+  return changedSources;
+}
 
-    // Transform records
-    const transformedRecords = records.map(transformBuildingRow);
-    
-    // Clear existing data
-    console.log('🗑️ Clearing existing buildings data...');
-    const { error: deleteError } = await supabase
-      .from('buildings')
-      .delete()
-      .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all records
+// Record what the new release says for each overridden field; nothing is written in a dry run
+async function updateOverrideSources(changed: { override: TOverrideRow; sourceValue: TFieldValue }[]) {
+  if (dryRun || changed.length === 0) return;
 
-    if (deleteError) {
-      console.error('❌ Error clearing buildings:', deleteError);
-      return false;
+  for (const { override, sourceValue } of changed) {
+    const { error } = await supabase.from('property_overrides').update({ source_value: sourceValue }).eq('id', override.id);
+    if (error) {
+      throw new Error(`Error updating property_overrides: ${error.message}`);
     }
+  }
+  console.log(`✏️ ${changed.length} overridden fields have a new value in the file`);
+}
 
-    // Insert in batches of 1000
-    const batchSize = 1000;
-    let imported = 0;
-    
-    for (let i = 0; i < transformedRecords.length; i += batchSize) {
-      const batch = transformedRecords.slice(i, i + batchSize);
-      
-      const { error } = await supabase
-        .from('buildings')
-        .insert(batch);
-
-      if (error) {
-        console.error(`❌ Error inserting buildings batch ${i}-${i + batch.length}:`, error);
-        return false;
-      }
+// Insert new rows and overwrite changed ones by id; nothing is written in a dry run
+async function applyPlan<T extends object>(table: TImportTable, plan: TImportPlan<T>) {
+  if (dryRun) return;
 
-      imported += batch.length;
-      console.log(`✅ Imported ${imported}/${transformedRecords.length} buildings`);
+  for (let i = 0; i < plan.inserts.length; i += BATCH_SIZE) {
+    const batch = plan.inserts.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase.from(table).insert(batch);
+    if (error) {
+      throw new Error(`Error inserting ${table} batch ${i}-${i + batch.length}: ${error.message}`);
     }
+    console.log(`✅ Inserted ${i + batch.length}/${plan.inserts.length} ${table} rows`);
+  }
 
-    console.log(`🎉 Successfully imported ${imported} buildings!`);
-    return true;
+  for (let i = 0; i < plan.updates.length; i += BATCH_SIZE) {
+    const batch = plan.updates.slice(i, i + BATCH_SIZE);
+    const { error } = await supabase.from(table).upsert(batch);
+    if (error) {
+      throw new Error(`Error updating ${table} batch ${i}-${i + batch.length}: ${error.message}`);
+    }
+    console.log(`✅ Updated ${i + batch.length}/${plan.updates.length} ${table} rows`);
+  }
+}
 
-  } catch (error) {
-    console.error('❌ Error importing buildings:', error);
-    return false;
+// Delete rows missing from the file; nothing is deleted in a dry run
+async function pruneRows(table: TImportTable, rows: TStoredRow<object>[]) {
+  if (dryRun) return;
+
+  for (let i = 0; i < rows.length; i += DELETE_BATCH_SIZE) {
+    const ids = rows.slice(i, i + DELETE_BATCH_SIZE).map(row => row.id);
+    const { error } = await supabase.from(table).delete().in('id', ids);
+    if (error) {
+      throw new Error(`Error deleting ${table} rows: ${error.message}`);
+    }
   }
+  console.log(`🗑️ Deleted ${rows.length} ${table} rows missing from the file`);
 }
 
-// Import leased properties data
-async function importLeasedProperties() {
-  console.log('📊 Starting leased properties import...');
-  
-  const csvPath = path.join(process.cwd(), 'app/db/2025-6-6-iolp-leased-properties.csv');
-  
+function toTableSummary(fileRows: number, plan: TImportPlan<object>): TTableSummary {
+  return {
+    fileRows,
+    inserts: plan.inserts.length,
+    updates: plan.updates.length,
+    unchanged: plan.unchanged,
+    stale: plan.stale.length,
+    deletes: prune ? plan.stale.length : 0,
+    skipped: plan.skipped,
+  };
+}
+
+// Compare one export with its table and write the differences, keeping the app's overrides
+async function syncTable<T extends object>(
+  table: TImportTable,
+  csvPath: string,
+  transform: (record: any) => T,
+  keyOf: (row: T) => string | null,
+  overrides: TOverrideRow[]
+): Promise<{ plan: TImportPlan<T>; summary: TTableSummary }> {
+  console.log(`📊 Reconciling ${table} with ${csvPath}...`);
+
   if (!fs.existsSync(csvPath)) {
-    console.error(`❌ Leased properties CSV file not found: ${csvPath}`);
-    return false;
+    throw new Error(`CSV file not found: ${csvPath}`);
   }
 
-  try {
-    const csvContent = fs.readFileSync(csvPath, 'utf-8');
-    const records = parse(csvContent, {
-      columns: true,
-      skip_empty_lines: true,
-      trim: true
-    });
+  const rows = readCSVRecords(csvPath).map(transform);
+  const changedSources = applyOverridesToRows(table, rows, overrides);
+  const plan = planImport(rows, await fetchAllRows(table), keyOf);
+
+  console.log(`📋 ${rows.length} rows in file: ${plan.inserts.length} new, ${plan.updates.length} changed, ${plan.unchanged} unchanged, ${plan.stale.length} missing from the file`);
+  await applyPlan(table, plan);
+  await updateOverrideSources(changedSources);
+  return { plan, summary: toTableSummary(rows.length, plan) };
+}
+
+// Insert rows for one snapshot table in batches of 1000
+async function insertSnapshotRows(table: 'snapshot_buildings' | 'snapshot_leases', rows: object[]) {
+  const batchSize = 1000;
+
+  for (let i = 0; i < rows.length; i += batchSize) {
+    const batch = rows.slice(i, i + batchSize).map(row => ({ ...row, snapshot_id: snapshotId }));
+    const { error } = await supabase.from(table).insert(batch);
+
+    if (error) {
+      console.error(`❌ Error inserting ${table} batch ${i}-${i + batch.length}:`, error);
+      return false;
+    }
+  }
+
+  return true;
+}
 
-    console.log(`📋 Found ${records.length} lease records in CSV`);
+// Keep a dated copy of this release next to the earlier ones, replacing a previous import of the same date
+async function recordSnapshot() {
+  console.log(`📸 Recording snapshot ${snapshotId}...`);
 
-    // Transform records
-    const transformedRecords = records.map(transformLeaseRow);
-    
-    // Clear existing data
-    console.log('🗑️ Clearing existing leased properties data...');
+  try {
+    const buildingRows = readCSVRecords(buildingsCsvPath).map(transformBuildingRow);
+    const leaseRows = readCSVRecords(leasesCsvPath).map(transformLeaseRow);
+
+    // Deleting the snapshot cascades to its rows
     const { error: deleteError } = await supabase
-      .from('leased_properties')
+      .from('snapshots')
       .delete()
-      .neq('id', '00000000-0000-0000-0000-000000000000'); // Delete all records
+      .eq('id', snapshotId);
 
     if (deleteError) {
-      console.error('❌ Error clearing leased properties:', deleteError);
+      console.error('❌ Error clearing snapshot:', deleteError);
       return false;
     }
 
-    // Insert in batches of 1000
-    const batchSize = 1000;
-    let imported = 0;
-    
-    for (let i = 0; i < transformedRecords.length; i += batchSize) {
-      const batch = transformedRecords.slice(i, i + batchSize);
-      
-      const { error } = await supabase
-        .from('leased_properties')
-        .insert(batch);
-
-      if (error) {
-        console.error(`❌ Error inserting leased properties batch ${i}-${i + batch.length}:`, error);
-        return false;
-      }
+    const { error: insertError } = await supabase
+      .from('snapshots')
+      .insert({ id: snapshotId, building_count: buildingRows.length, lease_count: leaseRows.length });
 
-      imported += batch.length;
-      console.log(`✅ Imported ${imported}/${transformedRecords.length} leased properties`);
+    if (insertError) {
+      console.error('❌ Error creating snapshot:', insertError);
+      return false;
     }
 
-    console.log(`🎉 Successfully imported ${imported} leased properties!`);
+    if (!await insertSnapshotRows('snapshot_buildings', buildingRows)) return false;
+    if (!await insertSnapshotRows('snapshot_leases', leaseRows)) return false;
+
+    console.log(`🎉 Snapshot ${snapshotId} holds ${buildingRows.length} buildings and ${leaseRows.length} leases`);
     return true;
 
   } catch (error) {
-    console.error('❌ Error importing leased properties:', error);
+    console.error('❌ Error recording snapshot:', error);
     return false;
   }
 }
@@ -284,43 +359,85 @@ async function verifyImport() {
   }
 }
 
-// Main import function
+function writeSummary(summary: TImportSummary) {
+  summary.finishedAt = new Date().toISOString();
+  const json = JSON.stringify(summary, null, 2);
+
+  console.log('📋 Import summary:');
+  console.log(json);
+  if (summaryPath) {
+    fs.writeFileSync(summaryPath, `${json}\n`);
+    console.log(`📝 Summary written to ${summaryPath}`);
+  }
+}
+
+// Main import function. Buildings and leases are upserted, so the import can be re-run safely.
 async function main() {
-  console.log('🚀 Starting Supabase data import...');
+  console.log(`🚀 Starting Supabase data import${dryRun ? ' (dry run)' : ''}...`);
   console.log('=====================================');
 
-  // Import buildings first
-  const buildingsSuccess = await importBuildings();
-  if (!buildingsSuccess) {
-    console.error('❌ Buildings import failed. Stopping.');
-    process.exit(1);
-  }
+  const summary: TImportSummary = { ok: false, dryRun, prune, snapshot: snapshotId, startedAt: new Date().toISOString() };
 
-  console.log('');
+  try {
+    if (!dryRun && (!snapshotId || !/^\d{4}-\d{2}-\d{2}$/.test(snapshotId))) {
+      throw new Error('Could not tell the release date from the file name. Pass it with --snapshot YYYY-MM-DD.');
+    }
 
-  // Import leased properties
-  const leasedSuccess = await importLeasedProperties();
-  if (!leasedSuccess) {
-    console.error('❌ Leased properties import failed. Stopping.');
-    process.exit(1);
-  }
+    // Corrections made in the app replace the file values; the snapshot keeps the release as published
+    const overrides = await fetchOverrides();
+    console.log(`✏️ ${overrides.length} overridden fields are kept`);
+
+    // Buildings first, leases reference them by location code
+    const buildings = await syncTable('buildings', buildingsCsvPath, transformBuildingRow, row => row.location_code || null, overrides);
+    console.log('');
+
+    // A lease may be listed on several rows (one per structure); planImport pairs those up
+    const leases = await syncTable(
+      'leased_properties',
+      leasesCsvPath,
+      transformLeaseRow,
+      row => (row.location_code && row.lease_number ? `${row.location_code}|${row.lease_number}` : null),
+      overrides
+    );
+    console.log('');
+
+    summary.buildings = buildings.summary;
+    summary.leases = leases.summary;
+
+    // Leases before buildings, for the same reason
+    if (prune) {
+      await pruneRows('leased_properties', leases.plan.stale);
+      await pruneRows('buildings', buildings.plan.stale);
+      console.log('');
+    }
 
-  console.log('');
+    if (!dryRun) {
+      // Keep this release for release-to-release diffs
+      if (!await recordSnapshot()) {
+        throw new Error('Snapshot recording failed');
+      }
+      console.log('');
 
-  // Verify the import
-  const verifySuccess = await verifyImport();
-  if (!verifySuccess) {
-    console.error('❌ Import verification failed.');
-    process.exit(1);
+      if (!await verifyImport()) {
+        throw new Error('Import verification failed');
+      }
+      console.log('');
+    }
+
+    summary.ok = true;
+    console.log(dryRun ? '🔎 Dry run finished, nothing was written.' : '🎉 All data imported successfully!');
+  } catch (error) {
+    summary.error = error instanceof Error ? error.message : String(error);
+    console.error('❌ Import failed:', summary.error);
   }
 
-  console.log('');
-  console.log('🎉 All data imported successfully!');
   console.log('=====================================');
+  writeSummary(summary);
+  if (!summary.ok) process.exit(1);
 }
 
 // Run the import
 main().catch(error => {
   console.error('❌ Import failed:', error);
   process.exit(1);
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,87 @@
+import { config } from 'dotenv';
+import { createClient } from '@supabase/supabase-js';
+import type { TUserRole } from '../lib/auth/types';
+
+// Load environment variables from .env.local before the auth modules read them
+config({ path: '.env.local' });
+
+const USAGE = 'Usage: npm run set-user -- <email> <viewer|analyst|data-admin> [--password <password>] [--name <name>]';
+
+// Value following a command line flag, e.g. --name "Pat Doe"
+function readArg(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+// Supabase keeps the role in app_metadata, which users cannot change themselves
+async function setSupabaseUser(email: string, role: TUserRole, password?: string, name?: string) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Add NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to your .env.local file');
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+  const userMetadata = name ? { full_name: name } : undefined;
+
+  // The admin API has no lookup by email, so page through the users
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabase.auth.admin.listUsers({ page, perPage: 1000 });
+    if (error) throw error;
+
+    const existing = data.users.find(user => user.email?.toLowerCase() === email);
+    if (existing) {
+      const { error: updateError } = await supabase.auth.admin.updateUserById(existing.id, {
+        app_metadata: { role },
+        ...(password ? { password } : {}),
+        ...(userMetadata ? { user_metadata: userMetadata } : {}),
+      });
+      if (updateError) throw updateError;
+      return false;
+    }
+    if (data.users.length < 1000) break;
+  }
+
+  if (!password) throw new Error(`${email} does not exist yet; give a password to create it`);
+  const { error } = await supabase.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true,
+    app_metadata: { role },
+    user_metadata: userMetadata,
+  });
+  if (error) throw error;
+  return true;
+}
+
+async function main() {
+  const [email, role] = process.argv.slice(2);
+  const password = readArg('--password');
+  const name = readArg('--name');
+
+  const { AUTH_PROVIDER } = await import('../lib/auth');
+  const { parseUserRole } = await import('../lib/auth/roles');
+  const userRole = parseUserRole(role);
+  if (!email || email.startsWith('--') || !userRole) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const key = email.trim().toLowerCase();
+  let created: boolean;
+  if (AUTH_PROVIDER === 'supabase') {
+    created = await setSupabaseUser(key, userRole, password, name);
+  } else {
+    const { saveLocalUser } = await import('../lib/auth/local-auth-provider');
+    created = (await saveLocalUser(key, userRole, password, name)).created;
+  }
+
+  console.log(`✅ ${created ? 'Created' : 'Updated'} ${key} as ${userRole} (${AUTH_PROVIDER} accounts)`);
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -74,9 +74,7 @@ ALTER TABLE leased_properties ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Enable read access for all users" ON buildings FOR SELECT USING (true);
 CREATE POLICY "Enable read access for all users" ON leased_properties FOR SELECT USING (true);
 
--- Optional: Create policies for insert/update if needed for data import
-CREATE POLICY "Enable insert for authenticated users" ON buildings FOR INSERT WITH CHECK (true);
-CREATE POLICY "Enable insert for authenticated users" ON leased_properties FOR INSERT WITH CHECK (true);
+-- Writes are limited to data admins; see the roles section at the end of this file
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -89,4 +87,541 @@ $$ language 'plpgsql';
 
 -- Triggers to automatically update updated_at
 CREATE TRIGGER update_buildings_updated_at BEFORE UPDATE ON buildings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
-CREATE TRIGGER update_leased_properties_updated_at BEFORE UPDATE ON leased_properties FOR EACH ROW EXECUTE FUNCTION update_updated_at_column(); 
\ No newline at end of file
+CREATE TRIGGER update_leased_properties_updated_at BEFORE UPDATE ON leased_properties FOR EACH ROW EXECUTE FUNCTION update_updated_at_column(); 
+-- Spatial search for the map (bounding box and radius queries).
+-- This section can be re-run on an existing database.
+CREATE EXTENSION IF NOT EXISTS cube;
+CREATE EXTENSION IF NOT EXISTS earthdistance;
+
+CREATE INDEX IF NOT EXISTS idx_buildings_coordinates ON buildings(latitude, longitude);
+CREATE INDEX IF NOT EXISTS idx_buildings_earth_location
+  ON buildings USING gist (ll_to_earth(latitude::float8, longitude::float8));
+
+-- Buildings within radius_meters of a point. The earth_box test uses the GiST index,
+-- the earth_distance test trims the box corners to an exact circle.
+CREATE OR REPLACE FUNCTION buildings_within_radius(center_lat float8, center_lng float8, radius_meters float8)
+RETURNS SETOF buildings AS $$
+  SELECT *
+  FROM buildings
+  WHERE earth_box(ll_to_earth(center_lat, center_lng), radius_meters) @> ll_to_earth(latitude::float8, longitude::float8)
+    AND earth_distance(ll_to_earth(center_lat, center_lng), ll_to_earth(latitude::float8, longitude::float8)) <= radius_meters;
+$$ LANGUAGE sql STABLE;
+
+-- Fuzzy search over names, addresses, location codes and lease numbers (GET /api/search).
+-- This section can be re-run on an existing database.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Upper-cased words without punctuation and with abbreviations spelled out, so "Washington Ave"
+-- and "WASHINGTON AVENUE" compare equal. lib/utils/search.ts keeps the same abbreviation list.
+CREATE OR REPLACE FUNCTION search_normalize(value text)
+RETURNS text AS $$
+  SELECT coalesce(string_agg(coalesce(a.expansion, w.word), ' ' ORDER BY w.position), '')
+  FROM regexp_split_to_table(upper(coalesce(value, '')), '[^A-Z0-9]+') WITH ORDINALITY AS w(word, position)
+  LEFT JOIN (VALUES
+    ('ST', 'STREET'), ('AVE', 'AVENUE'), ('AV', 'AVENUE'), ('RD', 'ROAD'), ('DR', 'DRIVE'),
+    ('BLVD', 'BOULEVARD'), ('PKWY', 'PARKWAY'), ('HWY', 'HIGHWAY'), ('LN', 'LANE'), ('PL', 'PLACE'),
+    ('CT', 'COURT'), ('CIR', 'CIRCLE'), ('PLZ', 'PLAZA'), ('SQ', 'SQUARE'), ('CTR', 'CENTER'),
+    ('CENTRE', 'CENTER'), ('BLDG', 'BUILDING'), ('BLD', 'BUILDING'), ('FED', 'FEDERAL'),
+    ('FB', 'FEDERAL BUILDING'), ('USCH', 'US COURTHOUSE'), ('FT', 'FORT'), ('MT', 'MOUNT'),
+    ('STE', 'SUITE'), ('N', 'NORTH'), ('S', 'SOUTH'), ('E', 'EAST'), ('W', 'WEST'),
+    ('NE', 'NORTHEAST'), ('NW', 'NORTHWEST'), ('SE', 'SOUTHEAST'), ('SW', 'SOUTHWEST')
+  ) AS a(abbreviation, expansion) ON a.abbreviation = w.word
+  WHERE w.word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Text a building is searched by. "NA" marks buildings outside an installation in the IOLP exports.
+-- search_normalize is schema-qualified because index builds run with an empty search_path.
+CREATE OR REPLACE FUNCTION building_search_text(
+  asset_name text, street_address text, city text, installation_name text, state text, location_code text
+)
+RETURNS text AS $$
+  SELECT public.search_normalize(concat_ws(' ', asset_name, street_address, city, nullif(installation_name, 'NA')))
+    || ' ' || coalesce(upper(state), '') || ' ' || coalesce(upper(location_code), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_buildings_search ON buildings USING gin (
+  building_search_text(real_property_asset_name, street_address, city, installation_name, state, location_code) gin_trgm_ops
+);
+CREATE INDEX IF NOT EXISTS idx_leased_properties_lease_number_search
+  ON leased_properties USING gin (upper(lease_number) gin_trgm_ops);
+
+-- Buildings and leases containing every word of the query, allowing a typo or two per word, best first.
+-- The <% test with a loose threshold picks candidates from the trigram indexes; each word must then
+-- be at least half similar to some part of the text. Leases are matched on their number only, since
+-- their building already matches on name and address. A location code or lease number equal to the
+-- query ranks above everything else.
+CREATE OR REPLACE FUNCTION search_properties(query text, max_results integer DEFAULT 20)
+RETURNS TABLE (
+  kind text,
+  location_code text,
+  lease_number text,
+  real_property_asset_name text,
+  installation_name text,
+  street_address text,
+  city text,
+  state text,
+  owned_or_leased text,
+  score real
+) AS $$
+  WITH terms AS (
+    SELECT normalized,
+      string_to_array(normalized, ' ') AS words,
+      upper(regexp_replace(query, '[^A-Za-z0-9]+', '', 'g')) AS code
+    FROM (SELECT search_normalize(query) AS normalized) q
+    WHERE normalized <> ''
+  ),
+  documents AS (
+    SELECT 'building'::text AS kind, b.location_code, NULL::text AS lease_number,
+      b.real_property_asset_name, b.installation_name, b.street_address, b.city, b.state, b.owned_or_leased,
+      building_search_text(
+        b.real_property_asset_name, b.street_address, b.city, b.installation_name, b.state, b.location_code
+      ) AS text,
+      upper(b.location_code) AS code
+    FROM buildings b, terms t
+    WHERE t.normalized <% building_search_text(
+        b.real_property_asset_name, b.street_address, b.city, b.installation_name, b.state, b.location_code
+      )
+      OR upper(b.location_code) = t.code
+    UNION ALL
+    SELECT 'lease'::text, l.location_code, l.lease_number,
+      l.real_property_asset_name, l.installation_name, l.street_address, l.city, l.state, 'L'::text,
+      upper(l.lease_number), upper(l.lease_number)
+    FROM leased_properties l, terms t
+    WHERE t.normalized <% upper(l.lease_number) OR upper(l.lease_number) = t.code
+  ),
+  scored AS (
+    SELECT d.*,
+      (SELECT avg(word_similarity(w, d.text)) FROM unnest(t.words) w)
+        + word_similarity(t.normalized, d.text) / 2
+        + CASE WHEN d.code = t.code THEN 10 ELSE 0 END AS score
+    FROM documents d, terms t
+    WHERE d.code = t.code
+      OR NOT EXISTS (SELECT 1 FROM unnest(t.words) w WHERE word_similarity(w, d.text) < 0.5)
+  )
+  SELECT s.kind, s.location_code, s.lease_number, s.real_property_asset_name, s.installation_name,
+    s.street_address, s.city, s.state, s.owned_or_leased, s.score::real
+  FROM scored s
+  ORDER BY s.score DESC, s.kind, s.location_code
+  LIMIT max_results;
+$$ LANGUAGE sql STABLE SET pg_trgm.word_similarity_threshold = 0.3;
+
+
+-- Dated IOLP releases kept side by side so any two can be compared.
+-- scripts/import-to-supabase.ts tags every import with its release date.
+-- This section can be re-run on an existing database.
+CREATE TABLE IF NOT EXISTS snapshots (
+  id TEXT PRIMARY KEY, -- Release date, YYYY-MM-DD
+  building_count INTEGER NOT NULL DEFAULT 0,
+  lease_count INTEGER NOT NULL DEFAULT 0,
+  imported_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The buildings rows of each release
+CREATE TABLE IF NOT EXISTS snapshot_buildings (
+  snapshot_id TEXT NOT NULL REFERENCES snapshots(id) ON DELETE CASCADE,
+  location_code TEXT NOT NULL,
+  real_property_asset_name TEXT,
+  installation_name TEXT,
+  owned_or_leased TEXT CHECK (owned_or_leased IN ('F', 'L')),
+  gsa_region INTEGER,
+  street_address TEXT,
+  city TEXT,
+  state TEXT,
+  zip_code INTEGER,
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  building_rentable_square_feet INTEGER,
+  available_square_feet INTEGER,
+  construction_date INTEGER,
+  congressional_district INTEGER,
+  congressional_district_representative_name TEXT,
+  building_status TEXT,
+  real_property_asset_type TEXT,
+  PRIMARY KEY (snapshot_id, location_code)
+);
+
+-- The leased_properties rows of each release
+CREATE TABLE IF NOT EXISTS snapshot_leases (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  snapshot_id TEXT NOT NULL REFERENCES snapshots(id) ON DELETE CASCADE,
+  location_code TEXT NOT NULL,
+  real_property_asset_name TEXT,
+  installation_name TEXT,
+  federal_leased_code TEXT,
+  gsa_region INTEGER,
+  street_address TEXT,
+  city TEXT,
+  state TEXT,
+  zip_code INTEGER,
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  building_rentable_square_feet INTEGER,
+  available_square_feet INTEGER,
+  congressional_district INTEGER,
+  congressional_district_representative TEXT,
+  lease_number TEXT,
+  lease_effective_date DATE,
+  lease_expiration_date DATE,
+  real_property_asset_type TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_snapshot_leases_snapshot_id ON snapshot_leases(snapshot_id);
+
+ALTER TABLE snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE snapshot_buildings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE snapshot_leases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Enable read access for all users" ON snapshots;
+DROP POLICY IF EXISTS "Enable read access for all users" ON snapshot_buildings;
+DROP POLICY IF EXISTS "Enable read access for all users" ON snapshot_leases;
+CREATE POLICY "Enable read access for all users" ON snapshots FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON snapshot_buildings FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON snapshot_leases FOR SELECT USING (true);
+
+
+-- Watchlists of properties users follow, and the expiration alerts raised for them.
+-- Users are identified by the API routes, which scope every query to one user_id and use the
+-- service role; RLS without policies keeps the public anon key out.
+-- This section can be re-run on an existing database.
+CREATE TABLE IF NOT EXISTS watchlists (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  alert_thresholds INTEGER[] NOT NULL DEFAULT '{540,365,180}', -- Days before expiration, largest first
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS watchlist_items (
+  watchlist_id UUID NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+  location_code TEXT NOT NULL,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (watchlist_id, location_code)
+);
+
+-- One row per watchlist, location, lease and threshold, so an alert is only raised once
+CREATE TABLE IF NOT EXISTS watchlist_notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL,
+  watchlist_id UUID NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+  watchlist_name TEXT NOT NULL,
+  location_code TEXT NOT NULL,
+  real_property_asset_name TEXT,
+  lease_number TEXT NOT NULL,
+  lease_expiration_date DATE NOT NULL,
+  threshold_days INTEGER NOT NULL,
+  days_to_expiration INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  read_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (watchlist_id, location_code, lease_number, threshold_days)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlists_user_id ON watchlists(user_id);
+CREATE INDEX IF NOT EXISTS idx_watchlist_notifications_user_id ON watchlist_notifications(user_id);
+
+ALTER TABLE watchlists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE watchlist_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE watchlist_notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Enable access for the API" ON watchlists;
+DROP POLICY IF EXISTS "Enable access for the API" ON watchlist_items;
+DROP POLICY IF EXISTS "Enable access for the API" ON watchlist_notifications;
+
+
+-- Named filter combinations users save on the dashboards, one name per user and page.
+-- The API routes write them with the service role; RLS without policies keeps everyone else out.
+-- This section can be re-run on an existing database.
+CREATE TABLE IF NOT EXISTS saved_views (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL,
+  page TEXT NOT NULL,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, page, name)
+);
+
+ALTER TABLE saved_views ENABLE ROW LEVEL SECURITY;
+
+
+-- Roles of signed-in users: viewer, analyst or data-admin. Supabase Auth keeps a user's role in
+-- app_metadata, which only the service role can change (scripts/set-user-role.ts sets it).
+-- Requests without a signed-in user, like the API's anon key, are viewers.
+-- This section can be re-run on an existing database.
+CREATE OR REPLACE FUNCTION app_role()
+RETURNS TEXT
+LANGUAGE sql STABLE
+AS $$
+  -- The claims auth.jwt() reads, taken directly so the embedded local database needs no auth schema
+  SELECT COALESCE(NULLIF(current_setting('request.jwt.claims', true), '')::jsonb -> 'app_metadata' ->> 'role', 'viewer');
+$$;
+
+-- Only data admins write the inventory. The import script uses the service role, which bypasses RLS.
+DROP POLICY IF EXISTS "Enable insert for authenticated users" ON buildings;
+DROP POLICY IF EXISTS "Enable insert for authenticated users" ON leased_properties;
+DROP POLICY IF EXISTS "Enable writes for data admins" ON buildings;
+DROP POLICY IF EXISTS "Enable writes for data admins" ON leased_properties;
+CREATE POLICY "Enable writes for data admins" ON buildings FOR ALL
+  USING (app_role() = 'data-admin') WITH CHECK (app_role() = 'data-admin');
+CREATE POLICY "Enable writes for data admins" ON leased_properties FOR ALL
+  USING (app_role() = 'data-admin') WITH CHECK (app_role() = 'data-admin');
+
+
+-- Audit log: every insert, update and delete on buildings and leased_properties, with the row
+-- before and after as JSON, who made the change and where it came from. Rows are never changed.
+-- The actor and source come from, in order:
+--   the app.audit_actor / app.audit_source settings of the transaction (the app's own writes),
+--   the signed-in Supabase user's email,
+--   the x-audit-actor / x-audit-source request headers (the import script sends these),
+--   and finally the database user, with source 'sql' for changes made outside the API.
+-- This section can be re-run on an existing database.
+CREATE TABLE IF NOT EXISTS audit_log (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  table_name TEXT NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+  location_code TEXT,
+  lease_number TEXT,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}', -- Columns an update changed; empty for inserts and deletes
+  before JSONB,
+  after JSONB,
+  actor TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('import', 'ui', 'api', 'sql'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_occurred_at ON audit_log(occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_location_code ON audit_log(location_code);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor ON audit_log(actor);
+
+-- Datasets users downloaded, logged by the API
+CREATE TABLE IF NOT EXISTS export_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id TEXT NOT NULL,
+  user_email TEXT NOT NULL,
+  dataset TEXT NOT NULL,
+  format TEXT NOT NULL,
+  row_count INTEGER,
+  query TEXT NOT NULL DEFAULT '', -- Filters as URL parameters
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_export_log_created_at ON export_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_export_log_user_email ON export_log(user_email);
+
+CREATE OR REPLACE FUNCTION audit_inventory_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER -- Writes audit_log, which API users cannot
+SET search_path = public
+AS $$
+DECLARE
+  -- updated_at changes on every write, so it would only add noise
+  before_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) - 'updated_at' END;
+  after_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) - 'updated_at' END;
+  row_data JSONB := COALESCE(after_row, before_row);
+  claims JSONB := NULLIF(current_setting('request.jwt.claims', true), '')::jsonb;
+  headers JSONB := NULLIF(current_setting('request.headers', true), '')::jsonb;
+  changed TEXT[] := '{}';
+  change_source TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT COALESCE(array_agg(key ORDER BY key), '{}') INTO changed
+    FROM jsonb_object_keys(after_row) AS key
+    WHERE after_row -> key IS DISTINCT FROM before_row -> key;
+
+    -- Re-imports rewrite unchanged rows; those are not changes
+    IF cardinality(changed) = 0 THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  change_source := COALESCE(NULLIF(current_setting('app.audit_source', true), ''), headers ->> 'x-audit-source');
+  IF change_source IS NULL OR change_source NOT IN ('import', 'ui', 'api', 'sql') THEN
+    change_source := CASE WHEN claims IS NULL THEN 'sql' ELSE 'api' END;
+  END IF;
+
+  INSERT INTO audit_log (table_name, operation, location_code, lease_number, changed_fields, before, after, actor, source)
+  VALUES (
+    TG_TABLE_NAME,
+    TG_OP,
+    row_data ->> 'location_code',
+    row_data ->> 'lease_number',
+    changed,
+    before_row,
+    after_row,
+    COALESCE(
+      NULLIF(current_setting('app.audit_actor', true), ''),
+      claims ->> 'email',
+      headers ->> 'x-audit-actor',
+      claims ->> 'sub',
+      session_user
+    ),
+    change_source
+  );
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_buildings ON buildings;
+DROP TRIGGER IF EXISTS audit_leased_properties ON leased_properties;
+CREATE TRIGGER audit_buildings AFTER INSERT OR UPDATE OR DELETE ON buildings
+  FOR EACH ROW EXECUTE FUNCTION audit_inventory_change();
+CREATE TRIGGER audit_leased_properties AFTER INSERT OR UPDATE OR DELETE ON leased_properties
+  FOR EACH ROW EXECUTE FUNCTION audit_inventory_change();
+
+-- Append-only, even for the service role, which bypasses RLS but not triggers
+CREATE OR REPLACE FUNCTION reject_log_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION '% is append-only', TG_TABLE_NAME;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+DROP TRIGGER IF EXISTS audit_log_no_truncate ON audit_log;
+DROP TRIGGER IF EXISTS export_log_append_only ON export_log;
+DROP TRIGGER IF EXISTS export_log_no_truncate ON export_log;
+CREATE TRIGGER audit_log_append_only BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION reject_log_change();
+CREATE TRIGGER audit_log_no_truncate BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT EXECUTE FUNCTION reject_log_change();
+CREATE TRIGGER export_log_append_only BEFORE UPDATE OR DELETE ON export_log
+  FOR EACH ROW EXECUTE FUNCTION reject_log_change();
+CREATE TRIGGER export_log_no_truncate BEFORE TRUNCATE ON export_log
+  FOR EACH STATEMENT EXECUTE FUNCTION reject_log_change();
+
+-- Only the triggers write audit_log and only the API adds exports, with the service role key that
+-- also reads both logs for the admin pages. Neither has a policy, so the anon key cannot reach them.
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE export_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Enable inserts for the API" ON export_log;
+
+
+-- Corrections, notes and tags added in the app. Overrides are written over the imported
+-- buildings and leased_properties values and re-applied by every import, so they survive
+-- new releases; source_value keeps what the latest export says.
+-- This section can be re-run on an existing database.
+CREATE TABLE IF NOT EXISTS property_overrides (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  location_code TEXT NOT NULL,
+  lease_number TEXT, -- NULL for building fields
+  field TEXT NOT NULL, -- TBuilding / TLeaseRecord key, e.g. latitude
+  value JSONB, -- A string, a number or null
+  source_value JSONB,
+  updated_by TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE NULLS NOT DISTINCT (location_code, lease_number, field)
+);
+
+CREATE TABLE IF NOT EXISTS property_notes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  location_code TEXT NOT NULL,
+  body TEXT NOT NULL,
+  author_id TEXT NOT NULL,
+  author_email TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS property_tags (
+  location_code TEXT NOT NULL,
+  tag TEXT NOT NULL,
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (location_code, tag)
+);
+
+CREATE INDEX IF NOT EXISTS idx_property_overrides_location_code ON property_overrides(location_code);
+CREATE INDEX IF NOT EXISTS idx_property_notes_location_code ON property_notes(location_code);
+CREATE INDEX IF NOT EXISTS idx_property_tags_tag ON property_tags(tag);
+
+ALTER TABLE property_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_tags ENABLE ROW LEVEL SECURITY;
+
+-- Everyone may read the annotations. Only the service role writes them, from API routes that check
+-- the user's role first: overrides end up in the inventory, and notes carry their author.
+DROP POLICY IF EXISTS "Enable read access for all users" ON property_overrides;
+DROP POLICY IF EXISTS "Enable access for the API" ON property_notes;
+DROP POLICY IF EXISTS "Enable access for the API" ON property_tags;
+DROP POLICY IF EXISTS "Enable read access for all users" ON property_notes;
+DROP POLICY IF EXISTS "Enable read access for all users" ON property_tags;
+CREATE POLICY "Enable read access for all users" ON property_overrides FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON property_notes FOR SELECT USING (true);
+CREATE POLICY "Enable read access for all users" ON property_tags FOR SELECT USING (true);
+
+-- Write corrections to the inventory in one transaction, so a failure leaves none of them applied.
+-- Each change is {table, column, location_code, lease_number, value}, with lease_number null for
+-- building fields. Returns the values they replaced, in order. With an actor, the audit trigger
+-- records the changes as theirs with the source 'ui'. Edits made in the app also pass the
+-- property_overrides rows to save and the {location_code, lease_number, field} ones to remove,
+-- so a correction and its override are only ever kept together.
+DROP FUNCTION IF EXISTS apply_property_overrides(JSONB, TEXT);
+CREATE OR REPLACE FUNCTION apply_property_overrides(
+  changes JSONB,
+  actor TEXT DEFAULT NULL,
+  save_overrides JSONB DEFAULT '[]',
+  remove_overrides JSONB DEFAULT '[]'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  change JSONB;
+  target TEXT;
+  match TEXT;
+  current_value JSONB;
+  previous JSONB := '[]';
+BEGIN
+  IF actor IS NOT NULL THEN
+    PERFORM set_config('app.audit_actor', actor, true), set_config('app.audit_source', 'ui', true);
+  END IF;
+
+  FOR change IN SELECT * FROM jsonb_array_elements(changes) LOOP
+    target := change ->> 'table';
+    IF target IS NULL OR target NOT IN ('buildings', 'leased_properties') THEN
+      RAISE EXCEPTION 'Cannot correct fields of %', target;
+    END IF;
+    match := CASE WHEN target = 'buildings' THEN 'location_code = $1' ELSE 'location_code = $1 AND lease_number = $2' END;
+
+    EXECUTE format('SELECT to_jsonb(t) -> %L FROM %I t WHERE %s LIMIT 1', change ->> 'column', target, match)
+      INTO current_value
+      USING change ->> 'location_code', change ->> 'lease_number';
+    previous := previous || jsonb_build_array(current_value);
+
+    -- jsonb_populate_record casts the value to the column's type
+    EXECUTE format('UPDATE %1$I SET %2$I = (jsonb_populate_record(NULL::%1$I, $3)).%2$I WHERE %3$s', target, change ->> 'column', match)
+      USING change ->> 'location_code', change ->> 'lease_number', jsonb_build_object(change ->> 'column', change -> 'value');
+  END LOOP;
+
+  DELETE FROM property_overrides o
+  USING jsonb_to_recordset(remove_overrides) AS r(location_code TEXT, lease_number TEXT, field TEXT)
+  WHERE o.location_code = r.location_code AND o.lease_number IS NOT DISTINCT FROM r.lease_number AND o.field = r.field;
+
+  INSERT INTO property_overrides (location_code, lease_number, field, value, source_value, updated_by, updated_at)
+  SELECT s.location_code, s.lease_number, s.field, s.value, s.source_value, s.updated_by, s.updated_at
+  FROM jsonb_to_recordset(save_overrides) AS s(
+    location_code TEXT, lease_number TEXT, field TEXT, value JSONB, source_value JSONB, updated_by TEXT, updated_at TIMESTAMPTZ
+  )
+  ON CONFLICT (location_code, lease_number, field) DO UPDATE SET
+    value = EXCLUDED.value,
+    source_value = EXCLUDED.source_value,
+    updated_by = EXCLUDED.updated_by,
+    updated_at = EXCLUDED.updated_at;
+
+  RETURN previous;
+END;
+$$;
+
+-- Supabase lets its API roles call new functions; only the service role should write corrections.
+-- Those roles do not exist in the local database.
+REVOKE EXECUTE ON FUNCTION apply_property_overrides(JSONB, TEXT, JSONB, JSONB) FROM PUBLIC;
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'anon') THEN
+    REVOKE EXECUTE ON FUNCTION apply_property_overrides(JSONB, TEXT, JSONB, JSONB) FROM anon, authenticated;
+  END IF;
+END;
+$$;
@@ -76,4 +76,616 @@ export interface TDashboardStats {
   averageSquareFootage: number;
   oldestBuilding: string;
   newestBuilding: string;
-} 
\ No newline at end of file
+} 
+// A point in decimal degrees
+export interface TGeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// A map viewport in decimal degrees. minLng > maxLng means the box crosses the antimeridian.
+export interface TBoundingBox {
+  minLng: number;
+  minLat: number;
+  maxLng: number;
+  maxLat: number;
+}
+
+// Query options understood by GET /api/buildings
+export interface TBuildingQuery {
+  type?: 'all' | 'owned' | 'leased';
+  search?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  constructionDecade?: string; // Decade start year (e.g. '1960') or 'unknown'
+  gsaRegion?: number;
+  assetType?: string;
+  status?: string;
+  bbox?: TBoundingBox;
+  near?: TGeoPoint;
+  radiusMiles?: number; // Only applies together with `near`
+  sortBy?: keyof TBuilding;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+// Query options understood by GET /api/leases?format=raw
+export interface TLeaseQuery {
+  search?: string;
+  city?: string;
+  state?: string;
+  status?: 'active' | 'expired' | 'upcoming';
+  expiresBy?: string; // YYYY-MM-DD; leases expiring on or before this date
+  sortBy?: keyof TLeaseRecord;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+}
+
+export interface TBuildingPage {
+  buildings: TBuilding[];
+  total: number;
+  page: number;
+  hasMore: boolean;
+}
+
+export interface TBuildingFilterValues {
+  cities: string[];
+  states: string[];
+  zipCodes: string[];
+  constructionDecades: string[];
+  gsaRegions: number[];
+  assetTypes: string[];
+  statuses: string[];
+}
+
+// Lease row as returned by the API, with status computed from the lease dates
+export interface TLeaseRecord extends Omit<TLeasedProperty, 'leaseEffectiveDate' | 'leaseExpirationDate'> {
+  leaseEffectiveDate: string; // Format: YYYY-MM-DD
+  leaseExpirationDate: string; // Format: YYYY-MM-DD
+  leaseStatus: 'active' | 'expired' | 'upcoming';
+}
+
+// Response of GET /api/buildings/[locationCode]
+export interface TPropertyDetail {
+  building: TBuilding;
+  leases: TLeaseRecord[];
+  overrides: TPropertyOverride[]; // Corrections to the building and its leases
+  tags: string[];
+}
+
+export interface TBuildingStats {
+  totalBuildings: number;
+  totalOwned: number;
+  totalLeased: number;
+  ownedPercentage: number;
+  leasedPercentage: number;
+}
+
+export interface TLeaseStats {
+  totalLeases: number;
+  activeLeases: number;
+  expiredLeases: number;
+  upcomingLeases: number;
+  expiringSoon: number;
+  leaseDataCoverage: number;
+}
+
+// Leases and their rentable square feet expiring in a period
+export interface TExpirationTotals {
+  leases: number;
+  rentableSquareFeet: number;
+}
+
+// A calendar quarter or year of the expiration forecast, e.g. "2027 Q1" or "2027"
+export interface TForecastPeriod extends TExpirationTotals {
+  label: string;
+  start: string; // Format: YYYY-MM-DD, inclusive
+  end: string; // Format: YYYY-MM-DD, inclusive
+}
+
+// Leases expiring from the forecast date through the end of a rolling horizon
+export interface TForecastHorizon extends TExpirationTotals {
+  years: number;
+  end: string; // Format: YYYY-MM-DD, inclusive
+}
+
+// Horizon totals for one state, GSA region or asset type
+export interface TForecastGroup {
+  key: string;
+  horizons: TForecastHorizon[];
+}
+
+// Filters accepted by GET /api/leases/forecast
+export interface TLeaseForecastQuery {
+  state?: string;
+  gsaRegion?: number;
+  assetType?: string;
+}
+
+// Response of GET /api/leases/forecast
+export interface TLeaseForecast {
+  asOf: string; // Format: YYYY-MM-DD
+  horizons: TForecastHorizon[];
+  quarters: TForecastPeriod[];
+  years: TForecastPeriod[];
+  byState: TForecastGroup[];
+  byGsaRegion: TForecastGroup[];
+  byAssetType: TForecastGroup[];
+}
+
+// A stretch of days at a location covered by no lease, or by two at once
+export interface TContinuityIssue {
+  type: 'gap' | 'overlap';
+  start: string; // Format: YYYY-MM-DD, inclusive
+  end: string; // Format: YYYY-MM-DD, inclusive
+  days: number;
+  // The lease before the issue and the one after it (gap) or overlapping it (overlap)
+  leaseNumbers: [string, string];
+}
+
+// How successive leases at one location cover time
+export interface TLeaseContinuity {
+  locationCode: string;
+  leaseCount: number;
+  spanStart: string | null; // Earliest effective date, Format: YYYY-MM-DD
+  spanEnd: string | null; // Latest expiration date, Format: YYYY-MM-DD
+  coveredDays: number;
+  gapDays: number;
+  overlapDays: number;
+  gaps: TContinuityIssue[];
+  overlaps: TContinuityIssue[];
+}
+
+// Filters accepted by GET /api/leases/continuity
+export interface TLeaseContinuityQuery {
+  locationCode?: string;
+  state?: string;
+  issue?: 'gap' | 'overlap';
+}
+
+// Response of GET /api/leases/continuity
+export interface TLeaseContinuityReport {
+  summary: {
+    locations: number;
+    locationsWithGaps: number;
+    locationsWithOverlaps: number;
+    gapDays: number;
+    overlapDays: number;
+  };
+  locations: TLeaseContinuity[];
+}
+
+// A dated IOLP release kept alongside the others
+export interface TSnapshot {
+  id: string; // Release date, Format: YYYY-MM-DD
+  buildingCount: number;
+  leaseCount: number;
+  importedAt?: string; // When a database snapshot was imported
+}
+
+// A building or lease named in a snapshot diff; leases are keyed by lease number, buildings by location code
+export interface TDiffEntry {
+  key: string;
+  locationCode: string;
+  name: string;
+  city: string;
+  state: string;
+}
+
+export interface TDiffChange<T> extends TDiffEntry {
+  before: T;
+  after: T;
+}
+
+// Response of GET /api/snapshots/{a}/diff/{b}
+export interface TSnapshotDiff {
+  from: TSnapshot;
+  to: TSnapshot;
+  buildings: {
+    added: TDiffEntry[];
+    disposed: TDiffEntry[];
+    ownershipChanged: TDiffChange<'F' | 'L'>[];
+    resized: TDiffChange<number>[]; // Rentable square feet
+    readdressed: TDiffChange<string>[];
+  };
+  leases: {
+    added: TDiffEntry[];
+    extended: TDiffChange<string>[]; // Expiration dates
+    // Expiration moved earlier, or after is null when the lease left the inventory
+    terminated: TDiffChange<string | null>[];
+  };
+}
+
+// Problems found by the data quality checks in lib/validation/data-quality.ts
+export type TQualityCategory =
+  | 'invalid-field'
+  | 'missing-coordinates'
+  | 'coordinates-outside-state'
+  | 'zip-state-mismatch'
+  | 'available-exceeds-rentable'
+  | 'missing-lease-dates'
+  | 'expiration-before-effective'
+  | 'orphan-lease';
+
+export interface TQualityIssue {
+  category: TQualityCategory;
+  recordType: 'building' | 'lease';
+  locationCode: string;
+  leaseNumber?: string; // Lease issues only
+  name: string;
+  city: string;
+  state: string;
+  message: string;
+}
+
+export interface TQualityCategorySummary {
+  category: TQualityCategory;
+  label: string;
+  buildings: number; // Building rows with the issue
+  leases: number; // Lease rows with the issue
+}
+
+export interface TDataQualityQuery {
+  category?: TQualityCategory;
+  recordType?: TQualityIssue['recordType'];
+  state?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Response of GET /api/data-quality: totals for every category and one page of matching issues
+export interface TDataQualityReport {
+  summary: {
+    buildings: number;
+    leases: number;
+    buildingsWithIssues: number;
+    leasesWithIssues: number;
+    categories: TQualityCategorySummary[];
+  };
+  issues: TQualityIssue[];
+  total: number;
+}
+
+// Decoded `congressionalDistrict` value: two-digit state FIPS code followed by the district number
+export interface TCongressionalDistrict {
+  code: string; // Four digits, e.g. "1309" or "0408"
+  stateFips: string;
+  state: string; // Postal code, e.g. "GA"
+  district: number; // 0 for at-large seats, 98 for non-voting delegates
+  label: string; // e.g. "GA-09", "WY-AL", "DC-Delegate"
+}
+
+export interface TDistrictSummary extends TCongressionalDistrict {
+  representative: string; // Most common spelling after normalizing, '' when unknown
+  otherRepresentativeNames: string[]; // Different names listed for the district
+  buildings: number;
+  ownedBuildings: number;
+  leasedBuildings: number;
+  ownedSquareFeet: number;
+  leasedSquareFeet: number;
+  leases: number;
+  expiringLeases: number; // Active leases expiring within 12 months
+}
+
+// Response of GET /api/districts/{code}
+export interface TDistrictDetail {
+  summary: TDistrictSummary;
+  buildings: TBuilding[];
+  leases: TLeaseRecord[]; // Soonest expiration first
+}
+
+// Rollup of one GSA region for GET /api/regions. Buildings and leases count toward the region
+// recorded on the row, which in MD, VA and NJ is not always the state's home region.
+export interface TGsaRegionSummary {
+  region: number; // 1-11
+  name: string; // e.g. "Southeast Sunbelt"
+  states: string[]; // Home states of the region, postal codes
+  buildings: number;
+  ownedBuildings: number;
+  leasedBuildings: number;
+  rentableSquareFeet: number;
+  availableSquareFeet: number;
+  vacancyRate: number; // Available share of rentable square feet, 0-100
+  medianBuildingAge: number | null; // Years, null when no construction dates are recorded
+  leases: number;
+  expiringLeases: number; // Active leases expiring within 24 months
+}
+
+// Portfolio metrics of one state, shaded on the map's state layer (GET /api/states)
+export interface TStateMetrics {
+  state: string; // Postal code
+  buildings: number;
+  ownedBuildings: number;
+  leasedBuildings: number;
+  rentableSquareFeet: number;
+  availableSquareFeet: number;
+  leasedShare: number; // Leased share of the buildings, 0-100
+  vacancyRate: number; // Available share of rentable square feet, 0-100
+  activeLeases: number;
+  expiringLeases: number; // Active leases expiring within 24 months
+  expiringLeaseShare: number; // Expiring share of the active leases, 0-100
+}
+
+// Rentable space of a group of buildings and how much of it is available
+export interface TSpaceTotals {
+  buildings: number;
+  rentableSquareFeet: number;
+  availableSquareFeet: number; // Capped at each building's rentable square feet
+  vacancyRate: number; // Available share of rentable square feet, 0-100
+}
+
+// Utilization of one state, city, GSA region or asset type
+export interface TUtilizationGroup extends TSpaceTotals {
+  key: string; // Cities are keyed "CITY, ST"
+}
+
+export interface TBuildingUtilization {
+  locationCode: string;
+  realPropertyAssetName: string;
+  ownedOrLeased: 'F' | 'L';
+  city: string;
+  state: string;
+  gsaRegion: number;
+  realPropertyAssetType: string;
+  rentableSquareFeet: number;
+  availableSquareFeet: number;
+  vacancyRate: number; // 0-100
+}
+
+// A leased building with available space in a city where owned buildings also have vacancy
+export interface TConsolidationCandidate {
+  leased: TBuildingUtilization;
+  ownedWithVacancy: TBuildingUtilization[]; // Most available space first
+  ownedAvailableSquareFeet: number;
+}
+
+// Filters accepted by GET /api/analytics/utilization
+export interface TUtilizationQuery {
+  state?: string;
+  gsaRegion?: number;
+  assetType?: string;
+  limit?: number; // Length of the idle building and consolidation lists
+}
+
+// Response of GET /api/analytics/utilization
+export interface TUtilizationReport {
+  totals: TSpaceTotals;
+  owned: TSpaceTotals;
+  leased: TSpaceTotals;
+  byState: TUtilizationGroup[]; // Most available space first, as are the other groups
+  byCity: TUtilizationGroup[];
+  byGsaRegion: TUtilizationGroup[];
+  byAssetType: TUtilizationGroup[];
+  idleBuildings: TBuildingUtilization[]; // Most available space first
+  consolidationCandidates: TConsolidationCandidate[]; // Most owned vacancy first
+  consolidationCandidateCount: number; // Before the list is cut to `limit`
+}
+
+// An owned building near a lease with enough available space to take the lease in
+export interface TCoLocationCandidate {
+  locationCode: string;
+  realPropertyAssetName: string;
+  city: string;
+  state: string;
+  latitude: number;
+  longitude: number;
+  availableSquareFeet: number;
+  distanceMiles: number;
+  fitPercent: number; // Share of the available space the lease would fill, 0-100
+}
+
+// An active lease and the owned buildings within the search radius that could absorb it
+export interface TCoLocationMatch {
+  locationCode: string;
+  leaseNumber: string;
+  realPropertyAssetName: string;
+  city: string;
+  state: string;
+  gsaRegion: number;
+  latitude: number;
+  longitude: number;
+  rentableSquareFeet: number;
+  leaseExpirationDate: string; // Format: YYYY-MM-DD
+  candidates: TCoLocationCandidate[]; // Best fit first
+}
+
+// Filters accepted by GET /api/analytics/co-location
+export interface TCoLocationQuery {
+  radiusMiles: number;
+  state?: string;
+  gsaRegion?: number;
+  sortBy?: 'expiration' | 'fit';
+  page?: number;
+  limit?: number;
+}
+
+// Response of GET /api/analytics/co-location: one page of leases with at least one candidate
+export interface TCoLocationReport {
+  radiusMiles: number;
+  activeLeases: number; // Active leases matching the filters, with or without candidates
+  matches: TCoLocationMatch[];
+  total: number;
+}
+
+// A named filter combination saved from one of the dashboards, stored server-side per user
+export interface TSavedView {
+  id: string;
+  page: string; // Page it was saved on, e.g. 'all-properties'
+  name: string;
+  query: string; // Query string without the leading '?'
+  createdAt: string;
+}
+
+// A named list of properties a user follows, stored server-side per user
+export interface TWatchlist {
+  id: string;
+  name: string;
+  locationCodes: string[]; // In the order they were added
+  alertThresholds: number[]; // Days before the primary lease expires, largest first
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A watched property with the lease that currently governs it
+export interface TWatchlistEntry {
+  locationCode: string;
+  realPropertyAssetName: string;
+  city: string;
+  state: string;
+  ownedOrLeased: 'F' | 'L' | null; // null when the location code is no longer in the inventory
+  primaryLease: {
+    leaseNumber: string;
+    leaseEffectiveDate: string; // Format: YYYY-MM-DD
+    leaseExpirationDate: string; // Format: YYYY-MM-DD
+    leaseStatus: 'active' | 'expired' | 'upcoming';
+  } | null;
+  daysToExpiration: number | null; // Negative once the lease has expired
+  crossedThreshold: number | null; // Smallest alert threshold the lease is within
+}
+
+// Response of GET /api/watchlists/{id}
+export interface TWatchlistDetail {
+  watchlist: TWatchlist;
+  entries: TWatchlistEntry[];
+}
+
+// In-app alert raised when a watched lease comes within one of its watchlist's thresholds
+export interface TWatchlistNotification {
+  id: string;
+  watchlistId: string;
+  watchlistName: string;
+  locationCode: string;
+  realPropertyAssetName: string;
+  leaseNumber: string;
+  leaseExpirationDate: string; // Format: YYYY-MM-DD
+  thresholdDays: number;
+  daysToExpiration: number; // When the alert was raised
+  createdAt: string;
+  readAt: string | null;
+}
+
+// Query of GET /api/search
+export interface TSearchQuery {
+  q: string;
+  limit?: number;
+}
+
+// One building or lease matching a search, best match first
+export interface TSearchResult {
+  kind: 'building' | 'lease';
+  locationCode: string;
+  leaseNumber: string | null; // Set for lease matches only
+  realPropertyAssetName: string;
+  installationName: string;
+  streetAddress: string;
+  city: string;
+  state: string;
+  ownedOrLeased: 'F' | 'L';
+  score: number; // Higher is better; only comparable within one response
+}
+
+export interface TSearchResponse {
+  query: string;
+  results: TSearchResult[];
+}
+
+// Where a change to the inventory came from
+export type TAuditSource = 'import' | 'ui' | 'api' | 'sql';
+
+// One row change to buildings or leased_properties, recorded by the audit triggers
+export interface TAuditEntry {
+  id: number;
+  occurredAt: string; // ISO timestamp
+  tableName: 'buildings' | 'leased_properties';
+  operation: 'INSERT' | 'UPDATE' | 'DELETE';
+  locationCode: string | null;
+  leaseNumber: string | null;
+  changedFields: string[]; // Columns an update changed; empty for inserts and deletes
+  before: Record<string, unknown> | null; // Database columns; null for inserts
+  after: Record<string, unknown> | null; // Database columns; null for deletes
+  actor: string; // Signed-in user's email, whoever ran the import, or the database user
+  source: TAuditSource;
+}
+
+// Query of GET /api/admin/audit
+export interface TAuditQuery {
+  locationCode?: string;
+  actor?: string; // Part of the actor, any case
+  source?: TAuditSource;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  page?: number;
+  limit?: number;
+}
+
+export type TExportFormat = 'csv' | 'geojson' | 'kml';
+
+// One download of a dataset
+export interface TExportLogEntry {
+  id: string;
+  userId: string;
+  userEmail: string;
+  dataset: string; // See EXPORT_DATASETS
+  format: TExportFormat;
+  rowCount: number | null;
+  query: string; // Filters as URL parameters, '' for none
+  createdAt: string;
+}
+
+// Query of GET /api/admin/exports
+export interface TExportLogQuery {
+  user?: string; // Part of the email, any case
+  dataset?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  page?: number;
+  limit?: number;
+}
+
+// Response of GET /api/admin/audit and /api/admin/exports
+export interface TLogPage<T> {
+  entries: T[];
+  total: number;
+  page: number;
+}
+
+// Value of a corrected field: a string, a number, or null for a cleared one
+export type TFieldValue = string | number | null;
+
+// One field of a building, or of every row of one of its leases
+export interface TFieldChange {
+  locationCode: string;
+  leaseNumber: string | null; // null for building fields
+  field: string; // TBuilding or TLeaseRecord key, see EDITABLE_BUILDING_FIELDS and EDITABLE_LEASE_FIELDS
+  value: TFieldValue;
+}
+
+// A correction made in the app. It replaces the imported value and is written again after every import.
+export interface TPropertyOverride extends TFieldChange {
+  sourceValue: TFieldValue; // What the IOLP export says, as of the last import
+  updatedBy: string; // Email of the user who last set it
+  updatedAt: string; // ISO timestamp
+}
+
+// Corrections to one building (leaseNumber null) or lease, with the overrides they leave behind.
+// Written as a unit, so the inventory never keeps a correction without its override or the reverse.
+export interface TPropertyEdit {
+  locationCode: string;
+  leaseNumber: string | null;
+  changes: TFieldChange[]; // New values, and the source values of reverted fields
+  save: TPropertyOverride[]; // Inserted, or replacing the field's override
+  remove: string[]; // Fields whose override is deleted
+}
+
+// Free-text note on a property, visible to every user
+export interface TPropertyNote {
+  id: string;
+  locationCode: string;
+  body: string;
+  authorId: string;
+  authorEmail: string;
+  createdAt: string;
+}